@@ -9,7 +9,17 @@ import {
 } from "./helpers";
 import { registerIpcHandlers } from "./ipc";
 import {
+  browserBridgeService,
+  clipboardMonitorService,
+  conversionService,
+  historyService,
   startHistoryRecording,
+  startJobPersistence,
+  notificationService,
+  queueService,
+  schedulerService,
+  subscriptionService,
+  trayService,
   UpdateService,
   getFfmpegPath,
   isFfmpegAvailable,
@@ -43,10 +53,8 @@ if (!gotTheLock) {
     }
 
     // In production, someone tried to run a second instance, we should focus our window.
-    if (mainWindow) {
-      if (mainWindow.isMinimized()) mainWindow.restore();
-      mainWindow.focus();
-    }
+    // It may be hidden in the tray
+    trayService.showWindow();
 
     // Protocol handler for Windows
     const url = commandLine.pop();
@@ -96,19 +104,46 @@ if (!gotTheLock) {
   })();
 }
 
+// Downloads keep running in the tray when there is one
 app.on("window-all-closed", () => {
-  app.quit();
+  if (!trayService.hasTray()) app.quit();
+});
+
+app.on("activate", () => {
+  trayService.showWindow();
+});
+
+app.on("before-quit", (event) => {
+  // Held while the user decides about running downloads
+  if (!trayService.shouldQuit()) {
+    event.preventDefault();
+    return;
+  }
+  trayService.destroy();
+  browserBridgeService.stop();
+  historyService.flush();
 });
 
 function initializeServices(window: any) {
   // Initialize Update Service
   UpdateService.getInstance().init(window);
 
+  // Keep running in the system tray when the window closes
+  trayService.init(window);
+
   // Register IPC handlers
   registerIpcHandlers(window);
 
   // Start background services
   startHistoryRecording();
+  startJobPersistence();
+  queueService.start();
+  schedulerService.start();
+  browserBridgeService.start();
+  clipboardMonitorService.sync();
+  notificationService.start();
+  conversionService.start();
+  subscriptionService.start();
 
   // Check binary status
   logBinaryStatus();
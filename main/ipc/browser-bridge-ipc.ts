@@ -0,0 +1,30 @@
+import { ipcMain, BrowserWindow } from "electron";
+import {
+  browserBridgeService,
+  BridgeConfig,
+} from "../services/browser-bridge.service";
+
+export const initializeBrowserBridgeIpc = () => {
+  ipcMain.handle("bridge:get", () => {
+    return browserBridgeService.getStatus();
+  });
+
+  ipcMain.handle(
+    "bridge:update",
+    (_event, config: Partial<Pick<BridgeConfig, "enabled" | "port">>) => {
+      return browserBridgeService.updateConfig(config);
+    },
+  );
+
+  ipcMain.handle("bridge:regenerate-token", () => {
+    return browserBridgeService.regenerateToken();
+  });
+
+  browserBridgeService.on("changed", (status) => {
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send("bridge:changed", status);
+      }
+    }
+  });
+};
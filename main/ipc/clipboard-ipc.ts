@@ -0,0 +1,33 @@
+import { ipcMain, BrowserWindow } from "electron";
+import {
+  clipboardMonitorService,
+  ClipboardLink,
+} from "../services/clipboard-monitor.service";
+import { browserBridgeService } from "../services/browser-bridge.service";
+import { ApiResponse } from "../services/downloader/types";
+
+export const initializeClipboardIpc = () => {
+  // Quick download of an offered link, routed like extension requests
+  ipcMain.handle(
+    "clipboard:download",
+    async (_event, url: string): Promise<ApiResponse<boolean>> => {
+      try {
+        await browserBridgeService.routeDownload({ url });
+        return { success: true, data: true };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    },
+  );
+
+  clipboardMonitorService.on("link", (link: ClipboardLink) => {
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send("clipboard:link", link);
+      }
+    }
+  });
+};
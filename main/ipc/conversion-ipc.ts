@@ -0,0 +1,38 @@
+import { ipcMain } from "electron";
+import {
+  conversionService,
+  ConversionPreset,
+} from "../services/conversion.service";
+import { historyService } from "../services/history.service";
+
+export const initializeConversionIpc = () => {
+  ipcMain.handle("conversion:get-presets", () => {
+    return conversionService.getPresets();
+  });
+
+  ipcMain.handle(
+    "conversion:save-preset",
+    (_event, preset: Partial<ConversionPreset>) => {
+      conversionService.savePreset(preset);
+      return conversionService.getPresets();
+    },
+  );
+
+  ipcMain.handle("conversion:delete-preset", (_event, id: string) => {
+    conversionService.deletePreset(id);
+    return conversionService.getPresets();
+  });
+
+  // Convert a finished download from history
+  ipcMain.handle(
+    "conversion:convert",
+    async (
+      _event,
+      { historyId, presetId }: { historyId: string; presetId: string },
+    ) => {
+      const record = await historyService.getRecord(historyId);
+      if (!record) throw new Error("Download not found in history");
+      return conversionService.convertFile(record.path, presetId);
+    },
+  );
+};
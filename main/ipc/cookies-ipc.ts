@@ -0,0 +1,32 @@
+import { ipcMain } from "electron";
+import { cookiesService } from "../services/cookies.service";
+
+export const initializeCookiesIpc = () => {
+  ipcMain.handle("cookies:get", () => {
+    return cookiesService.getProfiles();
+  });
+
+  ipcMain.handle(
+    "cookies:save",
+    (
+      _event,
+      { name, host, content }: { name: string; host: string; content: string },
+    ) => {
+      cookiesService.saveProfile(name, host, content);
+      return cookiesService.getProfiles();
+    },
+  );
+
+  ipcMain.handle(
+    "cookies:import-file",
+    async (_event, { name, host }: { name: string; host: string }) => {
+      await cookiesService.importFile(name, host);
+      return cookiesService.getProfiles();
+    },
+  );
+
+  ipcMain.handle("cookies:delete", (_event, id: string) => {
+    cookiesService.deleteProfile(id);
+    return cookiesService.getProfiles();
+  });
+};
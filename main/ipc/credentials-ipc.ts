@@ -0,0 +1,28 @@
+import { ipcMain } from "electron";
+import { credentialsService } from "../services/credentials.service";
+
+export const initializeCredentialsIpc = () => {
+  ipcMain.handle("credentials:get", () => {
+    return credentialsService.getState();
+  });
+
+  ipcMain.handle(
+    "credentials:save",
+    (
+      _event,
+      {
+        host,
+        username,
+        password,
+      }: { host: string; username: string; password: string },
+    ) => {
+      credentialsService.saveCredential(host, username, password);
+      return credentialsService.getState();
+    },
+  );
+
+  ipcMain.handle("credentials:delete", (_event, id: string) => {
+    credentialsService.deleteCredential(id);
+    return credentialsService.getState();
+  });
+};
@@ -3,7 +3,8 @@
  * Handles IPC communication for download operations between main and renderer
  */
 
-import { ipcMain, BrowserWindow } from "electron";
+import { ipcMain, BrowserWindow, dialog } from "electron";
+import { pathToFileURL } from "url";
 import {
   DownloadIpcChannels,
   VideoInfo,
@@ -23,8 +24,16 @@ import { videoDownloader } from "../services/downloader/video/video-download.ser
 import {
   directDownloader,
   detectLinkType,
+  grabLinks,
+  probeLinks,
+  parseLinkList,
+  importLinkFile,
+  GrabbedLink,
+  ImportedLink,
+  LinkProbe,
   LinkTypeResult,
 } from "../services/downloader/direct";
+import { conversionService } from "../services/conversion.service";
 import {
   ensureYtDlp,
   getBinaryInfo,
@@ -181,6 +190,11 @@ export function initializeDownloadIpc(): void {
           success = await directDownloader.resumeDownload(downloadId);
         }
 
+        // Then conversion jobs
+        if (!success) {
+          success = conversionService.resumeDownload(downloadId);
+        }
+
         return { success, data: success };
       } catch (error) {
         return {
@@ -206,6 +220,78 @@ export function initializeDownloadIpc(): void {
           success = await directDownloader.cancelDownload(downloadId);
         }
 
+        // Then conversion jobs
+        if (!success) {
+          success = conversionService.cancelDownload(downloadId);
+        }
+
+        return { success, data: success };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    },
+  );
+
+  /**
+   * Change the speed limit of a download (null = unlimited)
+   */
+  ipcMain.handle(
+    DownloadIpcChannels.SET_SPEED_LIMIT,
+    async (
+      _,
+      { downloadId, limit }: { downloadId: string; limit: string | null },
+    ): Promise<ApiResponse<boolean>> => {
+      try {
+        // Try video downloader first
+        let success = videoDownloader.setSpeedLimit(downloadId, limit);
+
+        // If not found, try direct downloader
+        if (!success) {
+          success = await directDownloader.setSpeedLimit(downloadId, limit);
+        }
+
+        return { success, data: success };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    },
+  );
+
+  /**
+   * Choose which files of a torrent to download
+   */
+  ipcMain.handle(
+    DownloadIpcChannels.SELECT_FILES,
+    async (
+      _,
+      { downloadId, indexes }: { downloadId: string; indexes: number[] },
+    ): Promise<ApiResponse<boolean>> => {
+      try {
+        const success = await directDownloader.selectFiles(downloadId, indexes);
+        return { success, data: success };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    },
+  );
+
+  /**
+   * Stop seeding a completed torrent (files are kept)
+   */
+  ipcMain.handle(
+    DownloadIpcChannels.STOP_SEEDING,
+    async (_, downloadId: string): Promise<ApiResponse<boolean>> => {
+      try {
+        const success = await directDownloader.stopSeeding(downloadId);
         return { success, data: success };
       } catch (error) {
         return {
@@ -216,6 +302,62 @@ export function initializeDownloadIpc(): void {
     },
   );
 
+  /**
+   * Retry a failed video download with a cookie profile
+   */
+  ipcMain.handle(
+    DownloadIpcChannels.RETRY_WITH_COOKIES,
+    async (
+      _,
+      { downloadId, profileId }: { downloadId: string; profileId: string },
+    ): Promise<ApiResponse<boolean>> => {
+      try {
+        const success = await videoDownloader.retryWithCookies(
+          downloadId,
+          profileId,
+        );
+        return { success, data: success };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    },
+  );
+
+  /**
+   * Pick a local .torrent / .meta4 file, returned as a file:// URL
+   */
+  ipcMain.handle(
+    DownloadIpcChannels.OPEN_TORRENT_FILE,
+    async (): Promise<ApiResponse<string | null>> => {
+      try {
+        const result = await dialog.showOpenDialog({
+          properties: ["openFile"],
+          filters: [
+            {
+              name: "Torrent / Metalink",
+              extensions: ["torrent", "meta4", "metalink"],
+            },
+          ],
+        });
+        if (result.canceled || result.filePaths.length === 0) {
+          return { success: true, data: null };
+        }
+        return {
+          success: true,
+          data: pathToFileURL(result.filePaths[0]).toString(),
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    },
+  );
+
   /**
    * Get download status
    */
@@ -253,9 +395,14 @@ export function initializeDownloadIpc(): void {
       try {
         const videoItems = videoDownloader.getAllDownloads();
         const directItems = directDownloader.getAllDownloads();
+        const conversionItems = conversionService.getAllDownloads();
 
         // Combine all items and sort by creation date (descending)
-        const allItems = [...videoItems, ...directItems].sort((a, b) => {
+        const allItems = [
+          ...videoItems,
+          ...directItems,
+          ...conversionItems,
+        ].sort((a, b) => {
           return (
             new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
           );
@@ -280,7 +427,11 @@ export function initializeDownloadIpc(): void {
       try {
         const videoCount = videoDownloader.clearCompleted();
         const directCount = await directDownloader.clearCompleted();
-        return { success: true, data: videoCount + directCount };
+        const conversionCount = conversionService.clearCompleted();
+        return {
+          success: true,
+          data: videoCount + directCount + conversionCount,
+        };
       } catch (error) {
         return {
           success: false,
@@ -509,6 +660,90 @@ export function initializeDownloadIpc(): void {
     },
   );
 
+  /**
+   * List the links of a web page for the link grabber
+   */
+  ipcMain.handle(
+    DownloadIpcChannels.GRAB_LINKS,
+    async (_, url: string): Promise<ApiResponse<GrabbedLink[]>> => {
+      try {
+        const links = await grabLinks(url);
+        return { success: true, data: links };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    },
+  );
+
+  /**
+   * Size and type of grabbed links from HEAD requests
+   */
+  ipcMain.handle(
+    DownloadIpcChannels.PROBE_LINKS,
+    async (_, urls: string[]): Promise<ApiResponse<LinkProbe[]>> => {
+      try {
+        const probes = await probeLinks(urls);
+        return { success: true, data: probes };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    },
+  );
+
+  /**
+   * Read pasted links with their options, expanding URL patterns
+   */
+  ipcMain.handle(
+    DownloadIpcChannels.PARSE_LINKS,
+    async (_, text: string): Promise<ApiResponse<ImportedLink[]>> => {
+      try {
+        return { success: true, data: parseLinkList(text) };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    },
+  );
+
+  /**
+   * Pick a .txt, .csv, bookmark or aria2 input file and read its links
+   */
+  ipcMain.handle(
+    DownloadIpcChannels.IMPORT_LINK_FILE,
+    async (): Promise<ApiResponse<ImportedLink[] | null>> => {
+      try {
+        const result = await dialog.showOpenDialog({
+          properties: ["openFile"],
+          filters: [
+            {
+              name: "Link Lists",
+              extensions: ["txt", "csv", "tsv", "html", "htm"],
+            },
+            { name: "All Files", extensions: ["*"] },
+          ],
+        });
+        if (result.canceled || result.filePaths.length === 0) {
+          return { success: true, data: null };
+        }
+        const links = await importLinkFile(result.filePaths[0]);
+        return { success: true, data: links };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    },
+  );
+
   /**
    * Start a direct download (using aria2)
    */
@@ -645,5 +880,26 @@ export function initializeDownloadIpc(): void {
     sendToRenderer(DownloadIpcChannels.DOWNLOAD_REMOVED, downloadId);
   });
 
+  // Forward conversion job events to renderer
+  conversionService.on("progress", (progress: DownloadProgress) => {
+    sendToRenderer(DownloadIpcChannels.DOWNLOAD_PROGRESS, progress);
+  });
+
+  conversionService.on("complete", (item: DownloadItem) => {
+    sendToRenderer(DownloadIpcChannels.DOWNLOAD_COMPLETE, item);
+  });
+
+  conversionService.on("error", (item: DownloadItem, error: string) => {
+    sendToRenderer(DownloadIpcChannels.DOWNLOAD_ERROR, { item, error });
+  });
+
+  conversionService.on("status-changed", (item: DownloadItem) => {
+    sendToRenderer(DownloadIpcChannels.DOWNLOAD_STATUS_CHANGED, item);
+  });
+
+  conversionService.on("item-removed", (downloadId: string) => {
+    sendToRenderer(DownloadIpcChannels.DOWNLOAD_REMOVED, downloadId);
+  });
+
   console.log("Download IPC handlers initialized");
 }
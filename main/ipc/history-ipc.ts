@@ -1,10 +1,15 @@
 import { ipcMain } from "electron";
-import { historyService } from "../services/history.service";
+import { historyService, HistoryQuery } from "../services/history.service";
 
 export const initializeHistoryIpc = () => {
-  // Get history
-  ipcMain.handle("history:get", () => {
-    return historyService.getHistory();
+  // Get a page of history matching the search and filters
+  ipcMain.handle("history:get", (_, query: HistoryQuery | null) => {
+    return historyService.getHistory(query || {});
+  });
+
+  // Totals, per type, per site and per day
+  ipcMain.handle("history:stats", () => {
+    return historyService.getStats();
   });
 
   // Delete record
@@ -14,8 +19,8 @@ export const initializeHistoryIpc = () => {
   });
 
   // Clear all history
-  ipcMain.handle("history:clear", () => {
-    historyService.clearHistory();
+  ipcMain.handle("history:clear", async () => {
+    await historyService.clearHistory();
     return true;
   });
 
@@ -4,6 +4,17 @@ import { registerShellIpc } from "./shell-ipc";
 import { initializeDownloadIpc } from "./download-ipc";
 import { initializeHistoryIpc } from "./history-ipc";
 import { initializeSettingsIpc } from "./settings-ipc";
+import { initializeQueueIpc } from "./queue-ipc";
+import { initializeBrowserBridgeIpc } from "./browser-bridge-ipc";
+import { initializeClipboardIpc } from "./clipboard-ipc";
+import { initializeConversionIpc } from "./conversion-ipc";
+import { initializeCookiesIpc } from "./cookies-ipc";
+import { initializeCredentialsIpc } from "./credentials-ipc";
+import { initializeNetworkPolicyIpc } from "./network-policy-ipc";
+import { initializeProxyIpc } from "./proxy-ipc";
+import { initializeSchedulerIpc } from "./scheduler-ipc";
+import { initializeSubscriptionIpc } from "./subscription-ipc";
+import { initializeTransferIpc } from "./transfer-ipc";
 import { registerAppIpc } from "./app-ipc";
 
 /**
@@ -19,11 +30,33 @@ export function registerIpcHandlers(mainWindow: BrowserWindow) {
   initializeDownloadIpc();
   initializeHistoryIpc();
   initializeSettingsIpc();
+  initializeQueueIpc();
+  initializeBrowserBridgeIpc();
+  initializeClipboardIpc();
+  initializeCredentialsIpc();
+  initializeCookiesIpc();
+  initializeConversionIpc();
+  initializeProxyIpc();
+  initializeNetworkPolicyIpc();
+  initializeSchedulerIpc();
+  initializeSubscriptionIpc();
+  initializeTransferIpc();
 }
 
 export * from "./app-ipc";
+export * from "./browser-bridge-ipc";
+export * from "./clipboard-ipc";
+export * from "./conversion-ipc";
+export * from "./cookies-ipc";
+export * from "./credentials-ipc";
 export * from "./download-ipc";
 export * from "./history-ipc";
+export * from "./network-policy-ipc";
+export * from "./proxy-ipc";
+export * from "./queue-ipc";
+export * from "./scheduler-ipc";
 export * from "./settings-ipc";
 export * from "./shell-ipc";
+export * from "./subscription-ipc";
+export * from "./transfer-ipc";
 export * from "./window-ipc";
@@ -0,0 +1,22 @@
+import { ipcMain, BrowserWindow } from "electron";
+import { networkPolicyService } from "../services/network-policy.service";
+
+export const initializeNetworkPolicyIpc = () => {
+  ipcMain.handle("network-policy:get-blocked", () => {
+    return networkPolicyService.getBlockedLog();
+  });
+
+  ipcMain.handle("network-policy:clear-blocked", () => {
+    networkPolicyService.clearBlockedLog();
+    return networkPolicyService.getBlockedLog();
+  });
+
+  // Blocks happen in the background (redirects, queued downloads)
+  networkPolicyService.on("blocked", (entry) => {
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send("network-policy:blocked", entry);
+      }
+    }
+  });
+};
@@ -0,0 +1,9 @@
+import { ipcMain } from "electron";
+import { proxyService } from "../services/proxy.service";
+
+export const initializeProxyIpc = () => {
+  // Test the given proxy URL, or the configured proxy when none is given
+  ipcMain.handle("proxy:test", (_event, proxyUrl: string | null) => {
+    return proxyService.testProxy(proxyUrl || undefined);
+  });
+};
@@ -0,0 +1,74 @@
+import { ipcMain, BrowserWindow } from "electron";
+import { queueService, DownloadQueue } from "../services/queue.service";
+
+export const initializeQueueIpc = () => {
+  ipcMain.handle("queues:get", () => {
+    return queueService.getState();
+  });
+
+  ipcMain.handle(
+    "queues:create",
+    (
+      _event,
+      { name, maxConcurrent }: { name: string; maxConcurrent: number },
+    ) => {
+      queueService.createQueue(name, maxConcurrent);
+      return queueService.getState();
+    },
+  );
+
+  ipcMain.handle(
+    "queues:update",
+    (
+      _event,
+      {
+        id,
+        changes,
+      }: {
+        id: string;
+        changes: Partial<Pick<DownloadQueue, "name" | "maxConcurrent">>;
+      },
+    ) => {
+      queueService.updateQueue(id, changes);
+      return queueService.getState();
+    },
+  );
+
+  ipcMain.handle("queues:delete", (_event, id: string) => {
+    queueService.deleteQueue(id);
+    return queueService.getState();
+  });
+
+  ipcMain.handle(
+    "queues:move",
+    (
+      _event,
+      {
+        ids,
+        queueId,
+        beforeId,
+      }: { ids: string[]; queueId: string; beforeId?: string },
+    ) => {
+      queueService.moveDownloads(ids, queueId, beforeId);
+      return queueService.getState();
+    },
+  );
+
+  ipcMain.handle("queues:pause", async (_event, id: string) => {
+    await queueService.pauseQueue(id);
+    return queueService.getState();
+  });
+
+  ipcMain.handle("queues:resume", async (_event, id: string) => {
+    await queueService.resumeQueue(id);
+    return queueService.getState();
+  });
+
+  queueService.on("changed", (state) => {
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send("queues:changed", state);
+      }
+    }
+  });
+};
@@ -0,0 +1,38 @@
+import { ipcMain, BrowserWindow } from "electron";
+import {
+  schedulerService,
+  DownloadSchedule,
+} from "../services/scheduler.service";
+
+export const initializeSchedulerIpc = () => {
+  ipcMain.handle("scheduler:get", () => {
+    return schedulerService.getState();
+  });
+
+  ipcMain.handle(
+    "scheduler:update",
+    (_event, schedule: Partial<DownloadSchedule>) => {
+      schedulerService.updateSchedule(schedule);
+      return schedulerService.getState();
+    },
+  );
+
+  ipcMain.handle("scheduler:add-items", (_event, ids: string[]) => {
+    schedulerService.addDownloads(ids);
+    return schedulerService.getState();
+  });
+
+  ipcMain.handle("scheduler:remove-items", (_event, ids: string[]) => {
+    schedulerService.removeDownloads(ids);
+    return schedulerService.getState();
+  });
+
+  // Keep every window in sync when the window opens/closes or items change
+  schedulerService.on("changed", (state) => {
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send("scheduler:changed", state);
+      }
+    }
+  });
+};
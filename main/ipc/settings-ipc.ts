@@ -1,6 +1,9 @@
 import { ipcMain } from "electron";
 import { settingsService, AppSettings } from "../services/settings.service";
 import { directDownloader } from "../services/downloader/direct";
+import { videoDownloader } from "../services/downloader/video";
+import { queueService } from "../services/queue.service";
+import { clipboardMonitorService } from "../services/clipboard-monitor.service";
 
 export const initializeSettingsIpc = () => {
   ipcMain.handle("settings:get", () => {
@@ -18,8 +21,22 @@ export const initializeSettingsIpc = () => {
 
       // Notify services of changes that require immediate action
       if (settings.maxConcurrentDownloads !== undefined) {
+        // Also the Main queue's limit
+        queueService.refresh();
+      }
+      if (
+        settings.speedLimit !== undefined ||
+        settings.seedRatio !== undefined ||
+        settings.seedTime !== undefined
+      ) {
         directDownloader.updateGlobalSettings().catch(() => {});
       }
+      if (settings.speedLimit !== undefined) {
+        videoDownloader.applyGlobalSpeedLimit();
+      }
+      if (settings.clipboardMonitor !== undefined) {
+        clipboardMonitorService.sync();
+      }
 
       return updated;
     }
@@ -0,0 +1,47 @@
+import { ipcMain, BrowserWindow } from "electron";
+import {
+  subscriptionService,
+  NewSubscription,
+  SubscriptionChanges,
+} from "../services/subscription.service";
+
+export const initializeSubscriptionIpc = () => {
+  ipcMain.handle("subscriptions:get", () => {
+    return subscriptionService.getState();
+  });
+
+  ipcMain.handle(
+    "subscriptions:add",
+    async (_event, subscription: NewSubscription) => {
+      await subscriptionService.addSubscription(subscription);
+      return subscriptionService.getState();
+    },
+  );
+
+  ipcMain.handle(
+    "subscriptions:update",
+    (_event, { id, changes }: { id: string; changes: SubscriptionChanges }) => {
+      subscriptionService.updateSubscription(id, changes);
+      return subscriptionService.getState();
+    },
+  );
+
+  ipcMain.handle("subscriptions:remove", (_event, id: string) => {
+    subscriptionService.removeSubscription(id);
+    return subscriptionService.getState();
+  });
+
+  ipcMain.handle("subscriptions:check", async (_event, id: string) => {
+    await subscriptionService.checkNow(id);
+    return subscriptionService.getState();
+  });
+
+  // Background checks update every window
+  subscriptionService.on("changed", (state) => {
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send("subscriptions:changed", state);
+      }
+    }
+  });
+};
@@ -0,0 +1,48 @@
+import { ipcMain, dialog } from "electron";
+import {
+  transferService,
+  ExportFormat,
+  ExportScope,
+  ImportMode,
+} from "../services/transfer.service";
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  json: "json",
+  csv: "csv",
+  urls: "txt",
+};
+
+export const initializeTransferIpc = () => {
+  // Returns the saved file, null when the dialog was cancelled
+  ipcMain.handle(
+    "transfer:export",
+    async (
+      _event,
+      { format, scope }: { format: ExportFormat; scope: ExportScope },
+    ) => {
+      const date = new Date().toISOString().slice(0, 10);
+      const result = await dialog.showSaveDialog({
+        defaultPath: `downloads-${scope}-${date}.${EXTENSIONS[format]}`,
+        filters: [
+          { name: format.toUpperCase(), extensions: [EXTENSIONS[format]] },
+        ],
+      });
+      if (result.canceled || !result.filePath) return null;
+      await transferService.exportToFile(result.filePath, format, scope);
+      return result.filePath;
+    },
+  );
+
+  // Returns what was imported, null when the dialog was cancelled
+  ipcMain.handle("transfer:import", async (_event, mode: ImportMode) => {
+    const result = await dialog.showOpenDialog({
+      properties: ["openFile"],
+      filters: [
+        { name: "Exports and Link Lists", extensions: ["json", "csv", "txt"] },
+        { name: "All Files", extensions: ["*"] },
+      ],
+    });
+    if (result.canceled || result.filePaths.length === 0) return null;
+    return transferService.importFromFile(result.filePaths[0], mode);
+  });
+};
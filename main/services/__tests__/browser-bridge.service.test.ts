@@ -0,0 +1,164 @@
+jest.mock("electron-store", () =>
+  jest.fn().mockImplementation((opts: any) => {
+    const data = { ...opts.defaults };
+    return {
+      get: (key: string) => data[key],
+      set: (key: string, value: unknown) => {
+        data[key] = value;
+      },
+    };
+  }),
+);
+
+jest.mock("electron", () => ({
+  app: { getPath: jest.fn().mockReturnValue("/mock/downloads") },
+}));
+
+jest.mock("../downloader/direct", () => ({
+  directDownloader: { on: jest.fn() },
+  detectLinkType: jest.fn(),
+}));
+jest.mock("../downloader/video", () => ({
+  videoDownloader: { on: jest.fn() },
+}));
+
+import * as http from "http";
+import { WebSocket } from "ws";
+import {
+  browserBridgeService,
+  toDownloadOptions,
+} from "../browser-bridge.service";
+
+// Status code of a raw request to the bridge
+const request = (
+  port: number,
+  path: string,
+  headers: http.OutgoingHttpHeaders = {},
+) =>
+  new Promise<number>((resolve, reject) => {
+    const req = http.request({ host: "127.0.0.1", port, path, headers });
+    req.on("response", (res) => {
+      res.resume();
+      resolve(res.statusCode!);
+    });
+    req.on("error", reject);
+    req.end();
+  });
+
+describe("toDownloadOptions", () => {
+  it("should carry the browser request context", () => {
+    const options = toDownloadOptions({
+      url: "https://example.com/file.zip",
+      referer: "https://example.com/downloads",
+      cookies: "session=abc; theme=dark",
+      userAgent: "TestAgent/1.0",
+      filename: "file.zip",
+      headers: { "X-Requested-With": "XMLHttpRequest" },
+    });
+
+    expect(options).toEqual({
+      url: "https://example.com/file.zip",
+      outputPath: "",
+      filename: "file.zip",
+      referer: "https://example.com/downloads",
+      userAgent: "TestAgent/1.0",
+      headers: {
+        "X-Requested-With": "XMLHttpRequest",
+        Cookie: "session=abc; theme=dark",
+      },
+      queueId: undefined,
+    });
+  });
+
+  it("should reject missing and non-http URLs", () => {
+    expect(() => toDownloadOptions({} as any)).toThrow("Missing url");
+    expect(() => toDownloadOptions(null as any)).toThrow("Missing url");
+    expect(() => toDownloadOptions(5 as any)).toThrow("Missing url");
+    expect(() => toDownloadOptions({ url: "not a url" })).toThrow(
+      "Invalid url",
+    );
+    expect(() => toDownloadOptions({ url: "file:///etc/passwd" })).toThrow(
+      "Only HTTP, HTTPS and magnet URLs are supported",
+    );
+  });
+
+  it("should accept magnet links", () => {
+    const magnet =
+      "magnet:?xt=urn:btih:c12fe1c06bba254a9dc9f519b335aa7c1367a88a";
+    expect(toDownloadOptions({ url: magnet }).url).toBe(magnet);
+  });
+
+  it("should keep suggested filenames inside the download folder", () => {
+    const options = toDownloadOptions({
+      url: "https://example.com/a",
+      filename: "../../.bashrc",
+    });
+    expect(options.filename).toBe(".bashrc");
+  });
+
+  it("should drop malformed headers", () => {
+    const options = toDownloadOptions({
+      url: "https://example.com/a",
+      headers: { "Bad Header": "x", Good: 1 as any },
+    });
+    expect(options.headers).toBeUndefined();
+  });
+});
+
+describe("BrowserBridgeService", () => {
+  const port = 20000 + Math.floor(Math.random() * 20000);
+
+  beforeAll(async () => {
+    const status = await browserBridgeService.updateConfig({ port });
+    expect(status.listening).toBe(true);
+  });
+
+  afterAll(() => browserBridgeService.stop());
+
+  it("should answer 400 to a malformed request-target", async () => {
+    expect(await request(port, "//a:b")).toBe(400);
+    expect(await request(port, "/ping")).toBe(200);
+  });
+
+  it("should refuse a malformed upgrade without throwing", async () => {
+    expect(
+      await request(port, "//a:b", {
+        Connection: "Upgrade",
+        Upgrade: "websocket",
+        "Sec-WebSocket-Version": "13",
+        "Sec-WebSocket-Key": "dGhlIHNhbXBsZSBub25jZQ==",
+      }),
+    ).toBe(400);
+    expect(await request(port, "/ping")).toBe(200);
+  });
+
+  it("should answer WebSocket frames that aren't objects with an error", async () => {
+    const { token } = browserBridgeService.getConfig();
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/?token=${token}`);
+    await new Promise((resolve, reject) => {
+      ws.once("open", resolve);
+      ws.once("error", reject);
+    });
+    const reply = (frame: string) =>
+      new Promise<unknown>((resolve) => {
+        ws.once("message", (data) => resolve(JSON.parse(data.toString())));
+        ws.send(frame);
+      });
+
+    try {
+      for (const frame of ["null", "5", '"download"', "{ not json"]) {
+        expect(await reply(frame)).toEqual({
+          type: "error",
+          error: "Invalid message",
+        });
+      }
+      expect(await reply('{"id":"1","type":"ping"}')).toEqual({
+        id: "1",
+        type: "error",
+        error: "Unknown message type",
+      });
+    } finally {
+      ws.close();
+    }
+  });
+});
@@ -0,0 +1,102 @@
+jest.mock("electron", () => ({
+  clipboard: { readText: jest.fn().mockReturnValue("") },
+}));
+
+jest.mock("../proxy.service", () => ({
+  proxyService: { resolveProxy: jest.fn().mockResolvedValue(null) },
+}));
+
+jest.mock("../downloader/direct", () => ({
+  directDownloader: { getAllDownloads: jest.fn().mockReturnValue([]) },
+  detectLinkType: jest.fn(),
+  isVideoPlatform: jest.requireActual(
+    "../downloader/direct/url-detection.service",
+  ).isVideoPlatform,
+}));
+
+jest.mock("../downloader/video", () => ({
+  videoDownloader: { getAllDownloads: jest.fn().mockReturnValue([]) },
+}));
+
+jest.mock("../history.service", () => ({
+  historyService: { hasCompleted: jest.fn().mockResolvedValue(false) },
+}));
+
+jest.mock("../settings.service", () => ({
+  settingsService: { getSettings: jest.fn() },
+}));
+
+import { clipboard } from "electron";
+import { detectLinkType, directDownloader } from "../downloader/direct";
+import { historyService } from "../history.service";
+import {
+  clipboardMonitorService,
+  extractLinks,
+  isKnownPlatform,
+} from "../clipboard-monitor.service";
+
+describe("ClipboardMonitorService", () => {
+  describe("extractLinks", () => {
+    it("should find links in copied text without trailing punctuation", () => {
+      expect(
+        extractLinks(
+          "Watch https://youtu.be/abc. Also (https://example.com/a.zip), https://youtu.be/abc and magnet:?xt=urn:btih:123",
+        ),
+      ).toEqual([
+        "https://youtu.be/abc",
+        "https://example.com/a.zip",
+        "magnet:?xt=urn:btih:123",
+      ]);
+      expect(extractLinks("no links here")).toEqual([]);
+    });
+  });
+
+  describe("isKnownPlatform", () => {
+    it("should match supported platforms and their subdomains", () => {
+      expect(isKnownPlatform("https://m.youtube.com/watch?v=1")).toBe(true);
+      expect(isKnownPlatform("https://vm.tiktok.com/x")).toBe(true);
+      expect(isKnownPlatform("https://notyoutube.com/watch")).toBe(false);
+    });
+  });
+
+  describe("monitoring", () => {
+    const check = () => (clipboardMonitorService as any).check();
+    const copy = (text: string) =>
+      (clipboard.readText as jest.Mock).mockReturnValue(text);
+
+    it("should offer videos and files but skip web pages and known downloads", async () => {
+      const links: unknown[] = [];
+      clipboardMonitorService.on("link", (link) => links.push(link));
+
+      (detectLinkType as jest.Mock).mockImplementation(async (url: string) =>
+        url.endsWith(".zip")
+          ? { isDirect: true, filename: "a.zip" }
+          : { isDirect: false },
+      );
+      (directDownloader.getAllDownloads as jest.Mock).mockReturnValue([
+        { url: "https://example.com/busy.zip", status: "downloading" },
+      ]);
+      (historyService.hasCompleted as jest.Mock).mockImplementation(
+        async (url: string) => url === "https://youtu.be/old",
+      );
+
+      copy(
+        [
+          "https://youtu.be/new",
+          "https://example.com/a.zip",
+          "https://example.com/page",
+          "https://example.com/busy.zip",
+          "https://youtu.be/old",
+        ].join("\n"),
+      );
+      await check();
+      // The same text again is not a new copy
+      await check();
+
+      expect(links).toEqual([
+        { url: "https://youtu.be/new", kind: "video", filename: null },
+        { url: "https://example.com/a.zip", kind: "direct", filename: "a.zip" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EventEmitter } from "events";
+
+const mockProcesses: any[] = [];
+
+jest.mock("electron-store", () =>
+  jest.fn().mockImplementation((opts: any) => {
+    const data = { ...opts.defaults };
+    return {
+      get: (key: string) => data[key],
+      set: (key: string, value: unknown) => {
+        data[key] = value;
+      },
+    };
+  }),
+);
+
+jest.mock("electron", () => ({
+  app: { getPath: () => require("os").tmpdir() },
+}));
+
+jest.mock("child_process", () => ({
+  spawn: jest.fn().mockImplementation((_cmd: string, args: string[]) => {
+    const { EventEmitter } = require("events");
+    const proc = Object.assign(new EventEmitter(), {
+      args,
+      stdout: new EventEmitter(),
+      stderr: new EventEmitter(),
+      kill: jest.fn(),
+    });
+    mockProcesses.push(proc);
+    return proc;
+  }),
+}));
+
+jest.mock("../downloader/direct", () => {
+  const { EventEmitter } = require("events");
+  return { directDownloader: new EventEmitter() };
+});
+
+jest.mock("../downloader/video", () => {
+  const { EventEmitter } = require("events");
+  return { videoDownloader: new EventEmitter() };
+});
+
+jest.mock("../utils/binary-manager", () => ({
+  getFfmpegPath: () => "ffmpeg",
+  isFfmpegAvailable: () => true,
+}));
+
+import { videoDownloader } from "../downloader/video";
+import {
+  conversionService,
+  getOutputDuration,
+  parseTimestamp,
+  splitArgs,
+} from "../conversion.service";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "conversion-test-"));
+const input = path.join(dir, "clip.webm");
+fs.writeFileSync(input, "");
+
+describe("ConversionService", () => {
+  // Unhandled "error" events throw; the download IPC listens in the app
+  beforeAll(() => {
+    conversionService.on("error", () => {});
+    conversionService.start();
+  });
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  beforeEach(() => {
+    mockProcesses.length = 0;
+  });
+
+  describe("helpers", () => {
+    it("should split preset options keeping quoted values", () => {
+      expect(splitArgs(`-vf "scale=-2:720, fps=30" -c:a  aac`)).toEqual([
+        "-vf",
+        "scale=-2:720, fps=30",
+        "-c:a",
+        "aac",
+      ]);
+    });
+
+    it("should read ffmpeg times and honour clip lengths", () => {
+      expect(parseTimestamp("01:02:03.5")).toBe(3723.5);
+      expect(parseTimestamp("n/a")).toBeNull();
+      expect(getOutputDuration(["-t", "10"], 300)).toBe(10);
+      expect(getOutputDuration(["-t", "10"], 4)).toBe(4);
+      expect(getOutputDuration(["-vn"], 300)).toBe(300);
+    });
+  });
+
+  describe("presets", () => {
+    it("should validate and save user presets", () => {
+      expect(() =>
+        conversionService.savePreset({ name: "x", extension: "../mp4" }),
+      ).toThrow("output extension");
+
+      const preset = conversionService.savePreset({
+        name: " AV1 ",
+        extension: ".MKV",
+        args: "-c:v libaom-av1",
+      });
+      expect(preset).toMatchObject({ name: "AV1", extension: "mkv" });
+      expect(conversionService.getPresets()).toContainEqual(preset);
+
+      conversionService.deletePreset(preset.id);
+      expect(conversionService.getPresets()).not.toContainEqual(preset);
+    });
+  });
+
+  describe("jobs", () => {
+    it("should convert finished downloads with a preset attached", () => {
+      const events: string[] = [];
+      const onStatus = (item: any) => events.push(item.status);
+      conversionService.on("status-changed", onStatus);
+
+      videoDownloader.emit("complete", {
+        filename: "clip.webm",
+        outputPath: dir,
+        videoInfo: null,
+        options: { conversionPresetId: "mp3-192k" },
+      });
+
+      const [job] = conversionService.getAllDownloads();
+      expect(job).toMatchObject({ filename: "clip.mp3", status: "converting" });
+      expect(job.options.audioOnly).toBe(true);
+
+      const proc = mockProcesses[0];
+      expect(proc.args).toEqual([
+        "-hide_banner",
+        "-y",
+        "-i",
+        input,
+        "-vn",
+        "-c:a",
+        "libmp3lame",
+        "-b:a",
+        "192k",
+        "-progress",
+        "pipe:1",
+        "-nostats",
+        path.join(dir, "clip.mp3"),
+      ]);
+
+      proc.stderr.emit("data", Buffer.from("  Duration: 00:01:40.00, start"));
+      proc.stdout.emit(
+        "data",
+        Buffer.from("total_size=2048\nout_time_ms=25000000\nspeed=2.0x\n"),
+      );
+      proc.stdout.emit("data", Buffer.from("out_time_ms=50000000\n"));
+      expect(job.progress).toMatchObject({
+        progress: 50,
+        downloadedBytes: 2048,
+        speedString: "2.0x",
+        eta: 25,
+      });
+
+      proc.emit("close", 0);
+      expect(job.status).toBe("completed");
+      expect(events).toEqual(["pending", "converting", "completed"]);
+
+      conversionService.off("status-changed", onStatus);
+      expect(conversionService.clearCompleted()).toBe(1);
+    });
+
+    it("should run one job at a time and retry failures", () => {
+      const first = conversionService.convertFile(input, "opus-voice");
+      const second = conversionService.convertFile(input, "gif-clip");
+      expect(mockProcesses).toHaveLength(1);
+      expect(second.status).toBe("pending");
+
+      mockProcesses[0].stderr.emit("data", Buffer.from("Unknown encoder\n"));
+      mockProcesses[0].emit("close", 1);
+      expect(first).toMatchObject({
+        status: "failed",
+        error: "Unknown encoder",
+      });
+      expect(second.status).toBe("converting");
+
+      expect(conversionService.resumeDownload(first.id)).toBe(true);
+      expect(conversionService.cancelDownload(second.id)).toBe(true);
+      expect(mockProcesses[1].kill).toHaveBeenCalled();
+      expect(first.status).toBe("converting");
+      expect(conversionService.getAllDownloads()).toEqual([first]);
+    });
+  });
+});
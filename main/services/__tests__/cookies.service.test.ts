@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const userData = fs.mkdtempSync(path.join(os.tmpdir(), "cookies-test-"));
+
+jest.mock("electron-store", () =>
+  jest.fn().mockImplementation((opts: any) => {
+    const data = { ...opts.defaults };
+    return {
+      get: (key: string) => data[key],
+      set: (key: string, value: unknown) => {
+        data[key] = value;
+      },
+    };
+  }),
+);
+
+jest.mock("electron", () => ({
+  app: { getPath: () => userData },
+  dialog: {},
+}));
+
+import {
+  buildCookieHeader,
+  cookiesService,
+  parseCookieHeader,
+  parseNetscapeCookies,
+  serializeNetscapeCookies,
+} from "../cookies.service";
+
+const COOKIES_TXT = [
+  "# Netscape HTTP Cookie File",
+  ".example.com\tTRUE\t/\tTRUE\t0\tSID\tabc",
+  "#HttpOnly_.example.com\tTRUE\t/\tFALSE\t1\told\tgone",
+  "www.example.com\tFALSE\t/account\tFALSE\t0\tpref\tdark",
+  "",
+].join("\n");
+
+describe("CookiesService", () => {
+  afterAll(() => fs.rmSync(userData, { recursive: true, force: true }));
+
+  describe("parsing", () => {
+    it("should read cookies.txt files including HttpOnly entries", () => {
+      const cookies = parseNetscapeCookies(COOKIES_TXT);
+      expect(cookies.map((c) => c.name)).toEqual(["SID", "old", "pref"]);
+      expect(parseNetscapeCookies(serializeNetscapeCookies(cookies))).toEqual(
+        cookies,
+      );
+    });
+
+    it("should read pasted Cookie headers", () => {
+      expect(
+        parseCookieHeader("Cookie: a=1; b=x=y; junk", "example.com"),
+      ).toEqual([
+        expect.objectContaining({
+          domain: ".example.com",
+          name: "a",
+          value: "1",
+        }),
+        expect.objectContaining({ name: "b", value: "x=y" }),
+      ]);
+    });
+  });
+
+  describe("buildCookieHeader", () => {
+    const cookies = parseNetscapeCookies(COOKIES_TXT);
+
+    it("should only send cookies matching the domain, path, scheme and expiry", () => {
+      expect(
+        buildCookieHeader(cookies, "https://www.example.com/account/x"),
+      ).toBe("SID=abc; pref=dark");
+      expect(buildCookieHeader(cookies, "http://cdn.example.com/")).toBeNull();
+      expect(buildCookieHeader(cookies, "https://other.com/")).toBeNull();
+    });
+  });
+
+  describe("profiles", () => {
+    it("should match profiles by site and build headers from the file", () => {
+      const profile = cookiesService.saveProfile("", "", COOKIES_TXT);
+      expect(profile).toMatchObject({ name: "example.com", cookieCount: 3 });
+
+      expect(
+        cookiesService.getCookieHeader("https://m.example.com/watch"),
+      ).toBe("SID=abc");
+      expect(cookiesService.getCookieFile("https://example.org/")).toBeNull();
+
+      cookiesService.deleteProfile(profile.id);
+      expect(cookiesService.getProfiles()).toEqual([]);
+      expect(cookiesService.getCookieFile("https://example.com/")).toBeNull();
+    });
+
+    it("should require a site for pasted headers", () => {
+      expect(() => cookiesService.saveProfile("YT", "", "a=1")).toThrow(
+        "Enter the site",
+      );
+      const profile = cookiesService.saveProfile("YT", "youtube.com", "a=1");
+      expect(
+        cookiesService.getProfileForUrl("https://www.youtube.com/"),
+      ).toEqual(profile);
+    });
+  });
+});
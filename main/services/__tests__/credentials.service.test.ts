@@ -0,0 +1,60 @@
+jest.mock("electron-store", () =>
+  jest.fn().mockImplementation((opts: any) => {
+    const data = { ...opts.defaults };
+    return {
+      get: (key: string) => data[key],
+      set: (key: string, value: unknown) => {
+        data[key] = value;
+      },
+    };
+  }),
+);
+
+jest.mock("electron", () => ({
+  safeStorage: {
+    isEncryptionAvailable: jest.fn().mockReturnValue(true),
+    encryptString: (value: string) => Buffer.from(`enc:${value}`),
+    decryptString: (value: Buffer) => value.toString().replace(/^enc:/, ""),
+  },
+}));
+
+import { safeStorage } from "electron";
+import { credentialsService } from "../credentials.service";
+
+describe("CredentialsService", () => {
+  describe("vault", () => {
+    it("should store encrypted passwords and never expose them in state", () => {
+      credentialsService.saveCredential("files.example.com", "alice", "pw1");
+      credentialsService.saveCredential("files.example.com", "bob", "pw2");
+
+      const { credentials } = credentialsService.getState();
+      expect(credentials).toEqual([
+        { id: expect.any(String), host: "files.example.com", username: "bob" },
+      ]);
+      expect(
+        credentialsService.getCredentialsForUrl(
+          "ftp://files.example.com/a.iso",
+        ),
+      ).toEqual({ username: "bob", password: "pw2" });
+
+      credentialsService.deleteCredential(credentials[0].id);
+      expect(credentialsService.getState().credentials).toEqual([]);
+    });
+
+    it("should let logins in the URL win over the vault", () => {
+      credentialsService.saveCredential("example.net", "alice", "pw");
+      expect(
+        credentialsService.getCredentialsForUrl("ftp://me:x@example.net/a"),
+      ).toBeNull();
+    });
+
+    it("should refuse to save without OS encryption", () => {
+      (safeStorage.isEncryptionAvailable as jest.Mock).mockReturnValueOnce(
+        false,
+      );
+      expect(() =>
+        credentialsService.saveCredential("example.org", "alice", "pw"),
+      ).toThrow("Secure storage is not available");
+    });
+  });
+});
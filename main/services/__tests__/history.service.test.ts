@@ -0,0 +1,305 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const mockUserData = fs.mkdtempSync(path.join(os.tmpdir(), "history-"));
+const mockStores: Record<string, Record<string, unknown>> = {};
+
+// Shared by every module instance, like the real file on disk
+jest.mock("electron-store", () =>
+  jest.fn().mockImplementation((opts: any) => {
+    const data = (mockStores[opts.name] ??= { ...opts.defaults });
+    return {
+      get: (key: string) => data[key],
+      set: (key: string, value: unknown) => {
+        data[key] = value;
+      },
+    };
+  }),
+);
+
+jest.mock("electron", () => ({
+  app: { getPath: () => mockUserData },
+  shell: {},
+}));
+
+jest.mock("../downloader/direct", () => ({
+  directDownloader: { on: jest.fn() },
+}));
+jest.mock("../downloader/video", () => ({
+  videoDownloader: { on: jest.fn() },
+}));
+jest.mock("../conversion.service", () => ({
+  conversionService: { on: jest.fn() },
+}));
+
+import type { HistoryRecord } from "../history.service";
+
+type HistoryModule = typeof import("../history.service");
+
+// A fresh service, as after an app restart
+const loadService = (): HistoryModule["historyService"] => {
+  let mod: HistoryModule;
+  jest.isolateModules(() => {
+    mod = require("../history.service");
+  });
+  return mod!.historyService;
+};
+
+const legacy = (
+  id: string,
+  overrides: Partial<HistoryRecord> = {},
+): HistoryRecord => ({
+  id,
+  url: `https://files.example.com/${id}.zip`,
+  filename: `${id}.zip`,
+  path: path.join(mockUserData, `${id}.zip`),
+  size: 1000,
+  status: "completed",
+  date: "2026-03-01T10:00:00.000Z",
+  type: "file",
+  ...overrides,
+});
+
+describe("HistoryService", () => {
+  let historyService: HistoryModule["historyService"];
+
+  beforeAll(() => {
+    mockStores["download-history"] = {
+      history: [
+        legacy("setup", { size: 5000, date: "2026-03-03T10:00:00.000Z" }),
+        legacy("talk", {
+          url: "https://www.youtube.com/watch?v=abc",
+          originalUrl: "https://www.youtube.com/watch?v=abc",
+          filename: "Conference Talk.mp4",
+          type: "video",
+          size: 900_000,
+          date: "2026-03-02T10:00:00.000Z",
+          thumbnail: "https://i.ytimg.com/abc.jpg",
+        }),
+        legacy("broken", { status: "failed", size: 0 }),
+      ],
+    };
+    fs.writeFileSync(path.join(mockUserData, "setup.zip"), "");
+    historyService = loadService();
+  });
+
+  it("should move the old store's records into the database once", async () => {
+    const page = await historyService.getHistory();
+
+    expect(page.total).toBe(3);
+    expect(page.records.map((r) => r.id)).toEqual(["setup", "talk", "broken"]);
+    expect(page.records[0].exists).toBe(true);
+    expect(page.records[1]).toMatchObject({
+      site: "youtube.com",
+      thumbnail: "https://i.ytimg.com/abc.jpg",
+      exists: false,
+    });
+    expect(mockStores["download-history"].migrated).toBe(true);
+    expect(mockStores["download-history"].history).toHaveLength(3);
+
+    // Restarting doesn't migrate again, and reads what was saved
+    historyService.flush();
+    const restarted = loadService();
+    expect((await restarted.getHistory()).total).toBe(3);
+  });
+
+  it("should record finished downloads with title, uploader and site", async () => {
+    await historyService.addRecord({
+      id: "song",
+      url: "https://music.example.org/track/7",
+      videoInfo: {
+        webpage_url: "https://music.example.org/track/7",
+        title: "Café del Mar",
+        uploader: "Ambient Archive",
+        thumbnail: null,
+        durationString: "4:05",
+      },
+      options: {
+        url: "https://music.example.org/track/7",
+        outputPath: "/music",
+        audioOnly: true,
+        cookies: "/home/me/cookies.txt",
+      },
+      status: "completed",
+      progress: { totalBytes: 4_000_000, filename: "cafe.mp3" },
+      outputPath: "/music",
+      filename: "cafe.mp3",
+    } as any);
+
+    const record = await historyService.getRecord("song");
+    expect(record).toMatchObject({
+      title: "Café del Mar",
+      uploader: "Ambient Archive",
+      site: "music.example.org",
+      type: "audio",
+      duration: "4:05",
+      path: path.join("/music", "cafe.mp3"),
+    });
+    expect(record!.options).toEqual({
+      url: "https://music.example.org/track/7",
+      outputPath: "/music",
+      audioOnly: true,
+    });
+    expect(
+      await historyService.hasCompleted("https://music.example.org/track/7"),
+    ).toBe(true);
+    expect(await historyService.hasCompleted("https://nowhere.example/")).toBe(
+      false,
+    );
+  });
+
+  it("should search titles, URLs and uploaders by word prefix", async () => {
+    const ids = async (search: string) =>
+      (await historyService.getHistory({ search })).records.map((r) => r.id);
+
+    expect(await ids("cafe")).toEqual(["song"]); // Accents folded
+    expect(await ids("ambient arch")).toEqual(["song"]);
+    expect(await ids("youtube")).toEqual(["talk"]);
+    expect(await ids("conference talk")).toEqual(["talk"]);
+    expect(await ids('"talk"; --')).toEqual(["talk"]);
+    expect(await ids('"*')).toEqual(["song", "setup", "talk", "broken"]);
+  });
+
+  it("should filter by type, status, date, size and site, a page at a time", async () => {
+    const ids = async (query: object) =>
+      (await historyService.getHistory(query)).records.map((r) => r.id);
+
+    expect(await ids({ types: ["video", "audio"] })).toEqual(["song", "talk"]);
+    expect(await ids({ statuses: ["failed"] })).toEqual(["broken"]);
+    expect(
+      await ids({
+        from: "2026-03-02T00:00:00.000Z",
+        to: "2026-03-03T23:59:59.999Z",
+      }),
+    ).toEqual(["setup", "talk"]);
+    expect(await ids({ minSize: 2000, maxSize: 1_000_000 })).toEqual([
+      "setup",
+      "talk",
+    ]);
+    expect(await ids({ site: "example.com" })).toEqual(["setup", "broken"]);
+    expect(await ids({ site: "www.youtube.com" })).toEqual(["talk"]);
+
+    const page = await historyService.getHistory({ offset: 1, limit: 2 });
+    expect(page).toMatchObject({ total: 4, offset: 1, limit: 2 });
+    expect(page.records.map((r) => r.id)).toEqual(["setup", "talk"]);
+  });
+
+  it("should sum up history by status, type, site and day", async () => {
+    const stats = await historyService.getStats();
+
+    expect(stats).toMatchObject({
+      total: 4,
+      completed: 3,
+      failed: 1,
+      cancelled: 0,
+      totalBytes: 5000 + 900_000 + 4_000_000,
+    });
+    expect(stats.byType).toEqual([
+      { type: "file", count: 2, bytes: 5000 },
+      { type: "audio", count: 1, bytes: 4_000_000 },
+      { type: "video", count: 1, bytes: 900_000 },
+    ]);
+    expect(stats.topSites[0]).toEqual({
+      site: "files.example.com",
+      count: 2,
+      bytes: 5000,
+    });
+    // Only the download recorded today falls in the last 30 days
+    expect(stats.daily).toEqual([
+      {
+        date: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+        count: 1,
+        bytes: 4_000_000,
+      },
+    ]);
+  });
+
+  it("should keep the search index in step with deletes", async () => {
+    await historyService.deleteRecord("talk", false);
+
+    expect((await historyService.getHistory({ search: "youtube" })).total).toBe(
+      0,
+    );
+    expect(await historyService.getRecord("talk")).toBeNull();
+
+    await historyService.clearHistory();
+    historyService.flush();
+    expect((await loadService().getHistory()).total).toBe(0);
+  });
+
+  it("should record downloads that fail or are cancelled, without a file", async () => {
+    let mod: HistoryModule;
+    let videoDownloader: { on: jest.Mock };
+    jest.isolateModules(() => {
+      mod = require("../history.service");
+      ({ videoDownloader } = require("../downloader/video"));
+    });
+    mod!.startHistoryRecording();
+    const emit = (event: string, item: object) =>
+      videoDownloader.on.mock.calls
+        .filter(([name]) => name === event)
+        .map(([, listener]) => listener(item));
+    const item = (id: string, status: string) => ({
+      id,
+      url: `https://video.example.com/${id}`,
+      videoInfo: { title: id },
+      options: { url: `https://video.example.com/${id}`, outputPath: "/v" },
+      status,
+      progress: { totalBytes: 100, filename: `${id}.mp4` },
+      outputPath: "/v",
+      filename: `${id}.mp4`,
+    });
+
+    await Promise.all(emit("error", item("lost", "failed")));
+    await Promise.all(emit("cancelled", item("stopped", "cancelled")));
+
+    const service = mod!.historyService;
+    expect(
+      (await service.getHistory({ statuses: ["failed"] })).records,
+    ).toMatchObject([{ id: "lost", path: "", exists: false }]);
+    expect(
+      (await service.getHistory({ statuses: ["cancelled"] })).records,
+    ).toMatchObject([{ id: "stopped", path: "", exists: false }]);
+    expect(await service.getStats()).toMatchObject({
+      failed: 1,
+      cancelled: 1,
+      completed: 0,
+    });
+  });
+
+  it("should count downloads by day in the local time zone", async () => {
+    const dates = [
+      "2026-03-01T10:00:00.000Z",
+      "2026-03-01T23:30:00.000Z",
+      "2026-03-02T00:30:00.000Z",
+    ];
+    const localDay = (iso: string) => {
+      const date = new Date(iso);
+      const pad = (value: number) => String(value).padStart(2, "0");
+      return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    };
+    jest.useFakeTimers({
+      now: new Date("2026-03-03T12:00:00.000Z"),
+      doNotFake: ["nextTick", "setImmediate", "queueMicrotask"],
+    });
+
+    try {
+      await historyService.clearHistory();
+      await historyService.restoreRecords(
+        dates.map((date, i) => legacy(`day-${i}`, { date })),
+      );
+
+      const expected: Record<string, number> = {};
+      for (const date of dates) {
+        expected[localDay(date)] = (expected[localDay(date)] ?? 0) + 1;
+      }
+      const { daily } = await historyService.getStats();
+      expect(
+        Object.fromEntries(daily.map((day) => [day.date, day.count])),
+      ).toEqual(expected);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { DownloadItem, DownloadStatus } from "../downloader/types";
+
+const mockStoreData: Record<string, any> = {};
+
+jest.mock("electron-store", () =>
+  jest.fn().mockImplementation((opts: any) => {
+    Object.assign(mockStoreData, { ...opts.defaults, ...mockStoreData });
+    return {
+      get: (key: string) => mockStoreData[key],
+      set: (key: string, value: unknown) => {
+        mockStoreData[key] = value;
+      },
+    };
+  }),
+);
+
+jest.mock("electron", () => ({
+  app: {
+    getPath: jest.fn().mockReturnValue("/mock/downloads"),
+    on: jest.fn(),
+  },
+}));
+
+jest.mock("../downloader/direct", () => ({ directDownloader: {} }));
+jest.mock("../downloader/video", () => ({ videoDownloader: {} }));
+
+const makeItem = (id: string, createdAt: string): DownloadItem => ({
+  id,
+  url: `https://example.com/${id}.zip`,
+  videoInfo: null,
+  options: { url: `https://example.com/${id}.zip`, outputPath: "/tmp" },
+  status: DownloadStatus.PAUSED,
+  progress: {
+    downloadId: id,
+    status: DownloadStatus.PAUSED,
+    progress: 42,
+    downloadedBytes: 420,
+    totalBytes: 1000,
+    speed: 1024,
+    speedString: "1 KB/s",
+    eta: 10,
+    etaString: "10s",
+    filename: `${id}.zip`,
+  },
+  outputPath: "/tmp",
+  filename: `${id}.zip`,
+  createdAt: new Date(createdAt),
+  startedAt: null,
+  completedAt: null,
+  error: null,
+  retryCount: 0,
+});
+
+const loadService = () => {
+  let service: any;
+  jest.isolateModules(() => {
+    service = require("../job-store.service").jobStoreService;
+  });
+  return service;
+};
+
+describe("JobStoreService", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(mockStoreData)) delete mockStoreData[key];
+  });
+
+  it("should persist jobs without transient speed/eta data", () => {
+    const service = loadService();
+    service.upsert("direct", makeItem("a", "2024-01-01T00:00:00Z"));
+    service.flush();
+
+    const saved = mockStoreData.jobs[0];
+    expect(saved.engine).toBe("direct");
+    expect(saved.item.progress.progress).toBe(42);
+    expect(saved.item.progress.speed).toBeNull();
+    expect(saved.item.progress.etaString).toBeNull();
+  });
+
+  it("should restore jobs per engine in creation order with Date fields", () => {
+    mockStoreData.jobs = JSON.parse(
+      JSON.stringify([
+        { engine: "video", item: makeItem("v2", "2024-01-02T00:00:00Z") },
+        { engine: "direct", item: makeItem("d1", "2024-01-01T00:00:00Z") },
+        { engine: "video", item: makeItem("v1", "2024-01-01T00:00:00Z") },
+      ]),
+    );
+
+    const service = loadService();
+    const videoJobs = service.getJobs("video");
+
+    expect(videoJobs.map((j: DownloadItem) => j.id)).toEqual(["v1", "v2"]);
+    expect(videoJobs[0].createdAt).toBeInstanceOf(Date);
+    expect(service.getJobs("direct")).toHaveLength(1);
+  });
+
+  it("should drop removed jobs on flush", () => {
+    const service = loadService();
+    service.upsert("video", makeItem("a", "2024-01-01T00:00:00Z"));
+    service.upsert("video", makeItem("b", "2024-01-01T00:00:00Z"));
+    service.remove("a");
+    service.flush();
+
+    expect(mockStoreData.jobs.map((j: any) => j.item.id)).toEqual(["b"]);
+  });
+});
@@ -0,0 +1,146 @@
+jest.mock("dns", () => ({
+  promises: { lookup: jest.fn() },
+}));
+
+jest.mock("../settings.service", () => ({
+  settingsService: { getSettings: jest.fn() },
+}));
+
+import { promises as dns } from "dns";
+import { settingsService, NetworkPolicySettings } from "../settings.service";
+import {
+  findAllowEntry,
+  getPrivateRange,
+  networkPolicyService,
+  parseAddressRange,
+} from "../network-policy.service";
+
+const usePolicy = (policy: NetworkPolicySettings) =>
+  (settingsService.getSettings as jest.Mock).mockReturnValue({
+    networkPolicy: policy,
+  });
+
+const resolveTo = (address: string) =>
+  (dns.lookup as jest.Mock).mockResolvedValue({ address });
+
+describe("NetworkPolicyService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    networkPolicyService.clearBlockedLog();
+  });
+
+  describe("getPrivateRange", () => {
+    it("should name the private range of an address", () => {
+      expect(getPrivateRange("10.1.2.3")).toBe("10.0.0.0/8 (private network)");
+      expect(getPrivateRange("172.31.0.1")).toBe(
+        "172.16.0.0/12 (private network)",
+      );
+      expect(getPrivateRange("::ffff:127.0.0.1")).toBe(
+        "127.0.0.0/8 (loopback)",
+      );
+      expect(getPrivateRange("fd12:3456::1")).toBe("fc00::/7 (unique local)");
+      expect(getPrivateRange("172.32.0.1")).toBeNull();
+      expect(getPrivateRange("8.8.8.8")).toBeNull();
+    });
+  });
+
+  describe("parseAddressRange", () => {
+    it("should read IPs and CIDRs with optional ports, not host names", () => {
+      expect(parseAddressRange("192.168.1.0/24")).toEqual({
+        bytes: [192, 168, 1, 0],
+        bits: 24,
+        port: null,
+      });
+      expect(parseAddressRange("10.0.0.5:8080")).toMatchObject({
+        bits: 32,
+        port: "8080",
+      });
+      expect(parseAddressRange("[fd00::/8]:443")).toMatchObject({
+        bits: 8,
+        port: "443",
+      });
+      expect(parseAddressRange("nas.local:5000")).toBeNull();
+      expect(parseAddressRange("10.0.0.0/33")).toBeNull();
+    });
+  });
+
+  describe("findAllowEntry", () => {
+    const allowList = ["nas.local", "*.corp.example", "10.20.0.0/16:8443"];
+
+    it("should trust listed hosts and ranges on the listed port", () => {
+      expect(
+        findAllowEntry(allowList, "http://nas.local/build.zip", "192.168.1.5"),
+      ).toBe("nas.local");
+      expect(
+        findAllowEntry(allowList, "https://ci.corp.example/a", "10.0.0.9"),
+      ).toBe("*.corp.example");
+      expect(
+        findAllowEntry(allowList, "https://artifacts:8443/a", "10.20.1.1"),
+      ).toBe("10.20.0.0/16:8443");
+      expect(
+        findAllowEntry(allowList, "https://artifacts/a", "10.20.1.1"),
+      ).toBeNull();
+    });
+  });
+
+  describe("checkUrl", () => {
+    it("should block private targets and log why", async () => {
+      usePolicy({ blockPrivate: true, allowList: [] });
+      resolveTo("192.168.1.5");
+
+      const verdict = await networkPolicyService.checkUrl(
+        "http://nas.local/build.zip",
+        "aria2",
+      );
+
+      expect(verdict.allowed).toBe(false);
+      expect(verdict.reason).toBe(
+        "nas.local (192.168.1.5) is in 192.168.0.0/16 (private network) and not on the network allow-list",
+      );
+      expect(networkPolicyService.getBlockedLog()).toEqual([
+        expect.objectContaining({
+          url: "http://nas.local/build.zip",
+          address: "192.168.1.5",
+          source: "aria2",
+        }),
+      ]);
+    });
+
+    it("should let allow-listed and public targets through", async () => {
+      usePolicy({ blockPrivate: true, allowList: ["192.168.1.0/24"] });
+      resolveTo("192.168.1.5");
+      await expect(
+        networkPolicyService.checkUrl("http://nas.local/a.zip", "yt-dlp"),
+      ).resolves.toEqual({ allowed: true, reason: null });
+
+      resolveTo("93.184.216.34");
+      await expect(
+        networkPolicyService.checkUrl("https://example.com/a.zip", "yt-dlp"),
+      ).resolves.toEqual({ allowed: true, reason: null });
+      expect(networkPolicyService.getBlockedLog()).toEqual([]);
+    });
+
+    it("should allow everything when the guard is off", async () => {
+      usePolicy({ blockPrivate: false, allowList: [] });
+
+      await expect(
+        networkPolicyService.assertAllowed(
+          "http://localhost:8080/",
+          "redirect",
+        ),
+      ).resolves.toBeUndefined();
+      expect(dns.lookup).not.toHaveBeenCalled();
+    });
+
+    it("should throw the reason from assertAllowed", async () => {
+      usePolicy({ blockPrivate: true, allowList: [] });
+
+      await expect(
+        networkPolicyService.assertAllowed("http://localhost:8080/", "yt-dlp"),
+      ).rejects.toThrow(
+        "Blocked by network policy: localhost (127.0.0.1) is in 127.0.0.0/8 (loopback)",
+      );
+    });
+  });
+});
@@ -0,0 +1,168 @@
+const mockShown: any[] = [];
+
+jest.mock("electron", () => {
+  const { EventEmitter } = require("events");
+  class MockNotification extends EventEmitter {
+    static isSupported = () => true;
+    constructor(public options: any) {
+      super();
+    }
+    show() {
+      mockShown.push(this);
+    }
+  }
+  return {
+    app: { setAppUserModelId: jest.fn() },
+    BrowserWindow: { getAllWindows: jest.fn().mockReturnValue([]) },
+    Notification: MockNotification,
+  };
+});
+
+jest.mock("../downloader/direct", () => {
+  const { EventEmitter } = require("events");
+  return {
+    directDownloader: Object.assign(new EventEmitter(), {
+      getAllDownloads: jest.fn().mockReturnValue([]),
+      resumeDownload: jest.fn().mockResolvedValue(false),
+    }),
+  };
+});
+
+jest.mock("../downloader/video", () => {
+  const { EventEmitter } = require("events");
+  return {
+    videoDownloader: Object.assign(new EventEmitter(), {
+      getAllDownloads: jest.fn().mockReturnValue([]),
+      resumeDownload: jest.fn().mockResolvedValue(true),
+    }),
+  };
+});
+
+jest.mock("../conversion.service", () => {
+  const { EventEmitter } = require("events");
+  return {
+    conversionService: Object.assign(new EventEmitter(), {
+      getAllDownloads: jest.fn().mockReturnValue([]),
+      getDownloadStatus: jest.fn().mockReturnValue(null),
+      resumeDownload: jest.fn().mockReturnValue(false),
+    }),
+  };
+});
+
+jest.mock("../history.service", () => ({
+  historyService: {
+    openFile: jest.fn().mockResolvedValue(true),
+    openFolder: jest.fn(),
+  },
+}));
+
+jest.mock("../queue.service", () => ({
+  RUNNING_STATUSES: ["downloading", "extracting", "merging", "converting"],
+}));
+
+jest.mock("../settings.service", () => ({
+  settingsService: { getSettings: jest.fn() },
+}));
+
+jest.mock("../tray.service", () => ({
+  trayService: { showWindow: jest.fn() },
+}));
+
+import * as path from "path";
+import { BrowserWindow } from "electron";
+import { directDownloader } from "../downloader/direct";
+import { videoDownloader } from "../downloader/video";
+import { historyService } from "../history.service";
+import { settingsService } from "../settings.service";
+import { notificationService } from "../notification.service";
+
+const item = (id: string, status: string) =>
+  ({
+    id,
+    status,
+    url: `https://example.com/${id}`,
+    filename: `${id}.zip`,
+    outputPath: "/downloads",
+    error: null,
+  }) as any;
+
+describe("NotificationService", () => {
+  const notifications = {
+    complete: true,
+    failed: true,
+    queueFinished: true,
+    quietWhenFullscreen: true,
+  };
+
+  beforeAll(() => notificationService.start());
+
+  beforeEach(() => {
+    mockShown.length = 0;
+    (settingsService.getSettings as jest.Mock).mockReturnValue({
+      notifications,
+    });
+  });
+
+  it("should open the finished file on click", () => {
+    directDownloader.emit("complete", item("a", "completed"));
+
+    expect(mockShown).toHaveLength(1);
+    expect(mockShown[0].options).toMatchObject({
+      title: "Download complete",
+      body: "a.zip",
+    });
+    mockShown[0].emit("action", {}, 1);
+    expect(historyService.openFolder).toHaveBeenCalledWith(
+      path.join("/downloads", "a.zip"),
+    );
+  });
+
+  it("should retry a failed download on click", async () => {
+    videoDownloader.emit("error", item("b", "failed"), "HTTP Error 403");
+
+    expect(mockShown[0].options.body).toBe("b.zip\nHTTP Error 403");
+    mockShown[0].emit("click");
+    await Promise.resolve();
+    expect(videoDownloader.resumeDownload).toHaveBeenCalledWith("b");
+  });
+
+  it("should respect the per-event toggles and fullscreen", () => {
+    (settingsService.getSettings as jest.Mock).mockReturnValue({
+      notifications: { ...notifications, complete: false },
+    });
+    directDownloader.emit("complete", item("c", "completed"));
+    expect(mockShown).toHaveLength(0);
+
+    (BrowserWindow.getAllWindows as jest.Mock).mockReturnValueOnce([
+      { isDestroyed: () => false, isFullScreen: () => true },
+    ]);
+    directDownloader.emit("error", item("c", "failed"), "boom");
+    expect(mockShown).toHaveLength(0);
+  });
+
+  it("should notify once when the queue drains", () => {
+    const running = item("d", "downloading");
+    const waiting = item("e", "pending");
+    (directDownloader.getAllDownloads as jest.Mock).mockReturnValue([
+      running,
+      waiting,
+    ]);
+    directDownloader.emit("status-changed", running);
+
+    running.status = "completed";
+    directDownloader.emit("complete", running);
+    directDownloader.emit("status-changed", running);
+
+    waiting.status = "failed";
+    directDownloader.emit("error", waiting, "boom");
+    directDownloader.emit("status-changed", waiting);
+    directDownloader.emit("status-changed", waiting);
+
+    expect(mockShown.map((n) => n.options.title)).toEqual([
+      "Download complete",
+      "Download failed",
+      "All downloads finished",
+    ]);
+    expect(mockShown[2].options.body).toBe("1 completed, 1 failed");
+  });
+});
@@ -0,0 +1,109 @@
+jest.mock("electron", () => ({
+  session: {
+    defaultSession: { resolveProxy: jest.fn() },
+  },
+}));
+
+jest.mock("../settings.service", () => ({
+  settingsService: { getSettings: jest.fn() },
+}));
+
+jest.mock("../credentials.service", () => ({
+  credentialsService: {
+    getCredentialsForUrl: jest.fn().mockReturnValue(null),
+  },
+}));
+
+import { session } from "electron";
+import { settingsService, ProxySettings } from "../settings.service";
+import { credentialsService } from "../credentials.service";
+import { parsePacResult, pickProxy, proxyService } from "../proxy.service";
+
+const SETTINGS: ProxySettings = {
+  mode: "manual",
+  url: "http://proxy.local:8080",
+  bypass: ["localhost", "*.intranet.example"],
+  rules: [
+    { id: "1", host: "*.video.example", proxy: "socks5://tunnel.local:1080" },
+    { id: "2", host: "cdn.example.com", proxy: "direct" },
+  ],
+};
+
+describe("ProxyService", () => {
+  describe("pickProxy", () => {
+    it("should apply per-host rules before the bypass list and mode", () => {
+      expect(pickProxy(SETTINGS, "https://www.video.example/watch")).toBe(
+        "socks5://tunnel.local:1080",
+      );
+      expect(pickProxy(SETTINGS, "https://cdn.example.com/a.zip")).toBeNull();
+      expect(pickProxy(SETTINGS, "http://wiki.intranet.example/")).toBeNull();
+      expect(pickProxy(SETTINGS, "https://example.org/a.zip")).toBe(
+        "http://proxy.local:8080",
+      );
+    });
+
+    it("should go direct when the proxy is off", () => {
+      expect(
+        pickProxy({ ...SETTINGS, mode: "none" }, "https://example.org/"),
+      ).toBeNull();
+      expect(
+        pickProxy({ ...SETTINGS, mode: "system" }, "https://example.org/"),
+      ).toBe("system");
+    });
+  });
+
+  describe("parsePacResult", () => {
+    it("should read the first entry of a PAC result", () => {
+      expect(parsePacResult("PROXY proxy.local:3128; DIRECT")).toBe(
+        "http://proxy.local:3128",
+      );
+      expect(parsePacResult("SOCKS5 tunnel.local:1080")).toBe(
+        "socks5://tunnel.local:1080",
+      );
+      expect(parsePacResult("DIRECT")).toBeNull();
+    });
+  });
+
+  describe("resolveProxy", () => {
+    beforeEach(() => {
+      (settingsService.getSettings as jest.Mock).mockReturnValue({
+        proxy: SETTINGS,
+      });
+    });
+
+    it("should fill in the proxy login from the vault", async () => {
+      (
+        credentialsService.getCredentialsForUrl as jest.Mock
+      ).mockReturnValueOnce({ username: "alice", password: "p@ss" });
+
+      const proxy = await proxyService.resolveProxy("https://example.org/");
+      expect(proxy?.host).toBe("proxy.local:8080");
+      expect(decodeURIComponent(proxy!.username)).toBe("alice");
+      expect(decodeURIComponent(proxy!.password)).toBe("p@ss");
+    });
+
+    it("should ask the OS in system mode", async () => {
+      (settingsService.getSettings as jest.Mock).mockReturnValue({
+        proxy: { ...SETTINGS, mode: "system" },
+      });
+      (session.defaultSession.resolveProxy as jest.Mock).mockResolvedValueOnce(
+        "PROXY corp.local:3128",
+      );
+
+      const proxy = await proxyService.resolveProxy("https://example.org/");
+      expect(proxy?.toString()).toBe("http://corp.local:3128/");
+    });
+
+    it("should prefer a per-download proxy and reject unsupported ones", async () => {
+      const proxy = await proxyService.resolveProxy(
+        "https://example.org/",
+        "tunnel.local:3128",
+      );
+      expect(proxy?.toString()).toBe("http://tunnel.local:3128/");
+
+      await expect(
+        proxyService.resolveProxy("https://example.org/", "socks4://x:1080"),
+      ).rejects.toThrow("Unsupported proxy");
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { DownloadItem, DownloadStatus } from "../downloader/types";
+
+jest.mock("electron-store", () =>
+  jest.fn().mockImplementation((opts: any) => {
+    let data = { ...opts.defaults };
+    return {
+      get: (key: string) => data[key],
+      set: (value: any) => {
+        data = { ...data, ...value };
+      },
+    };
+  }),
+);
+
+jest.mock("electron", () => ({
+  app: { getPath: jest.fn().mockReturnValue("/mock/downloads") },
+  dialog: {},
+}));
+
+const mockDirectItems: DownloadItem[] = [];
+const mockVideoItems: DownloadItem[] = [];
+const mockGates: ((item: DownloadItem) => boolean)[] = [];
+
+jest.mock("../downloader/direct", () => ({
+  directDownloader: {
+    getAllDownloads: () => mockDirectItems,
+    getDownloadStatus: (id: string) =>
+      mockDirectItems.find((i) => i.id === id) || null,
+    isHeld: () => false,
+    addQueueGate: (gate: (item: DownloadItem) => boolean) => {
+      mockGates.push(gate);
+      return () => {};
+    },
+    setConcurrencyLimit: jest.fn().mockResolvedValue(undefined),
+    holdDownload: jest.fn().mockResolvedValue(true),
+    releaseDownload: jest.fn().mockResolvedValue(true),
+    refreshQueue: jest.fn(),
+    on: jest.fn(),
+  },
+}));
+
+jest.mock("../downloader/video", () => ({
+  videoDownloader: {
+    getAllDownloads: () => mockVideoItems,
+    addQueueGate: () => () => {},
+    setConcurrencyLimit: jest.fn(),
+    refreshQueue: jest.fn(),
+    on: jest.fn(),
+  },
+}));
+
+jest.mock("../settings.service", () => ({
+  settingsService: {
+    getSettings: () => ({ maxConcurrentDownloads: 1 }),
+    updateSettings: jest.fn(),
+  },
+}));
+
+import { queueService, DEFAULT_QUEUE_ID } from "../queue.service";
+
+let created = 0;
+const makeItem = (id: string, status: DownloadStatus): DownloadItem => ({
+  id,
+  url: `https://example.com/${id}`,
+  videoInfo: null,
+  options: { url: `https://example.com/${id}`, outputPath: "/tmp" },
+  status,
+  progress: {
+    downloadId: id,
+    status,
+    progress: 0,
+    downloadedBytes: 0,
+    totalBytes: null,
+    speed: null,
+    speedString: null,
+    eta: null,
+    etaString: null,
+    filename: null,
+  },
+  outputPath: "/tmp",
+  filename: null,
+  createdAt: new Date(2026, 0, 1, 0, 0, created++),
+  startedAt: null,
+  completedAt: null,
+  error: null,
+  retryCount: 0,
+});
+
+describe("QueueService", () => {
+  beforeAll(() => {
+    queueService.start();
+  });
+
+  beforeEach(() => {
+    mockDirectItems.length = 0;
+    mockVideoItems.length = 0;
+  });
+
+  const canStart = (item: DownloadItem) => mockGates[0](item);
+
+  it("should admit pending items in order up to the queue limit", () => {
+    const a = makeItem("a", DownloadStatus.PENDING);
+    const b = makeItem("b", DownloadStatus.PENDING);
+    mockVideoItems.push(a, b);
+
+    // Main queue follows maxConcurrentDownloads (1)
+    expect(canStart(a)).toBe(true);
+    expect(canStart(b)).toBe(false);
+
+    a.status = DownloadStatus.DOWNLOADING;
+    expect(canStart(b)).toBe(false);
+
+    a.status = DownloadStatus.COMPLETED;
+    expect(canStart(b)).toBe(true);
+  });
+
+  it("should honour a reordered queue", () => {
+    const a = makeItem("a2", DownloadStatus.PENDING);
+    const b = makeItem("b2", DownloadStatus.PENDING);
+    mockVideoItems.push(a, b);
+
+    queueService.moveDownloads([b.id], DEFAULT_QUEUE_ID, a.id);
+
+    expect(canStart(b)).toBe(true);
+    expect(canStart(a)).toBe(false);
+  });
+
+  it("should give each queue its own concurrency", () => {
+    const overnight = queueService.createQueue("Overnight", 2);
+    const main = makeItem("m", DownloadStatus.DOWNLOADING);
+    const x = makeItem("x", DownloadStatus.PENDING);
+    const y = makeItem("y", DownloadStatus.PENDING);
+    const z = makeItem("z", DownloadStatus.PENDING);
+    mockVideoItems.push(main, x, y);
+    mockDirectItems.push(z);
+
+    queueService.moveDownloads([x.id, y.id, z.id], overnight.id);
+
+    expect(canStart(x)).toBe(true);
+    expect(canStart(y)).toBe(true);
+    expect(canStart(z)).toBe(false);
+  });
+
+  it("should hold everything in a paused queue", async () => {
+    const queue = queueService.createQueue("Music", 3);
+    const item = makeItem("p", DownloadStatus.PENDING);
+    mockVideoItems.push(item);
+    queueService.moveDownloads([item.id], queue.id);
+
+    await queueService.pauseQueue(queue.id);
+    expect(canStart(item)).toBe(false);
+
+    await queueService.resumeQueue(queue.id);
+    expect(canStart(item)).toBe(true);
+  });
+
+  it("should move downloads back to Main when their queue is deleted", () => {
+    const queue = queueService.createQueue("Temp", 1);
+    queueService.moveDownloads(["d"], queue.id);
+    expect(queueService.getState().assignments["d"]).toBe(queue.id);
+
+    expect(queueService.deleteQueue(queue.id)).toBe(true);
+    expect(queueService.getState().assignments["d"]).toBeUndefined();
+    expect(queueService.deleteQueue(DEFAULT_QUEUE_ID)).toBe(false);
+  });
+});
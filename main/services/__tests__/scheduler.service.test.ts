@@ -0,0 +1,252 @@
+jest.mock("electron-store", () =>
+  jest.fn().mockImplementation((opts: any) => {
+    const data = { ...opts.defaults };
+    return {
+      get: (key: string) => data[key],
+      set: (key: string, value: unknown) => {
+        data[key] = value;
+      },
+    };
+  }),
+);
+
+jest.mock("electron", () => ({
+  app: { quit: jest.fn() },
+}));
+
+jest.mock("child_process", () => ({ exec: jest.fn() }));
+
+const mockDirectItems: DownloadItem[] = [];
+const mockVideoItems: DownloadItem[] = [];
+
+jest.mock("../downloader/direct", () => {
+  const { EventEmitter } = require("events");
+  return {
+    directDownloader: Object.assign(new EventEmitter(), {
+      getAllDownloads: () => mockDirectItems,
+      getDownloadStatus: (id: string) =>
+        mockDirectItems.find((i) => i.id === id) || null,
+      addQueueGate: jest.fn(() => () => {}),
+      isHeld: jest.fn(() => false),
+      holdDownload: jest.fn().mockResolvedValue(true),
+      pauseDownload: jest.fn().mockResolvedValue(true),
+      resumeDownload: jest.fn().mockResolvedValue(true),
+      refreshQueue: jest.fn(),
+    }),
+  };
+});
+
+jest.mock("../downloader/video", () => {
+  const { EventEmitter } = require("events");
+  return {
+    videoDownloader: Object.assign(new EventEmitter(), {
+      getAllDownloads: () => mockVideoItems,
+      addQueueGate: jest.fn(() => () => {}),
+      pauseDownload: jest.fn(),
+      resumeDownload: jest.fn().mockResolvedValue(true),
+      refreshQueue: jest.fn(),
+    }),
+  };
+});
+
+import { exec } from "child_process";
+import { DownloadItem, DownloadStatus } from "../downloader/types";
+import { isWithinScheduleWindow } from "../scheduler.service";
+
+// 2026-03-02 is a Monday
+const at = (day: number, time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(2026, 2, 2 + ((day + 6) % 7), hours, minutes);
+};
+
+describe("isWithinScheduleWindow", () => {
+  it("should match a same-day window", () => {
+    const schedule = { startTime: "09:00", stopTime: "17:00", days: [] };
+    expect(isWithinScheduleWindow(schedule, at(1, "08:59"))).toBe(false);
+    expect(isWithinScheduleWindow(schedule, at(1, "09:00"))).toBe(true);
+    expect(isWithinScheduleWindow(schedule, at(1, "16:59"))).toBe(true);
+    expect(isWithinScheduleWindow(schedule, at(1, "17:00"))).toBe(false);
+  });
+
+  it("should match an overnight window across midnight", () => {
+    const schedule = { startTime: "23:00", stopTime: "06:00", days: [] };
+    expect(isWithinScheduleWindow(schedule, at(1, "23:30"))).toBe(true);
+    expect(isWithinScheduleWindow(schedule, at(2, "05:59"))).toBe(true);
+    expect(isWithinScheduleWindow(schedule, at(2, "06:00"))).toBe(false);
+    expect(isWithinScheduleWindow(schedule, at(2, "12:00"))).toBe(false);
+  });
+
+  it("should attribute overnight windows to the day they start on", () => {
+    // Fridays only
+    const schedule = { startTime: "23:00", stopTime: "06:00", days: [5] };
+    expect(isWithinScheduleWindow(schedule, at(5, "23:30"))).toBe(true);
+    expect(isWithinScheduleWindow(schedule, at(6, "02:00"))).toBe(true);
+    expect(isWithinScheduleWindow(schedule, at(5, "02:00"))).toBe(false);
+    expect(isWithinScheduleWindow(schedule, at(6, "23:30"))).toBe(false);
+  });
+
+  it("should stay open until midnight without a stop time", () => {
+    const schedule = { startTime: "20:00", stopTime: null, days: [] };
+    expect(isWithinScheduleWindow(schedule, at(3, "19:59"))).toBe(false);
+    expect(isWithinScheduleWindow(schedule, at(3, "23:59"))).toBe(true);
+  });
+
+  it("should reject malformed times", () => {
+    const schedule = { startTime: "25:00", stopTime: "06:00", days: [] };
+    expect(isWithinScheduleWindow(schedule, at(1, "01:00"))).toBe(false);
+  });
+});
+
+describe("SchedulerService", () => {
+  type Loaded = {
+    scheduler: (typeof import("../scheduler.service"))["schedulerService"];
+    direct: jest.Mocked<any>;
+    video: jest.Mocked<any>;
+    app: { quit: jest.Mock };
+  };
+  let loaded: Loaded;
+
+  // A fresh scheduler with its own engines, as after an app restart
+  const load = (): Loaded => {
+    let result: Loaded;
+    jest.isolateModules(() => {
+      result = {
+        scheduler: require("../scheduler.service").schedulerService,
+        direct: require("../downloader/direct").directDownloader,
+        video: require("../downloader/video").videoDownloader,
+        app: require("electron").app,
+      };
+    });
+    return result!;
+  };
+
+  const item = (id: string, status: DownloadStatus) =>
+    ({ id, status }) as DownloadItem;
+
+  // Monday 2026-03-02, window 02:00 - 07:00
+  const setTime = (time: string) => jest.setSystemTime(at(1, time));
+  const schedule = {
+    enabled: true,
+    startTime: "02:00",
+    stopTime: "07:00",
+    days: [],
+    scope: "selected" as const,
+    downloadIds: ["d1", "v1"],
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    mockDirectItems.length = 0;
+    mockVideoItems.length = 0;
+    loaded = load();
+  });
+
+  afterEach(() => {
+    loaded.scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it("should keep scheduled downloads queued until the window opens", () => {
+    const { scheduler, direct, video } = loaded;
+    const d1 = item("d1", DownloadStatus.DOWNLOADING);
+    const d2 = item("d2", DownloadStatus.DOWNLOADING);
+    const v1 = item("v1", DownloadStatus.PENDING);
+    mockDirectItems.push(d1, d2);
+    mockVideoItems.push(v1);
+    setTime("01:00");
+
+    scheduler.updateSchedule(schedule);
+    scheduler.start();
+    const directGate = direct.addQueueGate.mock.calls[0][0];
+    const videoGate = video.addQueueGate.mock.calls[0][0];
+
+    expect(directGate(d1)).toBe(false);
+    expect(directGate(d2)).toBe(true);
+    expect(videoGate(v1)).toBe(false);
+    // Running direct tasks are held in the queue, not paused
+    expect(direct.holdDownload).toHaveBeenCalledWith("d1");
+    expect(direct.holdDownload).not.toHaveBeenCalledWith("d2");
+    expect(direct.pauseDownload).not.toHaveBeenCalled();
+
+    setTime("02:00");
+    jest.advanceTimersByTime(30_000);
+
+    expect(directGate(d1)).toBe(true);
+    expect(videoGate(v1)).toBe(true);
+    expect(direct.refreshQueue).toHaveBeenCalled();
+    expect(video.refreshQueue).toHaveBeenCalled();
+  });
+
+  it("should not hold a download again on every progress update", () => {
+    const { scheduler, direct } = loaded;
+    mockDirectItems.push(item("d1", DownloadStatus.DOWNLOADING));
+    setTime("01:00");
+
+    scheduler.updateSchedule(schedule);
+    scheduler.start();
+    expect(direct.holdDownload).toHaveBeenCalledWith("d1");
+
+    direct.holdDownload.mockClear();
+    for (let i = 0; i < 5; i++) {
+      direct.emit("progress", { downloadId: "d1" });
+    }
+    expect(direct.holdDownload).not.toHaveBeenCalled();
+    expect(direct.pauseDownload).not.toHaveBeenCalled();
+  });
+
+  it("should pause running video downloads and resume them with the window", () => {
+    const { scheduler, video } = loaded;
+    const v1 = item("v1", DownloadStatus.DOWNLOADING);
+    mockVideoItems.push(v1);
+    setTime("01:00");
+
+    scheduler.updateSchedule(schedule);
+    scheduler.start();
+    expect(video.pauseDownload).toHaveBeenCalledWith("v1");
+
+    v1.status = DownloadStatus.PAUSED;
+    setTime("02:00");
+    jest.advanceTimersByTime(30_000);
+    expect(video.resumeDownload).toHaveBeenCalledWith("v1");
+  });
+
+  it("should quit and switch a one-time schedule off once the batch finishes", () => {
+    const { scheduler, direct, app } = loaded;
+    const d1 = item("d1", DownloadStatus.PENDING);
+    mockDirectItems.push(d1);
+    setTime("03:00");
+
+    scheduler.updateSchedule({ ...schedule, postAction: "quit" });
+    scheduler.start();
+    expect(app.quit).not.toHaveBeenCalled();
+
+    d1.status = DownloadStatus.COMPLETED;
+    direct.emit("status-changed", d1);
+
+    expect(app.quit).toHaveBeenCalledTimes(1);
+    expect(scheduler.getSchedule().enabled).toBe(false);
+  });
+
+  it("should run the post-queue command once the batch finishes", () => {
+    const { scheduler, video } = loaded;
+    const v1 = item("v1", DownloadStatus.DOWNLOADING);
+    mockVideoItems.push(v1);
+    setTime("03:00");
+
+    scheduler.updateSchedule({
+      ...schedule,
+      days: [1],
+      postAction: "command",
+      command: "shutdown -h now",
+    });
+    scheduler.start();
+
+    v1.status = DownloadStatus.FAILED;
+    video.emit("status-changed", v1);
+
+    expect(exec).toHaveBeenCalledWith("shutdown -h now", expect.any(Function));
+    // Repeating schedules stay on
+    expect(scheduler.getSchedule().enabled).toBe(true);
+  });
+});
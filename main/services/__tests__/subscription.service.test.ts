@@ -0,0 +1,159 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const mockUserData = fs.mkdtempSync(path.join(os.tmpdir(), "subscriptions-"));
+const mockGetPlaylistMetadata = jest.fn();
+
+jest.mock("electron-store", () =>
+  jest.fn().mockImplementation((opts: any) => {
+    const data = { ...opts.defaults };
+    return {
+      get: (key: string) => data[key],
+      set: (key: string, value: unknown) => {
+        data[key] = value;
+      },
+    };
+  }),
+);
+
+jest.mock("electron", () => ({
+  app: { getPath: () => mockUserData },
+}));
+
+jest.mock("../downloader/video", () => ({
+  videoDownloader: {
+    startDownload: jest.fn().mockResolvedValue({ success: true }),
+    getAllDownloads: jest.fn().mockReturnValue([]),
+  },
+  PlaylistDownloader: jest.fn().mockImplementation(() => ({
+    getPlaylistMetadata: mockGetPlaylistMetadata,
+    toEntryVideoInfo: (entry: { id: string }) => ({ id: entry.id }),
+  })),
+}));
+
+jest.mock("../network-policy.service", () => ({
+  networkPolicyService: {
+    assertAllowed: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock("../utils/file-utils", () => ({
+  getDownloadSubPath: () => "/downloads/Playlists",
+}));
+
+import { videoDownloader } from "../downloader/video";
+import {
+  subscriptionService,
+  normalizeSubscriptionUrl,
+  parseArchive,
+} from "../subscription.service";
+
+const channel = (ids: string[]) => ({
+  success: true,
+  data: {
+    title: "Tutorials",
+    extractorKey: "YoutubeTab",
+    playlist: {
+      videos: ids.map((id, index) => ({
+        id,
+        title: `Video ${id}`,
+        url: `https://www.youtube.com/watch?v=${id}`,
+        index: index + 1,
+        extractorKey: "Youtube",
+      })),
+    },
+  },
+});
+
+describe("SubscriptionService", () => {
+  afterAll(() => fs.rmSync(mockUserData, { recursive: true, force: true }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should point bare YouTube channel links at their uploads", () => {
+    expect(
+      normalizeSubscriptionUrl(" https://www.youtube.com/@tutorials "),
+    ).toBe("https://www.youtube.com/@tutorials/videos");
+    expect(
+      normalizeSubscriptionUrl("https://www.youtube.com/@tutorials/shorts"),
+    ).toBe("https://www.youtube.com/@tutorials/shorts");
+    expect(
+      normalizeSubscriptionUrl("https://www.youtube.com/playlist?list=PL1"),
+    ).toBe("https://www.youtube.com/playlist?list=PL1");
+  });
+
+  it("should read video IDs from a download archive", () => {
+    expect(parseArchive("youtube abc\r\nyoutube def\n\n")).toEqual(
+      new Set(["abc", "def"]),
+    );
+  });
+
+  it("should only queue videos published after subscribing", async () => {
+    mockGetPlaylistMetadata.mockResolvedValueOnce(channel(["b", "a"]));
+    const subscription = await subscriptionService.addSubscription({
+      url: "https://www.youtube.com/@tutorials",
+      quality: "1080p",
+      format: "mp4",
+      audioOnly: false,
+      outputPath: "",
+      intervalMinutes: 60,
+    });
+
+    expect(videoDownloader.startDownload).not.toHaveBeenCalled();
+    const archivePath = path.join(
+      mockUserData,
+      "subscriptions",
+      `${subscription.id}.txt`,
+    );
+    expect(fs.readFileSync(archivePath, "utf8")).toBe("youtube b\nyoutube a\n");
+
+    mockGetPlaylistMetadata.mockResolvedValueOnce(
+      channel(["d", "c", "b", "a"]),
+    );
+    const checked = await subscriptionService.checkNow(subscription.id);
+
+    expect(checked?.lastNewItems).toBe(2);
+    expect(checked?.lastError).toBeNull();
+    const calls = (videoDownloader.startDownload as jest.Mock).mock.calls;
+    // Oldest first, into the channel's folder, recorded in the archive
+    expect(calls.map(([, options]) => options.url)).toEqual([
+      "https://www.youtube.com/watch?v=c",
+      "https://www.youtube.com/watch?v=d",
+    ]);
+    expect(calls[0][1]).toMatchObject({
+      quality: "1080p",
+      outputPath: path.join("/downloads/Playlists", "Tutorials"),
+      downloadArchive: archivePath,
+    });
+  });
+
+  it("should refuse links it can't list and record failed checks", async () => {
+    mockGetPlaylistMetadata.mockResolvedValueOnce({
+      success: false,
+      error: "Unsupported URL",
+    });
+    await expect(
+      subscriptionService.addSubscription({
+        url: "https://example.com/nothing",
+        quality: "best",
+        format: "mp4",
+        audioOnly: false,
+        outputPath: "",
+        intervalMinutes: 60,
+      }),
+    ).rejects.toThrow("Unsupported URL");
+
+    const [subscription] = subscriptionService.getSubscriptions();
+    mockGetPlaylistMetadata.mockResolvedValueOnce({
+      success: false,
+      error: "HTTP Error 429",
+    });
+    const checked = await subscriptionService.checkNow(subscription.id);
+
+    expect(checked?.lastError).toBe("HTTP Error 429");
+    expect(subscriptionService.getState().checking).toEqual([]);
+  });
+});
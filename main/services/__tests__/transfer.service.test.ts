@@ -0,0 +1,284 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const mockDir = fs.mkdtempSync(path.join(os.tmpdir(), "transfer-"));
+
+jest.mock("electron-store", () =>
+  jest.fn().mockImplementation((opts: any) => {
+    const data = { ...opts.defaults };
+    return {
+      get: (key: string) => data[key],
+      set: (key: string, value: unknown) => {
+        data[key] = value;
+      },
+    };
+  }),
+);
+
+jest.mock("electron", () => ({
+  app: { getPath: () => mockDir },
+  shell: {},
+}));
+
+jest.mock("../settings.service", () => ({
+  settingsService: { getSettings: () => ({ downloadPath: mockDir }) },
+}));
+
+jest.mock("../downloader/direct/direct-download.service", () => ({
+  directDownloader: {
+    on: jest.fn(),
+    getAllDownloads: jest.fn().mockReturnValue([]),
+    startDownload: jest.fn().mockResolvedValue({ success: true }),
+  },
+}));
+
+jest.mock("../downloader/direct/url-detection.service", () => ({
+  detectLinkType: jest.fn().mockResolvedValue({ isDirect: false }),
+}));
+
+jest.mock("../downloader/video", () => ({
+  videoDownloader: { on: jest.fn() },
+}));
+
+jest.mock("../downloader/video/video-download.service", () => ({
+  videoDownloader: {
+    getAllDownloads: jest.fn().mockReturnValue([]),
+    startDownload: jest.fn().mockResolvedValue({ success: true }),
+  },
+}));
+
+jest.mock("../conversion.service", () => ({
+  conversionService: { on: jest.fn() },
+}));
+
+import { directDownloader } from "../downloader/direct/direct-download.service";
+import { videoDownloader } from "../downloader/video/video-download.service";
+import { historyService, HistoryRecord } from "../history.service";
+import {
+  transferService,
+  parseExport,
+  serializeExport,
+  DownloadExport,
+} from "../transfer.service";
+
+const record: HistoryRecord = {
+  id: "h1",
+  url: "https://example.com/report, final.pdf",
+  filename: 'report, "final".pdf',
+  path: "/downloads/Documents/report.pdf",
+  size: 2048,
+  status: "completed",
+  date: "2026-01-02T03:04:05.000Z",
+  type: "file",
+  options: {
+    url: "https://example.com/report, final.pdf",
+    outputPath: "/downloads/Documents",
+    referer: "https://example.com/",
+  },
+};
+
+const exported: DownloadExport = {
+  version: 1,
+  exportedAt: "2026-01-02T03:04:05.000Z",
+  history: [record],
+  queue: [
+    {
+      url: "https://www.youtube.com/watch?v=abc",
+      engine: "video",
+      filename: "%(title).150s.%(ext)s",
+      status: "paused" as any,
+      options: {
+        url: "https://www.youtube.com/watch?v=abc",
+        outputPath: "",
+        audioOnly: true,
+      },
+    },
+  ],
+};
+
+const writeImport = (name: string, content: string) => {
+  const file = path.join(mockDir, name);
+  fs.writeFileSync(file, content);
+  return file;
+};
+
+describe("TransferService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    return historyService.clearHistory();
+  });
+
+  it("should round-trip history and queue through CSV", () => {
+    const csv = serializeExport(exported, "csv");
+    expect(csv.split("\n")[0]).toBe(
+      "source,id,url,engine,filename,type,status,size,date,path,options",
+    );
+
+    const parsed = parseExport(csv, "export.csv");
+    expect(parsed.history).toEqual([record]);
+    expect(parsed.queue).toEqual(exported.queue);
+  });
+
+  it("should write a plain URL list and read it back as links to queue", () => {
+    const urls = serializeExport(exported, "urls");
+    expect(urls).toBe(
+      "https://www.youtube.com/watch?v=abc\nhttps://example.com/report, final.pdf\n",
+    );
+
+    const parsed = parseExport("https://host/a.zip out=a.zip\n", "list.txt");
+    expect(parsed.history).toEqual([]);
+    expect(parsed.queue).toEqual([
+      {
+        url: "https://host/a.zip",
+        engine: null,
+        filename: "a.zip",
+        status: null,
+        options: {
+          url: "https://host/a.zip",
+          outputPath: "",
+          filename: "a.zip",
+          referer: undefined,
+          mirrors: undefined,
+        },
+      },
+    ]);
+    expect(() => parseExport("{ not json", "x.json")).toThrow(
+      "The file is not valid JSON",
+    );
+  });
+
+  it("should restore history records once", async () => {
+    const file = writeImport("history.json", JSON.stringify(exported));
+
+    expect(await transferService.importFromFile(file, "restore")).toEqual({
+      restored: 1,
+      queued: 0,
+      skipped: 0,
+      errors: [],
+    });
+    expect(await transferService.importFromFile(file, "restore")).toEqual({
+      restored: 0,
+      queued: 0,
+      skipped: 1,
+      errors: [],
+    });
+    expect(await historyService.getAllRecords()).toEqual([
+      { ...record, path: "", site: "example.com" },
+    ]);
+  });
+
+  it("should restore records as no longer on disk", async () => {
+    const target = path.join(mockDir, "keep.txt");
+    fs.writeFileSync(target, "keep");
+    const file = writeImport(
+      "pointed.json",
+      JSON.stringify({ ...exported, history: [{ ...record, path: target }] }),
+    );
+
+    await transferService.importFromFile(file, "restore");
+    const { records } = await historyService.getHistory();
+    expect(records[0]).toMatchObject({ path: "", exists: false });
+
+    await historyService.deleteRecord(record.id, true);
+    expect(fs.existsSync(target)).toBe(true);
+  });
+
+  it("should re-enqueue with the original options minus secrets and foreign paths", async () => {
+    (directDownloader.getAllDownloads as jest.Mock).mockReturnValue([
+      { url: "https://host/busy.zip", status: "downloading" },
+    ]);
+    const file = writeImport(
+      "batch.json",
+      JSON.stringify({
+        queue: [
+          {
+            url: "https://host/busy.zip",
+            engine: "direct",
+            options: { url: "https://host/busy.zip", outputPath: "" },
+          },
+          {
+            url: "https://host/app.exe",
+            engine: "direct",
+            options: {
+              url: "https://host/app.exe",
+              outputPath: "/no/such/folder",
+              filename: "../../app.exe",
+              cookies: "/home/someone/cookies.txt",
+              headers: { Cookie: "session=1" },
+              mirrors: ["https://mirror/app.exe"],
+            },
+          },
+          {
+            url: "https://video.example/watch/1",
+            engine: null,
+            options: {
+              url: "https://video.example/watch/1",
+              outputPath: "../Music",
+              audioOnly: true,
+            },
+          },
+        ],
+      }),
+    );
+
+    expect(await transferService.importFromFile(file, "enqueue")).toEqual({
+      restored: 0,
+      queued: 2,
+      skipped: 1,
+      errors: [],
+    });
+    expect(directDownloader.startDownload).toHaveBeenCalledTimes(1);
+    expect(directDownloader.startDownload).toHaveBeenCalledWith({
+      url: "https://host/app.exe",
+      outputPath: "",
+      filename: "app.exe",
+      mirrors: ["https://mirror/app.exe"],
+    });
+    expect(videoDownloader.startDownload).toHaveBeenCalledWith(null, {
+      url: "https://video.example/watch/1",
+      outputPath: "Music",
+      audioOnly: true,
+      filename: undefined,
+    });
+  });
+
+  it("should keep imported folders inside the download folder", async () => {
+    const inside = path.join(mockDir, "Shared");
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), "outside-"));
+    fs.mkdirSync(inside, { recursive: true });
+    // A link inside the download folder doesn't open a way out either
+    const link = path.join(mockDir, "escape");
+    fs.symlinkSync(outside, link);
+    const entry = (url: string, outputPath: string) => ({
+      url,
+      engine: "direct",
+      options: { url, outputPath },
+    });
+    const file = writeImport(
+      "escape.json",
+      JSON.stringify({
+        queue: [
+          entry("https://host/a.zip", inside),
+          entry("https://host/b.zip", outside),
+          entry("https://host/c.zip", link),
+          entry("https://host/d.zip", path.join(mockDir, "..")),
+        ],
+      }),
+    );
+
+    await transferService.importFromFile(file, "enqueue");
+
+    const folders = (
+      directDownloader.startDownload as jest.Mock
+    ).mock.calls.map(([options]) => options.outputPath);
+    expect(folders).toEqual([inside, "", "", ""]);
+  });
+
+  it("should refuse to restore a list without history records", async () => {
+    const file = writeImport("links.txt", "https://host/a.zip\n");
+    await expect(
+      transferService.importFromFile(file, "restore"),
+    ).rejects.toThrow("The file has no history records to restore");
+  });
+});
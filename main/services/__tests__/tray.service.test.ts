@@ -0,0 +1,153 @@
+jest.mock("electron", () => ({
+  app: {
+    quit: jest.fn(),
+    isPackaged: false,
+    getAppPath: () => "/app",
+  },
+  dialog: { showMessageBox: jest.fn() },
+  Menu: { buildFromTemplate: jest.fn() },
+  Tray: jest.fn().mockImplementation(() => ({
+    on: jest.fn(),
+    setToolTip: jest.fn(),
+    setContextMenu: jest.fn(),
+    destroy: jest.fn(),
+  })),
+  nativeImage: {
+    createFromPath: () => ({ resize: () => ({ isEmpty: () => false }) }),
+  },
+}));
+
+jest.mock("../downloader/direct", () => ({
+  directDownloader: { getAllDownloads: jest.fn().mockReturnValue([]) },
+}));
+
+jest.mock("../downloader/video", () => ({
+  videoDownloader: { getAllDownloads: jest.fn().mockReturnValue([]) },
+}));
+
+jest.mock("../queue.service", () => ({
+  queueService: {},
+  RUNNING_STATUSES: ["downloading", "extracting", "merging", "converting"],
+}));
+
+import { EventEmitter } from "events";
+import { app, dialog, Tray } from "electron";
+import { DownloadItem } from "../downloader/types";
+import { directDownloader } from "../downloader/direct";
+import { formatTrayStatus, getTrayStats } from "../tray.service";
+
+type TrayModule = typeof import("../tray.service");
+
+// A fresh service, as each app start gets one
+const loadService = (): TrayModule["trayService"] => {
+  let mod: TrayModule;
+  jest.isolateModules(() => {
+    mod = require("../tray.service");
+  });
+  return mod!.trayService;
+};
+
+// Fire "close" the way Electron does; true if the window would close
+const closeWindow = (window: EventEmitter) => {
+  let prevented = false;
+  window.emit("close", { preventDefault: () => (prevented = true) });
+  return !prevented;
+};
+
+const item = (status: string, speed: number | null) =>
+  ({ status, progress: { speed } }) as unknown as DownloadItem;
+
+describe("TrayService", () => {
+  it("should add up the speed of running downloads only", () => {
+    expect(
+      getTrayStats([
+        item("downloading", 1024),
+        item("merging", null),
+        item("paused", 5000),
+        item("extracting", 2048),
+      ]),
+    ).toEqual({ active: 3, speed: 3072 });
+  });
+
+  it("should summarise the stats for the tooltip", () => {
+    expect(formatTrayStatus({ active: 0, speed: 0 })).toBe(
+      "No active downloads",
+    );
+    expect(formatTrayStatus({ active: 1, speed: 512 })).toBe(
+      "1 download · 512 B/s",
+    );
+    expect(formatTrayStatus({ active: 2, speed: 1.5 * 1024 * 1024 })).toBe(
+      "2 downloads · 1.5 MB/s",
+    );
+  });
+
+  describe("closing and quitting", () => {
+    let window: EventEmitter & { hide: jest.Mock };
+    let service: TrayModule["trayService"];
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      window = Object.assign(new EventEmitter(), { hide: jest.fn() });
+    });
+
+    afterEach(() => service.destroy());
+
+    it("should hide the window to the tray", () => {
+      service = loadService();
+      service.init(window as any);
+
+      expect(service.hasTray()).toBe(true);
+      expect(closeWindow(window)).toBe(false);
+      expect(window.hide).toHaveBeenCalled();
+      expect(app.quit).not.toHaveBeenCalled();
+    });
+
+    it("should quit instead of hiding when there is no tray", () => {
+      (Tray as unknown as jest.Mock).mockImplementationOnce(() => {
+        throw new Error("No status notifier");
+      });
+      service = loadService();
+      service.init(window as any);
+
+      expect(service.hasTray()).toBe(false);
+      expect(closeWindow(window)).toBe(false);
+      expect(window.hide).not.toHaveBeenCalled();
+      expect(app.quit).toHaveBeenCalled();
+
+      // Once quitting, the window closes for real
+      service.destroy();
+      expect(closeWindow(window)).toBe(true);
+    });
+
+    it("should quit right away with nothing running", () => {
+      service = loadService();
+      expect(service.shouldQuit()).toBe(true);
+      expect(dialog.showMessageBox).not.toHaveBeenCalled();
+    });
+
+    it("should hold the quit until running downloads are confirmed", async () => {
+      (directDownloader.getAllDownloads as jest.Mock).mockReturnValue([
+        item("downloading", 1024),
+      ]);
+      (dialog.showMessageBox as jest.Mock)
+        .mockResolvedValueOnce({ response: 1 })
+        .mockResolvedValueOnce({ response: 0 });
+      service = loadService();
+
+      // Cancelled: nothing happens and the next attempt asks again
+      expect(service.shouldQuit()).toBe(false);
+      expect(service.shouldQuit()).toBe(false);
+      await new Promise(setImmediate);
+      expect(dialog.showMessageBox).toHaveBeenCalledTimes(1);
+      expect(app.quit).not.toHaveBeenCalled();
+
+      expect(service.shouldQuit()).toBe(false);
+      await new Promise(setImmediate);
+      expect(dialog.showMessageBox).toHaveBeenCalledTimes(2);
+      expect(app.quit).toHaveBeenCalledTimes(1);
+      expect(service.shouldQuit()).toBe(true);
+
+      (directDownloader.getAllDownloads as jest.Mock).mockReturnValue([]);
+    });
+  });
+});
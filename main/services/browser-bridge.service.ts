@@ -0,0 +1,457 @@
+import Store from "electron-store";
+import * as http from "http";
+import * as path from "path";
+import { randomBytes, timingSafeEqual } from "crypto";
+import { EventEmitter } from "events";
+import { WebSocketServer, WebSocket } from "ws";
+import { DownloadItem, DownloadOptions } from "./downloader/types";
+import { directDownloader, detectLinkType } from "./downloader/direct";
+import { videoDownloader } from "./downloader/video";
+import { APP_CONFIG } from "../../renderer/config/app-config";
+
+export interface BridgeConfig {
+  enabled: boolean;
+  port: number;
+  token: string;
+}
+
+export interface BridgeStatus extends BridgeConfig {
+  listening: boolean;
+  error: string | null;
+}
+
+/**
+ * Download request sent by the browser extension
+ */
+export interface BridgeDownloadRequest {
+  url: string;
+  referer?: string;
+  cookies?: string; // Raw "name=value; name2=value2" cookie header
+  userAgent?: string;
+  filename?: string;
+  headers?: Record<string, string>;
+  checksum?: string; // Expected hash published on the page
+  mode?: "auto" | "direct" | "video";
+  queueId?: string;
+}
+
+export interface BridgeDownloadResult {
+  engine: "direct" | "video";
+  items: DownloadItem[];
+}
+
+const DEFAULT_PORT = 18765;
+const MAX_BODY_SIZE = 1024 * 1024;
+
+const generateToken = () => randomBytes(24).toString("hex");
+
+/**
+ * Validate an extension request and turn it into engine options
+ */
+export function toDownloadOptions(
+  request: BridgeDownloadRequest,
+): DownloadOptions {
+  // The body is whatever JSON a client sent, not necessarily an object
+  if (
+    typeof request !== "object" ||
+    request === null ||
+    typeof request.url !== "string"
+  ) {
+    throw new Error("Missing url");
+  }
+
+  let url: URL;
+  try {
+    url = new URL(request.url);
+  } catch {
+    throw new Error("Invalid url");
+  }
+  // Never file:// - a page must not make us read local .torrent files
+  if (!["http:", "https:", "magnet:"].includes(url.protocol)) {
+    throw new Error("Only HTTP, HTTPS and magnet URLs are supported");
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers || {})) {
+    if (typeof value === "string" && /^[\w-]+$/.test(name)) {
+      headers[name] = value;
+    }
+  }
+  if (typeof request.cookies === "string" && request.cookies.trim()) {
+    headers.Cookie = request.cookies.trim();
+  }
+
+  const optional = (value: unknown) =>
+    typeof value === "string" && value.trim() ? value.trim() : undefined;
+  const filename = optional(request.filename);
+
+  return {
+    url: url.toString(),
+    outputPath: "",
+    // Never let a page pick a path outside the download folder
+    filename: filename ? path.basename(filename) : undefined,
+    referer: optional(request.referer),
+    userAgent: optional(request.userAgent),
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    queueId: optional(request.queueId),
+    checksum: optional(request.checksum),
+  };
+}
+
+/**
+ * Extension pages may call us; ordinary websites may not
+ */
+function isAllowedOrigin(origin: string | undefined): boolean {
+  if (!origin) return true;
+  return /^(chrome|moz|safari-web)-extension:\/\//.test(origin);
+}
+
+/**
+ * The request-target as a URL, or null when it can't be parsed
+ */
+function parseRequestUrl(req: http.IncomingMessage): URL | null {
+  try {
+    return new URL(req.url || "/", "http://127.0.0.1");
+  } catch {
+    return null;
+  }
+}
+
+class BrowserBridgeService extends EventEmitter {
+  private store: Store<{ bridge: BridgeConfig }>;
+  private server: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private error: string | null = null;
+  private forwardingEvents = false;
+
+  constructor() {
+    super();
+    this.store = new Store<{ bridge: BridgeConfig }>({
+      name: "browser-bridge",
+      defaults: {
+        bridge: {
+          enabled: true,
+          port: DEFAULT_PORT,
+          token: generateToken(),
+        },
+      },
+    });
+  }
+
+  getConfig(): BridgeConfig {
+    return this.store.get("bridge");
+  }
+
+  getStatus(): BridgeStatus {
+    return {
+      ...this.getConfig(),
+      listening: !!this.server?.listening,
+      error: this.error,
+    };
+  }
+
+  async updateConfig(
+    config: Partial<Pick<BridgeConfig, "enabled" | "port">>,
+  ): Promise<BridgeStatus> {
+    const current = this.getConfig();
+    const port = Number(config.port ?? current.port);
+    this.store.set("bridge", {
+      ...current,
+      enabled: config.enabled ?? current.enabled,
+      port: port >= 1024 && port <= 65535 ? port : current.port,
+    });
+    await this.restart();
+    return this.getStatus();
+  }
+
+  /**
+   * Invalidate the token handed to extensions
+   */
+  regenerateToken(): BridgeStatus {
+    this.store.set("bridge", { ...this.getConfig(), token: generateToken() });
+    // Drop sockets that authenticated with the old token
+    this.wss?.clients.forEach((client) => client.close(4001, "Token changed"));
+    this.changed();
+    return this.getStatus();
+  }
+
+  /**
+   * Start listening on localhost if the bridge is enabled
+   */
+  async start(): Promise<void> {
+    this.attachEngineEvents();
+    const { enabled, port } = this.getConfig();
+    if (!enabled || this.server) return;
+
+    const server = http.createServer((req, res) =>
+      this.handleHttp(req, res).catch((err) => {
+        console.error("[BrowserBridge] Request failed:", err);
+        if (res.headersSent) {
+          res.end();
+          return;
+        }
+        this.send(res, 500, { success: false, error: "Internal error" });
+      }),
+    );
+    const wss = new WebSocketServer({ noServer: true });
+    server.on("upgrade", (req, socket, head) => {
+      const url = parseRequestUrl(req);
+      if (!url) {
+        socket.write("HTTP/1.1 400 Bad Request\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+      if (
+        !this.isAuthorized(req, url) ||
+        !isAllowedOrigin(req.headers.origin)
+      ) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => this.handleSocket(ws));
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, "127.0.0.1", () => {
+          server.off("error", reject);
+          resolve();
+        });
+      });
+      this.server = server;
+      this.wss = wss;
+      this.error = null;
+      console.log(`[BrowserBridge] Listening on 127.0.0.1:${port}`);
+    } catch (err) {
+      this.error = err instanceof Error ? err.message : String(err);
+      console.error("[BrowserBridge] Failed to start:", err);
+    }
+    this.changed();
+  }
+
+  async stop(): Promise<void> {
+    this.wss?.clients.forEach((client) => client.terminate());
+    this.wss?.close();
+    this.wss = null;
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      // Keep-alive connections would otherwise hold close() open
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      console.log("[BrowserBridge] Stopped");
+    }
+    this.changed();
+  }
+
+  private async restart(): Promise<void> {
+    await this.stop();
+    await this.start();
+  }
+
+  /**
+   * Hand a request to the right engine
+   */
+  async routeDownload(
+    request: BridgeDownloadRequest,
+  ): Promise<BridgeDownloadResult> {
+    const options = toDownloadOptions(request);
+    const mode = request.mode || "auto";
+
+    const isDirect =
+      mode === "direct" ||
+      (mode === "auto" && (await detectLinkType(options.url, "auto")).isDirect);
+
+    console.log(
+      `[BrowserBridge] Download request (${isDirect ? "direct" : "video"}): ${options.url}`,
+    );
+
+    if (isDirect) {
+      const result = await directDownloader.startDownload(options);
+      if (!result.success) throw new Error(result.error || "Download failed");
+      return { engine: "direct", items: result.data ? [result.data] : [] };
+    }
+
+    // Metadata gives the item a title and thumbnail but isn't required
+    const info = await videoDownloader.getVideoMetadata(options.url);
+    const result = await videoDownloader.startDownload(
+      info.success ? info.data : null,
+      options,
+    );
+    if (!result.success) throw new Error(result.error || "Download failed");
+    const items = Array.isArray(result.data) ? result.data : [result.data];
+    return { engine: "video", items };
+  }
+
+  private isAuthorized(req: http.IncomingMessage, url: URL): boolean {
+    const header = req.headers.authorization || "";
+    let provided = header.startsWith("Bearer ") ? header.slice(7) : "";
+
+    // Browsers can't set headers on a WebSocket handshake
+    if (!provided) {
+      provided = url.searchParams.get("token") || "";
+    }
+
+    const expected = Buffer.from(this.getConfig().token);
+    const actual = Buffer.from(provided);
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+
+  private async handleHttp(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const origin = req.headers.origin;
+    if (!isAllowedOrigin(origin)) {
+      return this.send(res, 403, { success: false, error: "Forbidden" });
+    }
+    if (origin) {
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader(
+        "Access-Control-Allow-Headers",
+        "Authorization, Content-Type",
+      );
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    }
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = parseRequestUrl(req);
+    if (!url) {
+      return this.send(res, 400, { success: false, error: "Bad request" });
+    }
+    const { pathname } = url;
+
+    // Lets the extension find the app before it has a token
+    if (req.method === "GET" && pathname === "/ping") {
+      return this.send(res, 200, {
+        success: true,
+        data: { app: APP_CONFIG.name, version: APP_CONFIG.version },
+      });
+    }
+
+    if (!this.isAuthorized(req, url)) {
+      return this.send(res, 401, { success: false, error: "Unauthorized" });
+    }
+
+    if (req.method === "POST" && pathname === "/download") {
+      try {
+        const body = await this.readBody(req);
+        const data = await this.routeDownload(JSON.parse(body));
+        return this.send(res, 200, { success: true, data });
+      } catch (err) {
+        return this.send(res, 400, {
+          success: false,
+          error: err instanceof Error ? err.message : "Invalid request",
+        });
+      }
+    }
+
+    return this.send(res, 404, { success: false, error: "Not found" });
+  }
+
+  private handleSocket(ws: WebSocket): void {
+    ws.on("message", async (raw) => {
+      let message: { id?: string; type?: string; payload?: unknown } | null;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        message = null;
+      }
+      // null, numbers and strings are valid JSON but not messages
+      if (typeof message !== "object" || message === null) {
+        ws.send(JSON.stringify({ type: "error", error: "Invalid message" }));
+        return;
+      }
+
+      if (message.type !== "download") {
+        ws.send(
+          JSON.stringify({
+            id: message.id,
+            type: "error",
+            error: "Unknown message type",
+          }),
+        );
+        return;
+      }
+
+      try {
+        const data = await this.routeDownload(
+          message.payload as BridgeDownloadRequest,
+        );
+        ws.send(JSON.stringify({ id: message.id, type: "result", data }));
+      } catch (err) {
+        ws.send(
+          JSON.stringify({
+            id: message.id,
+            type: "error",
+            error: err instanceof Error ? err.message : "Download failed",
+          }),
+        );
+      }
+    });
+  }
+
+  /**
+   * Push status changes to connected extensions
+   */
+  private attachEngineEvents(): void {
+    if (this.forwardingEvents) return;
+    this.forwardingEvents = true;
+
+    const broadcast = (item: DownloadItem) => {
+      if (!this.wss || this.wss.clients.size === 0) return;
+      const message = JSON.stringify({
+        type: "status",
+        data: {
+          id: item.id,
+          url: item.url,
+          status: item.status,
+          filename: item.filename,
+          progress: item.progress.progress,
+        },
+      });
+      this.wss.clients.forEach((client) => {
+        if (client.readyState === WebSocket.OPEN) client.send(message);
+      });
+    };
+    directDownloader.on("status-changed", broadcast);
+    videoDownloader.on("status-changed", broadcast);
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let size = 0;
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_SIZE) {
+          reject(new Error("Request body too large"));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+      req.on("error", reject);
+    });
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private changed(): void {
+    this.emit("changed", this.getStatus());
+  }
+}
+
+export const browserBridgeService = new BrowserBridgeService();
@@ -0,0 +1,152 @@
+import { clipboard } from "electron";
+import { EventEmitter } from "events";
+import { DownloadStatus, SUPPORTED_PLATFORMS } from "./downloader/types";
+import {
+  directDownloader,
+  detectLinkType,
+  isVideoPlatform,
+} from "./downloader/direct";
+import { videoDownloader } from "./downloader/video";
+import { historyService } from "./history.service";
+import { settingsService } from "./settings.service";
+
+const POLL_INTERVAL = 1000;
+const MAX_LINKS_PER_COPY = 10;
+
+/**
+ * A copied link worth offering as a download
+ */
+export interface ClipboardLink {
+  url: string;
+  kind: "direct" | "video";
+  filename: string | null;
+}
+
+/**
+ * Pull http(s) and magnet links out of copied text
+ */
+export function extractLinks(text: string): string[] {
+  const matches = text.match(/(https?:\/\/|magnet:\?)[^\s"'<>]+/gi) || [];
+  const links: string[] = [];
+  for (const match of matches) {
+    // Drop punctuation that usually ends the sentence, not the URL
+    const link = match.replace(/[.,;:!?)\]}]+$/, "");
+    try {
+      const url = new URL(link).toString();
+      if (!links.includes(url)) links.push(url);
+    } catch {
+      // Not a URL after all
+    }
+    if (links.length >= MAX_LINKS_PER_COPY) break;
+  }
+  return links;
+}
+
+/**
+ * Whether a URL belongs to a site yt-dlp is known to handle
+ */
+export function isKnownPlatform(url: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return false;
+  }
+  if (isVideoPlatform(hostname)) return true;
+  return Object.values(SUPPORTED_PLATFORMS).some((platform) =>
+    platform.domains.some(
+      (domain) => hostname === domain || hostname.endsWith(`.${domain}`),
+    ),
+  );
+}
+
+/**
+ * Watches the clipboard for downloadable links and emits "link" for each
+ * new one so the UI can offer a quick download
+ * Electron has no clipboard change event, so the text is polled
+ */
+class ClipboardMonitorService extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private lastText = "";
+  private offered = new Set<string>();
+
+  /**
+   * Start or stop watching to match the settings
+   */
+  sync(): void {
+    if (settingsService.getSettings().clipboardMonitor) {
+      this.start();
+    } else {
+      this.stop();
+    }
+  }
+
+  private start(): void {
+    if (this.timer) return;
+    // Only react to what is copied from now on
+    this.lastText = clipboard.readText();
+    this.timer = setInterval(() => {
+      this.check().catch((error) =>
+        console.error("[Clipboard] Failed to check clipboard:", error),
+      );
+    }, POLL_INTERVAL);
+    console.log("[Clipboard] Monitor started");
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    console.log("[Clipboard] Monitor stopped");
+  }
+
+  private async check(): Promise<void> {
+    const text = clipboard.readText();
+    if (text === this.lastText) return;
+    this.lastText = text;
+
+    for (const url of extractLinks(text)) {
+      // Copying the same link twice shouldn't prompt twice
+      if (this.offered.has(url) || (await this.isKnownDownload(url))) continue;
+      this.offered.add(url);
+
+      const link = await this.recognise(url);
+      if (link) this.emit("link", link);
+    }
+  }
+
+  /**
+   * Known platforms are offered as videos; anything else only if it
+   * turns out to be a direct file, so ordinary web pages are ignored
+   */
+  private async recognise(url: string): Promise<ClipboardLink | null> {
+    const result = await detectLinkType(url, "auto");
+    if (result.isDirect) {
+      return { url, kind: "direct", filename: result.filename || null };
+    }
+    if (isKnownPlatform(url)) {
+      return { url, kind: "video", filename: null };
+    }
+    return null;
+  }
+
+  /**
+   * Already downloading, queued or downloaded before
+   */
+  private async isKnownDownload(url: string): Promise<boolean> {
+    const active = [
+      ...directDownloader.getAllDownloads(),
+      ...videoDownloader.getAllDownloads(),
+    ].some(
+      (item) =>
+        item.url === url &&
+        item.status !== DownloadStatus.FAILED &&
+        item.status !== DownloadStatus.CANCELLED,
+    );
+    if (active) return true;
+
+    return historyService.hasCompleted(url);
+  }
+}
+
+export const clipboardMonitorService = new ClipboardMonitorService();
@@ -0,0 +1,438 @@
+import Store from "electron-store";
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { ChildProcess, spawn } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { DownloadItem, DownloadStatus, VideoInfo } from "./downloader/types";
+import { directDownloader } from "./downloader/direct";
+import { videoDownloader } from "./downloader/video";
+import { getFfmpegPath, isFfmpegAvailable } from "./utils/binary-manager";
+import { generateUniqueFilename } from "./utils/file-utils";
+
+/**
+ * A named ffmpeg recipe applied to a finished file
+ */
+export interface ConversionPreset {
+  id: string;
+  name: string;
+  extension: string; // Output container, e.g. "mkv" or "mp3"
+  args: string; // ffmpeg output options, e.g. "-c:v libx265 -crf 28"
+}
+
+interface ConversionStoreSchema {
+  presets: ConversionPreset[];
+}
+
+interface ConversionJob {
+  input: string;
+  preset: ConversionPreset;
+  process: ChildProcess | null;
+}
+
+const DEFAULT_PRESETS: ConversionPreset[] = [
+  {
+    id: "h265-mkv-720p",
+    name: "H.265 MKV 720p",
+    extension: "mkv",
+    args: "-vf scale=-2:720 -c:v libx265 -crf 28 -preset medium -c:a aac -b:a 128k",
+  },
+  {
+    id: "mp3-192k",
+    name: "MP3 192k",
+    extension: "mp3",
+    args: "-vn -c:a libmp3lame -b:a 192k",
+  },
+  {
+    id: "opus-voice",
+    name: "Opus voice",
+    extension: "opus",
+    args: "-vn -c:a libopus -b:a 32k -ac 1 -application voip",
+  },
+  {
+    id: "gif-clip",
+    name: "GIF clip",
+    extension: "gif",
+    args: "-t 10 -vf fps=12,scale=480:-1:flags=lanczos -loop 0",
+  },
+];
+
+const AUDIO_EXTENSIONS = ["mp3", "m4a", "aac", "opus", "ogg", "flac", "wav"];
+
+/**
+ * Split preset options like a shell would, keeping quoted values whole
+ */
+export function splitArgs(args: string): string[] {
+  const parts: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(args)) !== null) {
+    parts.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return parts;
+}
+
+/**
+ * "01:02:03.5" -> 3723.5
+ */
+export function parseTimestamp(value: string): number | null {
+  const parts = value.trim().split(":").map(Number);
+  if (parts.length === 0 || parts.some((part) => isNaN(part))) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Length of the output, capped by a "-t" clip duration in the options
+ */
+export function getOutputDuration(
+  args: string[],
+  inputDuration: number | null,
+): number | null {
+  const index = args.lastIndexOf("-t");
+  const clip = index !== -1 ? parseTimestamp(args[index + 1] || "") : null;
+  if (clip === null) return inputDuration;
+  return inputDuration === null ? clip : Math.min(clip, inputDuration);
+}
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Runs ffmpeg conversion presets on finished files, one job at a time
+ * Jobs are tracked like downloads in the CONVERTING status and emit the
+ * same events as the download engines
+ */
+class ConversionService extends EventEmitter {
+  private store: Store<ConversionStoreSchema>;
+  private items: DownloadItem[] = [];
+  private jobs: Map<string, ConversionJob> = new Map();
+  private started = false;
+
+  constructor() {
+    super();
+    this.store = new Store<ConversionStoreSchema>({
+      name: "conversion-presets",
+      defaults: {
+        presets: DEFAULT_PRESETS,
+      },
+    });
+  }
+
+  getPresets(): ConversionPreset[] {
+    return this.store.get("presets");
+  }
+
+  /**
+   * Add a preset, or replace the one with the same id
+   */
+  savePreset(preset: Partial<ConversionPreset>): ConversionPreset {
+    const name = preset.name?.trim();
+    const extension = preset.extension?.trim().replace(/^\./, "").toLowerCase();
+    if (!name) throw new Error("Enter a name for the preset");
+    if (!extension || !/^[a-z0-9]{1,5}$/.test(extension)) {
+      throw new Error("Enter the output extension, e.g. mp4 or mp3");
+    }
+
+    const saved: ConversionPreset = {
+      id: preset.id || randomUUID(),
+      name,
+      extension,
+      args: preset.args?.trim() || "",
+    };
+    const presets = this.getPresets().filter((p) => p.id !== saved.id);
+    this.store.set("presets", [...presets, saved]);
+    return saved;
+  }
+
+  deletePreset(id: string): void {
+    this.store.set(
+      "presets",
+      this.getPresets().filter((p) => p.id !== id),
+    );
+  }
+
+  /**
+   * Convert downloads that finish with a preset attached
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    for (const downloader of [directDownloader, videoDownloader]) {
+      downloader.on("complete", (item: DownloadItem) => {
+        const presetId = item.options?.conversionPresetId;
+        if (!presetId || !item.filename) return;
+        try {
+          this.convertFile(
+            path.join(item.outputPath, item.filename),
+            presetId,
+            item.videoInfo,
+          );
+        } catch (error) {
+          console.error(
+            `[Conversion] Could not convert ${item.filename}:`,
+            error,
+          );
+        }
+      });
+    }
+  }
+
+  /**
+   * Queue a conversion of a file on disk
+   */
+  convertFile(
+    input: string,
+    presetId: string,
+    videoInfo: VideoInfo | null = null,
+  ): DownloadItem {
+    const preset = this.getPresets().find((p) => p.id === presetId);
+    if (!preset) throw new Error("Conversion preset not found");
+    if (!isFfmpegAvailable()) throw new Error("ffmpeg is not available");
+    if (!fs.existsSync(input)) throw new Error("File not found");
+
+    const outputPath = path.dirname(input);
+    const filename = generateUniqueFilename(
+      outputPath,
+      `${path.parse(input).name}.${preset.extension}`,
+    );
+    const id = randomUUID();
+    const item: DownloadItem = {
+      id,
+      url: pathToFileURL(input).toString(),
+      videoInfo,
+      options: {
+        url: pathToFileURL(input).toString(),
+        outputPath,
+        filename,
+        audioOnly: AUDIO_EXTENSIONS.includes(preset.extension),
+        conversionPresetId: preset.id,
+      },
+      status: DownloadStatus.PENDING,
+      progress: {
+        downloadId: id,
+        status: DownloadStatus.PENDING,
+        progress: 0,
+        downloadedBytes: 0,
+        totalBytes: null,
+        speed: null,
+        speedString: null,
+        eta: null,
+        etaString: null,
+        filename,
+      },
+      outputPath,
+      filename,
+      createdAt: new Date(),
+      startedAt: null,
+      completedAt: null,
+      error: null,
+      retryCount: 0,
+    };
+
+    this.items.push(item);
+    this.jobs.set(id, { input, preset, process: null });
+    console.log(`[Conversion] Queued ${filename} (${preset.name})`);
+    this.emit("status-changed", item);
+    this.processQueue();
+    return item;
+  }
+
+  getDownloadStatus(id: string): DownloadItem | null {
+    return this.items.find((item) => item.id === id) || null;
+  }
+
+  getAllDownloads(): DownloadItem[] {
+    return [...this.items];
+  }
+
+  /**
+   * Stop a job and drop its unfinished output
+   */
+  cancelDownload(id: string): boolean {
+    const item = this.getDownloadStatus(id);
+    const job = this.jobs.get(id);
+    if (!item || !job) return false;
+
+    // Removing a finished job from the list isn't a cancellation
+    const unfinished =
+      item.status !== DownloadStatus.COMPLETED &&
+      item.status !== DownloadStatus.FAILED;
+    item.status = DownloadStatus.CANCELLED;
+    // The partial output is removed once ffmpeg has exited
+    job.process?.kill();
+    if (unfinished) this.emit("cancelled", item);
+    this.forget(id);
+    this.processQueue();
+    return true;
+  }
+
+  /**
+   * Run a failed job again
+   */
+  resumeDownload(id: string): boolean {
+    const item = this.getDownloadStatus(id);
+    if (!item || item.status !== DownloadStatus.FAILED) return false;
+
+    item.status = DownloadStatus.PENDING;
+    item.progress.status = DownloadStatus.PENDING;
+    item.progress.progress = 0;
+    item.error = null;
+    this.emit("status-changed", item);
+    this.processQueue();
+    return true;
+  }
+
+  clearCompleted(): number {
+    const finished = this.items.filter(
+      (item) =>
+        item.status === DownloadStatus.COMPLETED ||
+        item.status === DownloadStatus.FAILED,
+    );
+    finished.forEach((item) => this.forget(item.id));
+    return finished.length;
+  }
+
+  private forget(id: string): void {
+    this.items = this.items.filter((item) => item.id !== id);
+    this.jobs.delete(id);
+    this.emit("item-removed", id);
+  }
+
+  /**
+   * ffmpeg uses every core, so jobs run one after another
+   */
+  private processQueue(): void {
+    if (this.items.some((item) => item.status === DownloadStatus.CONVERTING)) {
+      return;
+    }
+    const next = this.items.find(
+      (item) => item.status === DownloadStatus.PENDING,
+    );
+    if (next) this.run(next);
+  }
+
+  private run(item: DownloadItem): void {
+    const job = this.jobs.get(item.id)!;
+    const ffmpeg = getFfmpegPath();
+    const output = path.join(item.outputPath, item.filename!);
+    const presetArgs = splitArgs(job.preset.args);
+    const args = [
+      "-hide_banner",
+      "-y",
+      "-i",
+      job.input,
+      ...presetArgs,
+      "-progress",
+      "pipe:1",
+      "-nostats",
+      output,
+    ];
+
+    item.status = DownloadStatus.CONVERTING;
+    item.progress.status = DownloadStatus.CONVERTING;
+    item.startedAt = new Date();
+    this.emit("status-changed", item);
+
+    const proc = spawn(ffmpeg!, args, { windowsHide: true });
+    job.process = proc;
+
+    let duration: number | null = null;
+    let stderr = "";
+    proc.stderr.on("data", (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-4000);
+      if (duration === null) {
+        const match = stderr.match(/Duration: (\d+:\d+:\d+(?:\.\d+)?)/);
+        if (match) {
+          duration = getOutputDuration(presetArgs, parseTimestamp(match[1]));
+        }
+      }
+    });
+
+    let speed = 0;
+    proc.stdout.on("data", (data: Buffer) => {
+      for (const line of data.toString().split(/\r?\n/)) {
+        const [key, value] = line.split("=");
+        if (key === "speed") {
+          speed = parseFloat(value) || 0;
+        } else if (key === "total_size") {
+          item.progress.downloadedBytes = parseInt(value, 10) || 0;
+        } else if (key === "out_time_ms" && duration) {
+          // Microseconds, despite the name
+          const done = (parseInt(value, 10) || 0) / 1e6;
+          this.updateProgress(item, done, duration, speed);
+        }
+      }
+    });
+
+    proc.on("error", (error) => this.finish(item, error.message));
+    proc.on("close", (code) => {
+      if (item.status === DownloadStatus.CANCELLED) {
+        this.removeOutput(item);
+        return;
+      }
+      if (code === 0) {
+        this.finish(item, null);
+      } else {
+        const lastLine = stderr.trim().split(/\r?\n/).pop();
+        this.finish(item, lastLine || `ffmpeg exited with code ${code}`);
+      }
+    });
+  }
+
+  private updateProgress(
+    item: DownloadItem,
+    done: number,
+    duration: number,
+    speed: number,
+  ): void {
+    const progress = item.progress;
+    progress.progress = Math.min(99, Math.round((done / duration) * 100));
+    progress.speedString = speed ? `${speed.toFixed(1)}x` : null;
+    progress.eta = speed
+      ? Math.max(0, Math.round((duration - done) / speed))
+      : null;
+    progress.etaString = progress.eta !== null ? formatEta(progress.eta) : null;
+    this.emit("progress", progress);
+  }
+
+  private finish(item: DownloadItem, error: string | null): void {
+    const job = this.jobs.get(item.id);
+    if (job) job.process = null;
+    if (item.status !== DownloadStatus.CONVERTING) return;
+
+    if (error) {
+      item.status = DownloadStatus.FAILED;
+      item.progress.status = DownloadStatus.FAILED;
+      item.error = error;
+      this.removeOutput(item);
+      console.error(`[Conversion] ${item.filename} failed: ${error}`);
+      this.emit("error", item, error);
+    } else {
+      const output = path.join(item.outputPath, item.filename!);
+      item.status = DownloadStatus.COMPLETED;
+      item.completedAt = new Date();
+      item.progress.status = DownloadStatus.COMPLETED;
+      item.progress.progress = 100;
+      item.progress.totalBytes = fs.existsSync(output)
+        ? fs.statSync(output).size
+        : null;
+      console.log(`[Conversion] Finished ${item.filename}`);
+      this.emit("complete", item);
+    }
+    this.emit("status-changed", item);
+    this.processQueue();
+  }
+
+  private removeOutput(item: DownloadItem): void {
+    const output = path.join(item.outputPath, item.filename!);
+    fs.promises.unlink(output).catch(() => {});
+  }
+}
+
+export const conversionService = new ConversionService();
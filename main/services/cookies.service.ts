@@ -0,0 +1,302 @@
+import Store from "electron-store";
+import { app, dialog } from "electron";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { normalizeHost } from "./utils/host-match";
+
+/**
+ * A single cookie, as stored in a Netscape cookies.txt file
+ */
+export interface Cookie {
+  domain: string; // Leading "." = also sent to subdomains
+  path: string;
+  secure: boolean;
+  expires: number; // Unix seconds, 0 = session cookie
+  name: string;
+  value: string;
+}
+
+/**
+ * A named set of cookies for one site
+ * The cookies live in a cookies.txt file that yt-dlp reads (and refreshes)
+ */
+export interface CookieProfile {
+  id: string;
+  name: string;
+  host: string; // Also covers subdomains
+  cookieCount: number;
+  updatedAt: number;
+}
+
+/**
+ * Parse a Netscape/Mozilla cookies.txt file (as exported by browser extensions)
+ */
+export function parseNetscapeCookies(content: string): Cookie[] {
+  const cookies: Cookie[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    // curl and yt-dlp mark HttpOnly cookies with a comment-like prefix
+    const line = rawLine.replace(/^#HttpOnly_/, "");
+    if (!line.trim() || line.startsWith("#")) continue;
+
+    const fields = line.split("\t");
+    if (fields.length < 7) continue;
+    const [domain, , cookiePath, secure, expires, name, ...value] = fields;
+    if (!domain || !name) continue;
+
+    cookies.push({
+      domain: domain.toLowerCase(),
+      path: cookiePath || "/",
+      secure: secure.toUpperCase() === "TRUE",
+      expires: parseInt(expires, 10) || 0,
+      name,
+      value: value.join("\t"),
+    });
+  }
+  return cookies;
+}
+
+/**
+ * Parse a pasted "name=value; name2=value2" header (a "Cookie:" prefix is allowed)
+ */
+export function parseCookieHeader(header: string, host: string): Cookie[] {
+  return header
+    .replace(/^\s*cookie:/i, "")
+    .split(";")
+    .map((pair) => pair.trim())
+    .filter((pair) => pair.includes("="))
+    .map((pair) => {
+      const index = pair.indexOf("=");
+      return {
+        domain: `.${host}`,
+        path: "/",
+        secure: false,
+        expires: 0,
+        name: pair.slice(0, index).trim(),
+        value: pair.slice(index + 1).trim(),
+      };
+    })
+    .filter((cookie) => cookie.name);
+}
+
+export function serializeNetscapeCookies(cookies: Cookie[]): string {
+  const lines = cookies.map((cookie) =>
+    [
+      cookie.domain,
+      cookie.domain.startsWith(".") ? "TRUE" : "FALSE",
+      cookie.path,
+      cookie.secure ? "TRUE" : "FALSE",
+      cookie.expires,
+      cookie.name,
+      cookie.value,
+    ].join("\t"),
+  );
+  return ["# Netscape HTTP Cookie File", "", ...lines, ""].join("\n");
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * The Cookie header a browser would send for `url`
+ */
+export function buildCookieHeader(
+  cookies: Cookie[],
+  url: string,
+  now: number = Date.now(),
+): string | null {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return null;
+  }
+  const hostname = urlObj.hostname.toLowerCase();
+
+  const header = cookies
+    .filter((cookie) => {
+      const hostOnly = !cookie.domain.startsWith(".");
+      const domain = cookie.domain.replace(/^\./, "");
+      if (hostOnly ? hostname !== domain : !matchesDomain(hostname, domain)) {
+        return false;
+      }
+      if (cookie.secure && urlObj.protocol !== "https:") return false;
+      if (cookie.expires > 0 && cookie.expires * 1000 < now) return false;
+      return urlObj.pathname.startsWith(cookie.path);
+    })
+    .map((cookie) => `${cookie.name}=${cookie.value}`)
+    .join("; ");
+  return header || null;
+}
+
+/**
+ * The site most of the cookies belong to
+ */
+function guessHost(cookies: Cookie[]): string | null {
+  const counts = new Map<string, number>();
+  for (const cookie of cookies) {
+    const domain = cookie.domain.replace(/^\./, "").replace(/^www\./, "");
+    counts.set(domain, (counts.get(domain) || 0) + 1);
+  }
+  let best: string | null = null;
+  counts.forEach((count, domain) => {
+    if (!best || count > (counts.get(best) as number)) best = domain;
+  });
+  return best;
+}
+
+/**
+ * Named per-site cookie profiles for sign-in or age-restricted downloads
+ * The matching profile is attached to yt-dlp (--cookies) and aria2
+ * (Cookie header) by hostname
+ */
+class CookiesService {
+  private store: Store<{ profiles: CookieProfile[] }>;
+  private cookiesDir: string;
+
+  constructor() {
+    this.store = new Store<{ profiles: CookieProfile[] }>({
+      name: "cookie-profiles",
+      defaults: { profiles: [] },
+    });
+    this.cookiesDir = path.join(app.getPath("userData"), "cookies");
+  }
+
+  getProfiles(): CookieProfile[] {
+    return this.store.get("profiles");
+  }
+
+  /**
+   * Add a profile from a cookies.txt file's content or a pasted Cookie header
+   * The site is taken from the cookies themselves when `host` is empty
+   */
+  saveProfile(name: string, host: string, content: string): CookieProfile {
+    const isNetscape = /^\S+\t(TRUE|FALSE)\t/im.test(content);
+    let key = host.trim() ? normalizeHost(host.replace(/^\*\./, "")) : null;
+    if (host.trim() && !key) {
+      throw new Error("Invalid host");
+    }
+
+    let cookies: Cookie[];
+    if (isNetscape) {
+      cookies = parseNetscapeCookies(content);
+      key = key || guessHost(cookies);
+    } else {
+      if (!key) {
+        throw new Error("Enter the site these cookies belong to");
+      }
+      cookies = parseCookieHeader(content, key.replace(/:\d+$/, ""));
+    }
+    if (cookies.length === 0 || !key) {
+      throw new Error("No cookies found");
+    }
+
+    const profile: CookieProfile = {
+      id: randomUUID(),
+      name: name.trim() || key,
+      host: key,
+      cookieCount: cookies.length,
+      updatedAt: Date.now(),
+    };
+    fs.mkdirSync(this.cookiesDir, { recursive: true });
+    fs.writeFileSync(
+      this.getProfilePath(profile.id),
+      serializeNetscapeCookies(cookies),
+      { mode: 0o600 },
+    );
+    this.store.set("profiles", [...this.getProfiles(), profile]);
+    return profile;
+  }
+
+  /**
+   * Pick a cookies.txt file and add it as a profile (null if cancelled)
+   */
+  async importFile(name: string, host: string): Promise<CookieProfile | null> {
+    const result = await dialog.showOpenDialog({
+      properties: ["openFile"],
+      filters: [
+        { name: "Cookies", extensions: ["txt"] },
+        { name: "All Files", extensions: ["*"] },
+      ],
+    });
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+    return this.saveProfile(
+      name,
+      host,
+      fs.readFileSync(result.filePaths[0], "utf8"),
+    );
+  }
+
+  deleteProfile(id: string): void {
+    const profiles = this.getProfiles();
+    // Only touch files of known profiles; the id comes from the renderer
+    if (!profiles.some((profile) => profile.id === id)) return;
+
+    this.store.set(
+      "profiles",
+      profiles.filter((profile) => profile.id !== id),
+    );
+    fs.rmSync(this.getProfilePath(id), { force: true });
+  }
+
+  /**
+   * The profile to use for a URL: `profileId` if given, otherwise the
+   * most recently updated profile for the URL's site
+   */
+  getProfileForUrl(url: string, profileId?: string): CookieProfile | null {
+    const profiles = this.getProfiles();
+    if (profileId) {
+      return profiles.find((profile) => profile.id === profileId) || null;
+    }
+
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      return null;
+    }
+    return (
+      profiles
+        .filter((profile) =>
+          matchesDomain(hostname, profile.host.replace(/:\d+$/, "")),
+        )
+        .sort((a, b) => b.updatedAt - a.updatedAt)[0] || null
+    );
+  }
+
+  /**
+   * cookies.txt path for yt-dlp's --cookies
+   */
+  getCookieFile(url: string, profileId?: string): string | null {
+    const profile = this.getProfileForUrl(url, profileId);
+    if (!profile) return null;
+    const filePath = this.getProfilePath(profile.id);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  /**
+   * Cookie header for aria2
+   */
+  getCookieHeader(url: string, profileId?: string): string | null {
+    const filePath = this.getCookieFile(url, profileId);
+    if (!filePath) return null;
+    try {
+      return buildCookieHeader(
+        parseNetscapeCookies(fs.readFileSync(filePath, "utf8")),
+        url,
+      );
+    } catch (error) {
+      console.error("[Cookies] Failed to read cookie profile:", error);
+      return null;
+    }
+  }
+
+  private getProfilePath(id: string): string {
+    return path.join(this.cookiesDir, `${id}.txt`);
+  }
+}
+
+export const cookiesService = new CookiesService();
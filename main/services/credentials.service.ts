@@ -0,0 +1,109 @@
+import Store from "electron-store";
+import { safeStorage } from "electron";
+import { randomUUID } from "crypto";
+import { matchHost, normalizeHost } from "./utils/host-match";
+
+/**
+ * A saved login, as shown to the renderer (never includes the password)
+ */
+export interface SiteCredential {
+  id: string;
+  host: string; // "example.com", "example.com:2121" or "*.example.com"
+  username: string;
+}
+
+interface StoredCredential extends SiteCredential {
+  secret: string; // safeStorage-encrypted password, base64
+}
+
+export interface CredentialsState {
+  credentials: SiteCredential[];
+  encryptionAvailable: boolean;
+}
+
+/**
+ * Per-host logins for FTP/SFTP and password-protected HTTP downloads
+ * Passwords are encrypted with the OS keychain via Electron safeStorage
+ */
+class CredentialsService {
+  private store: Store<{ credentials: StoredCredential[] }>;
+
+  constructor() {
+    this.store = new Store<{ credentials: StoredCredential[] }>({
+      name: "credentials",
+      defaults: { credentials: [] },
+    });
+  }
+
+  getState(): CredentialsState {
+    return {
+      credentials: this.store
+        .get("credentials")
+        .map(({ id, host, username }) => ({ id, host, username })),
+      encryptionAvailable: safeStorage.isEncryptionAvailable(),
+    };
+  }
+
+  /**
+   * Add a login, replacing any existing one for the same host
+   */
+  saveCredential(host: string, username: string, password: string): void {
+    const key = normalizeHost(host);
+    if (!key) {
+      throw new Error("Invalid host");
+    }
+    if (!username) {
+      throw new Error("Username is required");
+    }
+    // Refuse rather than fall back to storing passwords in plain text
+    if (!safeStorage.isEncryptionAvailable()) {
+      throw new Error("Secure storage is not available on this system");
+    }
+
+    const secret = safeStorage.encryptString(password).toString("base64");
+    const others = this.store.get("credentials").filter((c) => c.host !== key);
+    this.store.set("credentials", [
+      ...others,
+      { id: randomUUID(), host: key, username, secret },
+    ]);
+  }
+
+  deleteCredential(id: string): void {
+    this.store.set(
+      "credentials",
+      this.store.get("credentials").filter((c) => c.id !== id),
+    );
+  }
+
+  /**
+   * Look up the login for a download URL
+   * Logins embedded in the URL itself win over the vault
+   */
+  getCredentialsForUrl(
+    url: string,
+  ): { username: string; password: string } | null {
+    try {
+      if (new URL(url).username) return null;
+    } catch {
+      return null;
+    }
+
+    const entry = matchHost(this.store.get("credentials"), url);
+    if (!entry || !safeStorage.isEncryptionAvailable()) return null;
+
+    try {
+      const password = safeStorage.decryptString(
+        Buffer.from(entry.secret, "base64"),
+      );
+      return { username: entry.username, password };
+    } catch (error) {
+      console.error(
+        `[Credentials] Failed to decrypt login for ${entry.host}:`,
+        error,
+      );
+      return null;
+    }
+  }
+}
+
+export const credentialsService = new CredentialsService();
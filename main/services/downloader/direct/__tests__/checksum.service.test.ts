@@ -0,0 +1,158 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  discoverChecksum,
+  parseChecksum,
+  parseChecksumFile,
+} from "../checksum.service";
+
+jest.mock("../url-detection.service", () => ({
+  isPrivateUrl: jest.fn().mockResolvedValue(false),
+}));
+
+jest.mock("../../../proxy.service", () => ({
+  proxyService: { resolveProxy: jest.fn().mockResolvedValue(null) },
+}));
+
+const SHA256 =
+  "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08";
+const MD5 = "098f6bcd4621d373cade4e832627b4f6";
+
+describe("ChecksumService", () => {
+  describe("parseChecksum", () => {
+    it("should accept aria2-style and prefixed digests", () => {
+      expect(parseChecksum(`sha-256=${SHA256}`)).toEqual({
+        algorithm: "sha-256",
+        digest: SHA256,
+      });
+      expect(parseChecksum(`SHA256:${SHA256.toUpperCase()}`)).toEqual({
+        algorithm: "sha-256",
+        digest: SHA256,
+      });
+    });
+
+    it("should infer the algorithm of a bare digest from its length", () => {
+      expect(parseChecksum(MD5)?.algorithm).toBe("md5");
+      expect(parseChecksum(SHA256)?.algorithm).toBe("sha-256");
+    });
+
+    it("should reject malformed or mislabeled digests", () => {
+      expect(parseChecksum("not-a-hash")).toBeNull();
+      expect(parseChecksum("abc123")).toBeNull();
+      expect(parseChecksum(`md5=${SHA256}`)).toBeNull();
+    });
+  });
+
+  describe("parseChecksumFile", () => {
+    it("should find the file in a GNU-style list", () => {
+      const content = [
+        `${"0".repeat(64)}  other.iso`,
+        `${SHA256} *ubuntu.iso`,
+      ].join("\n");
+      expect(parseChecksumFile(content, "ubuntu.iso", "sha-256")).toEqual({
+        algorithm: "sha-256",
+        digest: SHA256,
+      });
+    });
+
+    it("should read BSD-style lines and single-digest sidecars", () => {
+      expect(
+        parseChecksumFile(
+          `SHA256 (ubuntu.iso) = ${SHA256}`,
+          "ubuntu.iso",
+          "sha-256",
+        )?.digest,
+      ).toBe(SHA256);
+      expect(parseChecksumFile(`${MD5}\n`, "file.zip", "md5")?.digest).toBe(
+        MD5,
+      );
+    });
+
+    it("should return null when the file isn't listed", () => {
+      const content = `${SHA256}  other.iso\n${MD5}  another.iso`;
+      expect(parseChecksumFile(content, "ubuntu.iso", "sha-256")).toBeNull();
+    });
+  });
+
+  describe("discoverChecksum", () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let files: Record<string, string>;
+    let requested: string[];
+    let inFlight: number;
+    let maxInFlight: number;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        requested.push(req.url!);
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        setTimeout(() => {
+          inFlight--;
+          const body = files[req.url!];
+          if (body?.startsWith("redirect:")) {
+            res.writeHead(302, { Location: body.slice(9) });
+            res.end();
+            return;
+          }
+          res.writeHead(body === undefined ? 404 : 200);
+          res.end(body);
+        }, 5);
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve),
+      );
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    beforeEach(() => {
+      files = {};
+      requested = [];
+      inFlight = 0;
+      maxInFlight = 0;
+    });
+
+    afterAll(
+      () => new Promise<void>((resolve) => server.close(() => resolve())),
+    );
+
+    it("should stop at the first sidecar that lists the file", async () => {
+      files["/pub/file.iso.sha256"] = `${SHA256}  file.iso\n`;
+
+      expect(await discoverChecksum(`${baseUrl}/pub/file.iso`, "test")).toEqual(
+        { algorithm: "sha-256", digest: SHA256 },
+      );
+      expect(requested).toEqual(["/pub/file.iso.sha256"]);
+    });
+
+    it("should try the candidates one at a time in preference order", async () => {
+      files["/pub/MD5SUMS"] = `${MD5}  file.iso\n`;
+
+      expect(await discoverChecksum(`${baseUrl}/pub/file.iso`, "test")).toEqual(
+        { algorithm: "md5", digest: MD5 },
+      );
+      expect(requested).toEqual([
+        "/pub/file.iso.sha256",
+        "/pub/file.iso.sha512",
+        "/pub/file.iso.sha1",
+        "/pub/file.iso.md5",
+        "/pub/SHA256SUMS",
+        "/pub/SHASUMS256.txt",
+        "/pub/sha256sums.txt",
+        "/pub/SHA512SUMS",
+        "/pub/MD5SUMS",
+      ]);
+      expect(maxInFlight).toBe(1);
+    });
+
+    it("should skip a redirect to a malformed location", async () => {
+      files["/pub/file.iso.sha256"] = "redirect:http://[bad";
+      files["/pub/SHA256SUMS"] = "redirect:/pub/sums/SHA256SUMS";
+      files["/pub/sums/SHA256SUMS"] = `${SHA256}  file.iso\n`;
+
+      expect(await discoverChecksum(`${baseUrl}/pub/file.iso`, "test")).toEqual(
+        { algorithm: "sha-256", digest: SHA256 },
+      );
+      expect(requested).toContain("/pub/sums/SHA256SUMS");
+    });
+  });
+});
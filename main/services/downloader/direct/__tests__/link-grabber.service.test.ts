@@ -0,0 +1,88 @@
+import { extractLinks } from "../link-grabber.service";
+
+jest.mock("electron", () => ({
+  app: { getPath: jest.fn().mockReturnValue("/mock/downloads") },
+}));
+
+jest.mock("../../../settings.service", () => ({
+  settingsService: { getSettings: jest.fn() },
+}));
+
+jest.mock("../../../network-policy.service", () => ({
+  networkPolicyService: { checkUrl: jest.fn(), assertAllowed: jest.fn() },
+}));
+
+jest.mock("../../../proxy.service", () => ({
+  proxyService: { resolveProxy: jest.fn().mockResolvedValue(null) },
+}));
+
+const PAGE = "https://example.com/releases/index.html";
+
+describe("LinkGrabberService", () => {
+  describe("extractLinks", () => {
+    it("should resolve, dedupe and classify every href and src", () => {
+      const html = `
+        <a href="v2.1/app-setup.exe">Windows <b>installer</b></a>
+        <a href='/files/source.tar.gz?x=1&amp;y=2#top'>Source</a>
+        <a href="v2.1/app-setup.exe">Mirror</a>
+        <img src="//cdn.example.net/shot.png" alt="Screenshot">
+        <a href="#changelog">Changelog</a>
+        <a href="mailto:team@example.com">Mail us</a>
+        <a href=notes.html>Notes</a>
+        <a href="magnet:?xt=urn:btih:abc&amp;dn=app">Torrent</a>
+      `;
+
+      expect(extractLinks(html, PAGE)).toEqual([
+        {
+          url: "https://example.com/releases/v2.1/app-setup.exe",
+          filename: "app-setup.exe",
+          extension: ".exe",
+          category: "programs",
+          isDirect: true,
+          text: "Windows installer",
+        },
+        {
+          url: "https://example.com/files/source.tar.gz?x=1&y=2",
+          filename: "source.tar.gz",
+          extension: ".gz",
+          category: "compressed",
+          isDirect: true,
+          text: "Source",
+        },
+        {
+          url: "https://cdn.example.net/shot.png",
+          filename: "shot.png",
+          extension: ".png",
+          category: "others",
+          isDirect: true,
+          text: "Screenshot",
+        },
+        {
+          url: "https://example.com/releases/notes.html",
+          filename: "notes.html",
+          extension: ".html",
+          category: "others",
+          isDirect: false,
+          text: "Notes",
+        },
+        {
+          url: "magnet:?xt=urn:btih:abc&dn=app",
+          filename: null,
+          extension: null,
+          category: "others",
+          isDirect: true,
+          text: "Torrent",
+        },
+      ]);
+    });
+
+    it("should resolve relative links against the page's <base>", () => {
+      const html = `<base href="https://downloads.example.org/pub/">
+        <a href="file.iso">ISO</a>`;
+
+      expect(extractLinks(html, PAGE).map((link) => link.url)).toEqual([
+        "https://downloads.example.org/pub/file.iso",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import * as path from "path";
+import {
+  detectLinkListFormat,
+  expandUrlPattern,
+  parseLinkList,
+} from "../link-import.service";
+
+jest.mock("electron", () => ({
+  app: { getPath: jest.fn().mockReturnValue("/mock/downloads") },
+}));
+
+jest.mock("../../../settings.service", () => ({
+  settingsService: { getSettings: jest.fn() },
+}));
+
+jest.mock("../../../network-policy.service", () => ({
+  networkPolicyService: { checkUrl: jest.fn(), assertAllowed: jest.fn() },
+}));
+
+jest.mock("../../../proxy.service", () => ({
+  proxyService: { resolveProxy: jest.fn().mockResolvedValue(null) },
+}));
+
+describe("LinkImportService", () => {
+  describe("expandUrlPattern", () => {
+    it("should expand zero-padded ranges, letters and alternatives", () => {
+      expect(
+        expandUrlPattern("https://host/img[08-10].jpg").map((r) => r.url),
+      ).toEqual([
+        "https://host/img08.jpg",
+        "https://host/img09.jpg",
+        "https://host/img10.jpg",
+      ]);
+
+      expect(expandUrlPattern("https://{eu,us}.host/[a-b].zip")).toEqual([
+        { url: "https://eu.host/a.zip", values: ["eu", "a"] },
+        { url: "https://eu.host/b.zip", values: ["eu", "b"] },
+        { url: "https://us.host/a.zip", values: ["us", "a"] },
+        { url: "https://us.host/b.zip", values: ["us", "b"] },
+      ]);
+
+      expect(
+        expandUrlPattern("https://host/part[0-10:5].bin").map((r) => r.url),
+      ).toEqual([
+        "https://host/part0.bin",
+        "https://host/part5.bin",
+        "https://host/part10.bin",
+      ]);
+    });
+
+    it("should leave IPv6 hosts alone and refuse huge expansions", () => {
+      expect(expandUrlPattern("http://[::1]:8080/file.iso")).toEqual([
+        { url: "http://[::1]:8080/file.iso", values: [] },
+      ]);
+      expect(() => expandUrlPattern("https://host/[1-1000]/[1-1000]")).toThrow(
+        "Pattern expands to more than 10000 links",
+      );
+    });
+  });
+
+  describe("parseLinkList", () => {
+    it("should read per-line options and fill pattern placeholders", () => {
+      const links = parseLinkList(
+        [
+          "# comment",
+          'https://host/a.zip?x=1 out="My Archive.zip" dir=../isos/x86 referer=https://host/',
+          "  https://host/b.zip",
+          "https://host/img[1-2].jpg out=photo-#1.jpg dir=photos",
+        ].join("\n"),
+      );
+
+      expect(links).toEqual([
+        {
+          url: "https://host/a.zip?x=1",
+          title: null,
+          filename: "My Archive.zip",
+          subfolder: path.join("isos", "x86"),
+          referer: "https://host/",
+          mirrors: [],
+        },
+        {
+          url: "https://host/b.zip",
+          title: null,
+          filename: null,
+          subfolder: null,
+          referer: null,
+          mirrors: [],
+        },
+        expect.objectContaining({
+          url: "https://host/img1.jpg",
+          filename: "photo-1.jpg",
+          subfolder: "photos",
+        }),
+        expect.objectContaining({
+          url: "https://host/img2.jpg",
+          filename: "photo-2.jpg",
+          subfolder: "photos",
+        }),
+      ]);
+    });
+
+    it("should read aria2 input files with mirrors and option lines", () => {
+      const links = parseLinkList(
+        [
+          "https://a.example/f.iso\thttps://b.example/f.iso",
+          "  out=f.iso",
+          "  referer=https://example.com/",
+          "  split=4",
+          "https://a.example/g.iso",
+        ].join("\n"),
+      );
+
+      expect(links).toEqual([
+        {
+          url: "https://a.example/f.iso",
+          title: null,
+          filename: "f.iso",
+          subfolder: null,
+          referer: "https://example.com/",
+          mirrors: ["https://b.example/f.iso"],
+        },
+        expect.objectContaining({ url: "https://a.example/g.iso" }),
+      ]);
+    });
+
+    it("should read CSV with or without a header row", () => {
+      const withHeader = parseLinkList(
+        'Referer,URL,Name\nhttps://site/,https://host/a.zip,"a, final.zip"\n',
+        "csv",
+      );
+      expect(withHeader).toEqual([
+        expect.objectContaining({
+          url: "https://host/a.zip",
+          filename: "a, final.zip",
+          referer: "https://site/",
+        }),
+      ]);
+
+      const positional = parseLinkList(
+        "https://host/b.zip;b.zip;docs\nhttps://host/c.zip",
+        "csv",
+      );
+      expect(positional).toEqual([
+        expect.objectContaining({
+          url: "https://host/b.zip",
+          filename: "b.zip",
+          subfolder: "docs",
+        }),
+        expect.objectContaining({ url: "https://host/c.zip", filename: null }),
+      ]);
+    });
+
+    it("should read browser bookmark exports", () => {
+      const html = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+        <DL><p>
+          <DT><A HREF="https://host/a.zip?x=1&amp;y=2" ADD_DATE="1">Tools &amp; Files</A>
+          <DT><A HREF="javascript:void(0)">Bookmarklet</A>
+          <DT><A HREF="https://host/[1-9].zip">Not a pattern</A>
+        </DL><p>`;
+
+      expect(detectLinkListFormat("bookmarks.txt", html)).toBe("bookmarks");
+      expect(parseLinkList(html, "bookmarks")).toEqual([
+        expect.objectContaining({
+          url: "https://host/a.zip?x=1&y=2",
+          title: "Tools & Files",
+        }),
+        expect.objectContaining({
+          url: "https://host/[1-9].zip",
+          title: "Not a pattern",
+        }),
+      ]);
+    });
+  });
+});
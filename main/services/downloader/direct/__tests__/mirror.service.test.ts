@@ -0,0 +1,149 @@
+import {
+  createSources,
+  credentialSafeMirrors,
+  findStalledSources,
+  mergeSources,
+  normalizeMirrors,
+  parseDuplicateLinks,
+} from "../mirror.service";
+
+const PRIMARY = "https://example.com/file.iso";
+const MIRROR_A = "https://a.example.net/file.iso";
+const MIRROR_B = "ftp://b.example.org/pub/file.iso";
+
+describe("MirrorService", () => {
+  describe("normalizeMirrors", () => {
+    it("should drop the primary, duplicates and unsupported URLs", () => {
+      expect(
+        normalizeMirrors(PRIMARY, [
+          PRIMARY,
+          ` ${MIRROR_A} `,
+          MIRROR_A,
+          "magnet:?xt=urn:btih:abc",
+          "not a url",
+          MIRROR_B,
+        ]),
+      ).toEqual([MIRROR_A, MIRROR_B]);
+    });
+  });
+
+  describe("credentialSafeMirrors", () => {
+    const SAME_HOST = "https://example.com/mirror/file.iso";
+    const mirrors = [SAME_HOST, MIRROR_A, MIRROR_B];
+    const headers = ["User-Agent: Test", `Referer: ${PRIMARY}`];
+
+    it("should keep every mirror when nothing secret is sent", () => {
+      expect(
+        credentialSafeMirrors(PRIMARY, mirrors, { header: headers }),
+      ).toEqual(mirrors);
+    });
+
+    it("should keep other hosts away from a login or cookies", () => {
+      expect(
+        credentialSafeMirrors(PRIMARY, mirrors, {
+          header: headers,
+          "http-user": "me",
+          "http-passwd": "secret",
+        }),
+      ).toEqual([SAME_HOST]);
+      expect(
+        credentialSafeMirrors(PRIMARY, mirrors, {
+          header: [...headers, "Cookie: session=1"],
+        }),
+      ).toEqual([SAME_HOST]);
+      expect(
+        credentialSafeMirrors(PRIMARY, mirrors, {
+          header: [...headers, "authorization: Bearer x"],
+        }),
+      ).toEqual([SAME_HOST]);
+    });
+  });
+
+  describe("parseDuplicateLinks", () => {
+    it("should read rel=duplicate links in priority order", () => {
+      const header = [
+        `<${MIRROR_B}>; rel=duplicate; pri=2`,
+        `</file.iso.meta4>; rel=describedby; type="application/metalink4+xml"`,
+        `<${MIRROR_A}>; rel=duplicate; pri=1, </other/file.iso>; rel="duplicate"`,
+      ];
+      expect(parseDuplicateLinks(header, PRIMARY)).toEqual([
+        MIRROR_A,
+        MIRROR_B,
+        "https://example.com/other/file.iso",
+      ]);
+    });
+
+    it("should ignore missing headers", () => {
+      expect(parseDuplicateLinks(undefined, PRIMARY)).toEqual([]);
+    });
+  });
+
+  describe("mergeSources", () => {
+    it("should track speed, idle and failed sources", () => {
+      const known = createSources([PRIMARY, MIRROR_A, MIRROR_B]);
+      const sources = mergeSources(
+        known,
+        [
+          { uri: PRIMARY, status: "used" },
+          { uri: PRIMARY, status: "waiting" },
+          { uri: MIRROR_A, status: "used" },
+        ],
+        [{ uri: PRIMARY, currentUri: PRIMARY, downloadSpeed: "2048" }],
+        1000,
+      );
+
+      expect(sources.map((s) => [s.status, s.speed])).toEqual([
+        ["active", 2048],
+        ["idle", 0],
+        ["failed", 0],
+      ]);
+      expect(sources[0].lastActiveAt).toBe(1000);
+    });
+
+    it("should add URIs discovered by aria2", () => {
+      const sources = mergeSources(
+        createSources([PRIMARY]),
+        [
+          { uri: PRIMARY, status: "used" },
+          { uri: MIRROR_A, status: "waiting" },
+        ],
+        [],
+      );
+      expect(sources.map((s) => s.uri)).toEqual([PRIMARY, MIRROR_A]);
+    });
+  });
+
+  describe("findStalledSources", () => {
+    const sources = mergeSources(
+      createSources([PRIMARY, MIRROR_A]),
+      [
+        { uri: PRIMARY, status: "used" },
+        { uri: MIRROR_A, status: "used" },
+      ],
+      [{ uri: PRIMARY, currentUri: PRIMARY, downloadSpeed: "100" }],
+      0,
+    );
+
+    it("should flag tried sources that sent nothing for too long", () => {
+      const stalled = findStalledSources(
+        sources.map((s) => ({
+          ...s,
+          lastActiveAt: s.uri === PRIMARY ? 60000 : 0,
+        })),
+        30000,
+        60000,
+      );
+      expect(stalled.map((s) => s.uri)).toEqual([MIRROR_A]);
+    });
+
+    it("should not drop anything while no source delivers data", () => {
+      expect(
+        findStalledSources(
+          sources.map((s) => ({ ...s, speed: 0 })),
+          30000,
+          60000,
+        ),
+      ).toEqual([]);
+    });
+  });
+});
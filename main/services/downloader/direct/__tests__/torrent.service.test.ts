@@ -0,0 +1,90 @@
+import {
+  getMagnetInfoHash,
+  getMagnetName,
+  getTransferKind,
+  getTransferName,
+  isPeerToPeer,
+  toTorrentInfo,
+} from "../torrent.service";
+
+const HASH = "c12fe1c06bba254a9dc9f519b335aa7c1367a88a";
+const MAGNET = `magnet:?xt=urn:btih:${HASH.toUpperCase()}&dn=ubuntu-24.04.iso&tr=udp%3A%2F%2Ftracker.example.org%3A1337`;
+
+describe("TorrentService", () => {
+  describe("getTransferKind", () => {
+    it("should classify magnets and local torrent/metalink files", () => {
+      expect(getTransferKind(MAGNET)).toBe("magnet");
+      expect(getTransferKind("file:///tmp/ubuntu.torrent")).toBe("torrent");
+      expect(getTransferKind("/tmp/ubuntu.meta4")).toBe("metalink");
+      expect(getTransferKind("https://example.com/ubuntu.torrent")).toBe(
+        "http",
+      );
+    });
+
+    it("should treat remote .torrent and .meta4 URLs as peer-to-peer", () => {
+      expect(isPeerToPeer("https://example.com/ubuntu.torrent?x=1")).toBe(true);
+      expect(isPeerToPeer("https://example.com/ubuntu.meta4")).toBe(true);
+      expect(isPeerToPeer("https://example.com/ubuntu.iso")).toBe(false);
+    });
+  });
+
+  describe("magnet parsing", () => {
+    it("should read the display name and info hash", () => {
+      expect(getMagnetName(MAGNET)).toBe("ubuntu-24.04.iso");
+      expect(getMagnetInfoHash(MAGNET)).toBe(HASH);
+    });
+
+    it("should fall back to the info hash when there is no name", () => {
+      expect(getTransferName(`magnet:?xt=urn:btih:${HASH}`)).toBe(
+        "magnet-c12fe1c0",
+      );
+    });
+  });
+
+  describe("toTorrentInfo", () => {
+    it("should return null for non-BitTorrent tasks", () => {
+      expect(toTorrentInfo({ files: [] })).toBeNull();
+    });
+
+    it("should map files and skip magnet metadata entries", () => {
+      const info = toTorrentInfo(
+        {
+          infoHash: HASH,
+          bittorrent: { info: { name: "ubuntu" } },
+          files: [
+            {
+              index: "1",
+              path: "[METADATA]ubuntu",
+              length: "0",
+              completedLength: "0",
+              selected: "true",
+            },
+            {
+              index: "2",
+              path: "/downloads/ubuntu/disk.iso",
+              length: "100",
+              completedLength: "40",
+              selected: "false",
+            },
+          ],
+        },
+        true,
+      );
+
+      expect(info).toEqual({
+        infoHash: HASH,
+        name: "ubuntu",
+        seeding: true,
+        files: [
+          {
+            index: 2,
+            path: "/downloads/ubuntu/disk.iso",
+            length: 100,
+            completedLength: 40,
+            selected: false,
+          },
+        ],
+      });
+    });
+  });
+});
@@ -10,6 +10,16 @@ jest.mock("dns", () => ({
     lookup: jest.fn().mockResolvedValue({ address: "8.8.8.8" }),
   },
 }));
+jest.mock("../../../proxy.service", () => ({
+  proxyService: { resolveProxy: jest.fn().mockResolvedValue(null) },
+}));
+jest.mock("../../../settings.service", () => ({
+  settingsService: {
+    getSettings: () => ({
+      networkPolicy: { blockPrivate: true, allowList: [] },
+    }),
+  },
+}));
 
 describe("UrlDetectionService", () => {
   beforeEach(() => {
@@ -75,4 +85,11 @@ describe("UrlDetectionService", () => {
     expect(result.isDirect).toBe(false);
     expect(result.reason).toBe("Forced video mode");
   });
+
+  it("should send FTP and SFTP links straight to aria2", async () => {
+    const result = await detectLinkType("sftp://files.example.com/pub/a.iso");
+    expect(result.isDirect).toBe(true);
+    expect(result.filename).toBe("a.iso");
+    expect(http.request).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,294 @@
+/**
+ * Checksum Service
+ * Parses expected hashes, discovers published sidecar checksum files
+ * and hashes finished downloads
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { URL } from "url";
+import { ChecksumAlgorithm } from "../types";
+import { isPrivateUrl } from "./url-detection.service";
+import { proxyService } from "../../proxy.service";
+import { getProxiedRequest } from "../../utils/proxy-agent";
+
+/**
+ * An expected hash for a file
+ */
+export interface ExpectedChecksum {
+  algorithm: ChecksumAlgorithm;
+  digest: string; // Lowercase hex
+}
+
+/**
+ * Node crypto names for each algorithm
+ */
+const NODE_HASH_NAMES: Record<ChecksumAlgorithm, string> = {
+  md5: "md5",
+  "sha-1": "sha1",
+  "sha-256": "sha256",
+  "sha-512": "sha512",
+};
+
+/**
+ * Hex digest length for each algorithm
+ */
+const DIGEST_LENGTHS: Record<ChecksumAlgorithm, number> = {
+  md5: 32,
+  "sha-1": 40,
+  "sha-256": 64,
+  "sha-512": 128,
+};
+
+/**
+ * Per-file sidecars tried first (e.g. file.iso.sha256), strongest first
+ */
+const SIDECAR_EXTENSIONS: [string, ChecksumAlgorithm][] = [
+  [".sha256", "sha-256"],
+  [".sha512", "sha-512"],
+  [".sha1", "sha-1"],
+  [".md5", "md5"],
+];
+
+/**
+ * Directory-wide checksum lists (e.g. Ubuntu, Node.js, Debian mirrors)
+ */
+const CHECKSUM_LISTS: [string, ChecksumAlgorithm][] = [
+  ["SHA256SUMS", "sha-256"],
+  ["SHASUMS256.txt", "sha-256"],
+  ["sha256sums.txt", "sha-256"],
+  ["SHA512SUMS", "sha-512"],
+  ["MD5SUMS", "md5"],
+];
+
+const MAX_SIDECAR_SIZE = 1024 * 1024;
+const SIDECAR_TIMEOUT = 5000;
+
+/**
+ * Normalize an algorithm name like "SHA256" or "sha-256"
+ */
+function toAlgorithm(name: string): ChecksumAlgorithm | null {
+  const normalized = name.toLowerCase().replace(/[^a-z0-9]/g, "");
+  switch (normalized) {
+    case "md5":
+      return "md5";
+    case "sha1":
+      return "sha-1";
+    case "sha256":
+      return "sha-256";
+    case "sha512":
+      return "sha-512";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a user-supplied hash: "sha-256=<hex>", "sha256:<hex>" or bare hex
+ * The algorithm of a bare digest is inferred from its length
+ */
+export function parseChecksum(value: string): ExpectedChecksum | null {
+  if (!value || typeof value !== "string") return null;
+
+  const match = value.trim().match(/^(?:([a-z0-9-]+)\s*[=:]\s*)?([a-f0-9]+)$/i);
+  if (!match) return null;
+
+  const digest = match[2].toLowerCase();
+  const inferred = (Object.keys(DIGEST_LENGTHS) as ChecksumAlgorithm[]).find(
+    (algorithm) => DIGEST_LENGTHS[algorithm] === digest.length,
+  );
+  const algorithm = match[1] ? toAlgorithm(match[1]) : inferred;
+
+  if (!algorithm || algorithm !== inferred) return null;
+  return { algorithm, digest };
+}
+
+/**
+ * Format a checksum as aria2's "checksum" option expects it
+ */
+export function toAria2Checksum(checksum: ExpectedChecksum): string {
+  return `${checksum.algorithm}=${checksum.digest}`;
+}
+
+/**
+ * Find the digest for `filename` in the contents of a checksum file
+ * Understands GNU coreutils ("<hex>  name" / "<hex> *name"), BSD
+ * ("SHA256 (name) = <hex>") and single-digest sidecars
+ */
+export function parseChecksumFile(
+  content: string,
+  filename: string,
+  algorithm: ChecksumAlgorithm,
+): ExpectedChecksum | null {
+  const expectedLength = DIGEST_LENGTHS[algorithm];
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  for (const line of lines) {
+    const bsd = line.match(/^([A-Za-z0-9-]+)\s*\((.+)\)\s*=\s*([a-f0-9]+)$/i);
+    if (bsd) {
+      if (
+        path.basename(bsd[2]) === filename &&
+        toAlgorithm(bsd[1]) === algorithm &&
+        bsd[3].length === expectedLength
+      ) {
+        return { algorithm, digest: bsd[3].toLowerCase() };
+      }
+      continue;
+    }
+
+    const gnu = line.match(/^([a-f0-9]+)(?:\s+\*?(.+))?$/i);
+    if (!gnu || gnu[1].length !== expectedLength) continue;
+
+    // A lone digest only makes sense in a single-file sidecar
+    const name = gnu[2] ? path.basename(gnu[2].trim()) : null;
+    if (name === filename || (!name && lines.length === 1)) {
+      return { algorithm, digest: gnu[1].toLowerCase() };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fetch a small text file, giving up on anything large or slow
+ */
+async function fetchText(
+  url: string,
+  userAgent: string,
+  maxRedirects: number = 3,
+): Promise<string | null> {
+  let request: ReturnType<typeof getProxiedRequest>;
+  try {
+    request = getProxiedRequest(
+      new URL(url),
+      {
+        headers: { "User-Agent": userAgent, Accept: "text/plain, */*" },
+        timeout: SIDECAR_TIMEOUT,
+        // Verified even where downloads aren't: the hash is the trust anchor
+        rejectUnauthorized: true,
+      },
+      await proxyService.resolveProxy(url),
+    );
+  } catch {
+    return null;
+  }
+
+  return new Promise((resolve) => {
+    const req = request.protocol.get(request.options, async (res) => {
+      const status = res.statusCode || 0;
+
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.destroy();
+        // A bad Location must not leave the promise hanging
+        try {
+          const redirectUrl = new URL(res.headers.location, url).toString();
+          if (
+            maxRedirects <= 0 ||
+            (await isPrivateUrl(redirectUrl, "checksum"))
+          ) {
+            resolve(null);
+            return;
+          }
+          resolve(await fetchText(redirectUrl, userAgent, maxRedirects - 1));
+        } catch {
+          resolve(null);
+        }
+        return;
+      }
+
+      const length = parseInt(res.headers["content-length"] || "0", 10);
+      if (status !== 200 || length > MAX_SIDECAR_SIZE) {
+        res.destroy();
+        resolve(null);
+        return;
+      }
+
+      let size = 0;
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_SIDECAR_SIZE) {
+          res.destroy();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      });
+      res.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+      res.on("error", () => resolve(null));
+    });
+
+    req.on("error", () => resolve(null));
+    req.on("timeout", () => {
+      req.destroy();
+      resolve(null);
+    });
+  });
+}
+
+/**
+ * Look for a published checksum next to a download URL
+ * Tries file.ext.sha256-style sidecars first, then SHA256SUMS-style lists
+ */
+export async function discoverChecksum(
+  url: string,
+  userAgent: string,
+): Promise<ExpectedChecksum | null> {
+  let base: URL;
+  let filename: string;
+  try {
+    base = new URL(url);
+    // Checksum files list the published name, not our local (maybe renamed) one
+    filename = decodeURIComponent(path.posix.basename(base.pathname));
+  } catch {
+    return null;
+  }
+  if (!filename || (await isPrivateUrl(url, "checksum"))) return null;
+
+  const fileUrl = `${base.origin}${base.pathname}`;
+  const candidates = [
+    ...SIDECAR_EXTENSIONS.map(
+      ([ext, algorithm]) => [`${fileUrl}${ext}`, algorithm] as const,
+    ),
+    ...CHECKSUM_LISTS.map(
+      ([name, algorithm]) =>
+        [new URL(name, fileUrl).toString(), algorithm] as const,
+    ),
+  ];
+
+  // One request at a time, in preference order, so a download doesn't
+  // open with a burst of requests at the origin
+  for (const [candidateUrl, algorithm] of candidates) {
+    const content = await fetchText(candidateUrl, userAgent);
+    const found = content
+      ? parseChecksumFile(content, filename, algorithm)
+      : null;
+    if (found) {
+      console.log(
+        `[Checksum] Found published ${found.algorithm} for ${filename}`,
+      );
+      return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Hash a file on disk, streaming so large ISOs don't fill memory
+ */
+export function hashFile(
+  filePath: string,
+  algorithm: ChecksumAlgorithm,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash(NODE_HASH_NAMES[algorithm]);
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
@@ -13,6 +13,10 @@ import { v4 as uuidv4 } from "uuid";
 import { DownloadItem, DownloadStatus, DownloadOptions } from "../types";
 import { APP_CONFIG } from "../../../../renderer/config/app-config";
 import { settingsService } from "../../settings.service";
+import { credentialsService } from "../../credentials.service";
+import { cookiesService } from "../../cookies.service";
+import { proxyService } from "../../proxy.service";
+import { networkPolicyService } from "../../network-policy.service";
 import {
   ensureAria2,
   getAria2RpcConfig,
@@ -26,7 +30,28 @@ import {
   deleteFileWithRetry,
   generateUniqueFilename,
 } from "../../utils/file-utils";
+import { startProxyRelay, ProxyRelay } from "../../utils/proxy-relay";
 import { detectLinkType } from "./url-detection.service";
+import {
+  discoverChecksum,
+  hashFile,
+  parseChecksum,
+  toAria2Checksum,
+} from "./checksum.service";
+import {
+  getTransferKind,
+  isPeerToPeer,
+  toLocalPath,
+  toTorrentInfo,
+} from "./torrent.service";
+import {
+  Aria2Server,
+  createSources,
+  credentialSafeMirrors,
+  findStalledSources,
+  mergeSources,
+  normalizeMirrors,
+} from "./mirror.service";
 
 // Generate unique request IDs
 let requestIdCounter = 0;
@@ -35,6 +60,24 @@ function getRequestId(): string {
   return `${appId}-${++requestIdCounter}`;
 }
 
+/**
+ * A mirror that sends nothing this long while others do is dropped
+ */
+const MIRROR_STALL_TIMEOUT = 60000;
+
+/**
+ * Extra aria2 status keys describing BitTorrent tasks
+ */
+const TORRENT_STATUS_KEYS = [
+  "bittorrent",
+  "infoHash",
+  "numSeeders",
+  "connections",
+  "uploadSpeed",
+  "uploadLength",
+  "seeder",
+];
+
 /**
  * Aria2 download status mapping
  */
@@ -47,6 +90,118 @@ const ARIA2_STATUS_MAP: Record<string, DownloadStatus> = {
   removed: DownloadStatus.CANCELLED,
 };
 
+/**
+ * Build aria2 request headers, preferring what the caller captured
+ */
+function buildRequestHeaders(
+  options: DownloadOptions,
+  userAgent: string,
+): string[] {
+  const headers: Record<string, string> = {
+    "User-Agent": options.userAgent || userAgent,
+    Referer: options.referer || options.url,
+  };
+  for (const [name, value] of Object.entries(options.headers || {})) {
+    if (/^(user-agent|referer)$/i.test(name)) continue;
+    headers[name] = value;
+  }
+  // Cookies captured by the browser extension win over a matched profile
+  if (!Object.keys(headers).some((name) => name.toLowerCase() === "cookie")) {
+    const cookie = cookiesService.getCookieHeader(
+      options.url,
+      options.cookieProfileId,
+    );
+    if (cookie) headers.Cookie = cookie;
+  }
+  // Strip line breaks so a value can't smuggle in extra headers
+  return Object.entries(headers).map(
+    ([name, value]) =>
+      `${name.replace(/[\r\n:]/g, "")}: ${String(value).replace(/[\r\n]/g, "")}`,
+  );
+}
+
+/**
+ * aria2 login options for a URL from the credentials vault
+ * (aria2 answers HTTP auth challenges with Basic credentials only)
+ */
+function getAuthOptions(url: string): Record<string, string> {
+  const login = credentialsService.getCredentialsForUrl(url);
+  if (!login) return {};
+  return /^s?ftp:/i.test(url)
+    ? { "ftp-user": login.username, "ftp-passwd": login.password }
+    : { "http-user": login.username, "http-passwd": login.password };
+}
+
+const SECRET_OPTION = /-(user|passwd)$/;
+const SECRET_HEADER = /^\s*(cookie|authorization|proxy-authorization)\s*:/i;
+
+/**
+ * A copy of RPC params that is safe to log: logins, cookies and passwords
+ * in URLs are masked, since the log file is written in plain text
+ */
+export function redactRpcParams(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactRpcParams);
+  if (typeof value === "string") {
+    const header = value.match(SECRET_HEADER);
+    if (header) return `${header[1]}: ***`;
+    return value.replace(/\/\/[^/@\s]*@/, "//***@");
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SECRET_OPTION.test(key) ? "***" : redactRpcParams(entry),
+      ]),
+    );
+  }
+  return value;
+}
+
+// One relay per SOCKS5/HTTPS proxy, kept for the life of the app
+const proxyRelays = new Map<string, Promise<ProxyRelay>>();
+
+/**
+ * A local relay for a proxy aria2 can't talk to itself
+ */
+function getProxyRelay(proxy: URL): Promise<ProxyRelay> {
+  const key = proxy.toString();
+  let relay = proxyRelays.get(key);
+  if (!relay) {
+    relay = startProxyRelay(proxy).catch((error) => {
+      proxyRelays.delete(key);
+      throw error;
+    });
+    proxyRelays.set(key, relay);
+  }
+  return relay;
+}
+
+/**
+ * aria2 proxy options for a download (a per-download proxy wins over settings)
+ * aria2 only speaks plain HTTP to a proxy, so SOCKS5 and HTTPS proxies are
+ * reached through a local relay that tunnels every connection
+ */
+async function getProxyOptions(
+  options: DownloadOptions,
+): Promise<Record<string, string>> {
+  const resolved = await proxyService.resolveProxy(options.url, options.proxy);
+  if (!resolved) return {};
+
+  const relayed = resolved.protocol !== "http:";
+  const proxy = relayed ? (await getProxyRelay(resolved)).url : resolved;
+
+  const proxyOptions: Record<string, string> = {
+    "all-proxy": `${proxy.protocol}//${proxy.host}`,
+  };
+  if (proxy.username) {
+    proxyOptions["all-proxy-user"] = decodeURIComponent(proxy.username);
+    proxyOptions["all-proxy-passwd"] = decodeURIComponent(proxy.password);
+  }
+  // The relay only forwards tunnels
+  if (relayed) proxyOptions["proxy-method"] = "tunnel";
+  return proxyOptions;
+}
+
 /**
  * Direct Download Service class
  * Manages direct file downloads using aria2
@@ -66,6 +221,10 @@ class DirectDownloadService extends EventEmitter {
   private readonly MAX_RPC_FAILURES = 10;
   private gidToDownloadId: Map<string, string> = new Map();
   private removedGids: Set<string> = new Set();
+  // Tasks paused in aria2 because their queue has no free slot
+  private heldIds: Set<string> = new Set();
+  private queueGates: ((item: DownloadItem) => boolean)[] = [];
+  private concurrencyLimit: number | null = null;
   private progressInterval: any = null;
   private heartbeatInterval: any = null;
   private dummyRpcInterval: any = null;
@@ -291,11 +450,21 @@ class DirectDownloadService extends EventEmitter {
         this.updateDownloadStatus(downloadId, DownloadStatus.CANCELLED);
         break;
       case "aria2.onDownloadComplete":
-        this.handleDownloadComplete(downloadId);
+        // Magnets and remote .torrent/.meta4 hand over to a new task first
+        this.followNextTask(gid, downloadId).then((followed) => {
+          if (!followed) this.handleDownloadComplete(downloadId);
+        });
+        break;
+      case "aria2.onBtDownloadComplete":
+        // Data is complete; aria2 keeps seeding until the limits are hit
+        this.handleDownloadComplete(downloadId, true);
         break;
       case "aria2.onDownloadError":
         // Fetch detailed error from aria2
-        this.sendRequest("aria2.tellStatus", [gid, ["errorMessage"]])
+        this.sendRequest("aria2.tellStatus", [
+          gid,
+          ["errorCode", "errorMessage"],
+        ])
           .then((status: any) => {
             const error =
               status?.errorMessage || "Download failed (Unknown reason)";
@@ -303,7 +472,7 @@ class DirectDownloadService extends EventEmitter {
               `[DirectDownload] ERROR reported by aria2 for GID ${gid}:`,
               error,
             );
-            this.handleDownloadError(downloadId, error);
+            this.handleDownloadError(downloadId, error, status?.errorCode);
           })
           .catch(() => {
             this.handleDownloadError(downloadId, "Download failed");
@@ -368,7 +537,7 @@ class DirectDownloadService extends EventEmitter {
 
       console.log(
         `[DirectDownload] Sending RPC request: ${method}`,
-        JSON.stringify(params),
+        JSON.stringify(redactRpcParams(params)),
       );
       this.ws!.send(JSON.stringify(request));
     });
@@ -429,7 +598,8 @@ class DirectDownloadService extends EventEmitter {
       const hasActiveTasks = Array.from(this.downloads.values()).some(
         (d) =>
           d.status === DownloadStatus.DOWNLOADING ||
-          d.status === DownloadStatus.PENDING,
+          d.status === DownloadStatus.PENDING ||
+          d.torrent?.seeding,
       );
 
       if (!this.connected || !hasActiveTasks) {
@@ -450,6 +620,7 @@ class DirectDownloadService extends EventEmitter {
               "files",
               "errorCode",
               "errorMessage",
+              ...TORRENT_STATUS_KEYS,
             ],
           ]),
           this.sendRequest("aria2.tellWaiting", [
@@ -464,6 +635,7 @@ class DirectDownloadService extends EventEmitter {
               "files",
               "errorCode",
               "errorMessage",
+              ...TORRENT_STATUS_KEYS,
             ],
           ]),
         ])) as [Array<Record<string, unknown>>, Array<Record<string, unknown>>];
@@ -484,6 +656,7 @@ class DirectDownloadService extends EventEmitter {
                   this.handleDownloadError(
                     downloadId,
                     (status.errorMessage as string) || "Download failed",
+                    status.errorCode as string,
                   );
                 } else {
                   this.updateProgressFromStatus(downloadId, status);
@@ -491,6 +664,13 @@ class DirectDownloadService extends EventEmitter {
               }
             }
           });
+
+          // Per-mirror speeds need one extra call per multi-source task
+          await Promise.all(
+            allStats
+              .filter((status) => status.status === "active")
+              .map((status) => this.refreshSources(status)),
+          );
         }
       } catch (error) {
         // Only log if not a timeout (which is handled in sendRequest)
@@ -582,6 +762,26 @@ class DirectDownloadService extends EventEmitter {
     const downloadSpeed = parseInt(status.downloadSpeed as string, 10) || 0;
     const aria2Status = status.status as string;
 
+    const torrent = toTorrentInfo(status, download.torrent?.seeding);
+    const peerStats = torrent
+      ? {
+          peers: parseInt(status.connections as string, 10) || 0,
+          seeders: parseInt(status.numSeeders as string, 10) || 0,
+          uploadSpeed: parseInt(status.uploadSpeed as string, 10) || 0,
+          uploadedBytes: parseInt(status.uploadLength as string, 10) || 0,
+        }
+      : {};
+
+    // A completed torrent that is still seeding: only the upload side changes
+    if (download.status === DownloadStatus.COMPLETED) {
+      if (torrent) {
+        download.torrent = torrent;
+        download.progress = { ...download.progress, ...peerStats };
+        this.emit("progress", download.progress);
+      }
+      return;
+    }
+
     // Calculate progress
     const progress =
       totalLength > 0 ? (completedLength / totalLength) * 100 : 0;
@@ -592,10 +792,17 @@ class DirectDownloadService extends EventEmitter {
         ? Math.round((totalLength - completedLength) / downloadSpeed)
         : null;
 
-    // Update filename from files if available
+    // Update filename from files if available (a torrent is named by its info)
     let filename = download.filename;
     const files = status.files as Array<{ path: string }>;
-    if (files && files.length > 0 && files[0].path) {
+    if (torrent?.name) {
+      filename = torrent.name;
+    } else if (
+      files &&
+      files.length > 0 &&
+      files[0].path &&
+      !files[0].path.startsWith("[METADATA]")
+    ) {
       filename = path.basename(files[0].path);
     }
 
@@ -606,9 +813,21 @@ class DirectDownloadService extends EventEmitter {
       );
     }
 
-    // Update download item
-    download.status = ARIA2_STATUS_MAP[aria2Status] || download.status;
+    // Update download item (held tasks are paused in aria2 but still queued)
+    download.status =
+      aria2Status === "paused" && this.heldIds.has(downloadId)
+        ? DownloadStatus.PENDING
+        : ARIA2_STATUS_MAP[aria2Status] || download.status;
+    // Progress events don't carry the item; announce a newly known file list
+    const torrentChanged =
+      !!torrent &&
+      (torrent.name !== download.torrent?.name ||
+        torrent.files.length !== download.torrent?.files.length);
+
     download.filename = filename;
+    if (torrent) {
+      download.torrent = torrent;
+    }
     download.progress = {
       downloadId,
       status: download.status,
@@ -620,12 +839,21 @@ class DirectDownloadService extends EventEmitter {
       eta,
       etaString: eta !== null ? this.formatEta(eta) : null,
       filename,
+      ...peerStats,
     };
 
     this.downloads.set(downloadId, download);
 
     // Emit progress event
     this.emit("progress", download.progress);
+    if (torrentChanged) {
+      this.emit("status-changed", download);
+    }
+
+    // Missed the onBtDownloadComplete notification: aria2 is already seeding
+    if (torrent && status.seeder === "true" && aria2Status === "active") {
+      this.handleDownloadComplete(downloadId, true);
+    }
 
     // Update power save status if status changed to completed/failed
     if (
@@ -671,11 +899,32 @@ class DirectDownloadService extends EventEmitter {
 
   /**
    * Handle download complete
+   * `seeding` is set when a torrent finished its data but keeps uploading
    */
-  private handleDownloadComplete(downloadId: string): void {
+  private handleDownloadComplete(downloadId: string, seeding = false): void {
     const download = this.downloads.get(downloadId);
     if (!download) return;
 
+    // Seeding ended for a torrent whose data completed earlier
+    if (download.status === DownloadStatus.COMPLETED) {
+      if (download.torrent?.seeding && !seeding) {
+        download.torrent = { ...download.torrent, seeding: false };
+        download.progress.uploadSpeed = 0;
+        this.emit("status-changed", download);
+      }
+      return;
+    }
+
+    if (seeding) {
+      download.torrent = {
+        infoHash: null,
+        name: null,
+        files: [],
+        ...download.torrent,
+        seeding: true,
+      };
+    }
+
     download.status = DownloadStatus.COMPLETED;
     download.completedAt = new Date();
     download.progress.status = DownloadStatus.COMPLETED;
@@ -683,16 +932,135 @@ class DirectDownloadService extends EventEmitter {
 
     this.downloads.set(downloadId, download);
 
+    const verification = download.verification;
+    if (verification?.status === "pending") {
+      if (verification.source === "user") {
+        // aria2 only completes a download whose checksum matched
+        download.verification = {
+          ...verification,
+          status: "verified",
+          actual: verification.expected,
+        };
+      } else {
+        this.verifyDownload(downloadId);
+        return;
+      }
+    }
+
+    this.emit("complete", download);
+    this.emit("status-changed", download);
+  }
+
+  /**
+   * Hash a finished file against a checksum aria2 didn't check
+   * "complete" is emitted once the result is known
+   */
+  private async verifyDownload(downloadId: string): Promise<void> {
+    const download = this.downloads.get(downloadId);
+    const verification = download?.verification;
+    if (!download || !verification || !download.filename) return;
+
+    download.verification = { ...verification, status: "verifying" };
+    this.emit("status-changed", download);
+
+    const filePath = path.join(download.outputPath, download.filename);
+    try {
+      const actual = await hashFile(filePath, verification.algorithm);
+      const matches = actual === verification.expected;
+      download.verification = {
+        ...verification,
+        status: matches ? "verified" : "mismatch",
+        actual,
+      };
+      console.log(
+        `[DirectDownload] Checksum ${matches ? "verified" : "MISMATCH"} for ${download.filename} (${verification.algorithm})`,
+      );
+    } catch (err) {
+      // Can't judge a file we can't read; drop the check rather than fail it
+      console.warn(`[DirectDownload] Could not hash ${filePath}:`, err);
+      download.verification = null;
+    }
+
     this.emit("complete", download);
     this.emit("status-changed", download);
   }
 
+  /**
+   * Look for a checksum published next to the file (e.g. file.iso.sha256)
+   * Runs in the background; the file is checked when it completes
+   */
+  private async findPublishedChecksum(
+    downloadId: string,
+    userAgent: string,
+  ): Promise<void> {
+    const download = this.downloads.get(downloadId);
+    if (!download) return;
+
+    const found = await discoverChecksum(download.url, userAgent).catch(
+      () => null,
+    );
+    const current = this.downloads.get(downloadId);
+    if (!found || !current || current.verification) return;
+
+    current.verification = {
+      status: "pending",
+      algorithm: found.algorithm,
+      expected: found.digest,
+      source: "sidecar",
+    };
+    this.emit("status-changed", current);
+
+    // The download may have finished before the lookup did
+    if (current.status === DownloadStatus.COMPLETED) {
+      this.verifyDownload(downloadId);
+    }
+  }
+
+  /**
+   * Move tracking to the task aria2 started after fetching metadata
+   * (magnet metadata, or a remote .torrent/.meta4 it followed)
+   */
+  private async followNextTask(
+    gid: string,
+    downloadId: string,
+  ): Promise<boolean> {
+    const download = this.downloads.get(downloadId);
+    if (!download || !isPeerToPeer(download.url)) return false;
+
+    try {
+      const status = (await this.sendRequest("aria2.tellStatus", [
+        gid,
+        ["followedBy"],
+      ])) as { followedBy?: string[] };
+      const nextGid = status.followedBy?.[0];
+      if (!nextGid) return false;
+
+      this.gidToDownloadId.delete(gid);
+      this.gidToDownloadId.set(nextGid, downloadId);
+      this.sendRequest("aria2.removeDownloadResult", [gid]).catch(() => {});
+      console.log(
+        `[DirectDownload] Task ${downloadId} continues as GID ${nextGid}`,
+      );
+
+      // Still queued: the new task must wait like the old one did
+      if (this.heldIds.has(downloadId)) {
+        await this.sendRequest("aria2.pause", [nextGid]).catch(() => {});
+      } else {
+        this.updateDownloadStatus(downloadId, DownloadStatus.DOWNLOADING);
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Handle download error
    */
   private async handleDownloadError(
     downloadId: string,
     errorMessage: string,
+    errorCode?: string,
   ): Promise<void> {
     console.error(
       `[DirectDownload] handleDownloadError triggered for ${downloadId}:`,
@@ -701,6 +1069,15 @@ class DirectDownloadService extends EventEmitter {
     const download = this.downloads.get(downloadId);
     if (!download) return;
 
+    // aria2 exit code 32: the finished file failed the "checksum" option
+    if (errorCode === "32" && download.verification) {
+      download.verification = {
+        ...download.verification,
+        status: "mismatch",
+      };
+      errorMessage = `Checksum mismatch: file does not match the expected ${download.verification.algorithm} hash`;
+    }
+
     download.status = DownloadStatus.FAILED;
     download.error = errorMessage;
     download.progress.status = DownloadStatus.FAILED;
@@ -819,19 +1196,46 @@ class DirectDownloadService extends EventEmitter {
         };
       }
 
-      // Basic URL validation
-      try {
-        const urlObj = new URL(options.url);
-        if (urlObj.protocol !== "http:" && urlObj.protocol !== "https:") {
+      // Basic URL validation (magnets and local .torrent/.meta4 files aside)
+      const kind = getTransferKind(options.url);
+      const peerToPeer = isPeerToPeer(options.url);
+      if (kind === "torrent" || kind === "metalink") {
+        const localPath = toLocalPath(options.url);
+        if (!localPath || !fs.existsSync(localPath)) {
           return {
             success: false,
-            error: "Only HTTP and HTTPS protocols are supported",
+            error: `${kind === "torrent" ? "Torrent" : "Metalink"} file not found`,
           };
         }
-      } catch {
+      } else if (kind === "http") {
+        try {
+          const urlObj = new URL(options.url);
+          if (!["http:", "https:", "ftp:", "sftp:"].includes(urlObj.protocol)) {
+            return {
+              success: false,
+              error:
+                "Only HTTP, HTTPS, FTP, SFTP, magnet, .torrent and .meta4 sources are supported",
+            };
+          }
+        } catch {
+          return {
+            success: false,
+            error: "Invalid URL format",
+          };
+        }
+      }
+
+      // Reject a malformed hash before spending time on the download
+      // (aria2 can only check single-file HTTP downloads)
+      const expectedChecksum =
+        options.checksum && !peerToPeer
+          ? parseChecksum(options.checksum)
+          : null;
+      if (options.checksum && !peerToPeer && !expectedChecksum) {
         return {
           success: false,
-          error: "Invalid URL format",
+          error:
+            "Invalid checksum. Expected an MD5, SHA-1, SHA-256 or SHA-512 hex digest",
         };
       }
 
@@ -862,15 +1266,20 @@ class DirectDownloadService extends EventEmitter {
 
       // Determine output directory
       let outputDir = options.outputPath;
-      if (!outputDir) {
-        // Use global download path from settings
+      if (!outputDir || !path.isAbsolute(outputDir)) {
+        // Use global download path from settings, a relative path is a
+        // subfolder of the category folder
         const category = getCategoryByExtension(initialFilename || options.url);
-        outputDir = getDownloadSubPath(category as any);
+        outputDir = path.join(
+          getDownloadSubPath(category as any),
+          outputDir || "",
+        );
       }
 
       // 0.5 Handle file existence based on settings
+      // BitTorrent/Metalink name their own files; aria2 resumes existing ones
       let finalFilename = initialFilename;
-      if (finalFilename) {
+      if (finalFilename && !peerToPeer) {
         const fullPath = path.join(outputDir, finalFilename);
         if (fs.existsSync(fullPath)) {
           if (settings.onFileExists === "skip") {
@@ -925,10 +1334,10 @@ class DirectDownloadService extends EventEmitter {
             if (linkInfo.suggestedUserAgent) {
               const gid = this.getGidByDownloadId(id);
               if (gid) {
-                const newHeader = [
-                  `User-Agent: ${linkInfo.suggestedUserAgent}`,
-                  `Referer: ${options.url}`,
-                ];
+                const newHeader = buildRequestHeaders(
+                  options,
+                  linkInfo.suggestedUserAgent,
+                );
                 this.sendRequest("aria2.changeOption", [
                   gid,
                   { header: newHeader },
@@ -1023,30 +1432,62 @@ class DirectDownloadService extends EventEmitter {
         "disk-cache": "64M", // Reduces disk I/O pressure and engine hangs
         "stream-piece-selector": "geom", // Smarter piece selection, less fragmentation
         "disable-ipv6": "true", // Force IPv4 to avoid unreachable network errors
-        header: [`User-Agent: ${userAgent}`, `Referer: ${options.url}`],
+        header: buildRequestHeaders(options, userAgent),
         "check-certificate": "false",
+        ...getAuthOptions(options.url),
+        ...(await getProxyOptions(options)),
       };
 
-      if (finalFilename) {
+      if (finalFilename && !peerToPeer) {
         aria2Options.out = sanitizeFilename(finalFilename);
       }
-      // Ensure URL is properly encoded for aria2
+      if (peerToPeer) {
+        Object.assign(aria2Options, this.getPeerToPeerOptions(options));
+      }
+      if (options.rateLimit) {
+        aria2Options["max-download-limit"] = options.rateLimit;
+      }
+      // aria2 verifies the file itself and fails the task on a mismatch
+      if (expectedChecksum) {
+        aria2Options.checksum = toAria2Checksum(expectedChecksum);
+      }
+      // Ensure URL is properly encoded for aria2 (local files are read as-is)
       let finalUrl = options.url;
-      try {
-        const urlObj = new URL(options.url);
-        finalUrl = urlObj.toString();
-      } catch (e) {
-        finalUrl = options.url.replace(/\[/g, "%5B").replace(/\]/g, "%5D");
+      if (kind === "http" || kind === "magnet") {
+        try {
+          const urlObj = new URL(options.url);
+          finalUrl = urlObj.toString();
+        } catch (e) {
+          finalUrl = options.url.replace(/\[/g, "%5B").replace(/\]/g, "%5D");
+        }
       }
 
       console.log(`[DirectDownload] Raw URL: ${options.url}`);
       console.log(`[DirectDownload] Final encoded URL: ${finalUrl}`);
 
+      // Extra sources for the same file: typed in, or advertised by the server
+      const candidates =
+        kind === "http" && !peerToPeer
+          ? normalizeMirrors(finalUrl, [
+              ...(options.mirrors || []),
+              ...(linkInfo.mirrors || []),
+            ])
+          : [];
+      const mirrors = credentialSafeMirrors(finalUrl, candidates, aria2Options);
+      if (mirrors.length < candidates.length) {
+        console.log(
+          `[DirectDownload] Skipping ${candidates.length - mirrors.length} mirror(s) on other hosts: the download sends a login or cookies`,
+        );
+      }
+      if (mirrors.length > 0) {
+        console.log(`[DirectDownload] Using ${mirrors.length} mirror(s)`);
+      }
+
       const downloadItem: DownloadItem = {
         id: downloadId,
         url: options.url,
         videoInfo: null,
-        options,
+        options: mirrors.length > 0 ? { ...options, mirrors } : options,
         status: DownloadStatus.PENDING,
         progress: {
           downloadId,
@@ -1067,8 +1508,27 @@ class DirectDownloadService extends EventEmitter {
         completedAt: null,
         error: null,
         retryCount: 0,
+        verification: expectedChecksum
+          ? {
+              status: "pending",
+              algorithm: expectedChecksum.algorithm,
+              expected: expectedChecksum.digest,
+              source: "user",
+            }
+          : null,
+        sources:
+          mirrors.length > 0 ? createSources([finalUrl, ...mirrors]) : null,
       };
 
+      // Blocked URLs never become items
+      await this.assertSourcesAllowed(finalUrl, mirrors);
+
+      // Queued behind other downloads: add it to aria2 paused
+      if (!this.passesQueueGates(downloadItem)) {
+        aria2Options.pause = "true";
+        this.heldIds.add(downloadId);
+      }
+
       // 2. Add to memory maps BEFORE the RPC call
       // This ensures cancelDownload can find the item if called while addUri is pending
       this.downloads.set(downloadId, downloadItem);
@@ -1076,15 +1536,16 @@ class DirectDownloadService extends EventEmitter {
 
       // 3. Start the download in aria2
       let gid: string;
+      let extraGids: string[];
       try {
-        gid = (await this.sendRequest(
-          "aria2.addUri",
-          [[finalUrl], aria2Options],
-          60000,
-        )) as string;
+        [gid, ...extraGids] = await this.addToAria2(
+          finalUrl,
+          aria2Options,
+          mirrors,
+        );
       } catch (error) {
         // Cleanup on failure
-        this.downloads.delete(downloadId);
+        this.forgetNewItem(downloadId);
         throw error;
       }
 
@@ -1111,15 +1572,20 @@ class DirectDownloadService extends EventEmitter {
             `[DirectDownload] Aria2 matched new request to existing GID: ${gid}`,
           );
           // Cleanup our temporary item and return the existing one
-          this.downloads.delete(downloadId);
+          this.forgetNewItem(downloadId);
           return { success: true, data: existingItem };
         }
       }
 
       this.gidToDownloadId.set(gid, downloadId);
+      this.trackExtraTasks(extraGids, downloadItem);
       this.updatePowerSaveStatus();
       this.startProgressPolling();
 
+      if (!expectedChecksum && !peerToPeer && settings.discoverChecksums) {
+        this.findPublishedChecksum(downloadId, userAgent);
+      }
+
       return { success: true, data: downloadItem };
     } catch (error) {
       const errorMessage =
@@ -1129,6 +1595,354 @@ class DirectDownloadService extends EventEmitter {
     }
   }
 
+  /**
+   * Change the speed limit of a download (null = unlimited)
+   */
+  async setSpeedLimit(
+    downloadId: string,
+    limit: string | null,
+  ): Promise<boolean> {
+    const item = this.downloads.get(downloadId);
+    if (!item) return false;
+
+    item.options = { ...item.options, rateLimit: limit || undefined };
+
+    // Not handed to aria2 yet: the limit is applied when the task is added
+    const gid = this.getGidByDownloadId(downloadId);
+    if (gid) {
+      try {
+        await this.sendRequest("aria2.changeOption", [
+          gid,
+          { "max-download-limit": limit || "0" },
+        ]);
+      } catch (err) {
+        console.warn("[DirectDownload] Failed to change speed limit:", err);
+        return false;
+      }
+    }
+
+    console.log(
+      `[DirectDownload] Speed limit for ${downloadId}: ${limit || "unlimited"}`,
+    );
+    this.emit("status-changed", item);
+    return true;
+  }
+
+  /**
+   * Install a predicate that decides whether a queued task may run
+   * (used by named queues); returns a remover
+   */
+  addQueueGate(gate: (item: DownloadItem) => boolean): () => void {
+    this.queueGates.push(gate);
+    return () => {
+      this.queueGates = this.queueGates.filter((g) => g !== gate);
+    };
+  }
+
+  /**
+   * Choose which files of a torrent to fetch (1-based indexes)
+   * aria2 restarts the task itself to apply the new selection
+   */
+  async selectFiles(downloadId: string, indexes: number[]): Promise<boolean> {
+    const download = this.downloads.get(downloadId);
+    const gid = this.getGidByDownloadId(downloadId);
+    const selected = [...new Set(indexes)]
+      .filter((index) => Number.isInteger(index) && index > 0)
+      .sort((a, b) => a - b);
+    if (!download || !gid || selected.length === 0) return false;
+
+    try {
+      await this.sendRequest("aria2.changeOption", [
+        gid,
+        { "select-file": selected.join(",") },
+      ]);
+    } catch (error) {
+      console.error(
+        `[DirectDownload] Failed to select files for ${downloadId}:`,
+        error,
+      );
+      return false;
+    }
+
+    download.options = { ...download.options, selectFiles: selected };
+    if (download.torrent) {
+      download.torrent = {
+        ...download.torrent,
+        files: download.torrent.files.map((file) => ({
+          ...file,
+          selected: selected.includes(file.index),
+        })),
+      };
+    }
+    this.emit("status-changed", download);
+    return true;
+  }
+
+  /**
+   * Stop uploading a completed torrent, keeping its files
+   */
+  async stopSeeding(downloadId: string): Promise<boolean> {
+    const download = this.downloads.get(downloadId);
+    const gid = this.getGidByDownloadId(downloadId);
+    if (!download?.torrent?.seeding) return false;
+
+    // Unlink first so aria2's stop notification isn't taken for a cancel
+    if (gid) {
+      this.gidToDownloadId.delete(gid);
+      await this.sendRequest("aria2.forceRemove", [gid]).catch(() => {});
+      this.sendRequest("aria2.removeDownloadResult", [gid]).catch(() => {});
+    }
+
+    download.torrent = { ...download.torrent, seeding: false };
+    download.progress.uploadSpeed = 0;
+    this.emit("status-changed", download);
+    return true;
+  }
+
+  /**
+   * Update per-mirror speed and health of a multi-source task,
+   * dropping mirrors that stalled while others keep delivering
+   */
+  private async refreshSources(status: Record<string, any>): Promise<void> {
+    const gid = status.gid as string;
+    const downloadId = this.gidToDownloadId.get(gid);
+    const download = downloadId ? this.downloads.get(downloadId) : undefined;
+    const files = (status.files || []) as Array<Record<string, any>>;
+    const file = files.find((f) => f.selected !== "false") || files[0];
+    if (!download || !file || status.bittorrent) return;
+
+    const uris = (file.uris || []) as Array<{ uri: string; status: any }>;
+    const distinct = new Set(uris.map((entry) => entry.uri));
+    if (!download.sources && distinct.size < 2) return;
+
+    let servers: Aria2Server[] = [];
+    try {
+      const result = (await this.sendRequest("aria2.getServers", [
+        gid,
+      ])) as Array<{ index: string; servers: Aria2Server[] }>;
+      servers =
+        result.find((entry) => entry.index === file.index)?.servers || [];
+    } catch {
+      // Task may have just finished; keep the last known speeds
+      return;
+    }
+
+    const now = Date.now();
+    const sources = mergeSources(download.sources || [], uris, servers, now);
+    const stalled = findStalledSources(sources, MIRROR_STALL_TIMEOUT, now);
+    const remaining = sources.filter(
+      (source) => source.status !== "failed" && !stalled.includes(source),
+    );
+
+    if (stalled.length > 0 && remaining.length > 0) {
+      const stalledUris = new Set(stalled.map((source) => source.uri));
+      try {
+        // aria2 deletes one copy per entry; it may list a URI several times
+        await this.sendRequest("aria2.changeUri", [
+          gid,
+          parseInt(file.index, 10),
+          uris
+            .filter((entry) => stalledUris.has(entry.uri))
+            .map((entry) => entry.uri),
+          [],
+        ]);
+        for (const source of stalled) {
+          source.status = "failed";
+          source.error = "No data received for 60s, dropped";
+          console.log(`[DirectDownload] Dropped stalled mirror ${source.uri}`);
+        }
+      } catch (err) {
+        console.warn("[DirectDownload] Failed to drop stalled mirrors:", err);
+      }
+    }
+
+    download.sources = sources;
+    this.emit("status-changed", download);
+  }
+
+  /**
+   * aria2 options shared by BitTorrent and Metalink tasks
+   */
+  private getPeerToPeerOptions(
+    options: DownloadOptions,
+  ): Record<string, string> {
+    const { seedRatio, seedTime } = settingsService.getSettings();
+    const p2pOptions: Record<string, string> = {
+      "seed-ratio": String(seedRatio),
+      "seed-time": String(seedTime),
+      // Keep fetched .torrent/.meta4 files out of the download folder
+      "follow-torrent": "mem",
+      "follow-metalink": "mem",
+    };
+    if (options.selectFiles?.length) {
+      p2pOptions["select-file"] = options.selectFiles.join(",");
+    }
+    return p2pOptions;
+  }
+
+  /**
+   * Add a task the way its source needs; returns the new GIDs
+   * (a multi-file Metalink yields one task per file)
+   */
+  private async addToAria2(
+    uri: string,
+    aria2Options: Record<string, string | string[]>,
+    mirrors: string[] = [],
+  ): Promise<string[]> {
+    const kind = getTransferKind(uri);
+
+    if (kind === "torrent" || kind === "metalink") {
+      const content = (
+        await fs.promises.readFile(toLocalPath(uri) as string)
+      ).toString("base64");
+
+      if (kind === "torrent") {
+        const gid = (await this.sendRequest(
+          "aria2.addTorrent",
+          [content, [], aria2Options],
+          60000,
+        )) as string;
+        return [gid];
+      }
+      return (await this.sendRequest(
+        "aria2.addMetalink",
+        [content, aria2Options],
+        60000,
+      )) as string[];
+    }
+
+    const gid = (await this.sendRequest(
+      "aria2.addUri",
+      [[uri, ...mirrors], aria2Options],
+      60000,
+    )) as string;
+    return [gid];
+  }
+
+  /**
+   * aria2 follows its own redirects; at least check every source we hand it
+   * (local .torrent and .metalink files are read, not fetched)
+   */
+  private async assertSourcesAllowed(
+    uri: string,
+    mirrors: string[],
+  ): Promise<void> {
+    const kind = getTransferKind(uri);
+    if (kind === "torrent" || kind === "metalink") return;
+    for (const source of [uri, ...mirrors]) {
+      await networkPolicyService.assertAllowed(source, "aria2");
+    }
+  }
+
+  /**
+   * Drop an item that never made it into aria2, and tell listeners
+   * (the UI, job store and queues) it is gone
+   */
+  private forgetNewItem(downloadId: string): void {
+    this.heldIds.delete(downloadId);
+    if (this.downloads.delete(downloadId)) {
+      this.emit("item-removed", downloadId);
+    }
+  }
+
+  /**
+   * Give each extra file of a multi-file Metalink its own item
+   * Every item then selects only its own file so it can be restored alone
+   */
+  private trackExtraTasks(gids: string[], first: DownloadItem): void {
+    if (gids.length === 0) return;
+
+    first.options = { ...first.options, selectFiles: [1] };
+    gids.forEach((gid, i) => {
+      const id = uuidv4();
+      const item: DownloadItem = {
+        ...first,
+        id,
+        options: { ...first.options, selectFiles: [i + 2] },
+        progress: {
+          ...first.progress,
+          downloadId: id,
+          filename: null,
+          totalBytes: null,
+        },
+        filename: null,
+        createdAt: new Date(),
+      };
+      if (this.heldIds.has(first.id)) this.heldIds.add(id);
+      this.downloads.set(id, item);
+      this.gidToDownloadId.set(gid, id);
+      this.emit("status-changed", item);
+    });
+  }
+
+  private passesQueueGates(item: DownloadItem): boolean {
+    return this.queueGates.every((gate) => gate(item));
+  }
+
+  /**
+   * Whether a task is waiting for a free queue slot
+   */
+  isHeld(downloadId: string): boolean {
+    return this.heldIds.has(downloadId);
+  }
+
+  /**
+   * Park a running task until its queue has a free slot
+   * Unlike pauseDownload the item stays PENDING
+   */
+  async holdDownload(downloadId: string): Promise<boolean> {
+    const gid = this.getGidByDownloadId(downloadId);
+    if (!gid || this.heldIds.has(downloadId)) return false;
+
+    this.heldIds.add(downloadId);
+    this.updateDownloadStatus(downloadId, DownloadStatus.PENDING);
+    try {
+      await this.sendRequest("aria2.pause", [gid]);
+      return true;
+    } catch (err) {
+      console.warn("[DirectDownload] Failed to hold download:", err);
+      return false;
+    }
+  }
+
+  /**
+   * Let a held task run again
+   */
+  async releaseDownload(downloadId: string): Promise<boolean> {
+    const gid = this.getGidByDownloadId(downloadId);
+    if (!gid || !this.heldIds.delete(downloadId)) return false;
+
+    this.updateDownloadStatus(downloadId, DownloadStatus.DOWNLOADING);
+    try {
+      await this.sendRequest("aria2.unpause", [gid]);
+      return true;
+    } catch (err) {
+      console.warn("[DirectDownload] Failed to release download:", err);
+      return false;
+    }
+  }
+
+  /**
+   * Release held tasks that every gate now lets through
+   */
+  refreshQueue(): void {
+    for (const item of Array.from(this.downloads.values())) {
+      if (this.heldIds.has(item.id) && this.passesQueueGates(item)) {
+        this.releaseDownload(item.id).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Override aria2's max-concurrent-downloads (null = use settings)
+   */
+  async setConcurrencyLimit(limit: number | null): Promise<void> {
+    this.concurrencyLimit = limit;
+    if (this.connected) {
+      await this.updateGlobalSettings();
+    }
+  }
+
   /**
    * Pause a download
    */
@@ -1137,6 +1951,9 @@ class DirectDownloadService extends EventEmitter {
       const gid = this.getGidByDownloadId(downloadId);
       if (!gid) return false;
 
+      // A held task is already paused in aria2, just let the user own it
+      this.heldIds.delete(downloadId);
+
       this.updateDownloadStatus(downloadId, DownloadStatus.PAUSED);
 
       this.sendRequest("aria2.pause", [gid]).catch((err) => {
@@ -1175,6 +1992,14 @@ class DirectDownloadService extends EventEmitter {
       const gid = this.getGidByDownloadId(downloadId);
       if (!gid) return false;
 
+      // Its queue is full: wait for a slot instead of jumping the line
+      if (!this.passesQueueGates(download)) {
+        this.heldIds.add(downloadId);
+        this.updateDownloadStatus(downloadId, DownloadStatus.PENDING);
+        return true;
+      }
+
+      this.heldIds.delete(downloadId);
       this.updateDownloadStatus(downloadId, DownloadStatus.DOWNLOADING);
 
       this.sendRequest("aria2.unpause", [gid]).catch((err) => {
@@ -1200,6 +2025,7 @@ class DirectDownloadService extends EventEmitter {
       if (!download) return false;
 
       const gid = this.getGidByDownloadId(downloadId);
+      this.heldIds.delete(downloadId);
 
       // Track GID as removed to prevent ghost recovery during sync
       if (gid) {
@@ -1215,6 +2041,15 @@ class DirectDownloadService extends EventEmitter {
       // 2. IMPORTANT: Remove from memory immediately so UI reflects the deletion
       this.downloads.delete(downloadId);
       if (gid) this.gidToDownloadId.delete(gid);
+      // Removing a finished item from the list isn't a cancellation
+      if (
+        download.status !== DownloadStatus.COMPLETED &&
+        download.status !== DownloadStatus.FAILED &&
+        download.status !== DownloadStatus.CANCELLED
+      ) {
+        download.status = DownloadStatus.CANCELLED;
+        this.emit("cancelled", download);
+      }
       this.emit("item-removed", downloadId);
       this.updatePowerSaveStatus();
 
@@ -1341,6 +2176,8 @@ class DirectDownloadService extends EventEmitter {
     }
 
     for (const id of itemsToRemove) {
+      // Seeding torrents are still active in aria2
+      await this.stopSeeding(id);
       const gid = this.getGidByDownloadId(id);
       if (gid) {
         try {
@@ -1351,11 +2188,52 @@ class DirectDownloadService extends EventEmitter {
         this.gidToDownloadId.delete(gid);
       }
       this.downloads.delete(id);
+      this.emit("item-removed", id);
     }
 
     return count;
   }
 
+  /**
+   * Load persisted jobs back into memory (app startup)
+   * GIDs are re-linked by syncWithAria2 or re-created by restoreActiveDownloads
+   */
+  restoreJobs(items: DownloadItem[]): void {
+    for (const item of items) {
+      if (this.downloads.has(item.id)) continue;
+
+      // A job that was running when the app closed is queued again
+      if (item.status === DownloadStatus.DOWNLOADING) {
+        item.status = DownloadStatus.PENDING;
+        item.progress.status = DownloadStatus.PENDING;
+      }
+      // Seeding doesn't survive a restart
+      if (item.torrent?.seeding) {
+        item.torrent = { ...item.torrent, seeding: false };
+      }
+
+      this.downloads.set(item.id, item);
+    }
+
+    const hasResumable = items.some(
+      (d) =>
+        d.status === DownloadStatus.PENDING ||
+        d.status === DownloadStatus.PAUSED,
+    );
+
+    if (hasResumable) {
+      console.log(
+        `[DirectDownload] Restored ${items.length} persisted job(s), reconnecting to aria2...`,
+      );
+      this.connect().catch((err) => {
+        console.warn(
+          "[DirectDownload] Failed to connect while restoring jobs:",
+          err,
+        );
+      });
+    }
+  }
+
   /**
    * Restore active downloads from memory if they are missing in Aria2
    * (e.g. after a daemon restart)
@@ -1366,7 +2244,8 @@ class DirectDownloadService extends EventEmitter {
     for (const [id, download] of this.downloads.entries()) {
       if (
         download.status !== DownloadStatus.DOWNLOADING &&
-        download.status !== DownloadStatus.PENDING
+        download.status !== DownloadStatus.PENDING &&
+        download.status !== DownloadStatus.PAUSED
       ) {
         continue;
       }
@@ -1403,24 +2282,65 @@ class DirectDownloadService extends EventEmitter {
             "min-split-size": "4M",
             continue: "true",
             "auto-file-renaming": "true",
-            header: [
-              "User-Agent: Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, Gecko) Chrome/120.0.0.0 Safari/537.36",
-              `Referer: ${download.url}`,
-            ],
+            header: buildRequestHeaders(
+              options,
+              "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, Gecko) Chrome/120.0.0.0 Safari/537.36",
+            ),
             "check-certificate": "false",
+            ...getAuthOptions(download.url),
+            ...(await getProxyOptions(options)),
           };
 
-          if (download.filename) {
+          const peerToPeer = isPeerToPeer(download.url);
+          if (download.filename && !peerToPeer) {
             aria2Options.out = sanitizeFilename(download.filename);
           }
+          if (peerToPeer) {
+            Object.assign(aria2Options, this.getPeerToPeerOptions(options));
+          }
+          if (options.rateLimit) {
+            aria2Options["max-download-limit"] = options.rateLimit;
+          }
+          const expectedChecksum =
+            options.checksum && !peerToPeer
+              ? parseChecksum(options.checksum)
+              : null;
+          if (expectedChecksum) {
+            aria2Options.checksum = toAria2Checksum(expectedChecksum);
+          }
+
+          // Keep paused jobs paused; aria2 resumes from the .aria2 control file
+          const isPaused = download.status === DownloadStatus.PAUSED;
+          const isHeld = !isPaused && !this.passesQueueGates(download);
+          if (isPaused || isHeld) {
+            aria2Options.pause = "true";
+          }
+          if (isHeld) {
+            this.heldIds.add(id);
+          }
 
-          const newGid = (await this.sendRequest("aria2.addUri", [
-            [download.url],
+          // Mirrors that already failed stay dropped
+          const mirrors = credentialSafeMirrors(
+            download.url,
+            (options.mirrors || []).filter(
+              (uri) =>
+                !download.sources?.some(
+                  (source) => source.uri === uri && source.status === "failed",
+                ),
+            ),
             aria2Options,
-          ])) as string;
+          );
+          await this.assertSourcesAllowed(download.url, mirrors);
+          const [newGid] = await this.addToAria2(
+            download.url,
+            aria2Options,
+            mirrors,
+          );
 
           this.gidToDownloadId.set(newGid, id);
-          this.updateDownloadStatus(id, DownloadStatus.DOWNLOADING);
+          if (!isPaused && !isHeld) {
+            this.updateDownloadStatus(id, DownloadStatus.DOWNLOADING);
+          }
         } catch (err) {
           console.error(
             `[DirectDownload] Failed to restore download ${id}:`,
@@ -1453,17 +2373,34 @@ class DirectDownloadService extends EventEmitter {
             "downloadSpeed",
             "files",
             "dir",
+            "infoHash",
           ],
         ]),
         this.sendRequest("aria2.tellWaiting", [
           0,
           1000,
-          ["gid", "status", "totalLength", "completedLength", "files", "dir"],
+          [
+            "gid",
+            "status",
+            "totalLength",
+            "completedLength",
+            "files",
+            "dir",
+            "infoHash",
+          ],
         ]),
         this.sendRequest("aria2.tellStopped", [
           0,
           1000,
-          ["gid", "status", "totalLength", "completedLength", "files", "dir"],
+          [
+            "gid",
+            "status",
+            "totalLength",
+            "completedLength",
+            "files",
+            "dir",
+            "infoHash",
+          ],
         ]),
       ])) as [any[], any[], any[]];
 
@@ -1487,10 +2424,17 @@ class DirectDownloadService extends EventEmitter {
           task.files[0].uris[0]
         ) {
           urlFromTask = task.files[0].uris[0].uri;
+        } else if (task.infoHash) {
+          // BitTorrent tasks have no URIs; match them by info hash
+          urlFromTask = `magnet:?xt=urn:btih:${task.infoHash}`;
         }
 
         for (const existingDownload of this.downloads.values()) {
-          if (existingDownload.url === urlFromTask) {
+          if (
+            existingDownload.url === urlFromTask ||
+            (task.infoHash &&
+              existingDownload.torrent?.infoHash === task.infoHash)
+          ) {
             isDuplicate = true;
             this.gidToDownloadId.set(task.gid, existingDownload.id);
             break;
@@ -1504,7 +2448,7 @@ class DirectDownloadService extends EventEmitter {
           const downloadId = uuidv4();
           const aria2Status = task.status as string;
 
-          let url = "Unknown URL";
+          let url = urlFromTask;
           let filename = "Unknown File";
           let outputPath = task.dir || "";
 
@@ -1574,15 +2518,19 @@ class DirectDownloadService extends EventEmitter {
    */
   async updateGlobalSettings(): Promise<void> {
     const settings = settingsService.getSettings();
+    const maxConcurrent =
+      this.concurrencyLimit ?? settings.maxConcurrentDownloads;
     try {
       await this.sendRequest("aria2.changeGlobalOption", [
         {
-          "max-concurrent-downloads":
-            settings.maxConcurrentDownloads.toString(),
+          "max-concurrent-downloads": maxConcurrent.toString(),
+          "max-overall-download-limit": (settings.speedLimit || 0).toString(),
+          "seed-ratio": String(settings.seedRatio),
+          "seed-time": String(settings.seedTime),
         },
       ]);
       console.log(
-        `[DirectDownload] Global settings updated: max-concurrent=${settings.maxConcurrentDownloads}`,
+        `[DirectDownload] Global settings updated: max-concurrent=${maxConcurrent}, speed-limit=${settings.speedLimit || "unlimited"}`,
       );
     } catch (err) {
       console.warn("[DirectDownload] Failed to update global options:", err);
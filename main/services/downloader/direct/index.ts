@@ -6,5 +6,17 @@ export { directDownloader } from "./direct-download.service";
 export {
   detectLinkType,
   detectMultipleLinkTypes,
+  isVideoPlatform,
   type LinkTypeResult,
+  type LinkProbe,
 } from "./url-detection.service";
+export {
+  grabLinks,
+  probeLinks,
+  type GrabbedLink,
+} from "./link-grabber.service";
+export {
+  importLinkFile,
+  parseLinkList,
+  type ImportedLink,
+} from "./link-import.service";
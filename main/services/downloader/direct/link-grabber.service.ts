@@ -0,0 +1,239 @@
+/**
+ * Link Grabber Service
+ * Fetches a web page and lists the files it links to, so a page of
+ * downloads can be queued without copying every link by hand
+ */
+
+import { URL } from "url";
+import {
+  BROWSER_USER_AGENT,
+  LinkProbe,
+  getExtensionFromUrl,
+  getFilenameFromUrl,
+  isDirectDownloadExtension,
+  isWebPageContentType,
+  probeLink,
+} from "./url-detection.service";
+import { networkPolicyService } from "../../network-policy.service";
+import { proxyService } from "../../proxy.service";
+import { getProxiedRequest } from "../../utils/proxy-agent";
+import { getCategoryByExtension } from "../../utils/file-utils";
+
+/**
+ * A link found on a page
+ */
+export interface GrabbedLink {
+  url: string;
+  filename: string | null;
+  extension: string | null; // ".zip", null when the path has none
+  category: ReturnType<typeof getCategoryByExtension>;
+  isDirect: boolean; // The extension or scheme says it's a file
+  text: string | null; // Link text, or the alt/title of the element
+}
+
+const GRAB_PROTOCOLS = ["http:", "https:", "ftp:", "sftp:"];
+const MAX_PAGE_SIZE = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const PAGE_TIMEOUT = 15000;
+const PROBE_CONCURRENCY = 5;
+
+const ATTRIBUTE_PATTERN =
+  /\b(?:href|src|data-src|data-href)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+const HREF_PATTERN = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i;
+const ANCHOR_PATTERN = /<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+const BASE_PATTERN =
+  /<base\b[^>]*\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i;
+const LABEL_PATTERN = /\b(?:alt|title)\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+
+/**
+ * Decode the HTML entities that show up in attributes and link text
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+function cleanText(html: string): string | null {
+  const text = decodeEntities(html.replace(/<[^>]*>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+  return text ? text.substring(0, 120) : null;
+}
+
+function resolveLink(raw: string, base: string): string | null {
+  const value = decodeEntities(raw.trim());
+  if (!value || value.startsWith("#")) return null;
+  if (/^magnet:\?/i.test(value)) return value;
+  try {
+    const url = new URL(value, base);
+    if (!GRAB_PROTOCOLS.includes(url.protocol)) return null;
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every href/src on a page resolved against the page (or its <base>),
+ * deduped in page order and classified by extension
+ */
+export function extractLinks(html: string, pageUrl: string): GrabbedLink[] {
+  const baseMatch = html.match(BASE_PATTERN);
+  const base =
+    (baseMatch &&
+      resolveLink(baseMatch[1] ?? baseMatch[2] ?? baseMatch[3], pageUrl)) ||
+    pageUrl;
+
+  // Anchor texts first, so links get a readable label
+  const labels = new Map<string, string>();
+  for (const [, attributes, inner] of html.matchAll(ANCHOR_PATTERN)) {
+    const href = attributes.match(HREF_PATTERN);
+    if (!href) continue;
+    const url = resolveLink(href[1] ?? href[2] ?? href[3], base);
+    const text = cleanText(inner);
+    if (url && text && !labels.has(url)) labels.set(url, text);
+  }
+
+  const page = resolveLink(pageUrl, pageUrl);
+  const seen = new Set<string>();
+  const links: GrabbedLink[] = [];
+  for (const match of html.matchAll(ATTRIBUTE_PATTERN)) {
+    const url = resolveLink(match[1] ?? match[2] ?? match[3], base);
+    if (!url || url === page || url === base || seen.has(url)) continue;
+    seen.add(url);
+
+    // alt/title of the same element when there's no anchor text
+    const tagStart = html.lastIndexOf("<", match.index);
+    const tagEnd = html.indexOf(">", match.index);
+    const label = html.substring(tagStart, tagEnd).match(LABEL_PATTERN);
+
+    const isMagnet = url.startsWith("magnet:");
+    const extension = isMagnet ? null : getExtensionFromUrl(url) || null;
+    const filename = isMagnet ? null : getFilenameFromUrl(url) || null;
+    links.push({
+      url,
+      filename,
+      extension,
+      category: getCategoryByExtension(filename || ""),
+      isDirect:
+        isMagnet || (!!extension && isDirectDownloadExtension(extension)),
+      text:
+        labels.get(url) ||
+        (label ? cleanText(label[1] ?? label[2]) : null) ||
+        null,
+    });
+  }
+  return links;
+}
+
+/**
+ * Download a page's HTML through the proxy, following redirects the
+ * network policy allows
+ */
+async function fetchPage(
+  url: string,
+  redirectsLeft: number = MAX_REDIRECTS,
+): Promise<{ html: string; finalUrl: string }> {
+  await networkPolicyService.assertAllowed(
+    url,
+    redirectsLeft === MAX_REDIRECTS ? "link grabber" : "redirect",
+  );
+  const proxy = await proxyService.resolveProxy(url);
+
+  return new Promise((resolve, reject) => {
+    const { protocol, options } = getProxiedRequest(
+      new URL(url),
+      {
+        method: "GET",
+        headers: {
+          "User-Agent": BROWSER_USER_AGENT,
+          Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
+          "Accept-Language": "en-US,en;q=0.5",
+        },
+        timeout: PAGE_TIMEOUT,
+        rejectUnauthorized: false,
+      },
+      proxy,
+    );
+
+    const req = protocol.request(options, (res) => {
+      const status = res.statusCode || 0;
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.destroy();
+        if (redirectsLeft <= 0) {
+          reject(new Error("Too many redirects"));
+          return;
+        }
+        const redirectUrl = new URL(res.headers.location, url).toString();
+        fetchPage(redirectUrl, redirectsLeft - 1).then(resolve, reject);
+        return;
+      }
+      if (status >= 400) {
+        res.destroy();
+        reject(new Error(`HTTP ${status}`));
+        return;
+      }
+      if (!isWebPageContentType(res.headers["content-type"])) {
+        res.destroy();
+        reject(new Error("This link is a file, not a web page"));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      res.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_PAGE_SIZE) {
+          res.destroy();
+          reject(new Error("The page is too large to scan"));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      res.on("end", () =>
+        resolve({
+          html: Buffer.concat(chunks).toString("utf8"),
+          finalUrl: url,
+        }),
+      );
+      res.on("error", reject);
+    });
+
+    req.on("error", reject);
+    req.on("timeout", () => {
+      req.destroy();
+      reject(new Error("Request timeout"));
+    });
+    req.end();
+  });
+}
+
+/**
+ * List the links of a web page
+ */
+export async function grabLinks(pageUrl: string): Promise<GrabbedLink[]> {
+  const { html, finalUrl } = await fetchPage(pageUrl);
+  return extractLinks(html, finalUrl);
+}
+
+/**
+ * HEAD each link for its size and type, a few at a time
+ */
+export async function probeLinks(urls: string[]): Promise<LinkProbe[]> {
+  const results: LinkProbe[] = [];
+  for (let i = 0; i < urls.length; i += PROBE_CONCURRENCY) {
+    const chunk = urls.slice(i, i + PROBE_CONCURRENCY);
+    results.push(...(await Promise.all(chunk.map((url) => probeLink(url)))));
+  }
+  return results;
+}
@@ -0,0 +1,393 @@
+/**
+ * Link Import Service
+ * Reads link lists (plain text, CSV, browser bookmarks, aria2 input files)
+ * and expands URL patterns, so a batch can be queued in one go
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { decodeEntities } from "./link-grabber.service";
+
+/**
+ * A link read from a list, with the options given next to it
+ */
+export interface ImportedLink {
+  url: string;
+  title: string | null; // Bookmark title
+  filename: string | null;
+  subfolder: string | null; // Relative to the category folder, or absolute
+  referer: string | null;
+  mirrors: string[]; // Extra URIs for the same file (aria2 tab-separated)
+}
+
+export type LinkListFormat = "text" | "csv" | "bookmarks";
+
+/**
+ * A URL produced by a pattern, with the value each pattern took
+ */
+export interface ExpandedUrl {
+  url: string;
+  values: string[];
+}
+
+type LinkOption = "filename" | "subfolder" | "referer";
+
+const MAX_EXPANDED = 10000;
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+// [001-250], [a-z], [0-100:5] and {a,b,c}, as in curl
+const PATTERN =
+  /\[(?:(\d+)-(\d+)|([a-z])-([a-z])|([A-Z])-([A-Z]))(?::(\d+))?\]|\{([^{}]*,[^{}]*)\}/g;
+
+// aria2 option names plus the friendlier spellings
+const OPTION_KEYS: Record<string, LinkOption> = {
+  out: "filename",
+  filename: "filename",
+  name: "filename",
+  file: "filename",
+  dir: "subfolder",
+  subfolder: "subfolder",
+  folder: "subfolder",
+  directory: "subfolder",
+  referer: "referer",
+  referrer: "referer",
+};
+
+const TOKEN_PATTERN = /([\w-]+)=(?:"([^"]*)"|(\S+))|(\S+)/g;
+const BOOKMARK_PATTERN =
+  /<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)')[^>]*>([\s\S]*?)<\/a>/gi;
+const BOOKMARK_PROTOCOLS = /^(?:https?|ftp|sftp):\/\/|^magnet:\?/i;
+
+function range(
+  start: number,
+  end: number,
+  step: number,
+  format: (value: number) => string,
+): string[] {
+  if (end < start || step < 1) {
+    throw new Error(`Invalid range ${format(start)}-${format(end)}`);
+  }
+  const values: string[] = [];
+  for (let value = start; value <= end; value += step) {
+    values.push(format(value));
+    if (values.length > MAX_EXPANDED) break;
+  }
+  return values;
+}
+
+/**
+ * Every URL a pattern stands for, e.g. "img[001-250].jpg" or
+ * "{mirror1,mirror2}.example.com/file.iso"; patterns vary from the right
+ */
+export function expandUrlPattern(url: string): ExpandedUrl[] {
+  const parts: (string | string[])[] = [];
+  let last = 0;
+  let total = 1;
+
+  for (const match of url.matchAll(PATTERN)) {
+    const [
+      ,
+      numStart,
+      numEnd,
+      lowStart,
+      lowEnd,
+      upStart,
+      upEnd,
+      stepText,
+      choices,
+    ] = match;
+    const step = stepText ? Number(stepText) : 1;
+    let values: string[];
+
+    if (choices !== undefined) {
+      values = choices.split(",");
+    } else if (numStart !== undefined) {
+      // A leading zero pads every number to the width of the start
+      const width = numStart.startsWith("0") ? numStart.length : 0;
+      values = range(Number(numStart), Number(numEnd), step, (value) =>
+        String(value).padStart(width, "0"),
+      );
+    } else {
+      const from = lowStart ?? upStart;
+      const to = lowEnd ?? upEnd;
+      values = range(from.charCodeAt(0), to.charCodeAt(0), step, (value) =>
+        String.fromCharCode(value),
+      );
+    }
+
+    total *= values.length;
+    if (total > MAX_EXPANDED) {
+      throw new Error(
+        `Pattern expands to more than ${MAX_EXPANDED} links: ${url}`,
+      );
+    }
+    parts.push(url.substring(last, match.index), values);
+    last = match.index! + match[0].length;
+  }
+  parts.push(url.substring(last));
+
+  let results: ExpandedUrl[] = [{ url: "", values: [] }];
+  for (const part of parts) {
+    if (typeof part === "string") {
+      results = results.map((r) => ({ ...r, url: r.url + part }));
+    } else {
+      results = results.flatMap((r) =>
+        part.map((value) => ({
+          url: r.url + value,
+          values: [...r.values, value],
+        })),
+      );
+    }
+  }
+  return results;
+}
+
+/**
+ * "#1", "#2"... in a filename or folder become the pattern values, as
+ * with curl -o
+ */
+function fillPlaceholders(
+  template: string | null,
+  values: string[],
+): string | null {
+  if (!template) return template;
+  return template.replace(
+    /#(\d+)/g,
+    (placeholder, index) => values[Number(index) - 1] ?? placeholder,
+  );
+}
+
+function cleanFilename(value: string | undefined): string | null {
+  const name = path.basename((value || "").trim().replace(/\\/g, "/"));
+  return name && name !== "." && name !== ".." ? name : null;
+}
+
+/**
+ * Absolute folders are kept; relative ones can't climb out of the
+ * download folder
+ */
+function cleanSubfolder(value: string | undefined): string | null {
+  const folder = (value || "").trim();
+  if (!folder) return null;
+  if (path.isAbsolute(folder)) return path.normalize(folder);
+  const segments = folder
+    .split(/[\\/]+/)
+    .filter((segment) => segment && segment !== "." && segment !== "..");
+  return segments.length > 0 ? segments.join(path.sep) : null;
+}
+
+function createLink(url: string): ImportedLink {
+  return {
+    url,
+    title: null,
+    filename: null,
+    subfolder: null,
+    referer: null,
+    mirrors: [],
+  };
+}
+
+function setOption(link: ImportedLink, key: string, value: string): void {
+  const option = OPTION_KEYS[key.toLowerCase()];
+  if (option === "filename") link.filename = cleanFilename(value);
+  else if (option === "subfolder") link.subfolder = cleanSubfolder(value);
+  else if (option === "referer") link.referer = value.trim() || null;
+}
+
+/**
+ * One link per pattern value; mirrors only make sense for a single file
+ */
+function expandLink(link: ImportedLink): ImportedLink[] {
+  const expanded = expandUrlPattern(link.url);
+  if (expanded.length === 1 && expanded[0].url === link.url) return [link];
+  return expanded.map(({ url, values }) => ({
+    ...link,
+    url,
+    filename: cleanFilename(fillPlaceholders(link.filename, values) ?? ""),
+    subfolder: cleanSubfolder(fillPlaceholders(link.subfolder, values) ?? ""),
+    mirrors: [],
+  }));
+}
+
+/**
+ * A URL per line with optional options after it
+ * ("https://host/a.zip out=a.zip dir=isos referer=https://host/"), or
+ * the aria2 input file layout: tab-separated mirror URIs, then indented
+ * "out=", "dir=" and "referer=" lines
+ */
+function parseText(content: string): ImportedLink[] {
+  const links: ImportedLink[] = [];
+  let current: ImportedLink | null = null;
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+
+    // aria2 option line for the URI above it
+    if (/^\s/.test(line) && /^[\w-]+=/.test(trimmed)) {
+      const separator = trimmed.indexOf("=");
+      if (current) {
+        setOption(
+          current,
+          trimmed.substring(0, separator),
+          trimmed.substring(separator + 1),
+        );
+      }
+      continue;
+    }
+
+    current = null;
+    for (const [, key, quoted, plain, uri] of trimmed.matchAll(TOKEN_PATTERN)) {
+      if (!current) {
+        // The first token is always the URL, even with "=" in its query
+        current = createLink(key ? `${key}=${quoted ?? plain}` : uri);
+        links.push(current);
+      } else if (key && OPTION_KEYS[key.toLowerCase()]) {
+        setOption(current, key, quoted ?? plain);
+      } else if (uri && /^[a-z][\w+.-]*:\/\//i.test(uri)) {
+        current.mirrors.push(uri);
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * Cells of one CSV row, with "quoted" cells and "" escapes
+ */
+export function splitCsvRow(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Rows of url, filename, subfolder, referer; a header row may name the
+ * columns in any order
+ */
+function parseCsv(content: string): ImportedLink[] {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+
+  // Whichever of , ; or tab the first row uses most
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    lines[0].split(candidate).length > lines[0].split(best).length
+      ? candidate
+      : best,
+  );
+
+  const header = splitCsvRow(lines[0], delimiter).map((cell) =>
+    cell.toLowerCase(),
+  );
+  const urlColumn = header.findIndex((cell) =>
+    ["url", "link", "uri"].includes(cell),
+  );
+  const columns: (LinkOption | "url" | null)[] =
+    urlColumn === -1
+      ? ["url", "filename", "subfolder", "referer"]
+      : header.map((cell, i) =>
+          i === urlColumn ? "url" : OPTION_KEYS[cell] || null,
+        );
+
+  const links: ImportedLink[] = [];
+  for (const line of urlColumn === -1 ? lines : lines.slice(1)) {
+    const cells = splitCsvRow(line, delimiter);
+    const url = cells[columns.indexOf("url")];
+    if (!url) continue;
+    const link = createLink(url);
+    columns.forEach((column, i) => {
+      if (column && column !== "url" && cells[i]) {
+        setOption(link, column, cells[i]);
+      }
+    });
+    links.push(link);
+  }
+  return links;
+}
+
+/**
+ * Links of a browser bookmark export (Netscape bookmark HTML)
+ */
+function parseBookmarks(content: string): ImportedLink[] {
+  const links: ImportedLink[] = [];
+  for (const [, double, single, inner] of content.matchAll(BOOKMARK_PATTERN)) {
+    const url = decodeEntities((double ?? single).trim());
+    // Skip javascript:, place: and browser-internal bookmarks
+    if (!BOOKMARK_PROTOCOLS.test(url)) continue;
+    const title = decodeEntities(inner.replace(/<[^>]*>/g, ""))
+      .replace(/\s+/g, " ")
+      .trim();
+    links.push({ ...createLink(url), title: title || null });
+  }
+  return links;
+}
+
+/**
+ * Guess a list's format from its file name, then its content
+ */
+export function detectLinkListFormat(
+  filename: string,
+  content: string,
+): LinkListFormat {
+  const extension = path.extname(filename).toLowerCase();
+  if (extension === ".csv" || extension === ".tsv") return "csv";
+  if (extension === ".html" || extension === ".htm") return "bookmarks";
+  if (/^\s*<!DOCTYPE NETSCAPE-Bookmark-file/i.test(content)) {
+    return "bookmarks";
+  }
+  return "text";
+}
+
+/**
+ * Read a link list, expanding URL patterns in text and CSV lists
+ */
+export function parseLinkList(
+  content: string,
+  format: LinkListFormat = "text",
+): ImportedLink[] {
+  const text = content.replace(/^\uFEFF/, "");
+  if (format === "bookmarks") return parseBookmarks(text);
+
+  const links = format === "csv" ? parseCsv(text) : parseText(text);
+  const expanded = links.flatMap(expandLink);
+  if (expanded.length > MAX_EXPANDED) {
+    throw new Error(`The list has more than ${MAX_EXPANDED} links`);
+  }
+  return expanded;
+}
+
+/**
+ * Read the links of a .txt, .csv, bookmark or aria2 input file
+ */
+export async function importLinkFile(
+  filePath: string,
+): Promise<ImportedLink[]> {
+  const { size } = await fs.promises.stat(filePath);
+  if (size > MAX_FILE_SIZE) {
+    throw new Error("The file is too large to import");
+  }
+  const content = await fs.promises.readFile(filePath, "utf8");
+  return parseLinkList(content, detectLinkListFormat(filePath, content));
+}
@@ -0,0 +1,218 @@
+/**
+ * Mirror Service
+ * Cleans up mirror lists and tracks the health of each source of a
+ * multi-source aria2 download
+ */
+
+import { URL } from "url";
+import { MirrorSource } from "../types";
+
+const MIRROR_PROTOCOLS = ["http:", "https:", "ftp:", "sftp:"];
+
+/**
+ * A URI entry of an aria2 file ("used" once aria2 has tried it)
+ */
+export interface Aria2Uri {
+  uri: string;
+  status: "used" | "waiting";
+}
+
+/**
+ * A connection reported by aria2.getServers
+ */
+export interface Aria2Server {
+  uri: string;
+  currentUri: string;
+  downloadSpeed: string;
+}
+
+/**
+ * Validate and dedupe extra URLs for a file, leaving out the primary one
+ */
+export function normalizeMirrors(
+  primary: string,
+  mirrors: string[] = [],
+): string[] {
+  const seen = new Set([primary]);
+  const result: string[] = [];
+
+  for (const raw of mirrors) {
+    if (typeof raw !== "string") continue;
+    let uri: string;
+    try {
+      const url = new URL(raw.trim());
+      if (!MIRROR_PROTOCOLS.includes(url.protocol)) continue;
+      uri = url.toString();
+    } catch {
+      continue;
+    }
+    if (seen.has(uri)) continue;
+    seen.add(uri);
+    result.push(uri);
+  }
+  return result;
+}
+
+const CREDENTIAL_OPTIONS = ["http-user", "ftp-user"];
+const CREDENTIAL_HEADER = /^(cookie|authorization)\s*:/i;
+
+/**
+ * aria2 sends one task's login and headers to every source, so mirrors on
+ * another host are left out when those carry credentials for the primary
+ */
+export function credentialSafeMirrors(
+  primary: string,
+  mirrors: string[],
+  aria2Options: Record<string, string | string[]>,
+): string[] {
+  const headers = ([] as string[]).concat(aria2Options.header || []);
+  const sendsCredentials =
+    CREDENTIAL_OPTIONS.some((option) => aria2Options[option]) ||
+    headers.some((header) => CREDENTIAL_HEADER.test(header));
+  if (!sendsCredentials) return mirrors;
+
+  const host = (uri: string) => {
+    try {
+      return new URL(uri).hostname.toLowerCase();
+    } catch {
+      return null;
+    }
+  };
+  const primaryHost = host(primary);
+  return mirrors.filter((uri) => primaryHost && host(uri) === primaryHost);
+}
+
+/**
+ * Mirrors advertised by a server with Metalink/HTTP (RFC 6249) headers:
+ * Link: <http://mirror.example.com/file.iso>; rel=duplicate; pri=2
+ */
+export function parseDuplicateLinks(
+  header: string | string[] | undefined,
+  baseUrl: string,
+): string[] {
+  if (!header) return [];
+  const values = Array.isArray(header) ? header : [header];
+
+  const links: { uri: string; priority: number }[] = [];
+  for (const value of values) {
+    for (const match of Array.from(value.matchAll(/<([^>]+)>([^,]*)/g))) {
+      const params = match[2];
+      if (!/;\s*rel="?duplicate"?/i.test(params)) continue;
+      try {
+        const priority = params.match(/;\s*pri=(\d+)/i);
+        links.push({
+          uri: new URL(match[1], baseUrl).toString(),
+          priority: priority ? parseInt(priority[1], 10) : 999999,
+        });
+      } catch {
+        // Skip malformed entries
+      }
+    }
+  }
+
+  // Lower "pri" values are preferred
+  return normalizeMirrors(
+    baseUrl,
+    links.sort((a, b) => a.priority - b.priority).map((link) => link.uri),
+  );
+}
+
+/**
+ * Fresh source entries for URIs aria2 has not tried yet
+ */
+export function createSources(uris: string[]): MirrorSource[] {
+  return uris.map((uri) => ({
+    uri,
+    status: "waiting",
+    speed: 0,
+    error: null,
+    lastActiveAt: null,
+  }));
+}
+
+/**
+ * Merge aria2's view of a file into the known sources
+ * URIs aria2 gave up on disappear from its list and are marked failed;
+ * URIs we have not seen before (e.g. from a Metalink) are added
+ */
+export function mergeSources(
+  known: MirrorSource[],
+  uris: Aria2Uri[],
+  servers: Aria2Server[],
+  now: number = Date.now(),
+): MirrorSource[] {
+  const listed = new Map<string, Aria2Uri["status"]>();
+  for (const { uri, status } of uris) {
+    // aria2 repeats URIs to fill the split count; "used" wins
+    if (listed.get(uri) !== "used") listed.set(uri, status);
+  }
+
+  const speeds = new Map<string, number>();
+  for (const server of servers) {
+    const speed = parseInt(server.downloadSpeed, 10) || 0;
+    speeds.set(server.uri, (speeds.get(server.uri) || 0) + speed);
+  }
+
+  const sources = [
+    ...known,
+    ...createSources(
+      Array.from(listed.keys()).filter(
+        (uri) => !known.some((source) => source.uri === uri),
+      ),
+    ),
+  ];
+
+  return sources.map((source): MirrorSource => {
+    if (source.status === "failed") return source;
+
+    if (speeds.has(source.uri)) {
+      const speed = speeds.get(source.uri) as number;
+      return {
+        ...source,
+        status: "active",
+        speed,
+        lastActiveAt: speed > 0 ? now : (source.lastActiveAt ?? now),
+      };
+    }
+
+    const listedStatus = listed.get(source.uri);
+    if (listedStatus === "used") {
+      return {
+        ...source,
+        status: "idle",
+        speed: 0,
+        lastActiveAt: source.lastActiveAt ?? now,
+      };
+    }
+    if (listedStatus === "waiting") {
+      return { ...source, status: "waiting", speed: 0 };
+    }
+
+    return {
+      ...source,
+      status: "failed",
+      speed: 0,
+      error: "Dropped by aria2 after repeated errors",
+    };
+  });
+}
+
+/**
+ * Sources that were tried but sent nothing for `timeout` ms while
+ * another source is delivering data
+ */
+export function findStalledSources(
+  sources: MirrorSource[],
+  timeout: number,
+  now: number = Date.now(),
+): MirrorSource[] {
+  if (!sources.some((source) => source.speed > 0)) return [];
+
+  return sources.filter(
+    (source) =>
+      (source.status === "active" || source.status === "idle") &&
+      source.speed === 0 &&
+      source.lastActiveAt !== null &&
+      now - source.lastActiveAt > timeout,
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Torrent Service
+ * Classifies BitTorrent / Metalink sources and reads torrent state
+ * out of aria2 status responses
+ */
+
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { TorrentFile, TorrentInfo } from "../types";
+
+/**
+ * How a source is handed to aria2
+ * - http: aria2.addUri (remote .torrent/.meta4 are followed by aria2)
+ * - magnet: aria2.addUri, metadata is fetched from peers first
+ * - torrent / metalink: local file sent with aria2.addTorrent / addMetalink
+ */
+export type TransferKind = "http" | "magnet" | "torrent" | "metalink";
+
+const TORRENT_EXTENSION = /\.torrent$/i;
+const METALINK_EXTENSION = /\.(meta4|metalink)$/i;
+
+/**
+ * Resolve a file:// URL or absolute path to a local path
+ */
+export function toLocalPath(url: string): string | null {
+  if (/^file:/i.test(url)) {
+    try {
+      return fileURLToPath(url);
+    } catch {
+      return null;
+    }
+  }
+  // Absolute paths only; "C:\" counts on Windows, URLs never do
+  if (!/^[a-z][a-z0-9+.-]+:\/\//i.test(url) && path.isAbsolute(url)) {
+    return url;
+  }
+  return null;
+}
+
+export function getTransferKind(url: string): TransferKind {
+  if (/^magnet:\?/i.test(url)) return "magnet";
+
+  const localPath = toLocalPath(url);
+  if (localPath) {
+    if (TORRENT_EXTENSION.test(localPath)) return "torrent";
+    if (METALINK_EXTENSION.test(localPath)) return "metalink";
+  }
+  return "http";
+}
+
+/**
+ * Whether aria2 will end up running a BitTorrent/Metalink task for this URL
+ */
+export function isPeerToPeer(url: string): boolean {
+  if (getTransferKind(url) !== "http") return true;
+  try {
+    const { pathname } = new URL(url);
+    return (
+      TORRENT_EXTENSION.test(pathname) || METALINK_EXTENSION.test(pathname)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function getMagnetParams(url: string): URLSearchParams {
+  return new URLSearchParams(url.slice(url.indexOf("?") + 1));
+}
+
+/**
+ * Display name ("dn") of a magnet link
+ */
+export function getMagnetName(url: string): string | undefined {
+  return getMagnetParams(url).get("dn")?.trim() || undefined;
+}
+
+/**
+ * BitTorrent info hash ("xt=urn:btih:...") of a magnet link
+ */
+export function getMagnetInfoHash(url: string): string | null {
+  const xt = getMagnetParams(url)
+    .getAll("xt")
+    .find((value) => /^urn:btih:/i.test(value));
+  return xt ? xt.slice("urn:btih:".length).toLowerCase() : null;
+}
+
+/**
+ * Friendly name for a BitTorrent/Metalink source before aria2 knows more
+ */
+export function getTransferName(url: string): string | undefined {
+  const kind = getTransferKind(url);
+  if (kind === "magnet") {
+    const hash = getMagnetInfoHash(url);
+    return (
+      getMagnetName(url) || (hash ? `magnet-${hash.slice(0, 8)}` : undefined)
+    );
+  }
+  const localPath = toLocalPath(url);
+  return localPath ? path.basename(localPath) : undefined;
+}
+
+/**
+ * Build torrent state from an aria2 status response
+ * Returns null for non-BitTorrent tasks
+ */
+export function toTorrentInfo(
+  status: Record<string, any>,
+  seeding: boolean = false,
+): TorrentInfo | null {
+  if (!status.bittorrent) return null;
+
+  const files: TorrentFile[] = (status.files || [])
+    .filter((file: any) => file.path && !file.path.startsWith("[METADATA]"))
+    .map((file: any) => ({
+      index: parseInt(file.index, 10),
+      path: file.path,
+      length: parseInt(file.length, 10) || 0,
+      completedLength: parseInt(file.completedLength, 10) || 0,
+      selected: file.selected !== "false",
+    }));
+
+  return {
+    infoHash: (status.infoHash as string) || null,
+    name: status.bittorrent.info?.name || null,
+    files,
+    seeding,
+  };
+}
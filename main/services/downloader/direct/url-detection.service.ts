@@ -4,13 +4,17 @@
  * Uses HEAD requests to analyze Content-Type headers
  */
 
-import * as http from "http";
-import * as https from "https";
-import * as net from "net";
-import { promises as dns } from "dns";
 import { URL } from "url";
 import * as path from "path";
 import { DetectionMode } from "../types";
+import { getTransferKind, getTransferName } from "./torrent.service";
+import { parseDuplicateLinks } from "./mirror.service";
+import { proxyService } from "../../proxy.service";
+import {
+  networkPolicyService,
+  NetworkSource,
+} from "../../network-policy.service";
+import { getProxiedRequest } from "../../utils/proxy-agent";
 
 /**
  * Result of link type detection
@@ -22,6 +26,17 @@ export interface LinkTypeResult {
   filename?: string;
   reason: string;
   suggestedUserAgent?: string;
+  mirrors?: string[]; // Advertised with "Link: <...>; rel=duplicate"
+}
+
+/**
+ * What a HEAD request tells about a link, null where it couldn't tell
+ */
+export interface LinkProbe {
+  url: string;
+  size: number | null;
+  contentType: string | null;
+  isDirect: boolean | null;
 }
 
 /**
@@ -87,6 +102,11 @@ const DIRECT_DOWNLOAD_CONTENT_TYPES = [
 
   // ISO/Disk images
   "application/x-iso9660-image",
+
+  // BitTorrent / Metalink (aria2 follows them)
+  "application/x-bittorrent",
+  "application/metalink4+xml",
+  "application/metalink+xml",
 ];
 
 /**
@@ -185,6 +205,11 @@ const DIRECT_DOWNLOAD_EXTENSIONS = [
   // ISO/Disk images
   ".iso",
   ".img",
+
+  // BitTorrent / Metalink
+  ".torrent",
+  ".meta4",
+  ".metalink",
 ];
 
 /**
@@ -234,7 +259,7 @@ function extractFilenameFromHeader(
 /**
  * Extract filename from URL path
  */
-function getFilenameFromUrl(url: string): string | undefined {
+export function getFilenameFromUrl(url: string): string | undefined {
   try {
     const urlObj = new URL(url);
     const pathname = urlObj.pathname;
@@ -255,7 +280,7 @@ function getFilenameFromUrl(url: string): string | undefined {
 /**
  * Check if hostname is a known video platform
  */
-function isVideoPlatform(hostname: string): boolean {
+export function isVideoPlatform(hostname: string): boolean {
   if (!hostname) return false;
   const normalizedHostname = hostname.toLowerCase().replace(/^www\./, "");
 
@@ -269,90 +294,15 @@ function isVideoPlatform(hostname: string): boolean {
 }
 
 /**
- * Check if URL points to a private/internal network (SSRF protection)
+ * Check if URL points to a private/internal network that the network
+ * policy doesn't trust (SSRF protection)
  */
-async function isPrivateUrl(url: string): Promise<boolean> {
-  try {
-    const urlObj = new URL(url);
-    const hostname = urlObj.hostname;
-
-    // Check for localhost variations
-    if (
-      hostname === "localhost" ||
-      hostname === "::1" ||
-      hostname === "0.0.0.0"
-    ) {
-      return true;
-    }
-
-    let ip = hostname;
-
-    // If hostname is not an IP literal, resolve it
-    if (!net.isIP(hostname)) {
-      try {
-        const result = await dns.lookup(hostname);
-        ip = result.address;
-      } catch {
-        // If DNS lookup fails, invalid domain
-        return false;
-      }
-    } else {
-      // If it looks like an IP but net.isIP says 0 (invalid) it might be decimal/hex
-      // But net.isIP returns 4 or 6.
-      // We should normalize it.
-      // Actually, dns.lookup handles IP literals too and normalizes them!
-      // So we can just call dns.lookup on everything.
-      try {
-        const result = await dns.lookup(hostname);
-        ip = result.address;
-      } catch {
-        return true; // Suspicious if it looked like an IP but failed
-      }
-    }
-
-    // Now check the IP
-    // IPv4
-    if (net.isIPv4(ip)) {
-      const parts = ip.split(".").map(Number);
-      const [a, b, c, d] = parts;
-
-      // 127.0.0.0/8 (loopback)
-      if (a === 127) return true;
-
-      // 10.0.0.0/8 (private)
-      if (a === 10) return true;
-
-      // 172.16.0.0/12 (private)
-      if (a === 172 && b >= 16 && b <= 31) return true;
-
-      // 192.168.0.0/16 (private)
-      if (a === 192 && b === 168) return true;
-
-      // 169.254.0.0/16 (link-local)
-      if (a === 169 && b === 254) return true;
-
-      // 0.0.0.0/8 (current network)
-      if (a === 0) return true;
-    }
-
-    // IPv6
-    if (net.isIPv6(ip)) {
-      // ::1 (loopback)
-      if (ip === "::1") return true;
-      // fe80::/10 (link-local)
-      if (ip.toLowerCase().startsWith("fe80:")) return true;
-      // fc00::/7 (unique local)
-      if (
-        ip.toLowerCase().startsWith("fc") ||
-        ip.toLowerCase().startsWith("fd")
-      )
-        return true;
-    }
-
-    return false;
-  } catch {
-    return true; // If URL parsing fails, treat as unsafe
-  }
+export async function isPrivateUrl(
+  url: string,
+  source: NetworkSource = "link detection",
+): Promise<boolean> {
+  const verdict = await networkPolicyService.checkUrl(url, source);
+  return !verdict.allowed;
 }
 
 /**
@@ -370,7 +320,7 @@ function isValidProtocol(url: string): boolean {
 /**
  * Get file extension from URL path
  */
-function getExtensionFromUrl(url: string): string | undefined {
+export function getExtensionFromUrl(url: string): string | undefined {
   try {
     const urlObj = new URL(url);
     const pathname = urlObj.pathname;
@@ -395,10 +345,17 @@ function isDirectDownloadContentType(contentType: string | undefined): boolean {
   );
 }
 
+/**
+ * Check if a file extension (".zip") is typically a direct download
+ */
+export function isDirectDownloadExtension(extension: string): boolean {
+  return DIRECT_DOWNLOAD_EXTENSIONS.includes(extension.toLowerCase());
+}
+
 /**
  * Check if content type indicates a web page
  */
-function isWebPageContentType(contentType: string | undefined): boolean {
+export function isWebPageContentType(contentType: string | undefined): boolean {
   if (!contentType) return false;
   const normalizedType = contentType.toLowerCase().split(";")[0].trim();
   return WEB_PAGE_CONTENT_TYPES.some(
@@ -406,7 +363,7 @@ function isWebPageContentType(contentType: string | undefined): boolean {
   );
 }
 
-const BROWSER_USER_AGENT =
+export const BROWSER_USER_AGENT =
   "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
 const GENERIC_USER_AGENT = "curl/7.68.0"; // Using curl UA as it's widely accepted by file hosters
 
@@ -419,25 +376,30 @@ async function getContentLengthViaRange(
   userAgent: string,
   maxRedirects: number = 5,
 ): Promise<number | undefined> {
+  let proxy: URL | null;
+  try {
+    proxy = await proxyService.resolveProxy(url);
+  } catch {
+    return undefined;
+  }
+
   return new Promise((resolve) => {
     try {
-      const urlObj = new URL(url);
-      const protocol = urlObj.protocol === "https:" ? https : http;
-
-      const options = {
-        method: "GET",
-        hostname: urlObj.hostname,
-        port: urlObj.port || (urlObj.protocol === "https:" ? 443 : 80),
-        path: urlObj.pathname + urlObj.search,
-        headers: {
-          "User-Agent": userAgent,
-          Accept: "*/*",
-          Range: "bytes=0-0", // Request only the first byte
-          Referer: url,
+      const { protocol, options } = getProxiedRequest(
+        new URL(url),
+        {
+          method: "GET",
+          headers: {
+            "User-Agent": userAgent,
+            Accept: "*/*",
+            Range: "bytes=0-0", // Request only the first byte
+            Referer: url,
+          },
+          timeout: 5000,
+          rejectUnauthorized: false,
         },
-        timeout: 5000,
-        rejectUnauthorized: false,
-      };
+        proxy,
+      );
 
       const req = protocol.request(options, async (res) => {
         try {
@@ -511,28 +473,29 @@ async function performHeadRequest(
   contentLength?: number;
   contentDisposition?: string;
   finalUrl: string;
+  mirrors: string[];
 }> {
+  const proxy = await proxyService.resolveProxy(url);
+
   return new Promise((resolve, reject) => {
-    const urlObj = new URL(url);
-    const protocol = urlObj.protocol === "https:" ? https : http;
-
-    const options = {
-      method: "HEAD",
-      hostname: urlObj.hostname,
-      port: urlObj.port || (urlObj.protocol === "https:" ? 443 : 80),
-      path: urlObj.pathname + urlObj.search,
-      headers: {
-        "User-Agent": userAgent,
-        Accept:
-          "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.5",
-        Connection: "keep-alive",
-        "Upgrade-Insecure-Requests": "1",
-        Referer: url, // Many sites require the URL itself as referer to return headers
+    const { protocol, options } = getProxiedRequest(
+      new URL(url),
+      {
+        method: "HEAD",
+        headers: {
+          "User-Agent": userAgent,
+          Accept:
+            "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8",
+          "Accept-Language": "en-US,en;q=0.5",
+          Connection: "keep-alive",
+          "Upgrade-Insecure-Requests": "1",
+          Referer: url, // Many sites require the URL itself as referer to return headers
+        },
+        timeout: 5000,
+        rejectUnauthorized: false,
       },
-      timeout: 5000,
-      rejectUnauthorized: false,
-    };
+      proxy,
+    );
 
     const req = protocol.request(options, async (res) => {
       try {
@@ -557,12 +520,12 @@ async function performHeadRequest(
             return;
           }
 
-          if (await isPrivateUrl(redirectUrl)) {
-            reject(
-              new Error(
-                "Redirect to private network blocked (SSRF protection)",
-              ),
-            );
+          const verdict = await networkPolicyService.checkUrl(
+            redirectUrl,
+            "redirect",
+          );
+          if (!verdict.allowed) {
+            reject(new Error(`Redirect blocked: ${verdict.reason}`));
             return;
           }
 
@@ -595,6 +558,7 @@ async function performHeadRequest(
           contentLength,
           contentDisposition: res.headers["content-disposition"],
           finalUrl: url,
+          mirrors: parseDuplicateLinks(res.headers.link, url),
         });
       } catch (err) {
         reject(err);
@@ -611,6 +575,34 @@ async function performHeadRequest(
   });
 }
 
+/**
+ * Size and type of a link from a single HEAD request, for pickers that
+ * list many links at once; never throws
+ */
+export async function probeLink(url: string): Promise<LinkProbe> {
+  const unknown: LinkProbe = {
+    url,
+    size: null,
+    contentType: null,
+    isDirect: null,
+  };
+  if (!isValidProtocol(url) || (await isPrivateUrl(url))) return unknown;
+
+  try {
+    const headResult = await performHeadRequest(url, BROWSER_USER_AGENT);
+    return {
+      url,
+      size: headResult.contentLength ?? null,
+      contentType: headResult.contentType || null,
+      isDirect:
+        isDirectDownloadContentType(headResult.contentType) ||
+        !!extractFilenameFromHeader(headResult.contentDisposition),
+    };
+  } catch {
+    return unknown;
+  }
+}
+
 /**
  * Detect link type using HEAD request and fallback logic
  * @param url The URL to analyze
@@ -630,6 +622,24 @@ export async function detectLinkType(
       };
     }
 
+    // Magnets and local .torrent/.meta4 files always go to aria2
+    if (getTransferKind(url) !== "http") {
+      return {
+        isDirect: true,
+        filename: getTransferName(url),
+        reason: "BitTorrent/Metalink source",
+      };
+    }
+
+    // FTP/SFTP can't be probed with HEAD; aria2 fetches them directly
+    if (/^s?ftp:\/\//i.test(url)) {
+      return {
+        isDirect: true,
+        filename: getFilenameFromUrl(url),
+        reason: "FTP/SFTP source",
+      };
+    }
+
     // Validate URL format and protocol
     if (!isValidProtocol(url)) {
       return {
@@ -639,11 +649,11 @@ export async function detectLinkType(
     }
 
     // SSRF Protection: Block private/internal network URLs
-    if (await isPrivateUrl(url)) {
+    const verdict = await networkPolicyService.checkUrl(url, "link detection");
+    if (!verdict.allowed) {
       return {
         isDirect: false,
-        reason:
-          "Private/internal network URLs are not allowed (SSRF protection)",
+        reason: `Blocked by network policy: ${verdict.reason}`,
       };
     }
 
@@ -747,6 +757,7 @@ export async function detectLinkType(
               getFilenameFromUrl(url),
             reason: "Content-Type indicates direct download",
             suggestedUserAgent: usedUA,
+            mirrors: headResult.mirrors,
           };
         }
       }
@@ -764,6 +775,7 @@ export async function detectLinkType(
             filename,
             reason: "Content-Disposition header indicates file download",
             suggestedUserAgent: usedUA,
+            mirrors: headResult.mirrors,
           };
         }
       }
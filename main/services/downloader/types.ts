@@ -49,6 +49,34 @@ export interface Thumbnail {
   resolution?: string;
 }
 
+/**
+ * SponsorBlock segment categories yt-dlp can cut or mark
+ */
+export type SponsorBlockCategory =
+  | "sponsor"
+  | "intro"
+  | "outro"
+  | "selfpromo"
+  | "preview"
+  | "filler"
+  | "interaction"
+  | "music_offtopic";
+
+/**
+ * A SponsorBlock segment cut out of a finished download
+ */
+export interface SponsorBlockSegment {
+  category: SponsorBlockCategory;
+  title: string; // e.g. "Sponsor"
+  startTime: number; // Seconds, in the original video
+  endTime: number;
+}
+
+/**
+ * Subtitle formats yt-dlp can convert to (--convert-subs)
+ */
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
 /**
  * Subtitle/Caption track information
  */
@@ -60,6 +88,15 @@ export interface SubtitleTrack {
   isAutoGenerated: boolean;
 }
 
+/**
+ * A chapter marked by the uploader
+ */
+export interface VideoChapter {
+  title: string;
+  startTime: number; // In seconds
+  endTime: number; // In seconds
+}
+
 /**
  * Complete video information extracted from URL
  */
@@ -85,6 +122,7 @@ export interface VideoInfo {
   isPlaylist: boolean;
   qualityOptions?: QualityOption[];
   playlist?: PlaylistInfo;
+  chapters?: VideoChapter[];
 }
 
 /**
@@ -111,6 +149,7 @@ export interface PlaylistVideoEntry {
   thumbnail: string | null;
   url: string;
   index: number;
+  extractorKey?: string; // e.g. "Youtube", when the listing reports it
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -152,6 +191,15 @@ export enum DownloadQuality {
   AUDIO_ONLY = "bestaudio",
 }
 
+/**
+ * A time range of a video to download instead of all of it
+ */
+export interface DownloadSection {
+  start: number; // In seconds
+  end: number; // In seconds
+  title?: string; // Chapter the range was picked from
+}
+
 /**
  * Options for downloading a video
  */
@@ -166,6 +214,8 @@ export interface DownloadOptions {
     download: boolean;
     languages?: string[]; // e.g., ['en', 'ar']
     embedInVideo?: boolean;
+    autoGenerated?: boolean; // Fall back to auto captions where no manual track exists
+    format?: SubtitleFormat; // Convert the tracks, keep the site's format if unset
   };
   thumbnail?: {
     download: boolean;
@@ -174,12 +224,47 @@ export interface DownloadOptions {
   metadata?: {
     embedInVideo?: boolean;
   };
+  chapters?: {
+    embedInVideo?: boolean; // Write chapter markers into the file
+    split?: boolean; // Also save one file per chapter, named after it
+  };
+  sponsorBlock?: {
+    remove?: SponsorBlockCategory[]; // Cut these segments out of the video
+    mark?: SponsorBlockCategory[]; // Add these segments as chapters
+  };
   rateLimit?: string; // e.g., '1M' for 1MB/s limit
+  checksum?: string; // Expected hash, e.g. 'sha-256=<hex>' or a bare hex digest
   proxy?: string;
   cookies?: string; // Path to cookies file
+  cookieProfileId?: string; // Cookie profile to use instead of the one matched by host
+  referer?: string; // Page the download was started from
+  userAgent?: string; // Browser user agent to impersonate
+  headers?: Record<string, string>; // Extra HTTP headers (e.g. Cookie from the browser)
   verbose?: boolean; // Enable verbose logging for debugging (e.g., YouTube empty file errors)
   isPlaylist?: boolean; // Indicates if this download is part of a playlist
   playlistIndex?: number; // Index of the video in a playlist
+  queueId?: string; // Named queue to add the download to (default: Main)
+  selectFiles?: number[]; // Torrent/Metalink file indexes to fetch (1-based, aria2 "select-file")
+  mirrors?: string[]; // Extra URLs serving the same file, downloaded from in parallel
+  conversionPresetId?: string; // ffmpeg preset to run on the finished file
+  sections?: DownloadSection[]; // Only download these time ranges (yt-dlp --download-sections)
+  downloadArchive?: string; // yt-dlp archive file: skip IDs listed there, record finished ones
+}
+
+/**
+ * Hash algorithms accepted for checksum verification (aria2 names)
+ */
+export type ChecksumAlgorithm = "md5" | "sha-1" | "sha-256" | "sha-512";
+
+/**
+ * Integrity check state of a finished download
+ */
+export interface ChecksumVerification {
+  status: "pending" | "verifying" | "verified" | "mismatch";
+  algorithm: ChecksumAlgorithm;
+  expected: string;
+  actual?: string;
+  source: "user" | "sidecar"; // Given with the download or found next to the URL
 }
 
 /**
@@ -198,6 +283,42 @@ export interface DownloadProgress {
   filename: string | null;
   currentFragment?: number;
   totalFragments?: number;
+  peers?: number; // BitTorrent: connected peers
+  seeders?: number; // BitTorrent: connected seeders
+  uploadSpeed?: number; // BitTorrent: bytes per second
+  uploadedBytes?: number; // BitTorrent: total uploaded
+}
+
+/**
+ * A file inside a torrent
+ */
+export interface TorrentFile {
+  index: number; // 1-based, as aria2 "select-file" expects
+  path: string;
+  length: number;
+  completedLength: number;
+  selected: boolean;
+}
+
+/**
+ * BitTorrent state of a direct download
+ */
+export interface TorrentInfo {
+  infoHash: string | null;
+  name: string | null;
+  files: TorrentFile[];
+  seeding: boolean; // Data is complete, still uploading to peers
+}
+
+/**
+ * One URL of a multi-source (mirrored) direct download
+ */
+export interface MirrorSource {
+  uri: string;
+  status: "active" | "idle" | "waiting" | "failed"; // idle: tried, not connected now
+  speed: number; // Bytes per second
+  error: string | null;
+  lastActiveAt: number | null; // Last time data came from this source (ms)
 }
 
 /**
@@ -217,6 +338,11 @@ export interface DownloadItem {
   completedAt: Date | null;
   error: string | null;
   retryCount: number;
+  verification?: ChecksumVerification | null;
+  torrent?: TorrentInfo | null;
+  sources?: MirrorSource[] | null;
+  needsCookies?: boolean; // Failed on a sign-in or age check that cookies can fix
+  removedSegments?: SponsorBlockSegment[] | null; // SponsorBlock segments cut out
 }
 
 /**
@@ -328,12 +454,21 @@ export const DownloadIpcChannels = {
   START_DOWNLOAD: "download:start",
   START_DIRECT_DOWNLOAD: "download:start-direct",
   DETECT_LINK_TYPE: "download:detect-link-type",
+  GRAB_LINKS: "download:grab-links",
+  PROBE_LINKS: "download:probe-links",
+  PARSE_LINKS: "download:parse-links",
+  IMPORT_LINK_FILE: "download:import-link-file",
   PAUSE_DOWNLOAD: "download:pause",
   RESUME_DOWNLOAD: "download:resume",
   CANCEL_DOWNLOAD: "download:cancel",
   GET_DOWNLOAD_STATUS: "download:get-status",
   GET_ALL_DOWNLOADS: "download:get-all",
   CLEAR_COMPLETED: "download:clear-completed",
+  SET_SPEED_LIMIT: "download:set-speed-limit",
+  SELECT_FILES: "download:select-files",
+  STOP_SEEDING: "download:stop-seeding",
+  RETRY_WITH_COOKIES: "download:retry-with-cookies",
+  OPEN_TORRENT_FILE: "download:open-torrent-file",
 
   // Events from Main to Renderer
   DOWNLOAD_PROGRESS: "download:progress",
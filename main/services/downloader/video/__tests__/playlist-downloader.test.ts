@@ -14,6 +14,20 @@ jest.mock("../../../utils/binary-manager", () => ({
   ensureYtDlp: jest.fn().mockResolvedValue(true),
 }));
 
+jest.mock("../../../credentials.service", () => ({
+  credentialsService: {
+    getCredentialsForUrl: jest.fn().mockReturnValue(null),
+  },
+}));
+
+jest.mock("../../../cookies.service", () => ({
+  cookiesService: { getCookieFile: jest.fn().mockReturnValue(null) },
+}));
+
+jest.mock("../../../proxy.service", () => ({
+  proxyService: { resolveProxy: jest.fn().mockResolvedValue(null) },
+}));
+
 describe("PlaylistDownloader", () => {
   let downloader: PlaylistDownloader;
 
@@ -112,4 +126,40 @@ describe("PlaylistDownloader", () => {
       expect(tasks[1].options.url).toBe("https://v2");
     });
   });
+
+  describe("toEntryVideoInfo", () => {
+    it("should describe one entry with the listing's extractor", () => {
+      const listing = {
+        extractor: "youtube:tab",
+        extractorKey: "YoutubeTab",
+      } as any;
+      const entry = {
+        id: "v1",
+        title: "V1",
+        url: "https://v1",
+        duration: 90,
+        thumbnail: "https://v1.jpg",
+        index: 1,
+        extractorKey: "Youtube",
+      };
+
+      expect(downloader.toEntryVideoInfo(entry, listing)).toMatchObject({
+        id: "v1",
+        title: "V1",
+        webpage_url: "https://v1",
+        duration: 90,
+        thumbnail: "https://v1.jpg",
+        formats: [],
+        isPlaylist: false,
+        extractor: "youtube:tab",
+        extractorKey: "Youtube",
+      });
+      expect(
+        downloader.toEntryVideoInfo(
+          { ...entry, extractorKey: undefined },
+          listing,
+        ).extractorKey,
+      ).toBe("YoutubeTab");
+    });
+  });
 });
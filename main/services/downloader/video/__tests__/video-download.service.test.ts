@@ -0,0 +1,139 @@
+import { EventEmitter } from "events";
+import * as os from "os";
+import { VideoDownloadService } from "../video-download.service";
+import { getYtDlpWrap } from "../../../utils/binary-manager";
+import { networkPolicyService } from "../../../network-policy.service";
+import { DownloadItem, DownloadStatus } from "../../types";
+
+jest.mock("electron", () => ({
+  app: {
+    getPath: jest.fn().mockReturnValue("/mock/downloads"),
+  },
+  dialog: {},
+}));
+
+jest.mock("../../../utils/binary-manager", () => ({
+  getYtDlpWrap: jest.fn(),
+  ensureYtDlp: jest.fn().mockResolvedValue(true),
+  isBinaryAvailable: jest.fn().mockReturnValue(true),
+  getFfmpegPath: jest.fn().mockReturnValue("/mock/ffmpeg"),
+  isFfmpegAvailable: jest.fn().mockReturnValue(true),
+}));
+
+jest.mock("../../../settings.service", () => ({
+  settingsService: {
+    getSettings: jest.fn().mockReturnValue({
+      maxConcurrentDownloads: 1,
+      onFileExists: "rename",
+      speedLimit: 0,
+      subtitles: { languages: [] },
+      sponsorBlock: { remove: [], mark: [] },
+    }),
+  },
+}));
+
+jest.mock("../../../network-policy.service", () => ({
+  networkPolicyService: { assertAllowed: jest.fn() },
+}));
+
+jest.mock("../../../credentials.service", () => ({
+  credentialsService: {
+    getCredentialsForUrl: jest.fn().mockReturnValue(null),
+  },
+}));
+
+jest.mock("../../../cookies.service", () => ({
+  cookiesService: { getCookieFile: jest.fn().mockReturnValue(null) },
+}));
+
+jest.mock("../../../proxy.service", () => ({
+  proxyService: { resolveProxy: jest.fn().mockResolvedValue(null) },
+}));
+
+const flush = () => new Promise(setImmediate);
+
+describe("VideoDownloadService", () => {
+  let service: VideoDownloadService;
+  let exec: jest.Mock;
+  let releasePolicy: Array<(error?: Error) => void>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    releasePolicy = [];
+    (networkPolicyService.assertAllowed as jest.Mock).mockImplementation(
+      () =>
+        new Promise<void>((resolve, reject) =>
+          releasePolicy.push((error) => (error ? reject(error) : resolve())),
+        ),
+    );
+    exec = jest.fn(() =>
+      Object.assign(new EventEmitter(), {
+        ytDlpProcess: { kill: jest.fn(), exitCode: null, signalCode: null },
+      }),
+    );
+    (getYtDlpWrap as jest.Mock).mockReturnValue({ exec });
+    service = new VideoDownloadService();
+    // The app always listens; an unheard "error" event would throw
+    service.on("error", () => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const start = async (url: string) => {
+    const res = await service.startDownload(null, {
+      url,
+      outputPath: os.tmpdir(),
+    });
+    return res.data as DownloadItem;
+  };
+
+  it("counts an item waiting on the network policy against the limit", async () => {
+    const first = await start("https://example.com/a");
+    const second = await start("https://example.com/b");
+
+    expect(first.status).toBe(DownloadStatus.DOWNLOADING);
+    expect(second.status).toBe(DownloadStatus.PENDING);
+    expect(networkPolicyService.assertAllowed).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't spawn yt-dlp for an item cancelled while it was being checked", async () => {
+    const item = await start("https://example.com/a");
+    // Cancelling schedules a delayed cleanup of partial files
+    jest.useFakeTimers({ doNotFake: ["setImmediate"] });
+
+    await service.cancelDownload(item.id);
+    releasePolicy[0]();
+    await flush();
+
+    expect(exec).not.toHaveBeenCalled();
+    expect(service.getDownloadStatus(item.id)).toBeNull();
+  });
+
+  it("doesn't spawn yt-dlp for an item paused while it was being checked", async () => {
+    const item = await start("https://example.com/a");
+
+    service.pauseDownload(item.id);
+    releasePolicy[0]();
+    await flush();
+
+    expect(exec).not.toHaveBeenCalled();
+    expect(item.status).toBe(DownloadStatus.PAUSED);
+  });
+
+  it("frees the slot when the network policy blocks an item", async () => {
+    const blocked = await start("https://blocked.example/a");
+    const next = await start("https://example.com/b");
+
+    releasePolicy[0](new Error("Blocked by network policy"));
+    await flush();
+
+    expect(blocked.status).toBe(DownloadStatus.FAILED);
+    expect(next.status).toBe(DownloadStatus.DOWNLOADING);
+
+    releasePolicy[1]();
+    await flush();
+    expect(exec).toHaveBeenCalledTimes(1);
+  });
+});
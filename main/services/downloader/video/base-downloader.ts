@@ -1,13 +1,34 @@
 import { EventEmitter } from "events";
 import { exec, ChildProcess } from "child_process";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
+import { randomUUID } from "crypto";
 import {
   deleteFileWithRetry,
   renameFileForDeletion,
   parseBytes,
 } from "../../utils/file-utils";
 import { DownloadItem, DownloadStatus } from "../types";
+import { credentialsService } from "../../credentials.service";
+import { proxyService } from "../../proxy.service";
+import { cookiesService } from "../../cookies.service";
+
+// yt-dlp errors that go away with cookies from a signed-in browser
+const COOKIE_ERROR_PATTERN =
+  /Sign in to confirm|--cookies|only available for registered users|login required|requires authentication/i;
+
+// Options whose value is or may hold a password ("--proxy" with a login)
+// or a session ("--add-header" with cookies or a token)
+function isSecretArg(flag: string, value = ""): boolean {
+  return (
+    flag === "--username" ||
+    flag === "--password" ||
+    (flag === "--proxy" && /\/\/[^/@]*:[^/@]*@/.test(value)) ||
+    (flag === "--add-header" &&
+      /^\s*(cookie|authorization|proxy-authorization)\s*:/i.test(value))
+  );
+}
 
 /**
  * Base class for downloaders providing common functionality
@@ -16,7 +37,7 @@ export abstract class BaseDownloader extends EventEmitter {
   /**
    * Helper to kill process and its children robustly
    */
-  public killProcess(process: ChildProcess, downloadId: string): void {
+  public killProcess(process: ChildProcess | null, downloadId: string): void {
     if (!process) return;
 
     const pid = process.pid;
@@ -149,6 +170,78 @@ export abstract class BaseDownloader extends EventEmitter {
     ];
   }
 
+  /**
+   * yt-dlp login arguments for a URL from the credentials vault
+   * Pass them through getSecretArgs to keep them off the command line
+   */
+  protected getLoginArgs(url: string): string[] {
+    const login = credentialsService.getCredentialsForUrl(url);
+    return login
+      ? ["--username", login.username, "--password", login.password]
+      : [];
+  }
+
+  /**
+   * A fresh path for a login config; remove it once yt-dlp exits
+   */
+  public getLoginConfigPath(): string {
+    return path.join(os.tmpdir(), `remixdm-login-${randomUUID()}.conf`);
+  }
+
+  /**
+   * Move option pairs that carry a password or a session from the command
+   * line, which other local processes can read, to `configFile` (readable by
+   * us only)
+   */
+  protected getSecretArgs(args: string[], configFile?: string): string[] {
+    const visible: string[] = [];
+    const secret: string[] = [];
+    for (let i = 0; i < args.length; i += 2) {
+      const pair = args.slice(i, i + 2);
+      (isSecretArg(pair[0], pair[1]) ? secret : visible).push(...pair);
+    }
+    if (secret.length === 0) return visible;
+    if (!configFile) {
+      console.warn(
+        "[BaseDownloader] No login config file, skipping logins and session headers",
+      );
+      return visible;
+    }
+
+    // yt-dlp splits config files like a shell
+    const quote = (value: string) => `"${value.replace(/[\\"]/g, "\\$&")}"`;
+    const lines: string[] = [];
+    for (let i = 0; i < secret.length; i += 2) {
+      lines.push(`${secret[i]} ${quote(secret[i + 1])}\n`);
+    }
+    fs.rmSync(configFile, { force: true });
+    fs.writeFileSync(configFile, lines.join(""), { mode: 0o600, flag: "wx" });
+    return [...visible, "--config-locations", configFile];
+  }
+
+  /**
+   * yt-dlp proxy arguments for a URL from the proxy settings
+   */
+  protected async getProxyArgs(url: string): Promise<string[]> {
+    const proxy = await proxyService.resolveProxy(url);
+    return proxy ? ["--proxy", proxy.toString()] : [];
+  }
+
+  /**
+   * yt-dlp cookie arguments from the cookie profile for a URL
+   */
+  protected getCookieArgs(url: string, profileId?: string): string[] {
+    const cookieFile = cookiesService.getCookieFile(url, profileId);
+    return cookieFile ? ["--cookies", cookieFile] : [];
+  }
+
+  /**
+   * Whether a failure can be fixed by retrying with cookies
+   */
+  public needsCookies(stderrMessages: string[]): boolean {
+    return COOKIE_ERROR_PATTERN.test(stderrMessages.join("\n"));
+  }
+
   /**
    * Handle common yt-dlp progress and events
    */
@@ -320,6 +413,9 @@ export abstract class BaseDownloader extends EventEmitter {
     if (combinedErrors.includes("Sign in to confirm your age")) {
       return "Age restricted: This content requires age verification/cookies.";
     }
+    if (this.needsCookies(stderrMessages)) {
+      return "Sign-in required: Retry with cookies from a signed-in browser.";
+    }
     if (combinedErrors.includes("Empty file")) {
       return "Provider error: Received empty file from server.";
     }
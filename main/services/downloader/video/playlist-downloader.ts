@@ -1,6 +1,12 @@
+import * as fs from "fs";
 import * as path from "path";
 import { BaseDownloader } from "./base-downloader";
-import { VideoInfo, ApiResponse, DownloadOptions } from "../types";
+import {
+  VideoInfo,
+  ApiResponse,
+  DownloadOptions,
+  PlaylistVideoEntry,
+} from "../types";
 import { getYtDlpWrap, ensureYtDlp } from "../../utils/binary-manager";
 import { getDownloadSubPath } from "../../utils/file-utils";
 
@@ -9,6 +15,7 @@ export class PlaylistDownloader extends BaseDownloader {
    * Fetch playlist metadata/entries without downloading
    */
   async getPlaylistMetadata(url: string): Promise<ApiResponse<VideoInfo>> {
+    const loginFile = this.getLoginConfigPath();
     try {
       await ensureYtDlp();
       const ytDlp = getYtDlpWrap();
@@ -21,6 +28,11 @@ export class PlaylistDownloader extends BaseDownloader {
         "--flat-playlist",
         "--playlist-items",
         "1-100", // Limit to first 100 items for metadata safety
+        ...this.getCookieArgs(url),
+        ...this.getSecretArgs(
+          [...this.getLoginArgs(url), ...(await this.getProxyArgs(url))],
+          loginFile,
+        ),
       ];
 
       const rawOutput = await ytDlp.execPromise(args);
@@ -69,6 +81,7 @@ export class PlaylistDownloader extends BaseDownloader {
                 : null),
             url: e.url || e.webpage_url,
             index: index + 1,
+            extractorKey: e.ie_key,
           })),
         };
       }
@@ -80,6 +93,8 @@ export class PlaylistDownloader extends BaseDownloader {
         error:
           error instanceof Error ? error.message : "Failed to fetch playlist",
       };
+    } finally {
+      fs.rm(loginFile, { force: true }, () => {});
     }
   }
 
@@ -128,21 +143,35 @@ export class PlaylistDownloader extends BaseDownloader {
           : `${index} - %(title)s.%(ext)s`,
       };
 
-      // Create a minimal videoInfo for this specific video so title/thumb appear in UI
-      const miniVInfo: VideoInfo = {
-        id: video.id,
-        title: video.title,
-        thumbnail: video.thumbnail,
-        webpage_url: video.url,
-        duration: video.duration,
-        formats: [],
-        subtitles: {},
-        isPlaylist: false,
-        extractor: videoInfo.extractor,
-        extractorKey: videoInfo.extractorKey,
-      } as any;
-
-      return { options, videoInfo: miniVInfo };
+      return { options, videoInfo: this.toEntryVideoInfo(video, videoInfo) };
     });
   }
+
+  /**
+   * A minimal videoInfo for one entry of a playlist or channel, so its
+   * title and thumbnail appear in the UI before yt-dlp reads the video
+   */
+  toEntryVideoInfo(entry: PlaylistVideoEntry, listing: VideoInfo): VideoInfo {
+    return {
+      id: entry.id,
+      title: entry.title,
+      description: null,
+      duration: entry.duration,
+      durationString: null,
+      uploader: null,
+      uploaderUrl: null,
+      uploadDate: null,
+      viewCount: null,
+      likeCount: null,
+      thumbnail: entry.thumbnail,
+      thumbnails: [],
+      formats: [],
+      subtitles: {},
+      webpage_url: entry.url,
+      extractor: listing.extractor,
+      extractorKey: entry.extractorKey || listing.extractorKey,
+      isLive: false,
+      isPlaylist: false,
+    };
+  }
 }
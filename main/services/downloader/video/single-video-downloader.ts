@@ -1,12 +1,17 @@
+import * as fs from "fs";
+import * as path from "path";
 import { BaseDownloader } from "./base-downloader";
+import { parseSubtitles } from "./video-info.service";
 import {
   DownloadOptions,
   VideoInfo,
   DownloadQuality,
   VideoFormat,
   ApiResponse,
-  SubtitleTrack,
   QualityOption,
+  VideoChapter,
+  SponsorBlockCategory,
+  SponsorBlockSegment,
 } from "../types";
 import {
   getYtDlpWrap,
@@ -24,6 +29,7 @@ export class SingleVideoDownloader extends BaseDownloader {
     url: string,
     isPlaylist: boolean = false,
   ): Promise<ApiResponse<VideoInfo>> {
+    const loginFile = this.getLoginConfigPath();
     try {
       await ensureYtDlp();
       const ytDlp = getYtDlpWrap();
@@ -33,6 +39,11 @@ export class SingleVideoDownloader extends BaseDownloader {
         "--dump-single-json",
         "--no-warnings",
         "--no-check-certificates",
+        ...this.getCookieArgs(url),
+        ...this.getSecretArgs(
+          [...this.getLoginArgs(url), ...(await this.getProxyArgs(url))],
+          loginFile,
+        ),
       ];
 
       if (isPlaylist) {
@@ -75,12 +86,16 @@ export class SingleVideoDownloader extends BaseDownloader {
           tbr: f.tbr || null,
           protocol: f.protocol || null,
         })),
-        subtitles: this.mapSubtitles(metadata.subtitles),
+        subtitles: parseSubtitles(
+          metadata.subtitles,
+          metadata.automatic_captions,
+        ),
         webpage_url: metadata.webpage_url,
         extractor: metadata.extractor,
         extractorKey: metadata.extractor_key,
         isLive: metadata.is_live || false,
         isPlaylist: !!metadata._type && metadata._type === "playlist",
+        chapters: this.mapChapters(metadata.chapters),
       };
 
       videoInfo.qualityOptions = this.processQualityOptions(
@@ -95,22 +110,18 @@ export class SingleVideoDownloader extends BaseDownloader {
         error:
           error instanceof Error ? error.message : "Failed to fetch metadata",
       };
+    } finally {
+      fs.rm(loginFile, { force: true }, () => {});
     }
   }
 
-  private mapSubtitles(subs: any): Record<string, SubtitleTrack[]> {
-    if (!subs) return {};
-    const result: Record<string, SubtitleTrack[]> = {};
-    for (const lang in subs) {
-      result[lang] = subs[lang].map((s: any) => ({
-        language: lang,
-        languageCode: lang,
-        url: s.url,
-        ext: s.ext,
-        isAutoGenerated: false,
-      }));
-    }
-    return result;
+  private mapChapters(chapters: any): VideoChapter[] {
+    if (!Array.isArray(chapters)) return [];
+    return chapters.map((c: any, index: number) => ({
+      title: c.title || `Chapter ${index + 1}`,
+      startTime: c.start_time || 0,
+      endTime: c.end_time || 0,
+    }));
   }
 
   /**
@@ -250,10 +261,21 @@ export class SingleVideoDownloader extends BaseDownloader {
     options: DownloadOptions,
     outputFilePath: string,
     videoInfo?: VideoInfo | null,
+    segmentsFile?: string, // Where yt-dlp reports the SponsorBlock segments
+    loginFile?: string, // Where the vault login is written for yt-dlp
   ): string[] {
     const args = this.getBaseArgs();
 
-    args.push("-o", outputFilePath);
+    // Every range is saved to its own file, numbered in order
+    const sections = (options.sections || []).filter(
+      (section) => section.start >= 0 && section.end > section.start,
+    );
+    args.push(
+      "-o",
+      sections.length > 1
+        ? this.withSectionNumber(outputFilePath)
+        : outputFilePath,
+    );
 
     // Windows solutions
     if (options.isPlaylist) {
@@ -380,6 +402,10 @@ export class SingleVideoDownloader extends BaseDownloader {
       } else {
         args.push("--sub-langs", "all");
       }
+      if (options.subtitles.autoGenerated) args.push("--write-auto-subs");
+      if (options.subtitles.format) {
+        args.push("--convert-subs", options.subtitles.format);
+      }
       if (options.subtitles.embedInVideo) args.push("--embed-subs");
     }
 
@@ -393,18 +419,123 @@ export class SingleVideoDownloader extends BaseDownloader {
       args.push("--add-metadata");
     }
 
+    if (options.chapters?.embedInVideo) {
+      args.push("--embed-chapters");
+    }
+
+    if (options.chapters?.split) {
+      args.push("--split-chapters");
+      args.push("-o", `chapter:${this.getChapterTemplate(outputFilePath)}`);
+    }
+
+    // Cutting a category wins over marking it
+    const removeSegments = options.sponsorBlock?.remove || [];
+    const markSegments = (options.sponsorBlock?.mark || []).filter(
+      (category) => !removeSegments.includes(category),
+    );
+    if (removeSegments.length > 0) {
+      args.push("--sponsorblock-remove", removeSegments.join(","));
+      if (segmentsFile) {
+        args.push(
+          "--print-to-file",
+          "after_move:%(sponsorblock_chapters)j",
+          segmentsFile,
+        );
+      }
+    }
+    if (markSegments.length > 0) {
+      args.push("--sponsorblock-mark", markSegments.join(","));
+    }
+
     if (options.verbose) {
       args.push("--verbose");
     }
 
+    // ffmpeg re-encodes around the cuts so ranges start exactly where asked
+    for (const section of sections) {
+      args.push("--download-sections", `*${section.start}-${section.end}`);
+    }
+    if (sections.length > 0) {
+      args.push("--force-keyframes-at-cuts");
+    }
+
+    if (options.downloadArchive) {
+      args.push("--download-archive", options.downloadArchive);
+    }
     if (options.rateLimit) args.push("-r", options.rateLimit);
-    if (options.proxy) args.push("--proxy", options.proxy);
-    if (options.cookies) args.push("--cookies", options.cookies);
+    // Cookies captured by the browser extension win over a matched profile
+    const hasCookieHeader = Object.keys(options.headers || {}).some(
+      (name) => name.toLowerCase() === "cookie",
+    );
+    if (options.cookies) {
+      args.push("--cookies", options.cookies);
+    } else if (options.cookieProfileId || !hasCookieHeader) {
+      args.push(...this.getCookieArgs(options.url, options.cookieProfileId));
+    }
+    if (options.referer) args.push("--referer", options.referer);
+    if (options.userAgent) args.push("--user-agent", options.userAgent);
+    const connectionArgs = this.getLoginArgs(options.url);
+    if (options.proxy) connectionArgs.push("--proxy", options.proxy);
+    for (const [name, value] of Object.entries(options.headers || {})) {
+      connectionArgs.push("--add-header", `${name}:${value}`);
+    }
+    args.push(...this.getSecretArgs(connectionArgs, loginFile));
 
     args.push(options.url);
     return args;
   }
 
+  /**
+   * SponsorBlock segments of the given categories that yt-dlp cut out,
+   * from the file written by --print-to-file
+   */
+  public async readRemovedSegments(
+    segmentsFile: string,
+    categories: SponsorBlockCategory[],
+  ): Promise<SponsorBlockSegment[]> {
+    try {
+      const lines = (await fs.promises.readFile(segmentsFile, "utf8"))
+        .trim()
+        .split("\n");
+      // A retried download appends, the last run is the one that finished
+      const chapters = JSON.parse(lines[lines.length - 1]);
+      if (!Array.isArray(chapters)) return [];
+      return chapters
+        .filter((c: any) => categories.includes(c.category))
+        .map((c: any) => ({
+          category: c.category,
+          title: c.title || c.category,
+          startTime: c.start_time,
+          endTime: c.end_time,
+        }));
+    } catch {
+      return [];
+    }
+  }
+
+  private splitExtension(outputFilePath: string): [string, string] {
+    const ext = outputFilePath.endsWith(".%(ext)s")
+      ? ".%(ext)s"
+      : path.extname(outputFilePath);
+    return [outputFilePath.slice(0, outputFilePath.length - ext.length), ext];
+  }
+
+  /**
+   * "dir/Title.mp4" -> "dir/Title (part %(section_number)s).mp4"
+   */
+  private withSectionNumber(outputFilePath: string): string {
+    const [base, ext] = this.splitExtension(outputFilePath);
+    return `${base} (part %(section_number)s)${ext}`;
+  }
+
+  /**
+   * "dir/Title.mp4" -> "dir/Title/01 - Intro.mp4", one file per chapter
+   */
+  private getChapterTemplate(outputFilePath: string): string {
+    const [base] = this.splitExtension(outputFilePath);
+    return path.join(base, "%(section_number)02d - %(section_title)s.%(ext)s");
+  }
+
   private getHeightFromFormat(format: VideoFormat): number | null {
     if (format.resolution) {
       const pMatch = format.resolution.match(/(\d+)p/);
@@ -2,6 +2,7 @@ import { EventEmitter } from "events";
 import { randomUUID } from "crypto";
 import * as path from "path";
 import * as fs from "fs";
+import * as os from "os";
 import { ChildProcess } from "child_process";
 import {
   getYtDlpWrap,
@@ -17,17 +18,21 @@ import {
   ApiResponse,
 } from "../types";
 import { settingsService } from "../../settings.service";
+import { proxyService } from "../../proxy.service";
+import { networkPolicyService } from "../../network-policy.service";
 import { SingleVideoDownloader } from "./single-video-downloader";
 import { PlaylistDownloader } from "./playlist-downloader";
 
 export class VideoDownloadService extends EventEmitter {
   private activeDownloads: Map<
     string,
-    { process: ChildProcess; item: DownloadItem }
+    { process: ChildProcess | null; item: DownloadItem }
   > = new Map();
   private downloadQueue: DownloadItem[] = [];
   private maxConcurrent: number = 3;
   private completedDownloads: Set<string> = new Set();
+  private queueGates: ((item: DownloadItem) => boolean)[] = [];
+  private concurrencyLimit: number | null = null;
 
   private single = new SingleVideoDownloader();
   private playlist = new PlaylistDownloader();
@@ -45,6 +50,14 @@ export class VideoDownloadService extends EventEmitter {
   }
 
   async getVideoMetadata(url: string): Promise<ApiResponse<VideoInfo>> {
+    const verdict = await networkPolicyService.checkUrl(url, "yt-dlp");
+    if (!verdict.allowed) {
+      return {
+        success: false,
+        error: `Blocked by network policy: ${verdict.reason}`,
+      };
+    }
+
     const isP =
       url.includes("playlist") ||
       url.includes("list=") ||
@@ -84,6 +97,32 @@ export class VideoDownloadService extends EventEmitter {
     return { success: true, data: item };
   }
 
+  /**
+   * Downloads that didn't pick tracks themselves (playlists, the browser
+   * extension) get the preferred subtitle languages from settings
+   */
+  private getPreferredSubtitles(): DownloadOptions["subtitles"] {
+    const { languages, autoGenerated, format, embed } =
+      settingsService.getSettings().subtitles;
+    if (languages.length === 0) return undefined;
+    return {
+      download: true,
+      languages,
+      autoGenerated,
+      format: format || undefined,
+      embedInVideo: embed,
+    };
+  }
+
+  /**
+   * SponsorBlock categories to cut or mark unless the download chose its own
+   */
+  private getDefaultSponsorBlock(): DownloadOptions["sponsorBlock"] {
+    const { remove, mark } = settingsService.getSettings().sponsorBlock;
+    if (remove.length === 0 && mark.length === 0) return undefined;
+    return { remove, mark };
+  }
+
   private async createDownloadItem(
     vInfo: VideoInfo | null,
     opts: DownloadOptions,
@@ -123,7 +162,13 @@ export class VideoDownloadService extends EventEmitter {
       id,
       url: opts.url,
       videoInfo: vInfo,
-      options: { ...opts, outputPath: dir, filename: filenameTemplate },
+      options: {
+        ...opts,
+        outputPath: dir,
+        filename: filenameTemplate,
+        subtitles: opts.subtitles || this.getPreferredSubtitles(),
+        sponsorBlock: opts.sponsorBlock || this.getDefaultSponsorBlock(),
+      },
       status: DownloadStatus.PENDING,
       progress: {
         downloadId: id,
@@ -148,14 +193,49 @@ export class VideoDownloadService extends EventEmitter {
   }
 
   private processQueue() {
-    this.maxConcurrent = settingsService.getSettings().maxConcurrentDownloads;
-    const running = this.activeDownloads.size;
+    this.maxConcurrent =
+      this.concurrencyLimit ??
+      settingsService.getSettings().maxConcurrentDownloads;
+    let running = this.activeDownloads.size;
     const pending = this.downloadQueue.filter(
       (d) => d.status === DownloadStatus.PENDING,
     );
-    pending
-      .slice(0, Math.max(0, this.maxConcurrent - running))
-      .forEach((i) => this.execute(i));
+
+    // Gates are asked one item at a time so they see earlier admissions
+    for (const item of pending) {
+      if (running >= this.maxConcurrent) break;
+      if (this.queueGates.some((gate) => !gate(item))) continue;
+      this.execute(item);
+      running++;
+    }
+  }
+
+  /**
+   * Install a predicate that decides whether a pending item may start
+   * (used by the scheduler and named queues); returns a remover
+   */
+  addQueueGate(gate: (item: DownloadItem) => boolean) {
+    this.queueGates.push(gate);
+    this.processQueue();
+    return () => {
+      this.queueGates = this.queueGates.filter((g) => g !== gate);
+      this.processQueue();
+    };
+  }
+
+  /**
+   * Re-run admission after an external gate changed its mind
+   */
+  refreshQueue() {
+    this.processQueue();
+  }
+
+  /**
+   * Override the overall concurrency (null = use settings)
+   */
+  setConcurrencyLimit(limit: number | null) {
+    this.concurrencyLimit = limit;
+    this.processQueue();
   }
 
   private async execute(item: DownloadItem) {
@@ -188,12 +268,42 @@ export class VideoDownloadService extends EventEmitter {
       }
     }
 
-    const args = this.single.buildArgs(item.options, fPath, item.videoInfo);
+    const segmentsFile = path.join(
+      os.tmpdir(),
+      `remixdm-sponsorblock-${item.id}.json`,
+    );
+    const loginFile = this.single.getLoginConfigPath();
+    const removeTempFiles = () => {
+      fs.rm(segmentsFile, { force: true }, () => {});
+      fs.rm(loginFile, { force: true }, () => {});
+    };
+
+    // Hold the slot while the policy check and proxy lookup run, so the
+    // queue doesn't overrun and pause/cancel can still find the item
+    const slot: { process: ChildProcess | null; item: DownloadItem } = {
+      process: null,
+      item,
+    };
+    this.activeDownloads.set(item.id, slot);
 
     try {
+      await networkPolicyService.assertAllowed(item.url, "yt-dlp");
+      const options = await this.withProxy(this.withSpeedLimit(item.options));
+      // Paused or cancelled while waiting
+      if (this.activeDownloads.get(item.id) !== slot) {
+        removeTempFiles();
+        return;
+      }
+      const args = this.single.buildArgs(
+        options,
+        fPath,
+        item.videoInfo,
+        segmentsFile,
+        loginFile,
+      );
       const wrap = getYtDlpWrap();
       const ee = wrap.exec(args);
-      this.activeDownloads.set(item.id, { process: ee.ytDlpProcess, item });
+      slot.process = ee.ytDlpProcess;
 
       const errs: string[] = [];
       this.single.setupProgressHandlers(ee, item, errs);
@@ -207,6 +317,13 @@ export class VideoDownloadService extends EventEmitter {
 
         if (ok) {
           await this.single.resolveFinalFileDetails(item);
+          const removeSegments = item.options.sponsorBlock?.remove || [];
+          if (removeSegments.length > 0) {
+            item.removedSegments = await this.single.readRemovedSegments(
+              segmentsFile,
+              removeSegments,
+            );
+          }
           item.status = DownloadStatus.COMPLETED;
           item.completedAt = new Date();
           item.progress.status = DownloadStatus.COMPLETED;
@@ -219,14 +336,17 @@ export class VideoDownloadService extends EventEmitter {
           item.status = DownloadStatus.FAILED;
           item.progress.status = DownloadStatus.FAILED;
           item.error = this.single.mapErrorMessage(errs, code);
+          item.needsCookies = this.single.needsCookies(errs);
           this.emit("error", item, item.error);
         }
         this.emit("status-changed", item);
         this.processQueue();
+        removeTempFiles();
       });
 
       ee.on("error", (err) => {
         this.activeDownloads.delete(item.id);
+        removeTempFiles();
         if (
           item.status === DownloadStatus.PAUSED ||
           item.status === DownloadStatus.CANCELLED
@@ -240,8 +360,13 @@ export class VideoDownloadService extends EventEmitter {
         this.processQueue();
       });
     } catch (e) {
+      removeTempFiles();
+      if (this.activeDownloads.get(item.id) !== slot) return;
+      this.activeDownloads.delete(item.id);
       item.status = DownloadStatus.FAILED;
+      item.progress.status = DownloadStatus.FAILED;
       item.error = e instanceof Error ? e.message : String(e);
+      this.emit("error", item, item.error);
       this.emit("status-changed", item);
       this.processQueue();
     }
@@ -271,6 +396,72 @@ export class VideoDownloadService extends EventEmitter {
     return maxV + maxA || null;
   }
 
+  /**
+   * Fall back to the global speed limit when the item has none of its own
+   */
+  private withSpeedLimit(options: DownloadOptions): DownloadOptions {
+    if (options.rateLimit) return options;
+    const { speedLimit } = settingsService.getSettings();
+    return speedLimit > 0
+      ? { ...options, rateLimit: speedLimit.toString() }
+      : options;
+  }
+
+  /**
+   * Fill in the proxy from settings when the item has none of its own
+   */
+  private async withProxy(options: DownloadOptions): Promise<DownloadOptions> {
+    const proxy = await proxyService.resolveProxy(options.url, options.proxy);
+    return proxy ? { ...options, proxy: proxy.toString() } : options;
+  }
+
+  /**
+   * Change the speed limit of a download (null = unlimited)
+   * yt-dlp can't change its rate on the fly, so a running item is restarted
+   * and picks up from its .part file
+   */
+  setSpeedLimit(id: string, limit: string | null) {
+    const i = this.downloadQueue.find((d) => d.id === id);
+    if (!i) return false;
+
+    i.options = { ...i.options, rateLimit: limit || undefined };
+    console.log(
+      `[VideoDownloadService] Speed limit for ${id}: ${limit || "unlimited"}`,
+    );
+
+    if (!this.restart(id)) {
+      this.emit("status-changed", i);
+    }
+    return true;
+  }
+
+  /**
+   * Restart running items that follow the global speed limit
+   */
+  applyGlobalSpeedLimit() {
+    for (const { item } of Array.from(this.activeDownloads.values())) {
+      if (!item.options.rateLimit) this.restart(item.id);
+    }
+  }
+
+  private restart(id: string) {
+    const d = this.activeDownloads.get(id);
+    if (!d || d.item.status !== DownloadStatus.DOWNLOADING) return false;
+
+    // Wait for the old process to exit so its close handler doesn't
+    // clobber the new run
+    const proc = d.process;
+    const resume = () => this.resumeDownload(id);
+    if (!proc || proc.exitCode !== null || proc.signalCode !== null) {
+      this.pauseDownload(id);
+      resume();
+    } else {
+      proc.once("close", () => setImmediate(resume));
+      this.pauseDownload(id);
+    }
+    return true;
+  }
+
   pauseDownload(id: string) {
     const d = this.activeDownloads.get(id);
     if (!d) return false;
@@ -294,6 +485,7 @@ export class VideoDownloadService extends EventEmitter {
     if (i.status === DownloadStatus.FAILED) {
       i.status = DownloadStatus.PENDING;
       i.error = null;
+      i.needsCookies = false;
       i.progress.progress = 0;
       i.progress.downloadedBytes = 0;
       // Clean up any partial files to ensure a fresh start
@@ -305,6 +497,17 @@ export class VideoDownloadService extends EventEmitter {
     return false;
   }
 
+  /**
+   * Retry a failed download with a cookie profile's cookies
+   */
+  async retryWithCookies(id: string, profileId: string) {
+    const i = this.downloadQueue.find((d) => d.id === id);
+    if (!i || i.status !== DownloadStatus.FAILED) return false;
+
+    i.options = { ...i.options, cookieProfileId: profileId };
+    return this.resumeDownload(id);
+  }
+
   async cancelDownload(id: string) {
     const a = this.activeDownloads.get(id);
     if (a) {
@@ -313,6 +516,7 @@ export class VideoDownloadService extends EventEmitter {
       this.activeDownloads.delete(id);
       const idx = this.downloadQueue.findIndex((d) => d.id === id);
       if (idx !== -1) this.downloadQueue.splice(idx, 1);
+      this.emit("cancelled", a.item);
       this.emit("item-removed", id);
       setTimeout(() => this.single.cleanupFiles(a.item), 2000);
       return true;
@@ -321,6 +525,14 @@ export class VideoDownloadService extends EventEmitter {
     if (idx !== -1) {
       const i = this.downloadQueue[idx];
       this.downloadQueue.splice(idx, 1);
+      // Removing a finished item from the list isn't a cancellation
+      if (
+        i.status !== DownloadStatus.COMPLETED &&
+        i.status !== DownloadStatus.FAILED
+      ) {
+        i.status = DownloadStatus.CANCELLED;
+        this.emit("cancelled", i);
+      }
       this.emit("item-removed", id);
       this.single.cleanupFiles(i);
       return true;
@@ -336,13 +548,61 @@ export class VideoDownloadService extends EventEmitter {
   }
   clearCompleted() {
     const b = this.downloadQueue.length;
-    this.downloadQueue = this.downloadQueue.filter(
-      (d) =>
-        d.status !== DownloadStatus.COMPLETED &&
-        d.status !== DownloadStatus.CANCELLED &&
-        d.status !== DownloadStatus.FAILED,
-    );
+    const isFinished = (d: DownloadItem) =>
+      d.status === DownloadStatus.COMPLETED ||
+      d.status === DownloadStatus.CANCELLED ||
+      d.status === DownloadStatus.FAILED;
+    this.downloadQueue
+      .filter(isFinished)
+      .forEach((d) => this.emit("item-removed", d.id));
+    this.downloadQueue = this.downloadQueue.filter((d) => !isFinished(d));
     return b - this.downloadQueue.length;
   }
+
+  /**
+   * Rebuild the queue from persisted jobs (app startup)
+   * Interrupted jobs are re-queued and yt-dlp continues from their .part files
+   */
+  restoreJobs(items: DownloadItem[]) {
+    for (const item of items) {
+      if (this.downloadQueue.some((d) => d.id === item.id)) continue;
+
+      if (
+        item.status === DownloadStatus.DOWNLOADING ||
+        item.status === DownloadStatus.MERGING ||
+        item.status === DownloadStatus.EXTRACTING ||
+        item.status === DownloadStatus.CONVERTING
+      ) {
+        item.status = DownloadStatus.PENDING;
+        item.progress.status = DownloadStatus.PENDING;
+      }
+
+      // Resolved names may point at intermediate format files (.fNNN),
+      // so unfinished jobs go back to the original output template
+      if (item.status !== DownloadStatus.COMPLETED && item.options.filename) {
+        item.filename = item.options.filename;
+      }
+
+      this.downloadQueue.push(item);
+    }
+
+    if (items.length > 0) {
+      console.log(
+        `[VideoDownloadService] Restored ${items.length} persisted job(s)`,
+      );
+      if (isBinaryAvailable()) {
+        this.processQueue();
+      } else {
+        ensureYtDlp()
+          .then(() => this.processQueue())
+          .catch((e) =>
+            console.error(
+              "[VideoDownloadService] yt-dlp unavailable, restored jobs left queued:",
+              e,
+            ),
+          );
+      }
+    }
+  }
 }
 export const videoDownloader = new VideoDownloadService();
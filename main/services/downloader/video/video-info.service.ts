@@ -62,6 +62,7 @@ interface YtDlpInfo {
   formats?: YtDlpFormat[];
   subtitles?: Record<string, Array<{ url: string; ext: string }>>;
   automatic_captions?: Record<string, Array<{ url: string; ext: string }>>;
+  chapters?: Array<{ start_time: number; end_time: number; title?: string }>;
   webpage_url: string;
   extractor: string;
   extractor_key: string;
@@ -110,7 +111,7 @@ function parseFormat(format: YtDlpFormat): VideoFormat {
 /**
  * Parse subtitles from yt-dlp response
  */
-function parseSubtitles(
+export function parseSubtitles(
   subtitles?: Record<string, Array<{ url: string; ext: string }>>,
   autoCaptions?: Record<string, Array<{ url: string; ext: string }>>
 ): Record<string, SubtitleTrack[]> {
@@ -129,13 +130,16 @@ function parseSubtitles(
     }
   }
 
-  // Auto-generated captions
+  // Auto-generated captions, minus YouTube's machine translations of them
+  // (tlang=...) which list every language for every video
   if (autoCaptions) {
     for (const [lang, tracks] of Object.entries(autoCaptions)) {
+      const original = tracks.filter((track) => !/[?&]tlang=/.test(track.url));
+      if (original.length === 0) continue;
       const existing = result[lang] || [];
       result[lang] = [
         ...existing,
-        ...tracks.map((track) => ({
+        ...original.map((track) => ({
           language: lang,
           languageCode: lang,
           url: track.url,
@@ -218,6 +222,11 @@ function parseVideoInfo(info: YtDlpInfo): VideoInfo {
     isLive: info.is_live || false,
     isPlaylist,
     playlist,
+    chapters: (info.chapters || []).map((chapter, index) => ({
+      title: chapter.title || `Chapter ${index + 1}`,
+      startTime: chapter.start_time,
+      endTime: chapter.end_time,
+    })),
   };
 }
 
@@ -2,13 +2,55 @@ import Store from "electron-store";
 import { app, shell } from "electron";
 import * as path from "path";
 import * as fs from "fs";
-import { DownloadItem, DownloadStatus } from "./downloader/types";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+import {
+  ChecksumVerification,
+  DownloadItem,
+  DownloadOptions,
+  DownloadStatus,
+} from "./downloader/types";
+import { directDownloader } from "./downloader/direct";
+import { videoDownloader } from "./downloader/video";
+import { conversionService } from "./conversion.service";
+
+/**
+ * Download options without secrets or files that only exist on this
+ * machine (browser headers, cookies, proxy credentials, archives), safe
+ * to keep in history and to share
+ */
+export type SharedDownloadOptions = Omit<
+  DownloadOptions,
+  | "headers"
+  | "cookies"
+  | "cookieProfileId"
+  | "proxy"
+  | "verbose"
+  | "downloadArchive"
+>;
+
+export function shareableOptions(
+  options: DownloadOptions,
+): SharedDownloadOptions {
+  const {
+    headers,
+    cookies,
+    cookieProfileId,
+    proxy,
+    verbose,
+    downloadArchive,
+    ...shared
+  } = options;
+  return shared;
+}
 
 export interface HistoryRecord {
   id: string;
   url: string;
   originalUrl?: string;
   filename: string;
+  title?: string; // Video title, when it came from a video site
+  uploader?: string;
+  site?: string; // Host it came from, without "www."
   path: string;
   size: number;
   status: "completed" | "failed" | "cancelled";
@@ -17,15 +59,275 @@ export interface HistoryRecord {
   thumbnail?: string;
   mimeType?: string;
   duration?: string;
+  verification?: ChecksumVerification; // Checksum result for direct downloads
+  options?: SharedDownloadOptions; // To download it again elsewhere
   exists?: boolean; // Computed at runtime
 }
 
+/**
+ * Search and filters for a page of history, all optional
+ */
+export interface HistoryQuery {
+  search?: string; // Full text over title, filename, URL and uploader
+  types?: HistoryRecord["type"][];
+  statuses?: HistoryRecord["status"][];
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+  minSize?: number; // Bytes
+  maxSize?: number; // Bytes
+  site?: string; // "youtube.com" also matches its subdomains
+  offset?: number;
+  limit?: number;
+}
+
+export interface HistoryPage {
+  records: HistoryRecord[];
+  total: number; // Records matching the query
+  offset: number;
+  limit: number;
+}
+
+export interface HistoryStats {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  totalBytes: number; // Size of the completed downloads
+  byType: { type: HistoryRecord["type"]; count: number; bytes: number }[];
+  topSites: { site: string; count: number; bytes: number }[];
+  daily: { date: string; count: number; bytes: number }[]; // Last 30 days
+}
+
 interface HistoryStoreSchema {
-  history: HistoryRecord[];
+  history: HistoryRecord[]; // Before the database, kept as a backup
+  migrated?: boolean;
+}
+
+type Row = Record<string, SqlValue>;
+
+const DB_FILE = "download-history.sqlite";
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const SAVE_DELAY = 500;
+const TOP_SITES = 20;
+const DAILY_DAYS = 30;
+
+// Searchable text goes through FTS4 (the bundled SQLite has no FTS5);
+// triggers keep the index in step with the table
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS history (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    original_url TEXT,
+    filename TEXT NOT NULL,
+    title TEXT,
+    uploader TEXT,
+    site TEXT,
+    path TEXT NOT NULL,
+    size INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL,
+    date TEXT NOT NULL,
+    type TEXT NOT NULL,
+    data TEXT NOT NULL DEFAULT '{}'
+  );
+  CREATE INDEX IF NOT EXISTS history_date ON history (date);
+  CREATE INDEX IF NOT EXISTS history_type ON history (type, date);
+  CREATE INDEX IF NOT EXISTS history_status ON history (status, date);
+  CREATE INDEX IF NOT EXISTS history_site ON history (site, date);
+  CREATE INDEX IF NOT EXISTS history_size ON history (size);
+  CREATE INDEX IF NOT EXISTS history_url ON history (url);
+  CREATE INDEX IF NOT EXISTS history_original_url ON history (original_url);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS history_fts USING fts4 (
+    title, url, uploader, tokenize=unicode61 "remove_diacritics=2"
+  );
+  CREATE TRIGGER IF NOT EXISTS history_fts_insert AFTER INSERT ON history
+  BEGIN
+    INSERT INTO history_fts (docid, title, url, uploader) VALUES (
+      new.rowid,
+      coalesce(new.title, '') || ' ' || new.filename,
+      new.url || ' ' || coalesce(new.original_url, ''),
+      coalesce(new.uploader, '')
+    );
+  END;
+  CREATE TRIGGER IF NOT EXISTS history_fts_delete AFTER DELETE ON history
+  BEGIN
+    DELETE FROM history_fts WHERE docid = old.rowid;
+  END;
+`;
+
+const COLUMNS = [
+  "id",
+  "url",
+  "original_url",
+  "filename",
+  "title",
+  "uploader",
+  "site",
+  "path",
+  "size",
+  "status",
+  "date",
+  "type",
+  "data",
+];
+
+const INSERT = `INSERT OR IGNORE INTO history (${COLUMNS.join(
+  ", ",
+)}) VALUES (${COLUMNS.map(() => "?").join(", ")})`;
+
+/**
+ * Host a download came from, e.g. "youtube.com"
+ */
+export function getSite(url: string): string | undefined {
+  try {
+    const host = new URL(url).hostname.replace(/^www\./, "");
+    return host.toLowerCase() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turn what was typed into an FTS query: every word must match as a prefix
+ */
+export function toSearchQuery(search: string): string | null {
+  const words = search.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map((word) => `${word}*`).join(" ") : null;
+}
+
+function toRow(record: HistoryRecord): SqlValue[] {
+  const {
+    id,
+    url,
+    originalUrl,
+    filename,
+    title,
+    uploader,
+    site,
+    path: filePath,
+    size,
+    status,
+    date,
+    type,
+    exists,
+    ...data
+  } = record;
+  return [
+    id,
+    url,
+    originalUrl || null,
+    filename,
+    title || null,
+    uploader || null,
+    site || getSite(originalUrl || url) || null,
+    filePath || "",
+    Number(size) || 0,
+    status,
+    date,
+    type,
+    JSON.stringify(data),
+  ];
+}
+
+function toRecord(row: Row): HistoryRecord {
+  let data: Partial<HistoryRecord> = {};
+  try {
+    data = JSON.parse(String(row.data || "{}"));
+  } catch {
+    // Keep the columns even if the extras can't be read
+  }
+  return {
+    ...data,
+    id: String(row.id),
+    url: String(row.url),
+    originalUrl: (row.original_url as string) || undefined,
+    filename: String(row.filename),
+    title: (row.title as string) || undefined,
+    uploader: (row.uploader as string) || undefined,
+    site: (row.site as string) || undefined,
+    path: String(row.path),
+    size: Number(row.size) || 0,
+    status: row.status as HistoryRecord["status"],
+    date: String(row.date),
+    type: row.type as HistoryRecord["type"],
+  };
 }
 
+function queryAll(db: Database, sql: string, params: SqlValue[] = []): Row[] {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Row[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+function buildFilter(query: HistoryQuery): {
+  where: string;
+  params: SqlValue[];
+} {
+  const clauses: string[] = [];
+  const params: SqlValue[] = [];
+  const list = (values: string[]) => values.map(() => "?").join(", ");
+
+  const search = query.search ? toSearchQuery(query.search) : null;
+  if (search) {
+    clauses.push(
+      "rowid IN (SELECT docid FROM history_fts WHERE history_fts MATCH ?)",
+    );
+    params.push(search);
+  }
+  if (query.types?.length) {
+    clauses.push(`type IN (${list(query.types)})`);
+    params.push(...query.types);
+  }
+  if (query.statuses?.length) {
+    clauses.push(`status IN (${list(query.statuses)})`);
+    params.push(...query.statuses);
+  }
+  if (query.from) {
+    clauses.push("date >= ?");
+    params.push(query.from);
+  }
+  if (query.to) {
+    clauses.push("date <= ?");
+    params.push(query.to);
+  }
+  if (typeof query.minSize === "number") {
+    clauses.push("size >= ?");
+    params.push(query.minSize);
+  }
+  if (typeof query.maxSize === "number") {
+    clauses.push("size <= ?");
+    params.push(query.maxSize);
+  }
+  if (query.site) {
+    const site = query.site.replace(/^www\./, "").toLowerCase();
+    clauses.push("(site = ? OR site LIKE ?)");
+    params.push(site, `%.${site}`);
+  }
+
+  return {
+    where: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "",
+    params,
+  };
+}
+
+/**
+ * Download history in a local SQLite database (sql.js, so no native
+ * module), written back to disk shortly after each change
+ */
 class HistoryService {
   private store: Store<HistoryStoreSchema>;
+  private ready: Promise<Database> | null = null;
+  private db: Database | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     this.store = new Store<HistoryStoreSchema>({
@@ -39,67 +341,193 @@ class HistoryService {
   /**
    * Add a record to history
    */
-  addRecord(item: DownloadItem): void {
-    const history = this.store.get("history");
-
+  async addRecord(item: DownloadItem): Promise<void> {
     // Determine type
     let type: "video" | "audio" | "file" = "file";
     if (item.videoInfo) {
       type = item.options.audioOnly ? "audio" : "video";
     }
+    const completed = item.status === DownloadStatus.COMPLETED;
 
     const record: HistoryRecord = {
       id: item.id,
       url: item.url,
       originalUrl: item.videoInfo?.webpage_url,
       filename: item.filename || item.progress.filename || "unknown",
-      path: path.join(
-        item.outputPath,
-        item.filename || item.progress.filename || ""
-      ),
+      title: item.videoInfo?.title || undefined,
+      uploader: item.videoInfo?.uploader || undefined,
+      // Unfinished downloads leave no file to open or delete
+      path: completed
+        ? path.join(
+            item.outputPath,
+            item.filename || item.progress.filename || "",
+          )
+        : "",
       size: item.progress.totalBytes || 0,
-      status: item.status === DownloadStatus.COMPLETED ? "completed" : "failed",
+      status: completed
+        ? "completed"
+        : item.status === DownloadStatus.CANCELLED
+          ? "cancelled"
+          : "failed",
       date: new Date().toISOString(),
       type,
       thumbnail: item.videoInfo?.thumbnail || undefined,
       duration: item.videoInfo?.durationString || undefined,
+      verification: item.verification || undefined,
+      options: shareableOptions(item.options),
     };
 
-    // Add to beginning of array
-    history.unshift(record);
+    const db = await this.open();
+    // The same download finishing again (e.g. a retry) replaces its record
+    db.run("DELETE FROM history WHERE id = ?", [record.id]);
+    db.run(INSERT, toRow(record));
+    this.scheduleSave();
+  }
 
-    // Limit history size (optional, say 1000 items)
-    if (history.length > 1000) {
-      history.length = 1000;
-    }
+  /**
+   * A page of history, newest first. Only the returned records are
+   * checked on disk
+   */
+  async getHistory(query: HistoryQuery = {}): Promise<HistoryPage> {
+    const db = await this.open();
+    const { where, params } = buildFilter(query);
+    const limit = Math.min(
+      Math.max(Math.floor(query.limit || DEFAULT_PAGE_SIZE), 1),
+      MAX_PAGE_SIZE,
+    );
+    const offset = Math.max(Math.floor(query.offset || 0), 0);
 
-    this.store.set("history", history);
+    const [{ total }] = queryAll(
+      db,
+      `SELECT COUNT(*) AS total FROM history ${where}`,
+      params,
+    );
+    const records = queryAll(
+      db,
+      `SELECT * FROM history ${where}
+        ORDER BY date DESC, rowid DESC LIMIT ? OFFSET ?`,
+      [...params, limit, offset],
+    ).map((row) => {
+      const record = toRecord(row);
+      return { ...record, exists: fs.existsSync(record.path) };
+    });
+
+    return { records, total: Number(total), offset, limit };
   }
 
   /**
-   * Get history records
+   * Every record, newest first (for exports)
    */
-  getHistory(): HistoryRecord[] {
-    const history = this.store.get("history") || [];
+  async getAllRecords(): Promise<HistoryRecord[]> {
+    const db = await this.open();
+    return queryAll(
+      db,
+      "SELECT * FROM history ORDER BY date DESC, rowid DESC",
+    ).map(toRecord);
+  }
 
-    // Check file existence for each record
-    // We map this at runtime to ensure it's always accurate
-    return history.map((record) => ({
-      ...record,
-      exists: fs.existsSync(record.path),
-    }));
+  async getRecord(id: string): Promise<HistoryRecord | null> {
+    const db = await this.open();
+    const [row] = queryAll(db, "SELECT * FROM history WHERE id = ?", [id]);
+    return row ? toRecord(row) : null;
   }
 
   /**
-   * Delete a record
+   * Whether a URL was downloaded successfully before
    */
-  async deleteRecord(id: string, deleteFile: boolean): Promise<void> {
-    const history = this.store.get("history");
-    const recordIndex = history.findIndex((r) => r.id === id);
+  async hasCompleted(url: string): Promise<boolean> {
+    const db = await this.open();
+    return (
+      queryAll(
+        db,
+        `SELECT 1 FROM history WHERE status = 'completed'
+          AND (url = ? OR original_url = ?) LIMIT 1`,
+        [url, url],
+      ).length > 0
+    );
+  }
 
-    if (recordIndex === -1) return;
+  /**
+   * Totals, per type, busiest sites and the last 30 days
+   */
+  async getStats(): Promise<HistoryStats> {
+    const db = await this.open();
+    const [totals] = queryAll(
+      db,
+      `SELECT
+        COUNT(*) AS total,
+        COALESCE(SUM(status = 'completed'), 0) AS completed,
+        COALESCE(SUM(status = 'failed'), 0) AS failed,
+        COALESCE(SUM(status = 'cancelled'), 0) AS cancelled,
+        COALESCE(SUM(CASE WHEN status = 'completed' THEN size END), 0) AS bytes
+      FROM history`,
+    );
+
+    const since = new Date();
+    since.setDate(since.getDate() - (DAILY_DAYS - 1));
+    since.setHours(0, 0, 0, 0);
+
+    return {
+      total: Number(totals.total),
+      completed: Number(totals.completed),
+      failed: Number(totals.failed),
+      cancelled: Number(totals.cancelled),
+      totalBytes: Number(totals.bytes),
+      byType: queryAll(
+        db,
+        `SELECT type, COUNT(*) AS count, COALESCE(SUM(size), 0) AS bytes
+          FROM history GROUP BY type ORDER BY count DESC`,
+      ).map((row) => ({
+        type: row.type as HistoryRecord["type"],
+        count: Number(row.count),
+        bytes: Number(row.bytes),
+      })),
+      topSites: queryAll(
+        db,
+        `SELECT site, COUNT(*) AS count, COALESCE(SUM(size), 0) AS bytes
+          FROM history WHERE site IS NOT NULL
+          GROUP BY site ORDER BY count DESC, site LIMIT ?`,
+        [TOP_SITES],
+      ).map((row) => ({
+        site: String(row.site),
+        count: Number(row.count),
+        bytes: Number(row.bytes),
+      })),
+      daily: queryAll(
+        db,
+        `SELECT date(date, 'localtime') AS day, COUNT(*) AS count,
+          COALESCE(SUM(size), 0) AS bytes
+          FROM history WHERE date >= ? GROUP BY day ORDER BY day`,
+        [since.toISOString()],
+      ).map((row) => ({
+        date: String(row.day),
+        count: Number(row.count),
+        bytes: Number(row.bytes),
+      })),
+    };
+  }
+
+  /**
+   * Add records from an export, skipping ones already in history
+   * File paths are dropped: an imported file could point anywhere, and
+   * Open or "Delete File" would then act on it
+   */
+  async restoreRecords(records: HistoryRecord[]): Promise<number> {
+    const db = await this.open();
+    const added = this.insertAll(
+      db,
+      records.map((record) => ({ ...record, path: "" })),
+    );
+    this.scheduleSave();
+    return added;
+  }
 
-    const record = history[recordIndex];
+  /**
+   * Delete a record
+   */
+  async deleteRecord(id: string, deleteFile: boolean): Promise<void> {
+    const record = await this.getRecord(id);
+    if (!record) return;
 
     if (deleteFile && record.path) {
       try {
@@ -109,20 +537,43 @@ class HistoryService {
       } catch (error) {
         console.error(
           `[HistoryService] Failed to delete file: ${record.path}`,
-          error
+          error,
         );
       }
     }
 
-    history.splice(recordIndex, 1);
-    this.store.set("history", history);
+    this.db!.run("DELETE FROM history WHERE id = ?", [id]);
+    this.scheduleSave();
   }
 
   /**
    * Clear all history
    */
-  clearHistory(): void {
-    this.store.set("history", []);
+  async clearHistory(): Promise<void> {
+    const db = await this.open();
+    db.run("DELETE FROM history");
+    this.scheduleSave();
+  }
+
+  /**
+   * Write pending changes to disk immediately
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.db) return;
+
+    const file = this.getDatabasePath();
+    const temp = `${file}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(temp, Buffer.from(this.db.export()));
+      fs.renameSync(temp, file);
+    } catch (error) {
+      console.error("[HistoryService] Failed to save history:", error);
+    }
   }
 
   /**
@@ -142,23 +593,113 @@ class HistoryService {
     shell.showItemInFolder(filePath);
     return true;
   }
+
+  private getDatabasePath(): string {
+    return path.join(app.getPath("userData"), DB_FILE);
+  }
+
+  private open(): Promise<Database> {
+    if (!this.ready) {
+      this.ready = this.load();
+    }
+    return this.ready;
+  }
+
+  private async load(): Promise<Database> {
+    const SQL = await initSqlJs();
+    const file = this.getDatabasePath();
+
+    let db: Database;
+    try {
+      db = fs.existsSync(file)
+        ? new SQL.Database(fs.readFileSync(file))
+        : new SQL.Database();
+      db.exec(SCHEMA);
+    } catch (error) {
+      // Keep the broken file for recovery and start over
+      console.error("[HistoryService] History database unreadable:", error);
+      if (fs.existsSync(file)) {
+        fs.renameSync(file, `${file}.corrupt-${Date.now()}`);
+      }
+      db = new SQL.Database();
+      db.exec(SCHEMA);
+    }
+
+    this.db = db;
+    this.migrate(db);
+    return db;
+  }
+
+  /**
+   * Move the records of the old electron-store file in once; the file
+   * itself is left as it was
+   */
+  private migrate(db: Database): void {
+    if (this.store.get("migrated")) return;
+
+    const legacy = this.store.get("history") || [];
+    if (legacy.length > 0) {
+      const added = this.insertAll(db, legacy);
+      console.log(`[HistoryService] Migrated ${added} history records`);
+      this.flush();
+    }
+    this.store.set("migrated", true);
+  }
+
+  private insertAll(db: Database, records: HistoryRecord[]): number {
+    let added = 0;
+    db.exec("BEGIN");
+    try {
+      for (const record of records) {
+        if (!record?.id || !record.url) continue;
+        db.run(INSERT, toRow(record));
+        added += db.getRowsModified();
+      }
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+    return added;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, SAVE_DELAY);
+  }
 }
 
 export const historyService = new HistoryService();
 
-import { directDownloader } from "./downloader/direct";
-import { videoDownloader } from "./downloader/video";
-
 export const startHistoryRecording = () => {
   console.log("[HistoryService] Starting history recording...");
 
+  const record = (item: DownloadItem) =>
+    historyService.addRecord(item).catch((error) => {
+      console.error("[HistoryService] Failed to record download:", error);
+    });
+
   directDownloader.on("complete", (item) => {
     console.log(`[HistoryService] Direct download completed: ${item.filename}`);
-    historyService.addRecord(item);
+    record(item);
   });
 
   videoDownloader.on("complete", (item) => {
     console.log(`[HistoryService] Video download completed: ${item.filename}`);
-    historyService.addRecord(item);
+    record(item);
+  });
+
+  conversionService.on("complete", (item) => {
+    console.log(`[HistoryService] Conversion completed: ${item.filename}`);
+    record(item);
   });
+
+  // Failed and cancelled ones are kept too, for the filters and stats
+  for (const source of [directDownloader, videoDownloader, conversionService]) {
+    source.on("error", (item: DownloadItem) => record(item));
+    source.on("cancelled", (item: DownloadItem) => record(item));
+  }
 };
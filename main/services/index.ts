@@ -5,6 +5,20 @@
 
 export * from "./downloader";
 export * from "./utils";
+export * from "./browser-bridge.service";
+export * from "./clipboard-monitor.service";
+export * from "./conversion.service";
+export * from "./cookies.service";
+export * from "./credentials.service";
 export * from "./history.service";
+export * from "./job-store.service";
+export * from "./network-policy.service";
+export * from "./notification.service";
+export * from "./proxy.service";
+export * from "./queue.service";
+export * from "./scheduler.service";
 export * from "./settings.service";
+export * from "./subscription.service";
+export * from "./tray.service";
 export * from "./update.service";
+export * from "./transfer.service";
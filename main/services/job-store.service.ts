@@ -0,0 +1,163 @@
+import Store from "electron-store";
+import { app } from "electron";
+import { DownloadItem, DownloadStatus } from "./downloader/types";
+import { directDownloader } from "./downloader/direct";
+import { videoDownloader } from "./downloader/video";
+
+export type DownloadEngine = "direct" | "video";
+
+export interface PersistedJob {
+  engine: DownloadEngine;
+  item: DownloadItem;
+}
+
+interface JobStoreSchema {
+  jobs: PersistedJob[];
+}
+
+class JobStoreService {
+  private store: Store<JobStoreSchema>;
+  private jobs: Map<string, PersistedJob> = new Map();
+  private saveTimer: NodeJS.Timeout | null = null;
+  private readonly SAVE_DELAY = 1000;
+
+  constructor() {
+    this.store = new Store<JobStoreSchema>({
+      name: "download-jobs",
+      defaults: {
+        jobs: [],
+      },
+    });
+
+    for (const job of this.store.get("jobs") || []) {
+      if (job?.item?.id) {
+        this.jobs.set(job.item.id, {
+          engine: job.engine,
+          item: reviveItem(job.item),
+        });
+      }
+    }
+  }
+
+  /**
+   * Get persisted jobs for an engine (in creation order)
+   */
+  getJobs(engine: DownloadEngine): DownloadItem[] {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.engine === engine)
+      .map((job) => job.item)
+      .sort(
+        (a, b) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+      );
+  }
+
+  /**
+   * Insert or update a job
+   */
+  upsert(engine: DownloadEngine, item: DownloadItem): void {
+    this.jobs.set(item.id, { engine, item });
+    this.scheduleSave();
+  }
+
+  /**
+   * Remove a job
+   */
+  remove(id: string): void {
+    if (this.jobs.delete(id)) {
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Write pending changes to disk immediately
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.store.set("jobs", Array.from(this.jobs.values()).map(serializeJob));
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, this.SAVE_DELAY);
+  }
+}
+
+/**
+ * Strip runtime-only data before writing a job to disk
+ */
+function serializeJob(job: PersistedJob): PersistedJob {
+  return {
+    engine: job.engine,
+    item: {
+      ...job.item,
+      progress: {
+        ...job.item.progress,
+        speed: null,
+        speedString: null,
+        eta: null,
+        etaString: null,
+      },
+    },
+  };
+}
+
+/**
+ * Restore Date fields that were flattened to strings by JSON
+ */
+function reviveItem(item: DownloadItem): DownloadItem {
+  const toDate = (value: unknown) => (value ? new Date(value as string) : null);
+  return {
+    ...item,
+    createdAt: toDate(item.createdAt) || new Date(),
+    startedAt: toDate(item.startedAt),
+    completedAt: toDate(item.completedAt),
+  };
+}
+
+export const jobStoreService = new JobStoreService();
+
+/**
+ * Rebuild both engines' queues from disk and keep the store in sync
+ */
+export const startJobPersistence = () => {
+  console.log("[JobStore] Restoring persisted download queue...");
+
+  directDownloader.restoreJobs(jobStoreService.getJobs("direct"));
+  videoDownloader.restoreJobs(jobStoreService.getJobs("video"));
+
+  const engines: [
+    DownloadEngine,
+    typeof directDownloader | typeof videoDownloader,
+  ][] = [
+    ["direct", directDownloader],
+    ["video", videoDownloader],
+  ];
+
+  for (const [engine, downloader] of engines) {
+    const persist = (item: DownloadItem) => {
+      if (item.status === DownloadStatus.CANCELLED) {
+        jobStoreService.remove(item.id);
+      } else {
+        jobStoreService.upsert(engine, item);
+      }
+    };
+
+    downloader.on("status-changed", persist);
+    downloader.on("complete", persist);
+    downloader.on("error", persist);
+    downloader.on("progress", (progress) => {
+      const item = downloader.getDownloadStatus(progress.downloadId);
+      if (item) jobStoreService.upsert(engine, item);
+    });
+    downloader.on("item-removed", (id: string) => jobStoreService.remove(id));
+  }
+
+  app.on("before-quit", () => jobStoreService.flush());
+};
@@ -0,0 +1,279 @@
+import { EventEmitter } from "events";
+import * as net from "net";
+import { promises as dns } from "dns";
+import { URL } from "url";
+import { settingsService, NetworkPolicySettings } from "./settings.service";
+import { matchHost, normalizeHost } from "./utils/host-match";
+
+/**
+ * What tried to open the connection
+ */
+export type NetworkSource =
+  | "link detection"
+  | "link grabber"
+  | "redirect"
+  | "checksum"
+  | "aria2"
+  | "yt-dlp";
+
+export interface NetworkVerdict {
+  allowed: boolean;
+  reason: string | null; // Why the URL was blocked
+}
+
+export interface BlockedRequest {
+  url: string;
+  host: string;
+  address: string | null; // The IP the host resolved to
+  reason: string;
+  source: NetworkSource;
+  blockedAt: string;
+}
+
+interface AddressRange {
+  bytes: number[];
+  bits: number;
+  port: string | null; // null = any port
+}
+
+const MAX_BLOCKED_LOG = 100;
+
+const DEFAULT_PORTS: Record<string, string> = {
+  "http:": "80",
+  "https:": "443",
+  "ftp:": "21",
+  "sftp:": "22",
+};
+
+const PRIVATE_RANGES: [string, string][] = [
+  ["0.0.0.0/8", "current network"],
+  ["10.0.0.0/8", "private network"],
+  ["127.0.0.0/8", "loopback"],
+  ["169.254.0.0/16", "link-local"],
+  ["172.16.0.0/12", "private network"],
+  ["192.168.0.0/16", "private network"],
+  ["::/128", "unspecified address"],
+  ["::1/128", "loopback"],
+  ["fc00::/7", "unique local"],
+  ["fe80::/10", "link-local"],
+];
+
+/**
+ * Bytes of an IPv4 or IPv6 address, IPv4-mapped IPv6 folded to IPv4
+ */
+function toBytes(ip: string): number[] | null {
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return toBytes(mapped[1]);
+
+  if (net.isIPv4(ip)) return ip.split(".").map(Number);
+  if (!net.isIPv6(ip)) return null;
+
+  let groups = ip.toLowerCase();
+  // Trailing dotted IPv4 ("::ffff:1.2.3.4" forms) becomes two groups
+  const v4 = groups.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const [a, b, c, d] = v4[1].split(".").map(Number);
+    groups = groups.replace(
+      v4[1],
+      `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`,
+    );
+  }
+  const [head, tail] = groups.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const all = [
+    ...headGroups,
+    ...Array(tail === undefined ? 0 : missing).fill("0"),
+    ...tailGroups,
+  ];
+  return all.flatMap((group) => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+/**
+ * Read an IP or CIDR allow-list entry ("10.0.0.0/8", "192.168.1.20:8080",
+ * "[fd00::/8]:443"); null when the entry is a host name
+ */
+export function parseAddressRange(entry: string): AddressRange | null {
+  let value = entry.trim().toLowerCase();
+  let port: string | null = null;
+
+  const bracketed = value.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) {
+    value = bracketed[1];
+    port = bracketed[2] || null;
+  } else if (value.split(":").length === 2) {
+    [value, port] = value.split(":");
+    if (!/^\d+$/.test(port)) return null;
+  }
+
+  const [ip, bits] = value.split("/");
+  const bytes = toBytes(ip);
+  if (!bytes) return null;
+  const max = bytes.length * 8;
+  if (bits !== undefined && !/^\d+$/.test(bits)) return null;
+  const prefix = bits === undefined ? max : Number(bits);
+  if (prefix > max) return null;
+
+  return { bytes, bits: prefix, port };
+}
+
+function inRange(address: number[], range: AddressRange): boolean {
+  if (address.length !== range.bytes.length) return false;
+  for (let bit = 0; bit < range.bits; bit++) {
+    const byte = bit >> 3;
+    const mask = 0x80 >> (bit & 7);
+    if ((address[byte] & mask) !== (range.bytes[byte] & mask)) return false;
+  }
+  return true;
+}
+
+/**
+ * The private range an address falls in, e.g. "10.0.0.0/8 (private network)"
+ */
+export function getPrivateRange(address: string): string | null {
+  const bytes = toBytes(address);
+  if (!bytes) return null;
+  for (const [cidr, label] of PRIVATE_RANGES) {
+    if (inRange(bytes, parseAddressRange(cidr)!)) return `${cidr} (${label})`;
+  }
+  return null;
+}
+
+/**
+ * The allow-list entry that trusts a URL: host entries ("nas.local",
+ * "nas.local:5000", "*.corp.example") match the URL, IP and CIDR entries
+ * match the address it resolved to
+ */
+export function findAllowEntry(
+  allowList: string[],
+  url: string,
+  address: string,
+): string | null {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return null;
+  }
+  const port = urlObj.port || DEFAULT_PORTS[urlObj.protocol] || "";
+  const bytes = toBytes(address);
+
+  const hosts: { host: string; entry: string }[] = [];
+  for (const entry of allowList) {
+    const range = parseAddressRange(entry);
+    if (range) {
+      if (
+        bytes &&
+        inRange(bytes, range) &&
+        (!range.port || range.port === port)
+      ) {
+        return entry;
+      }
+      continue;
+    }
+    const host = normalizeHost(entry);
+    if (host) hosts.push({ host, entry });
+  }
+  return matchHost(hosts, url)?.entry || null;
+}
+
+/**
+ * SSRF guard shared by link detection, redirects, aria2 and yt-dlp:
+ * private and internal addresses are refused unless the allow-list
+ * trusts them, and every refusal is logged
+ */
+class NetworkPolicyService extends EventEmitter {
+  private blocked: BlockedRequest[] = [];
+
+  async checkUrl(url: string, source: NetworkSource): Promise<NetworkVerdict> {
+    const policy: NetworkPolicySettings =
+      settingsService.getSettings().networkPolicy;
+    if (!policy.blockPrivate) return { allowed: true, reason: null };
+
+    let urlObj: URL;
+    try {
+      urlObj = new URL(url);
+    } catch {
+      return this.block(url, "", null, "Invalid URL", source);
+    }
+    const host = urlObj.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+    let address = host;
+    if (host === "localhost" || host.endsWith(".localhost")) {
+      address = "127.0.0.1";
+    } else {
+      // Also normalizes odd IP literals such as decimal or hex forms
+      try {
+        address = (await dns.lookup(host)).address;
+      } catch {
+        if (!net.isIP(host)) {
+          // Unknown domain; the request itself will fail
+          return { allowed: true, reason: null };
+        }
+        return this.block(url, host, null, `Could not resolve ${host}`, source);
+      }
+    }
+
+    const range = getPrivateRange(address);
+    if (!range) return { allowed: true, reason: null };
+    if (findAllowEntry(policy.allowList, url, address)) {
+      return { allowed: true, reason: null };
+    }
+
+    const target = address === host ? host : `${host} (${address})`;
+    return this.block(
+      url,
+      host,
+      address,
+      `${target} is in ${range} and not on the network allow-list`,
+      source,
+    );
+  }
+
+  /**
+   * Throw with the block reason when the policy refuses a URL
+   */
+  async assertAllowed(url: string, source: NetworkSource): Promise<void> {
+    const verdict = await this.checkUrl(url, source);
+    if (!verdict.allowed) {
+      throw new Error(`Blocked by network policy: ${verdict.reason}`);
+    }
+  }
+
+  getBlockedLog(): BlockedRequest[] {
+    return this.blocked;
+  }
+
+  clearBlockedLog(): void {
+    this.blocked = [];
+  }
+
+  private block(
+    url: string,
+    host: string,
+    address: string | null,
+    reason: string,
+    source: NetworkSource,
+  ): NetworkVerdict {
+    const entry: BlockedRequest = {
+      url,
+      host,
+      address,
+      reason,
+      source,
+      blockedAt: new Date().toISOString(),
+    };
+    this.blocked = [entry, ...this.blocked].slice(0, MAX_BLOCKED_LOG);
+    console.warn(
+      `[NetworkPolicy] Blocked ${source} request to ${url}: ${reason}`,
+    );
+    this.emit("blocked", entry);
+    return { allowed: false, reason };
+  }
+}
+
+export const networkPolicyService = new NetworkPolicyService();
@@ -0,0 +1,178 @@
+import * as path from "path";
+import { app, BrowserWindow, Notification } from "electron";
+import { DownloadItem, DownloadStatus } from "./downloader/types";
+import { directDownloader } from "./downloader/direct";
+import { videoDownloader } from "./downloader/video";
+import { conversionService } from "./conversion.service";
+import { historyService } from "./history.service";
+import { RUNNING_STATUSES } from "./queue.service";
+import { settingsService } from "./settings.service";
+import { trayService } from "./tray.service";
+
+// Must match appId in electron-builder.yml for Windows toasts to show
+const APP_USER_MODEL_ID = "com.remixdm.app";
+
+interface NotificationAction {
+  text: string;
+  run: () => void;
+}
+
+function getDisplayName(item: DownloadItem): string {
+  return item.filename || item.videoInfo?.title || item.url;
+}
+
+/**
+ * Raises native notifications for finished, failed and drained downloads
+ */
+class NotificationService {
+  private started = false;
+  private busy = false;
+  private finished = { completed: 0, failed: 0 };
+  // Electron drops click handlers of notifications that get garbage collected
+  private visible = new Set<Notification>();
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    if (process.platform === "win32") {
+      app.setAppUserModelId(APP_USER_MODEL_ID);
+    }
+
+    for (const downloader of [
+      directDownloader,
+      videoDownloader,
+      conversionService,
+    ]) {
+      downloader.on("complete", (item: DownloadItem) => this.onComplete(item));
+      downloader.on("error", (item: DownloadItem, error?: string) =>
+        this.onFailed(item, error),
+      );
+      downloader.on("status-changed", () => this.checkQueueFinished());
+    }
+  }
+
+  private onComplete(item: DownloadItem): void {
+    if (this.busy) this.finished.completed++;
+    if (!settingsService.getSettings().notifications.complete) return;
+
+    const filePath = item.filename
+      ? path.join(item.outputPath, item.filename)
+      : item.outputPath;
+    const open = () => {
+      historyService.openFile(filePath).catch(() => {});
+    };
+    const showInFolder = () => {
+      historyService.openFolder(filePath);
+    };
+
+    const title = conversionService.getDownloadStatus(item.id)
+      ? "Conversion complete"
+      : "Download complete";
+    this.show({ title, body: getDisplayName(item) }, open, [
+      { text: "Open", run: open },
+      { text: "Show in Folder", run: showInFolder },
+    ]);
+  }
+
+  private onFailed(item: DownloadItem, error?: string): void {
+    if (this.busy) this.finished.failed++;
+    if (!settingsService.getSettings().notifications.failed) return;
+
+    const retry = () => {
+      this.retry(item.id).catch((err) =>
+        console.error("[Notifications] Retry failed:", err),
+      );
+    };
+
+    this.show(
+      {
+        title: conversionService.getDownloadStatus(item.id)
+          ? "Conversion failed"
+          : "Download failed",
+        body: `${getDisplayName(item)}\n${error || item.error || "Unknown error"}`,
+      },
+      retry,
+      [{ text: "Retry", run: retry }],
+    );
+  }
+
+  /**
+   * Notify once when the last running or waiting download is done
+   */
+  private checkQueueFinished(): void {
+    const busy = [
+      ...directDownloader.getAllDownloads(),
+      ...videoDownloader.getAllDownloads(),
+      ...conversionService.getAllDownloads(),
+    ].some(
+      (item) =>
+        item.status === DownloadStatus.PENDING ||
+        RUNNING_STATUSES.includes(item.status),
+    );
+    const drained = this.busy && !busy;
+    this.busy = busy;
+    if (!drained) return;
+
+    const { completed, failed } = this.finished;
+    this.finished = { completed: 0, failed: 0 };
+    if (!settingsService.getSettings().notifications.queueFinished) return;
+
+    const body =
+      failed > 0
+        ? `${completed} completed, ${failed} failed`
+        : `${completed} completed`;
+    this.show({ title: "All downloads finished", body }, () =>
+      trayService.showWindow(),
+    );
+  }
+
+  private async retry(id: string): Promise<void> {
+    const retried =
+      (await videoDownloader.resumeDownload(id)) ||
+      (await directDownloader.resumeDownload(id)) ||
+      conversionService.resumeDownload(id);
+    if (!retried) trayService.showWindow();
+  }
+
+  /**
+   * Fullscreen video or presentations shouldn't be interrupted;
+   * Focus Assist and macOS Focus cover other apps' fullscreen windows
+   */
+  private isQuiet(): boolean {
+    if (!settingsService.getSettings().notifications.quietWhenFullscreen) {
+      return false;
+    }
+    return BrowserWindow.getAllWindows().some(
+      (window) => !window.isDestroyed() && window.isFullScreen(),
+    );
+  }
+
+  private show(
+    options: Electron.NotificationConstructorOptions,
+    onClick: () => void,
+    actions: NotificationAction[] = [],
+  ): void {
+    if (!Notification.isSupported() || this.isQuiet()) return;
+
+    // Buttons only show on macOS; elsewhere a click runs the main action
+    const notification = new Notification({
+      ...options,
+      actions: actions.map(({ text }) => ({ type: "button", text })),
+    });
+    const release = () => this.visible.delete(notification);
+    notification.on("click", () => {
+      release();
+      onClick();
+    });
+    notification.on("action", (_event, index) => {
+      release();
+      actions[index]?.run();
+    });
+    notification.on("close", release);
+    this.visible.add(notification);
+    notification.show();
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,157 @@
+import { session } from "electron";
+import { URL } from "url";
+import { settingsService, ProxySettings } from "./settings.service";
+import { credentialsService } from "./credentials.service";
+import { matchHost, normalizeHost } from "./utils/host-match";
+import { getProxiedRequest } from "./utils/proxy-agent";
+
+const PROXY_PROTOCOLS = ["http:", "https:", "socks5:", "socks5h:"];
+const TEST_URL = "https://www.google.com/generate_204";
+const TEST_TIMEOUT = 10000;
+
+export interface ProxyTestResult {
+  success: boolean;
+  latency: number | null; // ms
+  error: string | null;
+}
+
+/**
+ * Read the first usable entry of a PAC-style result
+ * ("PROXY host:8080; SOCKS5 host:1080; DIRECT"), null = direct
+ */
+export function parsePacResult(result: string): string | null {
+  for (const entry of result.split(";")) {
+    const [type, address] = entry.trim().split(/\s+/);
+    switch ((type || "").toUpperCase()) {
+      case "DIRECT":
+        return null;
+      case "PROXY":
+        return `http://${address}`;
+      case "HTTPS":
+        return `https://${address}`;
+      case "SOCKS":
+      case "SOCKS5":
+        return `socks5://${address}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Which proxy the settings assign to a URL: a per-host rule first,
+ * then the bypass list, then the global mode
+ * Returns a proxy URL, "system" or null for a direct connection
+ */
+export function pickProxy(settings: ProxySettings, url: string): string | null {
+  const rules = settings.rules.map((rule) => ({
+    ...rule,
+    host: normalizeHost(rule.host) || "",
+  }));
+  const rule = matchHost(rules, url);
+  if (rule) {
+    return rule.proxy === "direct" ? null : rule.proxy;
+  }
+
+  const bypass = settings.bypass.map((host) => ({
+    host: normalizeHost(host) || "",
+  }));
+  if (matchHost(bypass, url)) return null;
+
+  switch (settings.mode) {
+    case "manual":
+      return settings.url.trim() || null;
+    case "system":
+      return "system";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolves the proxy for outgoing connections so aria2, yt-dlp and
+ * link detection all leave through the same route
+ */
+class ProxyService {
+  /**
+   * The proxy to use for a URL, with its login filled in from the
+   * credentials vault when the proxy URL carries none
+   * A per-download `override` wins over the settings
+   */
+  async resolveProxy(url: string, override?: string): Promise<URL | null> {
+    if (override) return this.parseProxy(override);
+
+    let proxy = pickProxy(settingsService.getSettings().proxy, url);
+    if (proxy === "system") {
+      proxy = parsePacResult(await session.defaultSession.resolveProxy(url));
+    }
+    if (!proxy) return null;
+
+    return this.parseProxy(proxy);
+  }
+
+  /**
+   * Fetch a known URL through a proxy (the configured one by default)
+   */
+  async testProxy(proxyUrl?: string): Promise<ProxyTestResult> {
+    const started = Date.now();
+    try {
+      const proxy = await this.resolveProxy(TEST_URL, proxyUrl);
+      if (!proxy) {
+        throw new Error("No proxy is configured");
+      }
+
+      const { protocol, options } = getProxiedRequest(
+        new URL(TEST_URL),
+        { method: "GET", timeout: TEST_TIMEOUT },
+        proxy,
+      );
+      await new Promise<void>((resolve, reject) => {
+        const req = protocol.request(options, (res) => {
+          res.resume();
+          if (res.statusCode === 407) {
+            reject(new Error("Proxy authentication required"));
+          } else if (!res.statusCode || res.statusCode >= 400) {
+            reject(new Error(`Unexpected response (HTTP ${res.statusCode})`));
+          } else {
+            resolve();
+          }
+        });
+        req.on("error", reject);
+        req.on("timeout", () => req.destroy(new Error("Proxy timeout")));
+        req.end();
+      });
+
+      return { success: true, latency: Date.now() - started, error: null };
+    } catch (error) {
+      return {
+        success: false,
+        latency: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private parseProxy(value: string): URL {
+    const raw = value.trim();
+    let proxy: URL;
+    try {
+      proxy = new URL(
+        /^[a-z][a-z0-9+.-]*:\/\//i.test(raw) ? raw : `http://${raw}`,
+      );
+    } catch {
+      throw new Error(`Invalid proxy URL: ${raw}`);
+    }
+    if (!PROXY_PROTOCOLS.includes(proxy.protocol) || !proxy.hostname) {
+      throw new Error(`Unsupported proxy: ${raw}`);
+    }
+
+    const login = credentialsService.getCredentialsForUrl(proxy.toString());
+    if (login) {
+      proxy.username = encodeURIComponent(login.username);
+      proxy.password = encodeURIComponent(login.password);
+    }
+    return proxy;
+  }
+}
+
+export const proxyService = new ProxyService();
@@ -0,0 +1,408 @@
+import Store from "electron-store";
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { DownloadItem, DownloadStatus } from "./downloader/types";
+import { directDownloader } from "./downloader/direct";
+import { videoDownloader } from "./downloader/video";
+import { settingsService } from "./settings.service";
+
+export interface DownloadQueue {
+  id: string;
+  name: string;
+  maxConcurrent: number;
+  paused: boolean;
+}
+
+export interface QueueState {
+  queues: DownloadQueue[];
+  assignments: Record<string, string>; // downloadId -> queueId
+  order: string[]; // downloadIds, relative order within each queue
+}
+
+export const DEFAULT_QUEUE_ID = "main";
+
+export const RUNNING_STATUSES = [
+  DownloadStatus.DOWNLOADING,
+  DownloadStatus.EXTRACTING,
+  DownloadStatus.MERGING,
+  DownloadStatus.CONVERTING,
+];
+
+class QueueService extends EventEmitter {
+  private store: Store<QueueState>;
+  private state: QueueState;
+  private removeGates: (() => void)[] = [];
+  private dispatchScheduled = false;
+
+  constructor() {
+    super();
+    this.store = new Store<QueueState>({
+      name: "download-queues",
+      defaults: {
+        queues: [
+          {
+            id: DEFAULT_QUEUE_ID,
+            name: "Main",
+            maxConcurrent: 3,
+            paused: false,
+          },
+        ],
+        assignments: {},
+        order: [],
+      },
+    });
+    this.state = {
+      queues: this.store.get("queues"),
+      assignments: this.store.get("assignments"),
+      order: this.store.get("order"),
+    };
+  }
+
+  /**
+   * Get all queues; the Main queue's concurrency lives in AppSettings
+   */
+  getQueues(): DownloadQueue[] {
+    const { maxConcurrentDownloads } = settingsService.getSettings();
+    return this.state.queues.map((q) =>
+      q.id === DEFAULT_QUEUE_ID
+        ? { ...q, maxConcurrent: maxConcurrentDownloads }
+        : q,
+    );
+  }
+
+  getState(): QueueState {
+    return {
+      queues: this.getQueues(),
+      assignments: { ...this.state.assignments },
+      order: [...this.state.order],
+    };
+  }
+
+  createQueue(name: string, maxConcurrent: number): DownloadQueue {
+    const queue: DownloadQueue = {
+      id: randomUUID(),
+      name: name.trim() || "Untitled",
+      maxConcurrent: clampConcurrency(maxConcurrent),
+      paused: false,
+    };
+    this.state.queues = [...this.state.queues, queue];
+    this.save();
+    this.applyLimits();
+    this.changed();
+    return queue;
+  }
+
+  updateQueue(
+    id: string,
+    changes: Partial<Pick<DownloadQueue, "name" | "maxConcurrent">>,
+  ): DownloadQueue | null {
+    const queue = this.state.queues.find((q) => q.id === id);
+    if (!queue) return null;
+
+    if (changes.name !== undefined && changes.name.trim()) {
+      queue.name = changes.name.trim();
+    }
+    if (changes.maxConcurrent !== undefined) {
+      const maxConcurrent = clampConcurrency(changes.maxConcurrent);
+      if (id === DEFAULT_QUEUE_ID) {
+        settingsService.updateSettings({
+          maxConcurrentDownloads: maxConcurrent,
+        });
+      } else {
+        queue.maxConcurrent = maxConcurrent;
+      }
+    }
+
+    this.save();
+    this.applyLimits();
+    this.changed();
+    return this.getQueues().find((q) => q.id === id) || null;
+  }
+
+  /**
+   * Delete a queue; its downloads fall back to the Main queue
+   */
+  deleteQueue(id: string): boolean {
+    if (id === DEFAULT_QUEUE_ID) return false;
+    if (!this.state.queues.some((q) => q.id === id)) return false;
+
+    const { assignments } = this.state;
+    for (const [downloadId, queueId] of Object.entries(assignments)) {
+      if (queueId === id) delete assignments[downloadId];
+    }
+    this.state.queues = this.state.queues.filter((q) => q.id !== id);
+    this.save();
+    this.applyLimits();
+    this.changed();
+    return true;
+  }
+
+  /**
+   * Move downloads into a queue, before `beforeId` or at the end
+   */
+  moveDownloads(ids: string[], queueId: string, beforeId?: string): void {
+    if (!this.getQueues().some((q) => q.id === queueId)) return;
+
+    for (const id of ids) {
+      this.state.assignments[id] = queueId;
+    }
+
+    const queueOrder = this.getQueueItems(queueId)
+      .map((item) => item.id)
+      .filter((id) => !ids.includes(id));
+    const index = beforeId ? queueOrder.indexOf(beforeId) : -1;
+    queueOrder.splice(index === -1 ? queueOrder.length : index, 0, ...ids);
+
+    // Only the relative order inside a queue matters
+    const order = this.state.order.filter((id) => !queueOrder.includes(id));
+    this.state.order = [...order, ...queueOrder];
+
+    this.save();
+    this.changed();
+  }
+
+  /**
+   * Stop a queue from starting items and pause what it is running
+   */
+  async pauseQueue(id: string): Promise<void> {
+    if (!this.setPaused(id, true)) return;
+    for (const item of this.getQueueItems(id)) {
+      if (RUNNING_STATUSES.includes(item.status)) {
+        await this.pauseItem(item);
+      }
+    }
+    this.changed();
+  }
+
+  /**
+   * Let a queue run again and resume its paused items
+   */
+  async resumeQueue(id: string): Promise<void> {
+    if (!this.setPaused(id, false)) return;
+    for (const item of this.getQueueItems(id)) {
+      if (item.status === DownloadStatus.PAUSED) {
+        await this.resumeItem(item);
+      }
+    }
+    this.changed();
+  }
+
+  /**
+   * Pause every queue, as the tray's "Pause all" does
+   */
+  async pauseAll(): Promise<void> {
+    for (const queue of this.getQueues()) {
+      await this.pauseQueue(queue.id);
+    }
+  }
+
+  /**
+   * Resume every queue and its paused items
+   */
+  async resumeAll(): Promise<void> {
+    for (const queue of this.getQueues()) {
+      await this.resumeQueue(queue.id);
+    }
+  }
+
+  /**
+   * Pick up a changed Main queue limit from AppSettings
+   */
+  refresh(): void {
+    this.applyLimits();
+    this.changed();
+  }
+
+  /**
+   * Push the combined concurrency of all queues down to both engines
+   */
+  private applyLimits(): void {
+    const total = this.getQueues().reduce((sum, q) => sum + q.maxConcurrent, 0);
+    videoDownloader.setConcurrencyLimit(total);
+    directDownloader.setConcurrencyLimit(total).catch(() => {});
+    this.scheduleDispatch();
+  }
+
+  /**
+   * Attach to both engines and take over admission
+   */
+  start(): void {
+    if (this.removeGates.length > 0) return;
+
+    const gate = (item: DownloadItem) => this.canStart(item);
+    this.removeGates = [
+      videoDownloader.addQueueGate(gate),
+      directDownloader.addQueueGate(gate),
+    ];
+
+    const onChange = () => this.scheduleDispatch();
+    for (const downloader of [directDownloader, videoDownloader]) {
+      downloader.on("status-changed", onChange);
+      downloader.on("complete", onChange);
+      downloader.on("error", onChange);
+      downloader.on("item-removed", (id: string) => this.forget(id));
+    }
+    // aria2 reports state changes through polling only
+    directDownloader.on("progress", onChange);
+
+    this.applyLimits();
+    console.log(`[Queues] Started with ${this.getQueues().length} queue(s)`);
+  }
+
+  stop(): void {
+    this.removeGates.forEach((remove) => remove());
+    this.removeGates = [];
+  }
+
+  private getQueueId(item: DownloadItem): string {
+    const queueId = this.state.assignments[item.id] || item.options?.queueId;
+    return queueId && this.state.queues.some((q) => q.id === queueId)
+      ? queueId
+      : DEFAULT_QUEUE_ID;
+  }
+
+  /**
+   * Items of a queue from both engines, in queue order
+   */
+  private getQueueItems(queueId: string): DownloadItem[] {
+    const { order } = this.state;
+    const rank = (item: DownloadItem) => {
+      const index = order.indexOf(item.id);
+      return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+    };
+
+    return [
+      ...directDownloader.getAllDownloads(),
+      ...videoDownloader.getAllDownloads(),
+    ]
+      .filter((item) => this.getQueueId(item) === queueId)
+      .sort(
+        (a, b) =>
+          rank(a) - rank(b) ||
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+      );
+  }
+
+  /**
+   * Waiting items that fit in the queue's free slots, in order
+   */
+  private getAdmitted(queue: DownloadQueue): DownloadItem[] {
+    if (queue.paused) return [];
+    const items = this.getQueueItems(queue.id);
+    const running = items.filter(
+      (item) =>
+        RUNNING_STATUSES.includes(item.status) &&
+        !directDownloader.isHeld(item.id),
+    ).length;
+    const waiting = items.filter(
+      (item) => item.status === DownloadStatus.PENDING,
+    );
+    return waiting.slice(0, Math.max(0, queue.maxConcurrent - running));
+  }
+
+  private canStart(item: DownloadItem): boolean {
+    const queueId = this.getQueueId(item);
+    const queue = this.getQueues().find((q) => q.id === queueId);
+    if (!queue) return true;
+
+    const items = this.getQueueItems(queueId);
+    if (items.some((i) => i.id === item.id)) {
+      return this.getAdmitted(queue).some((i) => i.id === item.id);
+    }
+
+    // Direct tasks are gated before the engine tracks them: they queue last
+    const busy = items.filter(
+      (i) =>
+        (RUNNING_STATUSES.includes(i.status) ||
+          i.status === DownloadStatus.PENDING) &&
+        !directDownloader.isHeld(i.id),
+    ).length;
+    return !queue.paused && busy < queue.maxConcurrent;
+  }
+
+  private scheduleDispatch(): void {
+    if (this.dispatchScheduled) return;
+    this.dispatchScheduled = true;
+    setImmediate(() => {
+      this.dispatchScheduled = false;
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Hold direct tasks so each queue stays within its limit, then let the
+   * engines admit what every gate (e.g. the scheduler's) allows
+   */
+  private dispatch(): void {
+    for (const queue of this.getQueues()) {
+      const admitted = new Set(this.getAdmitted(queue).map((i) => i.id));
+
+      for (const item of this.getQueueItems(queue.id)) {
+        if (
+          item.status === DownloadStatus.PENDING &&
+          !admitted.has(item.id) &&
+          directDownloader.getDownloadStatus(item.id) &&
+          !directDownloader.isHeld(item.id)
+        ) {
+          directDownloader.holdDownload(item.id).catch(() => {});
+        }
+      }
+    }
+
+    directDownloader.refreshQueue();
+    videoDownloader.refreshQueue();
+  }
+
+  private setPaused(id: string, paused: boolean): boolean {
+    const queue = this.state.queues.find((q) => q.id === id);
+    if (!queue) return false;
+    queue.paused = paused;
+    this.save();
+    console.log(
+      `[Queues] ${paused ? "Paused" : "Resumed"} queue ${queue.name}`,
+    );
+    return true;
+  }
+
+  private async pauseItem(item: DownloadItem): Promise<void> {
+    if (directDownloader.getDownloadStatus(item.id)) {
+      await directDownloader.pauseDownload(item.id);
+    } else {
+      videoDownloader.pauseDownload(item.id);
+    }
+  }
+
+  private async resumeItem(item: DownloadItem): Promise<void> {
+    if (directDownloader.getDownloadStatus(item.id)) {
+      await directDownloader.resumeDownload(item.id);
+    } else {
+      await videoDownloader.resumeDownload(item.id);
+    }
+  }
+
+  private forget(id: string): void {
+    const { assignments, order } = this.state;
+    if (!(id in assignments) && !order.includes(id)) return;
+
+    delete assignments[id];
+    this.state.order = order.filter((d) => d !== id);
+    this.save();
+    this.changed();
+  }
+
+  private save(): void {
+    this.store.set(this.state);
+  }
+
+  private changed(): void {
+    this.scheduleDispatch();
+    this.emit("changed", this.getState());
+  }
+}
+
+function clampConcurrency(value: number): number {
+  const n = Math.round(Number(value));
+  return isNaN(n) ? 1 : Math.min(Math.max(n, 1), 10);
+}
+
+export const queueService = new QueueService();
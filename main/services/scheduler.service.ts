@@ -0,0 +1,347 @@
+import Store from "electron-store";
+import { app } from "electron";
+import { exec } from "child_process";
+import { EventEmitter } from "events";
+import { DownloadItem, DownloadStatus } from "./downloader/types";
+import { directDownloader } from "./downloader/direct";
+import { videoDownloader } from "./downloader/video";
+
+export type PostQueueAction = "none" | "quit" | "command";
+
+export interface DownloadSchedule {
+  enabled: boolean;
+  startTime: string; // "HH:MM" (24h)
+  stopTime: string | null; // "HH:MM", null = run until the batch finishes
+  days: number[]; // 0 (Sunday) - 6 (Saturday), empty = run once
+  scope: "all" | "selected";
+  downloadIds: string[];
+  postAction: PostQueueAction;
+  command: string;
+}
+
+const DEFAULT_SCHEDULE: DownloadSchedule = {
+  enabled: false,
+  startTime: "02:00",
+  stopTime: "07:00",
+  days: [],
+  scope: "selected",
+  downloadIds: [],
+  postAction: "none",
+  command: "",
+};
+
+const TICK_INTERVAL = 30 * 1000;
+
+/**
+ * Parse "HH:MM" into minutes since midnight
+ */
+function toMinutes(time: string | null): number | null {
+  if (!time) return null;
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check whether a date falls inside the schedule's time window
+ * Overnight windows (e.g. 23:00 - 06:00) belong to the weekday they start on
+ */
+export function isWithinScheduleWindow(
+  schedule: Pick<DownloadSchedule, "startTime" | "stopTime" | "days">,
+  date: Date,
+): boolean {
+  const start = toMinutes(schedule.startTime);
+  if (start === null) return false;
+  const stop = toMinutes(schedule.stopTime);
+  const now = date.getHours() * 60 + date.getMinutes();
+  const today = date.getDay();
+  const yesterday = (today + 6) % 7;
+  const allowsDay = (day: number) =>
+    schedule.days.length === 0 || schedule.days.includes(day);
+
+  // No stop time: open from the start time until the end of the day
+  if (stop === null) {
+    return now >= start && allowsDay(today);
+  }
+
+  if (start <= stop) {
+    return now >= start && now < stop && allowsDay(today);
+  }
+
+  // Overnight window
+  if (now >= start) return allowsDay(today);
+  if (now < stop) return allowsDay(yesterday);
+  return false;
+}
+
+const FINISHED_STATUSES = [
+  DownloadStatus.COMPLETED,
+  DownloadStatus.FAILED,
+  DownloadStatus.CANCELLED,
+];
+
+class SchedulerService extends EventEmitter {
+  private store: Store<{ schedule: DownloadSchedule }>;
+  private timer: NodeJS.Timeout | null = null;
+  private windowOpen = false;
+  private batchRunning = false;
+  private removeGates: (() => void)[] = [];
+
+  constructor() {
+    super();
+    this.store = new Store<{ schedule: DownloadSchedule }>({
+      name: "download-schedule",
+      defaults: {
+        schedule: DEFAULT_SCHEDULE,
+      },
+    });
+  }
+
+  getSchedule(): DownloadSchedule {
+    return { ...DEFAULT_SCHEDULE, ...this.store.get("schedule") };
+  }
+
+  updateSchedule(schedule: Partial<DownloadSchedule>): DownloadSchedule {
+    this.store.set("schedule", { ...this.getSchedule(), ...schedule });
+    this.evaluate(true);
+    this.emit("changed", this.getState());
+    return this.getSchedule();
+  }
+
+  /**
+   * Mark downloads as part of the scheduled batch
+   */
+  addDownloads(ids: string[]): DownloadSchedule {
+    const schedule = this.getSchedule();
+    const downloadIds = Array.from(new Set([...schedule.downloadIds, ...ids]));
+    return this.updateSchedule({ downloadIds });
+  }
+
+  removeDownloads(ids: string[]): DownloadSchedule {
+    const schedule = this.getSchedule();
+    return this.updateSchedule({
+      downloadIds: schedule.downloadIds.filter((id) => !ids.includes(id)),
+    });
+  }
+
+  getState(): { schedule: DownloadSchedule; windowOpen: boolean } {
+    return { schedule: this.getSchedule(), windowOpen: this.windowOpen };
+  }
+
+  /**
+   * Start the scheduler tick and attach to both engines
+   */
+  start(): void {
+    if (this.timer) return;
+
+    // Scheduled items wait in the engines' queues until the window opens
+    const gate = (item: DownloadItem) => !this.isHeld(item.id);
+    this.removeGates = [
+      videoDownloader.addQueueGate(gate),
+      directDownloader.addQueueGate(gate),
+    ];
+
+    const onItemChanged = (item: DownloadItem) => this.handleItemChanged(item);
+    directDownloader.on("status-changed", onItemChanged);
+    videoDownloader.on("status-changed", onItemChanged);
+    directDownloader.on("item-removed", (id: string) => this.forget(id));
+    videoDownloader.on("item-removed", (id: string) => this.forget(id));
+
+    this.evaluate(true);
+    this.timer = setInterval(() => this.evaluate(), TICK_INTERVAL);
+    console.log(
+      `[Scheduler] Started (window ${this.windowOpen ? "open" : "closed"})`,
+    );
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.removeGates.forEach((remove) => remove());
+    this.removeGates = [];
+  }
+
+  private computeWindowOpen(): boolean {
+    const schedule = this.getSchedule();
+    return schedule.enabled && isWithinScheduleWindow(schedule, new Date());
+  }
+
+  private isScheduled(id: string): boolean {
+    const schedule = this.getSchedule();
+    if (!schedule.enabled) return false;
+    return schedule.scope === "all" || schedule.downloadIds.includes(id);
+  }
+
+  /**
+   * Whether a download must wait for the schedule window
+   */
+  private isHeld(id: string): boolean {
+    return !this.windowOpen && this.isScheduled(id);
+  }
+
+  private getScheduledItems(): { item: DownloadItem; direct: boolean }[] {
+    const direct = directDownloader
+      .getAllDownloads()
+      .map((item) => ({ item, direct: true }));
+    const video = videoDownloader
+      .getAllDownloads()
+      .map((item) => ({ item, direct: false }));
+    return [...direct, ...video].filter(({ item }) =>
+      this.isScheduled(item.id),
+    );
+  }
+
+  /**
+   * Re-check the window and apply open/close transitions
+   */
+  private evaluate(force = false): void {
+    const open = this.computeWindowOpen();
+    if (open === this.windowOpen && !force) return;
+
+    const wasOpen = this.windowOpen;
+    this.windowOpen = open;
+
+    if (open && !wasOpen) {
+      this.openWindow();
+    } else if (!open) {
+      this.closeWindow(wasOpen);
+    }
+
+    if (open !== wasOpen) {
+      this.emit("changed", this.getState());
+    }
+  }
+
+  private openWindow(): void {
+    const items = this.getScheduledItems();
+    const pending = items.filter(
+      ({ item }) => !FINISHED_STATUSES.includes(item.status),
+    );
+    if (pending.length === 0) return;
+
+    console.log(
+      `[Scheduler] Window open, starting ${pending.length} scheduled download(s)`,
+    );
+    this.batchRunning = true;
+
+    for (const { item, direct } of pending) {
+      if (item.status !== DownloadStatus.PAUSED) continue;
+      if (direct) {
+        directDownloader.resumeDownload(item.id).catch(() => {});
+      } else {
+        videoDownloader.resumeDownload(item.id).catch(() => {});
+      }
+    }
+
+    // Pending jobs were held back by the gate
+    directDownloader.refreshQueue();
+    videoDownloader.refreshQueue();
+  }
+
+  private closeWindow(wasOpen: boolean): void {
+    const items = this.getScheduledItems();
+    if (wasOpen) {
+      console.log(
+        `[Scheduler] Window closed, pausing ${items.length} scheduled download(s)`,
+      );
+    }
+
+    for (const { item, direct } of items) {
+      this.hold(item, direct);
+    }
+  }
+
+  /**
+   * Stop a scheduled item that is already running
+   * Items that haven't started are kept waiting by the queue gate
+   */
+  private hold(item: DownloadItem, direct: boolean): void {
+    if (direct) {
+      // Held tasks stay queued (PENDING) and are released by refreshQueue
+      if (
+        item.status === DownloadStatus.DOWNLOADING ||
+        (item.status === DownloadStatus.PENDING &&
+          !directDownloader.isHeld(item.id))
+      ) {
+        directDownloader.holdDownload(item.id).catch(() => {});
+      }
+    } else if (
+      item.status === DownloadStatus.DOWNLOADING ||
+      item.status === DownloadStatus.MERGING
+    ) {
+      videoDownloader.pauseDownload(item.id);
+    }
+  }
+
+  private handleItemChanged(item: DownloadItem): void {
+    if (this.isHeld(item.id)) {
+      const isDirect = !!directDownloader.getDownloadStatus(item.id);
+      this.hold(item, isDirect);
+      return;
+    }
+
+    if (!this.batchRunning || !FINISHED_STATUSES.includes(item.status)) {
+      return;
+    }
+
+    const remaining = this.getScheduledItems().filter(
+      ({ item: i }) => !FINISHED_STATUSES.includes(i.status),
+    );
+    if (remaining.length === 0) {
+      this.finishBatch();
+    }
+  }
+
+  private forget(id: string): void {
+    const schedule = this.getSchedule();
+    if (schedule.downloadIds.includes(id)) {
+      this.store.set("schedule", {
+        ...schedule,
+        downloadIds: schedule.downloadIds.filter((d) => d !== id),
+      });
+      this.emit("changed", this.getState());
+    }
+  }
+
+  private finishBatch(): void {
+    this.batchRunning = false;
+    const schedule = this.getSchedule();
+    console.log(
+      `[Scheduler] Scheduled batch finished, post action: ${schedule.postAction}`,
+    );
+
+    // One-time schedules switch themselves off
+    if (schedule.days.length === 0) {
+      this.store.set("schedule", { ...schedule, enabled: false });
+      this.emit("changed", this.getState());
+    }
+
+    this.emit("batch-finished", schedule);
+    this.runPostAction(schedule);
+  }
+
+  private runPostAction(schedule: DownloadSchedule): void {
+    switch (schedule.postAction) {
+      case "quit":
+        app.quit();
+        break;
+      case "command":
+        if (!schedule.command.trim()) return;
+        exec(schedule.command, (err, stdout, stderr) => {
+          if (err) {
+            console.error("[Scheduler] Post-queue command failed:", err);
+            return;
+          }
+          console.log("[Scheduler] Post-queue command output:", stdout, stderr);
+        });
+        break;
+    }
+  }
+}
+
+export const schedulerService = new SchedulerService();
@@ -2,6 +2,50 @@ import Store from "electron-store";
 import { app, dialog } from "electron";
 import * as path from "path";
 import { APP_CONFIG } from "../../renderer/config/app-config";
+import { SponsorBlockCategory, SubtitleFormat } from "./downloader/types";
+
+export interface SpeedProfile {
+  id: string;
+  name: string;
+  limit: number; // Bytes per second, 0 = unlimited
+}
+
+export interface ProxyRule {
+  id: string;
+  host: string; // Host pattern, *.example.com covers subdomains
+  proxy: string; // Proxy URL for this host, "direct" = no proxy
+}
+
+export interface ProxySettings {
+  mode: "none" | "system" | "manual";
+  url: string; // Manual proxy, e.g. http://host:8080 or socks5://host:1080
+  bypass: string[]; // Hosts that never use the proxy
+  rules: ProxyRule[];
+}
+
+export interface NetworkPolicySettings {
+  blockPrivate: boolean; // Refuse loopback, LAN and link-local targets (SSRF guard)
+  allowList: string[]; // Trusted hosts, IPs or CIDRs, optionally with :port
+}
+
+export interface NotificationSettings {
+  complete: boolean; // A download finished
+  failed: boolean; // A download failed
+  queueFinished: boolean; // Nothing is left running or waiting
+  quietWhenFullscreen: boolean; // Hold back while a window is fullscreen
+}
+
+export interface SubtitleSettings {
+  languages: string[]; // Preferred language codes, empty = don't fetch subtitles
+  autoGenerated: boolean; // Use auto captions when a language has no manual track
+  format: SubtitleFormat | null; // null keeps the site's format
+  embed: boolean; // Embed into the video instead of saving next to it
+}
+
+export interface SponsorBlockSettings {
+  remove: SponsorBlockCategory[]; // Cut out of YouTube downloads
+  mark: SponsorBlockCategory[]; // Kept, but added as chapters
+}
 
 export interface AppSettings {
   downloadPath: string;
@@ -9,6 +53,18 @@ export interface AppSettings {
   onFileExists: "overwrite" | "skip" | "rename";
   defaultQuality: string;
   defaultFormat: string;
+  speedLimit: number; // Global cap in bytes per second, 0 = unlimited
+  speedProfiles: SpeedProfile[];
+  activeSpeedProfileId: string | null;
+  discoverChecksums: boolean; // Look for .sha256 / SHA256SUMS next to direct downloads
+  seedRatio: number; // Stop seeding at this upload/download ratio, 0 = no ratio limit
+  seedTime: number; // Stop seeding after this many minutes, 0 = don't seed
+  proxy: ProxySettings;
+  networkPolicy: NetworkPolicySettings;
+  clipboardMonitor: boolean; // Offer to download links copied to the clipboard
+  notifications: NotificationSettings;
+  subtitles: SubtitleSettings;
+  sponsorBlock: SponsorBlockSettings;
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -17,6 +73,41 @@ const DEFAULT_SETTINGS: AppSettings = {
   onFileExists: "rename",
   defaultQuality: "1080p",
   defaultFormat: "mp4",
+  speedLimit: 0,
+  speedProfiles: [
+    { id: "work-hours", name: "Work hours", limit: 2 * 1024 * 1024 },
+  ],
+  activeSpeedProfileId: null,
+  discoverChecksums: true,
+  seedRatio: 1,
+  seedTime: 60,
+  proxy: {
+    mode: "none",
+    url: "",
+    bypass: ["localhost", "127.0.0.1"],
+    rules: [],
+  },
+  networkPolicy: {
+    blockPrivate: true,
+    allowList: [],
+  },
+  clipboardMonitor: false,
+  notifications: {
+    complete: true,
+    failed: true,
+    queueFinished: true,
+    quietWhenFullscreen: true,
+  },
+  subtitles: {
+    languages: [],
+    autoGenerated: false,
+    format: "srt",
+    embed: false,
+  },
+  sponsorBlock: {
+    remove: [],
+    mark: [],
+  },
 };
 
 class SettingsService {
@@ -0,0 +1,377 @@
+import Store from "electron-store";
+import { app } from "electron";
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DownloadStatus,
+  PlaylistVideoEntry,
+  VideoInfo,
+} from "./downloader/types";
+import { videoDownloader, PlaylistDownloader } from "./downloader/video";
+import { networkPolicyService } from "./network-policy.service";
+import { getDownloadSubPath } from "./utils/file-utils";
+
+export interface Subscription {
+  id: string;
+  url: string;
+  title: string; // Channel or playlist name from the last check
+  quality: string;
+  format: string;
+  audioOnly: boolean;
+  outputPath: string; // "" = Playlists/<title> in the download folder
+  intervalMinutes: number; // How often to look for new videos
+  enabled: boolean;
+  createdAt: string;
+  lastCheckedAt: string | null;
+  lastNewItems: number; // Videos queued by the last check
+  lastError: string | null;
+}
+
+export type NewSubscription = Pick<
+  Subscription,
+  "url" | "quality" | "format" | "audioOnly" | "outputPath" | "intervalMinutes"
+> & {
+  downloadExisting?: boolean; // Also fetch what the channel already has
+};
+
+export type SubscriptionChanges = Partial<
+  Pick<
+    Subscription,
+    | "quality"
+    | "format"
+    | "audioOnly"
+    | "outputPath"
+    | "intervalMinutes"
+    | "enabled"
+  >
+>;
+
+export interface SubscriptionState {
+  subscriptions: Subscription[];
+  checking: string[]; // Subscriptions being scanned right now
+}
+
+const TICK_INTERVAL = 60 * 1000;
+const MIN_INTERVAL_MINUTES = 15;
+
+/**
+ * Point bare YouTube channel links at their uploads; the channel home
+ * lists tabs (Videos, Shorts, Live) instead of videos
+ */
+export function normalizeSubscriptionUrl(url: string): string {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(trimmed);
+    const isYouTube = /(^|\.)youtube\.com$/i.test(parsed.hostname);
+    const channelPath = /^\/(@[^/]+|channel\/[^/]+|c\/[^/]+|user\/[^/]+)\/?$/;
+    if (isYouTube && channelPath.test(parsed.pathname)) {
+      parsed.pathname = `${parsed.pathname.replace(/\/$/, "")}/videos`;
+      return parsed.toString();
+    }
+  } catch {
+    // Not a URL; yt-dlp gets to report it
+  }
+  return trimmed;
+}
+
+/**
+ * Video IDs in a yt-dlp download archive ("<extractor> <id>" per line)
+ */
+export function parseArchive(content: string): Set<string> {
+  const ids = new Set<string>();
+  for (const line of content.split(/\r?\n/)) {
+    const [, id] = line.trim().split(/\s+/);
+    if (id) ids.add(id);
+  }
+  return ids;
+}
+
+/**
+ * Watches channels and playlists and queues videos that weren't
+ * downloaded before, tracked per subscription in a yt-dlp archive file
+ */
+class SubscriptionService extends EventEmitter {
+  private store: Store<{ subscriptions: Subscription[] }>;
+  private scanner = new PlaylistDownloader();
+  private timer: NodeJS.Timeout | null = null;
+  private checking = new Set<string>();
+  private ticking = false;
+
+  constructor() {
+    super();
+    this.store = new Store<{ subscriptions: Subscription[] }>({
+      name: "subscriptions",
+      defaults: { subscriptions: [] },
+    });
+  }
+
+  getSubscriptions(): Subscription[] {
+    return this.store.get("subscriptions");
+  }
+
+  getState(): SubscriptionState {
+    return {
+      subscriptions: this.getSubscriptions(),
+      checking: Array.from(this.checking),
+    };
+  }
+
+  /**
+   * Subscribe to a channel or playlist; the first scan runs right away so
+   * a bad link is reported instead of saved
+   */
+  async addSubscription(input: NewSubscription): Promise<Subscription> {
+    const url = normalizeSubscriptionUrl(input.url);
+    if (!url) throw new Error("Enter a channel or playlist URL");
+    if (this.getSubscriptions().some((s) => s.url === url)) {
+      throw new Error("You are already subscribed to this link");
+    }
+
+    const info = await this.scan(url);
+    const subscription: Subscription = {
+      id: randomUUID(),
+      url,
+      title: info.title || url,
+      quality: input.quality,
+      format: input.format,
+      audioOnly: input.audioOnly,
+      outputPath: input.outputPath.trim(),
+      intervalMinutes: Math.max(MIN_INTERVAL_MINUTES, input.intervalMinutes),
+      enabled: true,
+      createdAt: new Date().toISOString(),
+      lastCheckedAt: new Date().toISOString(),
+      lastNewItems: 0,
+      lastError: null,
+    };
+    const entries = info.playlist?.videos || [];
+
+    if (input.downloadExisting) {
+      subscription.lastNewItems = await this.enqueue(
+        subscription,
+        info,
+        entries,
+      );
+    } else {
+      // Only videos published from now on count as new
+      this.appendToArchive(subscription, info, entries);
+    }
+
+    this.save([...this.getSubscriptions(), subscription]);
+    return subscription;
+  }
+
+  updateSubscription(id: string, changes: SubscriptionChanges): Subscription {
+    const subscription = this.getSubscriptions().find((s) => s.id === id);
+    if (!subscription) throw new Error("Subscription not found");
+
+    const updated = { ...subscription, ...changes };
+    if (changes.intervalMinutes !== undefined) {
+      updated.intervalMinutes = Math.max(
+        MIN_INTERVAL_MINUTES,
+        changes.intervalMinutes,
+      );
+    }
+    if (changes.outputPath !== undefined) {
+      updated.outputPath = changes.outputPath.trim();
+    }
+    this.save(this.getSubscriptions().map((s) => (s.id === id ? updated : s)));
+    return updated;
+  }
+
+  removeSubscription(id: string): void {
+    fs.rmSync(this.getArchivePath(id), { force: true });
+    this.save(this.getSubscriptions().filter((s) => s.id !== id));
+  }
+
+  /**
+   * Look for new videos now instead of waiting for the interval
+   */
+  async checkNow(id: string): Promise<Subscription | undefined> {
+    const subscription = this.getSubscriptions().find((s) => s.id === id);
+    if (!subscription) throw new Error("Subscription not found");
+    await this.check(subscription);
+    return this.getSubscriptions().find((s) => s.id === id);
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.checkDue(), TICK_INTERVAL);
+    this.checkDue();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private isDue(subscription: Subscription, now: number): boolean {
+    if (!subscription.enabled) return false;
+    if (!subscription.lastCheckedAt) return true;
+    const last = new Date(subscription.lastCheckedAt).getTime();
+    return now - last >= subscription.intervalMinutes * 60 * 1000;
+  }
+
+  /**
+   * Check due subscriptions one after another to keep yt-dlp load low
+   */
+  private async checkDue(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const now = Date.now();
+      for (const subscription of this.getSubscriptions()) {
+        if (this.isDue(subscription, now)) {
+          await this.check(subscription);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async check(subscription: Subscription): Promise<void> {
+    if (this.checking.has(subscription.id)) return;
+    this.checking.add(subscription.id);
+    this.emit("changed", this.getState());
+
+    const result: Partial<Subscription> = {};
+    try {
+      const info = await this.scan(subscription.url);
+      const archived = this.readArchive(subscription.id);
+      const queued = this.getQueuedUrls(subscription.id);
+      const fresh = (info.playlist?.videos || []).filter(
+        (entry) => !archived.has(entry.id) && !queued.has(entry.url),
+      );
+
+      result.title = info.title || subscription.title;
+      result.lastNewItems = await this.enqueue(subscription, info, fresh);
+      result.lastError = null;
+      if (fresh.length > 0) {
+        console.log(
+          `[Subscriptions] Queued ${fresh.length} new video(s) from ${result.title}`,
+        );
+      }
+    } catch (error) {
+      result.lastNewItems = 0;
+      result.lastError = error instanceof Error ? error.message : String(error);
+      console.error(
+        `[Subscriptions] Check failed for ${subscription.url}:`,
+        result.lastError,
+      );
+    } finally {
+      this.checking.delete(subscription.id);
+      // The subscription may have been edited or removed meanwhile
+      this.save(
+        this.getSubscriptions().map((s) =>
+          s.id === subscription.id
+            ? { ...s, ...result, lastCheckedAt: new Date().toISOString() }
+            : s,
+        ),
+      );
+    }
+  }
+
+  private async scan(url: string): Promise<VideoInfo> {
+    await networkPolicyService.assertAllowed(url, "yt-dlp");
+    const result = await this.scanner.getPlaylistMetadata(url);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || "Failed to read the channel");
+    }
+    if (!result.data.playlist?.videos.length) {
+      throw new Error("No videos found at this link");
+    }
+    return result.data;
+  }
+
+  /**
+   * Queue videos oldest first; yt-dlp adds each to the archive once done
+   */
+  private async enqueue(
+    subscription: Subscription,
+    info: VideoInfo,
+    entries: PlaylistVideoEntry[],
+  ): Promise<number> {
+    const outputPath = this.getOutputPath(subscription, info);
+    const archivePath = this.getArchivePath(subscription.id);
+    fs.mkdirSync(path.dirname(archivePath), { recursive: true });
+    let queued = 0;
+    for (const entry of [...entries].reverse()) {
+      const entryInfo = this.scanner.toEntryVideoInfo(entry, info);
+      const result = await videoDownloader.startDownload(entryInfo, {
+        url: entry.url,
+        outputPath,
+        quality: subscription.quality,
+        format: subscription.format,
+        audioOnly: subscription.audioOnly,
+        downloadArchive: archivePath,
+      });
+      if (result.success) queued++;
+    }
+    return queued;
+  }
+
+  private getOutputPath(subscription: Subscription, info: VideoInfo): string {
+    if (subscription.outputPath) return subscription.outputPath;
+    const folder = (info.title || subscription.title)
+      .replace(/[<>:"/\\|?*\x00-\x1f]/g, "_")
+      .trim()
+      .substring(0, 80);
+    return path.join(getDownloadSubPath("playlists"), folder);
+  }
+
+  /**
+   * URLs of this subscription still in the download list, so a video
+   * isn't queued twice before yt-dlp archives it
+   */
+  private getQueuedUrls(id: string): Set<string> {
+    const archivePath = this.getArchivePath(id);
+    return new Set(
+      videoDownloader
+        .getAllDownloads()
+        .filter(
+          (item) =>
+            item.options.downloadArchive === archivePath &&
+            item.status !== DownloadStatus.CANCELLED,
+        )
+        .map((item) => item.url),
+    );
+  }
+
+  private getArchivePath(id: string): string {
+    return path.join(app.getPath("userData"), "subscriptions", `${id}.txt`);
+  }
+
+  private readArchive(id: string): Set<string> {
+    try {
+      return parseArchive(fs.readFileSync(this.getArchivePath(id), "utf8"));
+    } catch {
+      return new Set();
+    }
+  }
+
+  private appendToArchive(
+    subscription: Subscription,
+    info: VideoInfo,
+    entries: PlaylistVideoEntry[],
+  ): void {
+    const archivePath = this.getArchivePath(subscription.id);
+    fs.mkdirSync(path.dirname(archivePath), { recursive: true });
+    // Same "<extractor> <id>" lines yt-dlp writes itself
+    const lines = entries.map(
+      (entry) =>
+        `${(entry.extractorKey || info.extractorKey || "generic").toLowerCase()} ${entry.id}\n`,
+    );
+    fs.appendFileSync(archivePath, lines.join(""));
+  }
+
+  private save(subscriptions: Subscription[]): void {
+    this.store.set("subscriptions", subscriptions);
+    this.emit("changed", this.getState());
+  }
+}
+
+export const subscriptionService = new SubscriptionService();
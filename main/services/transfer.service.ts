@@ -0,0 +1,446 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import {
+  DownloadItem,
+  DownloadOptions,
+  DownloadStatus,
+} from "./downloader/types";
+import { directDownloader } from "./downloader/direct/direct-download.service";
+import { detectLinkType } from "./downloader/direct/url-detection.service";
+import {
+  detectLinkListFormat,
+  parseLinkList,
+  splitCsvRow,
+} from "./downloader/direct/link-import.service";
+import { videoDownloader } from "./downloader/video/video-download.service";
+import {
+  historyService,
+  shareableOptions,
+  HistoryRecord,
+  SharedDownloadOptions,
+} from "./history.service";
+import { DownloadEngine } from "./job-store.service";
+import { settingsService } from "./settings.service";
+
+export type ExportFormat = "json" | "csv" | "urls";
+export type ExportScope = "history" | "queue" | "all";
+
+/**
+ * "restore" adds history records back, "enqueue" downloads the URLs again
+ */
+export type ImportMode = "restore" | "enqueue";
+
+/**
+ * A download from the list, with what's needed to start it again
+ */
+export interface QueueExportEntry {
+  url: string;
+  engine: DownloadEngine | null; // null = detect on import
+  filename: string | null;
+  status: DownloadStatus | null;
+  options: SharedDownloadOptions;
+}
+
+/**
+ * Contents of a JSON export
+ */
+export interface DownloadExport {
+  version: number;
+  exportedAt: string;
+  history: HistoryRecord[];
+  queue: QueueExportEntry[];
+}
+
+export interface ImportSummary {
+  restored: number; // History records added
+  queued: number; // Downloads started
+  skipped: number; // Already in history or the download list
+  errors: string[];
+}
+
+const EXPORT_VERSION = 1;
+const MAX_IMPORT_SIZE = 20 * 1024 * 1024;
+
+const CSV_COLUMNS = [
+  "source",
+  "id",
+  "url",
+  "engine",
+  "filename",
+  "type",
+  "status",
+  "size",
+  "date",
+  "path",
+  "options",
+] as const;
+
+// What's left in the list once a download is done with
+const FINISHED = [DownloadStatus.COMPLETED, DownloadStatus.CANCELLED];
+
+function csvCell(value: unknown): string {
+  const text =
+    value === undefined || value === null
+      ? ""
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function parseJsonCell<T>(value: string | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
+
+function engineForType(type: HistoryRecord["type"]): DownloadEngine {
+  return type === "file" ? "direct" : "video";
+}
+
+/**
+ * A path with symlinks resolved, as far as it exists
+ */
+function realPath(target: string): string {
+  try {
+    return fs.realpathSync(target);
+  } catch {
+    return path.resolve(target);
+  }
+}
+
+/**
+ * Folders from another machine, or outside the download folder, fall back
+ * to the default download folder; relative ones are subfolders of it
+ */
+function localOutputPath(outputPath?: string): string {
+  if (!outputPath) return "";
+  if (!path.isAbsolute(outputPath)) {
+    return outputPath
+      .split(/[\\/]+/)
+      .filter((segment) => segment && segment !== "." && segment !== "..")
+      .join(path.sep);
+  }
+  if (!fs.existsSync(outputPath)) return "";
+
+  // A shared file mustn't send downloads into ~/.ssh or a startup folder
+  const root = realPath(settingsService.getSettings().downloadPath);
+  const relative = path.relative(root, realPath(outputPath));
+  const inside =
+    !path.isAbsolute(relative) && relative.split(path.sep)[0] !== "..";
+  return inside ? outputPath : "";
+}
+
+/**
+ * A download in the list as an export entry
+ */
+export function toQueueEntry(
+  item: DownloadItem,
+  engine: DownloadEngine,
+): QueueExportEntry {
+  return {
+    url: item.url,
+    engine,
+    filename: item.filename || item.progress?.filename || null,
+    status: item.status,
+    options: shareableOptions(item.options),
+  };
+}
+
+/**
+ * Write an export as JSON, CSV (one row per record, "source" says which
+ * list it came from) or a plain list of URLs
+ */
+export function serializeExport(
+  data: DownloadExport,
+  format: ExportFormat,
+): string {
+  if (format === "json") return JSON.stringify(data, null, 2);
+
+  if (format === "urls") {
+    const urls = [
+      ...data.queue.map((entry) => entry.url),
+      ...data.history.map((record) => record.url),
+    ];
+    return Array.from(new Set(urls)).join("\n") + "\n";
+  }
+
+  const rows = [
+    ...data.queue.map((entry) => [
+      "queue",
+      "",
+      entry.url,
+      entry.engine,
+      entry.filename,
+      entry.engine === "direct"
+        ? "file"
+        : entry.options.audioOnly
+          ? "audio"
+          : "video",
+      entry.status,
+      "",
+      "",
+      entry.options.outputPath,
+      entry.options,
+    ]),
+    ...data.history.map((record) => [
+      "history",
+      record.id,
+      record.url,
+      engineForType(record.type),
+      record.filename,
+      record.type,
+      record.status,
+      record.size,
+      record.date,
+      record.path,
+      record.options,
+    ]),
+  ];
+  return (
+    [
+      CSV_COLUMNS.join(","),
+      ...rows.map((row) => row.map(csvCell).join(",")),
+    ].join("\n") + "\n"
+  );
+}
+
+function parseCsvExport(lines: string[]): DownloadExport {
+  const header = splitCsvRow(lines[0], ",");
+  const data: DownloadExport = {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    history: [],
+    queue: [],
+  };
+
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvRow(line, ",");
+    const row = Object.fromEntries(
+      header.map((column, i) => [column, cells[i] || ""]),
+    ) as Record<(typeof CSV_COLUMNS)[number], string>;
+    if (!row.url) continue;
+
+    const options = parseJsonCell<SharedDownloadOptions>(row.options, {
+      url: row.url,
+      outputPath: "",
+    });
+    if (row.source === "history") {
+      data.history.push({
+        id: row.id || randomUUID(),
+        url: row.url,
+        filename: row.filename || "unknown",
+        path: row.path,
+        size: Number(row.size) || 0,
+        status: (row.status || "completed") as HistoryRecord["status"],
+        date: row.date || new Date().toISOString(),
+        type: (row.type || "file") as HistoryRecord["type"],
+        options,
+      });
+    } else {
+      data.queue.push({
+        url: row.url,
+        engine: (row.engine as DownloadEngine) || null,
+        filename: row.filename || null,
+        status: (row.status as DownloadStatus) || null,
+        options,
+      });
+    }
+  }
+  return data;
+}
+
+/**
+ * Read a JSON or CSV export; anything else is read as a link list (URLs,
+ * bookmarks, aria2 input) whose entries can only be enqueued
+ */
+export function parseExport(content: string, filename: string): DownloadExport {
+  const text = content.replace(/^\uFEFF/, "");
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith("{")) {
+    let parsed: Partial<DownloadExport>;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error("The file is not valid JSON");
+    }
+    if (!Array.isArray(parsed.history) && !Array.isArray(parsed.queue)) {
+      throw new Error("The file is not a download export");
+    }
+    return {
+      version: parsed.version || EXPORT_VERSION,
+      exportedAt: parsed.exportedAt || new Date().toISOString(),
+      history: (parsed.history || []).filter((r) => r?.id && r?.url),
+      queue: (parsed.queue || []).filter((e) => e?.url),
+    };
+  }
+
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  const header = lines.length > 0 ? splitCsvRow(lines[0], ",") : [];
+  if (header[0] === "source" && header.includes("url")) {
+    return parseCsvExport(lines);
+  }
+
+  const links = parseLinkList(text, detectLinkListFormat(filename, text));
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    history: [],
+    queue: links.map((link) => ({
+      url: link.url,
+      engine: null,
+      filename: link.filename,
+      status: null,
+      options: {
+        url: link.url,
+        outputPath: link.subfolder || "",
+        filename: link.filename || undefined,
+        referer: link.referer || undefined,
+        mirrors: link.mirrors.length > 0 ? link.mirrors : undefined,
+      },
+    })),
+  };
+}
+
+/**
+ * Moves history and the download list in and out of files, so batches can
+ * be shared and carried to another machine
+ */
+class TransferService {
+  /**
+   * History and/or the unfinished downloads, as of now
+   */
+  async collect(scope: ExportScope): Promise<DownloadExport> {
+    const queue =
+      scope === "history"
+        ? []
+        : [
+            ...directDownloader
+              .getAllDownloads()
+              .map((item) => toQueueEntry(item, "direct")),
+            ...videoDownloader
+              .getAllDownloads()
+              .map((item) => toQueueEntry(item, "video")),
+          ].filter((entry) => !FINISHED.includes(entry.status!));
+
+    return {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      history: scope === "queue" ? [] : await historyService.getAllRecords(),
+      queue,
+    };
+  }
+
+  async exportToFile(
+    filePath: string,
+    format: ExportFormat,
+    scope: ExportScope,
+  ): Promise<void> {
+    const content = serializeExport(await this.collect(scope), format);
+    await fs.promises.writeFile(filePath, content, "utf8");
+  }
+
+  async importFromFile(
+    filePath: string,
+    mode: ImportMode,
+  ): Promise<ImportSummary> {
+    const { size } = await fs.promises.stat(filePath);
+    if (size > MAX_IMPORT_SIZE) {
+      throw new Error("The file is too large to import");
+    }
+    const content = await fs.promises.readFile(filePath, "utf8");
+    const data = parseExport(content, path.basename(filePath));
+
+    if (mode === "restore") {
+      if (data.history.length === 0) {
+        throw new Error("The file has no history records to restore");
+      }
+      const restored = await historyService.restoreRecords(data.history);
+      return {
+        restored,
+        queued: 0,
+        skipped: data.history.length - restored,
+        errors: [],
+      };
+    }
+    return this.enqueue([
+      ...data.queue,
+      ...data.history.map((record) => ({
+        url: record.url,
+        engine: engineForType(record.type),
+        filename: record.filename,
+        status: null,
+        options: record.options || {
+          url: record.url,
+          outputPath: "",
+          audioOnly: record.type === "audio",
+        },
+      })),
+    ]);
+  }
+
+  /**
+   * Start each entry with its options; URLs already in the list are skipped
+   */
+  private async enqueue(entries: QueueExportEntry[]): Promise<ImportSummary> {
+    const summary: ImportSummary = {
+      restored: 0,
+      queued: 0,
+      skipped: 0,
+      errors: [],
+    };
+    const inList = new Set(
+      [
+        ...directDownloader.getAllDownloads(),
+        ...videoDownloader.getAllDownloads(),
+      ]
+        .filter((item) => !FINISHED.includes(item.status))
+        .map((item) => item.url),
+    );
+
+    for (const entry of entries) {
+      if (inList.has(entry.url)) {
+        summary.skipped++;
+        continue;
+      }
+      inList.add(entry.url);
+
+      // A shared file may carry anything, so drop secrets and keep names
+      // inside the target folder
+      const { filename, outputPath } = entry.options;
+      const options: DownloadOptions = {
+        ...shareableOptions(entry.options as DownloadOptions),
+        url: entry.url,
+        outputPath: localOutputPath(outputPath),
+        filename: filename
+          ? path.basename(filename.replace(/\\/g, "/"))
+          : undefined,
+      };
+      try {
+        const engine =
+          entry.engine ||
+          ((await detectLinkType(entry.url, "auto")).isDirect
+            ? "direct"
+            : "video");
+        const result =
+          engine === "direct"
+            ? await directDownloader.startDownload(options)
+            : await videoDownloader.startDownload(null, options);
+        if (!result.success) throw new Error(result.error || "Download failed");
+        summary.queued++;
+      } catch (error) {
+        summary.errors.push(
+          `${entry.url}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return summary;
+  }
+}
+
+export const transferService = new TransferService();
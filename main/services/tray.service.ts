@@ -0,0 +1,225 @@
+import path from "path";
+import { app, BrowserWindow, dialog, Menu, nativeImage, Tray } from "electron";
+import { DownloadItem } from "./downloader/types";
+import { directDownloader } from "./downloader/direct";
+import { videoDownloader } from "./downloader/video";
+import { queueService, RUNNING_STATUSES } from "./queue.service";
+
+const REFRESH_INTERVAL = 1000;
+
+/**
+ * What the tray shows about the running downloads
+ */
+export interface TrayStats {
+  active: number;
+  speed: number; // Bytes per second, all active downloads combined
+}
+
+export function getTrayStats(items: DownloadItem[]): TrayStats {
+  const running = items.filter((item) =>
+    RUNNING_STATUSES.includes(item.status),
+  );
+  return {
+    active: running.length,
+    speed: running.reduce((sum, item) => sum + (item.progress.speed || 0), 0),
+  };
+}
+
+function formatSpeed(bytesPerSecond: number): string {
+  const sizes = ["B/s", "KB/s", "MB/s", "GB/s"];
+  let value = bytesPerSecond;
+  let i = 0;
+  while (value >= 1024 && i < sizes.length - 1) {
+    value /= 1024;
+    i++;
+  }
+  return `${i === 0 ? value : value.toFixed(1)} ${sizes[i]}`;
+}
+
+/**
+ * One-line summary used as the tooltip and the menu's status row
+ */
+export function formatTrayStatus(stats: TrayStats): string {
+  if (stats.active === 0) return "No active downloads";
+  const count = `${stats.active} download${stats.active === 1 ? "" : "s"}`;
+  return `${count} · ${formatSpeed(stats.speed)}`;
+}
+
+/**
+ * Keeps the app running in the system tray so closing the window doesn't
+ * stop aria2 and yt-dlp, and guards quitting while downloads are running
+ */
+class TrayService {
+  private tray: Tray | null = null;
+  private window: BrowserWindow | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private quitting = false;
+  private quitConfirmed = false;
+  private confirmingQuit = false;
+  private lastStatus = "";
+
+  init(window: BrowserWindow): void {
+    if (this.window) return;
+    this.window = window;
+    this.tray = this.createTray();
+
+    window.on("close", (event) => {
+      if (this.quitting) return;
+      event.preventDefault();
+      // Without a tray a hidden window could never come back
+      if (this.tray) {
+        window.hide();
+      } else {
+        app.quit();
+      }
+    });
+
+    if (!this.tray) return;
+    this.tray.on("click", () => this.showWindow());
+    this.refresh();
+    this.timer = setInterval(() => this.refresh(), REFRESH_INTERVAL);
+  }
+
+  /**
+   * Whether closing the window leaves the app running in the tray
+   */
+  hasTray(): boolean {
+    return !!this.tray;
+  }
+
+  /**
+   * Gate for every way of quitting (menu, Cmd+Q, scheduler, tray)
+   * True once the app may exit; otherwise the quit is held while the user
+   * is asked about running downloads, and retried if they agree
+   */
+  shouldQuit(): boolean {
+    if (this.quitConfirmed || this.getStats().active === 0) {
+      this.quitConfirmed = true;
+      return true;
+    }
+    if (!this.confirmingQuit) {
+      this.confirmingQuit = true;
+      this.askToQuit()
+        .then((confirmed) => {
+          if (!confirmed) return;
+          this.quitConfirmed = true;
+          app.quit();
+        })
+        .catch((error) => console.error("[Tray] Quit prompt failed:", error))
+        .finally(() => {
+          this.confirmingQuit = false;
+        });
+    }
+    return false;
+  }
+
+  /**
+   * Bring the hidden or minimized window back
+   */
+  showWindow(): void {
+    const window = this.window;
+    if (!window || window.isDestroyed()) return;
+    if (window.isMinimized()) window.restore();
+    window.show();
+    window.focus();
+  }
+
+  /**
+   * Let the window close for real; called once the app is quitting
+   */
+  destroy(): void {
+    this.quitting = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.tray?.destroy();
+    this.tray = null;
+  }
+
+  private getIcon(): Electron.NativeImage {
+    // The renderer's public folder is exported into app/ when packaged
+    const iconPath = app.isPackaged
+      ? path.join(app.getAppPath(), "app/images/logo.png")
+      : path.join(app.getAppPath(), "renderer/public/images/logo.png");
+    return nativeImage
+      .createFromPath(iconPath)
+      .resize({ width: 16, height: 16 });
+  }
+
+  private getStats(): TrayStats {
+    return getTrayStats([
+      ...directDownloader.getAllDownloads(),
+      ...videoDownloader.getAllDownloads(),
+    ]);
+  }
+
+  private refresh(): void {
+    if (!this.tray) return;
+    const status = formatTrayStatus(this.getStats());
+    // Rebuilding an open menu closes it on some platforms
+    if (status === this.lastStatus) return;
+    this.lastStatus = status;
+
+    this.tray.setToolTip(`RemixDM - ${status}`);
+    this.tray.setContextMenu(
+      Menu.buildFromTemplate([
+        { label: status, enabled: false },
+        { type: "separator" },
+        { label: "Open RemixDM", click: () => this.showWindow() },
+        {
+          label: "Pause All",
+          click: () => {
+            queueService
+              .pauseAll()
+              .catch((error) =>
+                console.error("[Tray] Failed to pause downloads:", error),
+              );
+          },
+        },
+        {
+          label: "Resume All",
+          click: () => {
+            queueService
+              .resumeAll()
+              .catch((error) =>
+                console.error("[Tray] Failed to resume downloads:", error),
+              );
+          },
+        },
+        { type: "separator" },
+        { label: "Quit", click: () => app.quit() },
+      ]),
+    );
+  }
+
+  /**
+   * Ask before quitting would stop running downloads
+   */
+  private async askToQuit(): Promise<boolean> {
+    const { active } = this.getStats();
+    const { response } = await dialog.showMessageBox({
+      type: "warning",
+      buttons: ["Quit", "Cancel"],
+      defaultId: 1,
+      cancelId: 1,
+      title: "Quit RemixDM",
+      message: `${active} download${active === 1 ? " is" : "s are"} still running.`,
+      detail: "Quitting will stop them.",
+    });
+    return response === 0;
+  }
+
+  private createTray(): Tray | null {
+    try {
+      const icon = this.getIcon();
+      if (icon.isEmpty()) throw new Error("Tray icon not found");
+      return new Tray(icon);
+    } catch (error) {
+      console.warn("[Tray] No system tray, closing the window quits:", error);
+      return null;
+    }
+  }
+}
+
+export const trayService = new TrayService();
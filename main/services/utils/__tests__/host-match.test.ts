@@ -0,0 +1,31 @@
+import { matchHost, normalizeHost } from "../host-match";
+
+describe("HostMatch", () => {
+  describe("normalizeHost", () => {
+    it("should reduce URLs and wildcards to a host key", () => {
+      expect(normalizeHost("https://Files.Example.com/pub/")).toBe(
+        "files.example.com",
+      );
+      expect(normalizeHost("example.com:2121")).toBe("example.com:2121");
+      expect(normalizeHost("*.example.com")).toBe("*.example.com");
+      expect(normalizeHost("  ")).toBeNull();
+    });
+  });
+
+  describe("matchHost", () => {
+    const entries = [
+      { id: "1", host: "example.com", username: "a" },
+      { id: "2", host: "example.com:2121", username: "b" },
+      { id: "3", host: "*.example.com", username: "c" },
+      { id: "4", host: "*.cdn.example.com", username: "d" },
+    ];
+
+    it("should prefer host:port, then host, then the closest wildcard", () => {
+      expect(matchHost(entries, "ftp://example.com:2121/a")?.id).toBe("2");
+      expect(matchHost(entries, "https://example.com/a")?.id).toBe("1");
+      expect(matchHost(entries, "https://eu.cdn.example.com/a")?.id).toBe("4");
+      expect(matchHost(entries, "sftp://files.example.com/a")?.id).toBe("3");
+      expect(matchHost(entries, "https://example.org/a")).toBeNull();
+    });
+  });
+});
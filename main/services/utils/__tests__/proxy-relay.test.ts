@@ -0,0 +1,99 @@
+import * as net from "net";
+import { AddressInfo } from "net";
+import { startProxyRelay, ProxyRelay } from "../proxy-relay";
+
+const listen = async (server: net.Server) => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return (server.address() as AddressInfo).port;
+};
+
+// Send a CONNECT to the relay; resolves with the reply head and the socket
+const connect = (port: number, target: string, authorization?: string) =>
+  new Promise<{ head: string; socket: net.Socket }>((resolve, reject) => {
+    const socket = net.connect(port, "127.0.0.1", () => {
+      socket.write(
+        `CONNECT ${target} HTTP/1.1\r\nHost: ${target}\r\n` +
+          (authorization ? `Proxy-Authorization: ${authorization}\r\n` : "") +
+          "\r\n",
+      );
+    });
+    socket.once("data", (data) => resolve({ head: data.toString(), socket }));
+    socket.once("error", reject);
+  });
+
+describe("ProxyRelay", () => {
+  let echo: net.Server;
+  let socks: net.Server;
+  let relay: ProxyRelay;
+  let echoPort: number;
+  let requested = "";
+
+  beforeAll(async () => {
+    echo = net.createServer((socket) => socket.pipe(socket));
+    echoPort = await listen(echo);
+
+    // Just enough SOCKS5 to accept one CONNECT by name
+    socks = net.createServer((socket) => {
+      socket.once("data", () => {
+        socket.write(Buffer.from([5, 0]));
+        socket.once("data", (request) => {
+          const length = request[4];
+          requested = `${request.subarray(5, 5 + length)}:${request.readUInt16BE(5 + length)}`;
+          const target = net.connect(echoPort, "127.0.0.1", () => {
+            socket.write(Buffer.from([5, 0, 0, 1, 0, 0, 0, 0, 0, 0]));
+            socket.pipe(target).pipe(socket);
+          });
+        });
+      });
+    });
+    const socksPort = await listen(socks);
+    relay = await startProxyRelay(new URL(`socks5://127.0.0.1:${socksPort}`));
+  });
+
+  afterAll(async () => {
+    await relay.close();
+    await new Promise((resolve) => socks.close(resolve));
+    await new Promise((resolve) => echo.close(resolve));
+  });
+
+  const authorization = () =>
+    `Basic ${Buffer.from(
+      `${relay.url.username}:${relay.url.password}`,
+    ).toString("base64")}`;
+
+  it("should tunnel a CONNECT through the SOCKS5 proxy", async () => {
+    const { head, socket } = await connect(
+      Number(relay.url.port),
+      `example.com:${echoPort}`,
+      authorization(),
+    );
+    expect(head).toBe("HTTP/1.1 200 Connection Established\r\n\r\n");
+    expect(requested).toBe(`example.com:${echoPort}`);
+
+    socket.write("ping");
+    const reply = await new Promise<string>((resolve) =>
+      socket.once("data", (data) => resolve(data.toString())),
+    );
+    socket.destroy();
+    expect(reply).toBe("ping");
+  });
+
+  it("should refuse clients without the relay's login", async () => {
+    const { head, socket } = await connect(
+      Number(relay.url.port),
+      "example.com:443",
+    );
+    socket.destroy();
+    expect(head).toMatch(/^HTTP\/1\.1 407 /);
+  });
+
+  it("should refuse malformed targets", async () => {
+    const { head, socket } = await connect(
+      Number(relay.url.port),
+      "example.com",
+      authorization(),
+    );
+    socket.destroy();
+    expect(head).toMatch(/^HTTP\/1\.1 400 /);
+  });
+});
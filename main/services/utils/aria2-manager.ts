@@ -231,6 +231,14 @@ export async function startAria2Daemon(): Promise<void> {
     "--console-log-level=warn",
     "--summary-interval=0", // Disable auto-save to avoid disk lock intervals
 
+    // BitTorrent (magnets need DHT to find peers without trackers)
+    "--enable-dht=true",
+    "--enable-peer-exchange=true",
+    "--bt-enable-lpd=true",
+    `--dht-file-path=${path.join(path.dirname(sessionPath), "dht.dat")}`,
+    `--seed-ratio=${settingsService.getSettings().seedRatio}`,
+    `--seed-time=${settingsService.getSettings().seedTime}`,
+
     // DNS
     "--async-dns=true", // Use asynchronous DNS resolution
     "--disable-ipv6=true", // Force IPv4 globally to avoid unreachable network errors
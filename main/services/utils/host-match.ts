@@ -0,0 +1,57 @@
+/**
+ * Host Match
+ * Host keys ("example.com", "example.com:2121", "*.example.com") shared by
+ * per-host settings such as saved logins and proxy rules
+ */
+
+/**
+ * Turn user input ("https://Example.com/path", "*.example.com") into a host key
+ */
+export function normalizeHost(input: string): string | null {
+  const value = (input || "").trim().toLowerCase();
+  if (!value) return null;
+
+  const wildcard = value.startsWith("*.");
+  const bare = wildcard ? value.slice(2) : value;
+  try {
+    const url = new URL(
+      /^[a-z][a-z0-9+.-]*:\/\//.test(bare) ? bare : `http://${bare}`,
+    );
+    if (!url.hostname) return null;
+    if (wildcard) return `*.${url.hostname}`;
+    return url.port ? `${url.hostname}:${url.port}` : url.hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pick the entry for a URL: host:port first, then the host,
+ * then the most specific *.domain wildcard
+ */
+export function matchHost<T extends { host: string }>(
+  entries: T[],
+  url: string,
+): T | null {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return null;
+  }
+  const hostname = urlObj.hostname.toLowerCase();
+  const byHost = new Map(entries.map((entry) => [entry.host, entry]));
+
+  if (urlObj.port) {
+    const withPort = byHost.get(`${hostname}:${urlObj.port}`);
+    if (withPort) return withPort;
+  }
+  if (byHost.has(hostname)) return byHost.get(hostname)!;
+
+  const labels = hostname.split(".");
+  for (let i = 1; i < labels.length - 1; i++) {
+    const wildcard = byHost.get(`*.${labels.slice(i).join(".")}`);
+    if (wildcard) return wildcard;
+  }
+  return null;
+}
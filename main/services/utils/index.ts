@@ -5,4 +5,7 @@
 
 export * from "./binary-manager";
 export * from "./file-utils";
+export * from "./host-match";
+export * from "./proxy-agent";
+export * from "./proxy-relay";
 export * from "./aria2-manager";
@@ -0,0 +1,286 @@
+/**
+ * Proxy Agent
+ * Sends Node http/https requests through HTTP(S) or SOCKS5 proxies
+ * using plain proxy requests, HTTP CONNECT tunnels or a SOCKS5 handshake
+ */
+
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as tls from "tls";
+import { Duplex } from "stream";
+
+const PROXY_TIMEOUT = 10000;
+
+export function isSocksProxy(proxy: URL): boolean {
+  return proxy.protocol.startsWith("socks");
+}
+
+function getProxyPort(proxy: URL): number {
+  if (proxy.port) return Number(proxy.port);
+  if (isSocksProxy(proxy)) return 1080;
+  return proxy.protocol === "https:" ? 443 : 80;
+}
+
+function getProxyAuthorization(proxy: URL): string | undefined {
+  if (!proxy.username) return undefined;
+  const login = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return `Basic ${Buffer.from(login).toString("base64")}`;
+}
+
+/**
+ * Await exact byte counts from a socket during a handshake
+ */
+function createReader(socket: net.Socket) {
+  let buffered = Buffer.alloc(0);
+  let pending: {
+    size: number;
+    resolve: (chunk: Buffer) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  const flush = () => {
+    if (pending && buffered.length >= pending.size) {
+      const chunk = buffered.subarray(0, pending.size);
+      buffered = buffered.subarray(pending.size);
+      const { resolve } = pending;
+      pending = null;
+      resolve(chunk);
+    }
+  };
+  const onData = (data: Buffer) => {
+    buffered = Buffer.concat([buffered, data]);
+    flush();
+  };
+  const onError = (error: Error) => {
+    pending?.reject(error);
+    pending = null;
+  };
+  const onClose = () => onError(new Error("Proxy closed the connection"));
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  return {
+    read: (size: number) =>
+      new Promise<Buffer>((resolve, reject) => {
+        pending = { size, resolve, reject };
+        flush();
+      }),
+    // Hand the socket back, returning any bytes read past the handshake
+    release: () => {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+      return buffered;
+    },
+  };
+}
+
+async function httpConnect(
+  socket: net.Socket,
+  reader: ReturnType<typeof createReader>,
+  proxy: URL,
+  host: string,
+  port: number,
+): Promise<void> {
+  const target = `${net.isIPv6(host) ? `[${host}]` : host}:${port}`;
+  const authorization = getProxyAuthorization(proxy);
+  socket.write(
+    `CONNECT ${target} HTTP/1.1\r\nHost: ${target}\r\n` +
+      (authorization ? `Proxy-Authorization: ${authorization}\r\n` : "") +
+      "\r\n",
+  );
+
+  let head = "";
+  while (!head.endsWith("\r\n\r\n")) {
+    head += (await reader.read(1)).toString("latin1");
+    if (head.length > 16 * 1024) throw new Error("Invalid proxy response");
+  }
+
+  const status = parseInt(head.split(" ")[1], 10);
+  if (status === 407) throw new Error("Proxy authentication required");
+  if (!(status >= 200 && status < 300)) {
+    throw new Error(`Proxy refused the connection (HTTP ${status || "?"})`);
+  }
+}
+
+async function socks5Connect(
+  socket: net.Socket,
+  reader: ReturnType<typeof createReader>,
+  proxy: URL,
+  host: string,
+  port: number,
+): Promise<void> {
+  if (proxy.protocol !== "socks5:" && proxy.protocol !== "socks5h:") {
+    throw new Error("Only SOCKS5 proxies are supported");
+  }
+
+  const hasLogin = !!proxy.username;
+  socket.write(Buffer.from(hasLogin ? [5, 2, 0, 2] : [5, 1, 0]));
+  const [version, method] = await reader.read(2);
+  if (version !== 5 || method === 0xff) {
+    throw new Error("SOCKS5 proxy rejected the authentication method");
+  }
+
+  if (method === 2) {
+    const username = Buffer.from(decodeURIComponent(proxy.username));
+    const password = Buffer.from(decodeURIComponent(proxy.password));
+    socket.write(
+      Buffer.concat([
+        Buffer.from([1, username.length]),
+        username,
+        Buffer.from([password.length]),
+        password,
+      ]),
+    );
+    const [, status] = await reader.read(2);
+    if (status !== 0) throw new Error("SOCKS5 authentication failed");
+  }
+
+  // Always send the name so DNS is resolved by the proxy
+  const name = Buffer.from(host);
+  socket.write(
+    Buffer.concat([
+      Buffer.from([5, 1, 0, 3, name.length]),
+      name,
+      Buffer.from([port >> 8, port & 0xff]),
+    ]),
+  );
+  const [, reply, , addressType] = await reader.read(4);
+  if (reply !== 0) {
+    throw new Error(`SOCKS5 proxy could not connect (code ${reply})`);
+  }
+  const addressLength =
+    addressType === 1 ? 4 : addressType === 4 ? 16 : (await reader.read(1))[0];
+  await reader.read(addressLength + 2);
+}
+
+/**
+ * Open a raw connection to host:port through the proxy
+ */
+export async function openTunnel(
+  proxy: URL,
+  host: string,
+  port: number,
+): Promise<net.Socket> {
+  const proxyHost = proxy.hostname.replace(/^\[|\]$/g, "");
+  const socket: net.Socket =
+    proxy.protocol === "https:"
+      ? tls.connect({
+          host: proxyHost,
+          port: getProxyPort(proxy),
+          servername: proxyHost,
+        })
+      : net.connect({ host: proxyHost, port: getProxyPort(proxy) });
+  socket.setTimeout(PROXY_TIMEOUT, () =>
+    socket.destroy(new Error("Proxy timeout")),
+  );
+
+  const reader = createReader(socket);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      socket.once(
+        proxy.protocol === "https:" ? "secureConnect" : "connect",
+        resolve,
+      );
+      socket.once("error", reject);
+    });
+
+    if (isSocksProxy(proxy)) {
+      await socks5Connect(socket, reader, proxy, host, port);
+    } else {
+      await httpConnect(socket, reader, proxy, host, port);
+    }
+
+    const leftover = reader.release();
+    if (leftover.length > 0) socket.unshift(leftover);
+    socket.setTimeout(0);
+    return socket;
+  } catch (error) {
+    reader.release();
+    socket.destroy();
+    throw error;
+  }
+}
+
+/**
+ * Agent whose connections are tunnelled through the proxy
+ */
+function createTunnelAgent(proxy: URL, secure: boolean): http.Agent {
+  const agent = secure ? new https.Agent() : new http.Agent();
+  agent.createConnection = (
+    options: https.RequestOptions,
+    callback: (err: Error | null, stream: Duplex) => void,
+  ) => {
+    const host = (options.hostname || options.host || "").replace(
+      /^\[|\]$/g,
+      "",
+    );
+    const port = Number(options.port) || (secure ? 443 : 80);
+
+    openTunnel(proxy, host, port).then(
+      (socket) => {
+        if (!secure) return callback(null, socket);
+        callback(
+          null,
+          tls.connect({
+            socket,
+            servername: options.servername || host,
+            rejectUnauthorized: options.rejectUnauthorized,
+          }),
+        );
+      },
+      (error) => callback(error, null as unknown as Duplex),
+    );
+    return undefined;
+  };
+  return agent;
+}
+
+/**
+ * Module and request options that send a request for `url` through `proxy`
+ * (null = direct); `options` carries method, headers, timeout and so on
+ */
+export function getProxiedRequest(
+  url: URL,
+  options: https.RequestOptions,
+  proxy: URL | null,
+): { protocol: typeof http | typeof https; options: https.RequestOptions } {
+  const secure = url.protocol === "https:";
+  const direct = {
+    ...options,
+    hostname: url.hostname,
+    port: url.port || (secure ? 443 : 80),
+    path: url.pathname + url.search,
+  };
+
+  if (!proxy) {
+    return { protocol: secure ? https : http, options: direct };
+  }
+
+  // Plain HTTP through an HTTP proxy: ask the proxy for the absolute URL
+  if (!secure && !isSocksProxy(proxy)) {
+    const authorization = getProxyAuthorization(proxy);
+    return {
+      protocol: proxy.protocol === "https:" ? https : http,
+      options: {
+        ...options,
+        hostname: proxy.hostname,
+        port: getProxyPort(proxy),
+        path: `${url.protocol}//${url.host}${url.pathname}${url.search}`,
+        headers: {
+          ...options.headers,
+          Host: url.host,
+          ...(authorization && { "Proxy-Authorization": authorization }),
+        },
+      },
+    };
+  }
+
+  return {
+    protocol: secure ? https : http,
+    options: { ...direct, agent: createTunnelAgent(proxy, secure) },
+  };
+}
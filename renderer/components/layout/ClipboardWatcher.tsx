@@ -0,0 +1,63 @@
+import { useEffect } from "react";
+import { useRouter } from "next/router";
+import { addToast, closeToast, Button } from "@heroui/react";
+import { ClipboardLink } from "../../types/clipboard";
+
+const PROMPT_TIMEOUT = 10000;
+
+/**
+ * Offers links picked up by the clipboard monitor as a toast
+ */
+const ClipboardWatcher = () => {
+  const router = useRouter();
+
+  useEffect(() => {
+    const unsubscribe = window.ipc.on("clipboard:link", (data) => {
+      const link = data as ClipboardLink;
+      let key: string | null = null;
+
+      const handleDownload = async () => {
+        if (key) closeToast(key);
+        const result = await window.ipc.invoke("clipboard:download", link.url);
+        addToast(
+          result.success
+            ? { title: "Download started", color: "success" }
+            : {
+                title: "Download failed",
+                description: result.error,
+                color: "danger",
+              },
+        );
+      };
+
+      const handleSendToMulti = () => {
+        if (key) closeToast(key);
+        router.push({ pathname: "/multi", query: { links: link.url } });
+      };
+
+      key = addToast({
+        title: link.kind === "video" ? "Video link copied" : "File link copied",
+        description: link.filename || link.url,
+        timeout: PROMPT_TIMEOUT,
+        shouldShowTimeoutProgress: true,
+        classNames: { description: "truncate max-w-64" },
+        endContent: (
+          <div className="flex flex-col gap-1">
+            <Button size="sm" color="primary" onPress={handleDownload}>
+              Download
+            </Button>
+            <Button size="sm" variant="flat" onPress={handleSendToMulti}>
+              Multi Links
+            </Button>
+          </div>
+        ),
+      });
+    });
+
+    return unsubscribe;
+  }, [router]);
+
+  return null;
+};
+
+export default ClipboardWatcher;
@@ -1,5 +1,6 @@
 import Sidebar from "./Sidebar";
 import Topbar from "./Topbar";
+import ClipboardWatcher from "./ClipboardWatcher";
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -9,6 +10,7 @@ const MainLayout = ({ children }: MainLayoutProps) => {
   return (
     <div>
       <Topbar />
+      <ClipboardWatcher />
       <div className="grid grid-cols-[100px_1fr] h-[calc(100vh-3.5rem)] w-full overflow-hidden bg-background font-sans text-foreground">
         {/* Sidebar */}
         <Sidebar />
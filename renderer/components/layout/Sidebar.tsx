@@ -7,6 +7,7 @@ import {
   History,
   Settings,
   Home,
+  Rss,
 } from "lucide-react";
 import { APP_CONFIG } from "../../config/app-config";
 import Image from "next/image";
@@ -20,6 +21,7 @@ const Sidebar = () => {
     { label: "Quick DL", icon: Home, path: "/home" },
     { label: "Playlist", icon: ListMusic, path: "/playlist" },
     { label: "Multiple", icon: Layers, path: "/multi" },
+    { label: "Subscriptions", icon: Rss, path: "/subscriptions" },
     { label: "Downloads", icon: Download, path: "/downloads" },
     { label: "History", icon: History, path: "/history" },
   ];
@@ -37,6 +37,7 @@ const Topbar = () => {
       "/home": "Quick Download",
       "/playlist": "Playlist & Channel",
       "/multi": "Multiple Links",
+      "/subscriptions": "Subscriptions",
       "/downloads": "Downloads Manager",
       "/history": "Download History",
       "/settings": "Settings & Preferences",
@@ -1,7 +1,42 @@
-import { Card, CardBody, Progress, Button, Chip } from "@heroui/react";
-import { Pause, Play, X, Zap, Clock, FolderOpen } from "lucide-react";
+import {
+  Card,
+  CardBody,
+  Progress,
+  Button,
+  Chip,
+  Dropdown,
+  DropdownItem,
+  DropdownMenu,
+  DropdownTrigger,
+} from "@heroui/react";
+import {
+  Pause,
+  Play,
+  X,
+  Zap,
+  Clock,
+  FolderOpen,
+  CalendarClock,
+  Gauge,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldQuestion,
+  Users,
+  Upload,
+  ListChecks,
+  CircleStop,
+  Server,
+  Cookie,
+  Scissors,
+} from "lucide-react";
 import { DownloadStatus, DownloadItem } from "../../../types/download";
-import { formatBytes } from "../../../utils/formatters";
+import { CookieProfile } from "../../../types/cookies";
+import {
+  formatBytes,
+  formatDuration,
+  formatSpeedLimit,
+  parseRateLimit,
+} from "../../../utils/formatters";
 import { getFileIcon } from "../../../utils/file-icons";
 import {
   getStatusColor,
@@ -14,6 +49,19 @@ import {
 } from "../../../utils/status-utils";
 import Image from "next/image";
 
+const SPEED_PRESETS = [0, 256, 512, 1024, 2048, 5120].map((kb) => kb * 1024);
+
+const formatTimestamp = (seconds: number) =>
+  seconds > 0 ? formatDuration(seconds) : "0:00";
+
+const getSourceHost = (uri: string) => {
+  try {
+    return new URL(uri).host;
+  } catch {
+    return uri;
+  }
+};
+
 interface DownloadCardProps {
   item: DownloadItem;
   onPause: (id: string) => void;
@@ -21,6 +69,13 @@ interface DownloadCardProps {
   onCancel: (id: string) => void;
   onOpenLocation: (path: string) => void;
   onOpenFile: (path: string) => void;
+  isScheduled?: boolean;
+  onToggleSchedule?: (id: string) => void;
+  onSetSpeedLimit?: (id: string, limit: number) => void;
+  onSelectFiles?: (id: string, indexes: number[]) => void;
+  onStopSeeding?: (id: string) => void;
+  cookieProfiles?: CookieProfile[];
+  onRetryWithCookies?: (id: string, profileId: string) => void;
 }
 
 export const DownloadCard = ({
@@ -30,11 +85,27 @@ export const DownloadCard = ({
   onCancel,
   onOpenLocation,
   onOpenFile,
+  isScheduled,
+  onToggleSchedule,
+  onSetSpeedLimit,
+  onSelectFiles,
+  onStopSeeding,
+  cookieProfiles = [],
+  onRetryWithCookies,
 }: DownloadCardProps) => {
   const isActive = isActiveStatus(item.status);
   const isPausable = isPausableStatus(item.status);
   const isResumable = isResumableStatus(item.status);
   const isCancellable = isCancellableStatus(item.status);
+  const speedLimit = parseRateLimit(item.options?.rateLimit);
+  const torrent = item.torrent;
+  const isSeeding = !!torrent?.seeding;
+  const sources = item.sources || [];
+  const healthySources = sources.filter((s) => s.status !== "failed").length;
+  const removedSegments = item.removedSegments || [];
+  const selectedFiles = (torrent?.files || [])
+    .filter((file) => file.selected)
+    .map((file) => file.index.toString());
 
   const fullPath =
     item.outputPath && item.filename
@@ -90,6 +161,13 @@ export const DownloadCard = ({
                     <span className="text-default-300">|</span>
                   </>
                 )}
+                {isSeeding && (
+                  <>
+                    <Upload size={12} className="text-success" />
+                    <span>{formatBytes(item.progress.uploadSpeed || 0)}/s</span>
+                    <span className="text-default-300">|</span>
+                  </>
+                )}
                 {item.progress.etaString && isActive && (
                   <>
                     <Clock size={12} />
@@ -134,6 +212,154 @@ export const DownloadCard = ({
                   {isActive && ` ${Math.round(item.progress.progress)}%`}
                 </Chip>
 
+                {speedLimit > 0 && isCancellable && (
+                  <Chip
+                    size="sm"
+                    variant="flat"
+                    startContent={<Gauge size={12} />}
+                  >
+                    {formatSpeedLimit(speedLimit)}
+                  </Chip>
+                )}
+
+                {torrent && (isActive || isSeeding) && (
+                  <Chip
+                    size="sm"
+                    variant="flat"
+                    startContent={<Users size={12} />}
+                    title="Seeders / connected peers"
+                  >
+                    {item.progress.seeders || 0} / {item.progress.peers || 0}
+                  </Chip>
+                )}
+
+                {isSeeding && (
+                  <Chip
+                    size="sm"
+                    variant="flat"
+                    color="success"
+                    startContent={<Upload size={12} />}
+                    title="Uploaded"
+                  >
+                    Seeding · {formatBytes(item.progress.uploadedBytes || 0)}
+                  </Chip>
+                )}
+
+                {sources.length > 1 && (
+                  <Dropdown>
+                    <DropdownTrigger>
+                      <Button
+                        size="sm"
+                        variant="flat"
+                        color={
+                          healthySources < sources.length
+                            ? "warning"
+                            : "default"
+                        }
+                        className="h-6 min-w-0 px-2 text-xs"
+                        startContent={<Server size={12} />}
+                      >
+                        {healthySources}/{sources.length} sources
+                      </Button>
+                    </DropdownTrigger>
+                    <DropdownMenu
+                      aria-label="Download sources"
+                      className="max-h-80 overflow-y-auto"
+                    >
+                      {sources.map((source) => (
+                        <DropdownItem
+                          key={source.uri}
+                          isReadOnly
+                          textValue={source.uri}
+                          className={
+                            source.status === "failed" ? "text-danger" : ""
+                          }
+                          description={
+                            source.status === "failed"
+                              ? source.error
+                              : source.status === "active"
+                                ? `${formatBytes(source.speed)}/s`
+                                : source.status === "idle"
+                                  ? "Idle"
+                                  : "Not used yet"
+                          }
+                        >
+                          {getSourceHost(source.uri)}
+                        </DropdownItem>
+                      ))}
+                    </DropdownMenu>
+                  </Dropdown>
+                )}
+
+                {removedSegments.length > 0 && (
+                  <Dropdown>
+                    <DropdownTrigger>
+                      <Button
+                        size="sm"
+                        variant="flat"
+                        className="h-6 min-w-0 px-2 text-xs"
+                        startContent={<Scissors size={12} />}
+                      >
+                        {removedSegments.length} segment
+                        {removedSegments.length === 1 ? "" : "s"} removed
+                      </Button>
+                    </DropdownTrigger>
+                    <DropdownMenu
+                      aria-label="Removed SponsorBlock segments"
+                      className="max-h-80 overflow-y-auto"
+                    >
+                      {removedSegments.map((segment) => (
+                        <DropdownItem
+                          key={`${segment.startTime}-${segment.endTime}`}
+                          isReadOnly
+                          textValue={segment.title}
+                          description={`${formatTimestamp(segment.startTime)} – ${formatTimestamp(segment.endTime)}`}
+                        >
+                          {segment.title}
+                        </DropdownItem>
+                      ))}
+                    </DropdownMenu>
+                  </Dropdown>
+                )}
+
+                {torrent && torrent.files.length === 0 && isActive && (
+                  <Chip size="sm" variant="flat">
+                    Fetching metadata...
+                  </Chip>
+                )}
+
+                {item.verification && (
+                  <Chip
+                    size="sm"
+                    variant="flat"
+                    color={
+                      item.verification.status === "verified"
+                        ? "success"
+                        : item.verification.status === "mismatch"
+                          ? "danger"
+                          : "default"
+                    }
+                    startContent={
+                      item.verification.status === "verified" ? (
+                        <ShieldCheck size={12} />
+                      ) : item.verification.status === "mismatch" ? (
+                        <ShieldAlert size={12} />
+                      ) : (
+                        <ShieldQuestion size={12} />
+                      )
+                    }
+                    title={`${item.verification.algorithm}: ${item.verification.expected}`}
+                  >
+                    {item.verification.status === "verified"
+                      ? "Verified"
+                      : item.verification.status === "mismatch"
+                        ? "Checksum mismatch"
+                        : item.verification.status === "verifying"
+                          ? "Verifying..."
+                          : item.verification.algorithm.toUpperCase()}
+                  </Chip>
+                )}
+
                 {item.videoInfo?.uploader && (
                   <span className="text-xs text-default-400">
                     {item.videoInfo.uploader}
@@ -142,6 +368,137 @@ export const DownloadCard = ({
               </div>
 
               <div className="flex gap-1">
+                {onToggleSchedule && (isCancellable || isScheduled) && (
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant={isScheduled ? "flat" : "light"}
+                    color={isScheduled ? "secondary" : "default"}
+                    onPress={() => onToggleSchedule(item.id)}
+                    title={isScheduled ? "Remove from schedule" : "Schedule"}
+                  >
+                    <CalendarClock size={16} />
+                  </Button>
+                )}
+                {onSetSpeedLimit && isCancellable && (
+                  <Dropdown>
+                    <DropdownTrigger>
+                      <Button
+                        isIconOnly
+                        size="sm"
+                        variant="light"
+                        title="Speed limit"
+                      >
+                        <Gauge size={16} />
+                      </Button>
+                    </DropdownTrigger>
+                    <DropdownMenu
+                      aria-label="Speed limit"
+                      selectionMode="single"
+                      selectedKeys={[speedLimit.toString()]}
+                      onAction={(key) => onSetSpeedLimit(item.id, Number(key))}
+                    >
+                      {SPEED_PRESETS.map((limit) => (
+                        <DropdownItem key={limit.toString()}>
+                          {formatSpeedLimit(limit)}
+                        </DropdownItem>
+                      ))}
+                    </DropdownMenu>
+                  </Dropdown>
+                )}
+                {onSelectFiles &&
+                  torrent &&
+                  torrent.files.length > 1 &&
+                  isCancellable && (
+                    <Dropdown>
+                      <DropdownTrigger>
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="light"
+                          title="Choose files"
+                        >
+                          <ListChecks size={16} />
+                        </Button>
+                      </DropdownTrigger>
+                      <DropdownMenu
+                        aria-label="Torrent files"
+                        selectionMode="multiple"
+                        disallowEmptySelection
+                        closeOnSelect={false}
+                        selectedKeys={selectedFiles}
+                        onSelectionChange={(keys) =>
+                          keys !== "all" &&
+                          onSelectFiles(
+                            item.id,
+                            Array.from(keys).map((key) => Number(key)),
+                          )
+                        }
+                        className="max-h-80 overflow-y-auto"
+                      >
+                        {torrent.files.map((file) => (
+                          <DropdownItem
+                            key={file.index.toString()}
+                            textValue={file.path}
+                            description={formatBytes(file.length)}
+                          >
+                            {file.path.split(/[\\/]/).pop()}
+                          </DropdownItem>
+                        ))}
+                      </DropdownMenu>
+                    </Dropdown>
+                  )}
+                {onStopSeeding && isSeeding && (
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    onPress={() => onStopSeeding(item.id)}
+                    title="Stop seeding"
+                  >
+                    <CircleStop size={16} />
+                  </Button>
+                )}
+                {onRetryWithCookies &&
+                  item.needsCookies &&
+                  item.status === DownloadStatus.FAILED && (
+                    <Dropdown>
+                      <DropdownTrigger>
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="light"
+                          color="warning"
+                          title="Retry with cookies"
+                        >
+                          <Cookie size={16} />
+                        </Button>
+                      </DropdownTrigger>
+                      <DropdownMenu
+                        aria-label="Cookie profiles"
+                        disabledKeys={["none"]}
+                        onAction={(key) =>
+                          onRetryWithCookies(item.id, key.toString())
+                        }
+                      >
+                        {cookieProfiles.length > 0 ? (
+                          cookieProfiles.map((profile) => (
+                            <DropdownItem
+                              key={profile.id}
+                              description={profile.host}
+                            >
+                              {profile.name}
+                            </DropdownItem>
+                          ))
+                        ) : (
+                          <DropdownItem key="none">
+                            Add a cookie profile in Settings first
+                          </DropdownItem>
+                        )}
+                      </DropdownMenu>
+                    </Dropdown>
+                  )}
                 {isPausable && (
                   <Button
                     isIconOnly
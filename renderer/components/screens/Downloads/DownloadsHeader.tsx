@@ -1,6 +1,9 @@
-import { Button } from "@heroui/react";
-import { Pause, Play, Trash2 } from "lucide-react";
+import { Button, Select, SelectItem } from "@heroui/react";
+import { Gauge, Pause, Play, Trash2 } from "lucide-react";
 import { APP_CONFIG } from "../../../config/app-config";
+import { SpeedProfile } from "../../../hooks/useSettings";
+import { formatSpeedLimit } from "../../../utils/formatters";
+import { TransferMenu } from "../../shared/TransferMenu";
 
 interface DownloadsHeaderProps {
   total: number;
@@ -12,6 +15,9 @@ interface DownloadsHeaderProps {
   isPauseDisabled: boolean;
   isResumeDisabled: boolean;
   isClearDisabled: boolean;
+  speedProfiles?: SpeedProfile[];
+  activeSpeedProfileId?: string | null;
+  onSpeedProfileChange?: (id: string | null) => void;
 }
 
 export const DownloadsHeader = ({
@@ -24,6 +30,9 @@ export const DownloadsHeader = ({
   isPauseDisabled,
   isResumeDisabled,
   isClearDisabled,
+  speedProfiles,
+  activeSpeedProfileId,
+  onSpeedProfileChange,
 }: DownloadsHeaderProps) => {
   return (
     <div className="flex items-center justify-between mb-6">
@@ -36,6 +45,33 @@ export const DownloadsHeader = ({
         </p>
       </div>
       <div className="flex gap-2">
+        <TransferMenu scope="queue" />
+        {speedProfiles && onSpeedProfileChange && (
+          <Select
+            size="sm"
+            className="w-48"
+            aria-label="Speed profile"
+            startContent={<Gauge size={14} />}
+            selectedKeys={[activeSpeedProfileId || "unlimited"]}
+            disallowEmptySelection
+            onSelectionChange={(keys) => {
+              const key = Array.from(keys)[0] as string;
+              onSpeedProfileChange(key === "unlimited" ? null : key);
+            }}
+            items={[
+              { id: "unlimited", name: "Unlimited", limit: 0 },
+              ...speedProfiles,
+            ]}
+          >
+            {(profile) => (
+              <SelectItem key={profile.id} textValue={profile.name}>
+                {profile.limit
+                  ? `${profile.name} (${formatSpeedLimit(profile.limit)})`
+                  : profile.name}
+              </SelectItem>
+            )}
+          </Select>
+        )}
         <Button
           color="warning"
           variant="flat"
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Button, Chip } from "@heroui/react";
+import { ListOrdered, Pause, Play } from "lucide-react";
+import { DownloadQueue } from "../../../types/queue";
+
+interface QueueBarProps {
+  queues: DownloadQueue[];
+  selectedQueueId: string;
+  counts: Record<string, { running: number; total: number }>;
+  onSelect: (queueId: string) => void;
+  onPause: (queueId: string) => void;
+  onResume: (queueId: string) => void;
+  onDropDownload: (downloadId: string, queueId: string) => void;
+}
+
+export const QueueBar = ({
+  queues,
+  selectedQueueId,
+  counts,
+  onSelect,
+  onPause,
+  onResume,
+  onDropDownload,
+}: QueueBarProps) => {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const selectedQueue = queues.find((q) => q.id === selectedQueueId);
+
+  return (
+    <div className="flex items-center justify-between gap-4 mb-4">
+      <div className="flex items-center gap-2 flex-wrap">
+        <ListOrdered size={16} className="text-default-400" />
+        <Button
+          size="sm"
+          variant={selectedQueueId === "all" ? "solid" : "flat"}
+          color={selectedQueueId === "all" ? "primary" : "default"}
+          onPress={() => onSelect("all")}
+        >
+          All queues
+        </Button>
+        {queues.map((queue) => {
+          const count = counts[queue.id] || { running: 0, total: 0 };
+          const isSelected = selectedQueueId === queue.id;
+          return (
+            <div
+              key={queue.id}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(queue.id);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDropTarget(null);
+                const downloadId = e.dataTransfer.getData("text/plain");
+                if (downloadId) onDropDownload(downloadId, queue.id);
+              }}
+              className={`rounded-xl transition-shadow ${
+                dropTarget === queue.id ? "ring-2 ring-primary" : ""
+              }`}
+            >
+              <Button
+                size="sm"
+                variant={isSelected ? "solid" : "flat"}
+                color={isSelected ? "primary" : "default"}
+                onPress={() => onSelect(queue.id)}
+                startContent={queue.paused && <Pause size={12} />}
+                endContent={
+                  <Chip size="sm" variant="flat" className="h-5">
+                    {count.running}/{queue.maxConcurrent}
+                  </Chip>
+                }
+              >
+                {queue.name}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      {selectedQueue &&
+        (selectedQueue.paused ? (
+          <Button
+            color="success"
+            variant="flat"
+            size="sm"
+            startContent={<Play size={14} />}
+            onPress={() => onResume(selectedQueue.id)}
+          >
+            Resume Queue
+          </Button>
+        ) : (
+          <Button
+            color="warning"
+            variant="flat"
+            size="sm"
+            startContent={<Pause size={14} />}
+            isDisabled={!counts[selectedQueue.id]?.total}
+            onPress={() => onPause(selectedQueue.id)}
+          >
+            Pause Queue
+          </Button>
+        ))}
+    </div>
+  );
+};
@@ -2,3 +2,4 @@ export { DownloadCard } from "./DownloadCard";
 export { EmptyState } from "./EmptyState";
 export { DownloadsHeader } from "./DownloadsHeader";
 export { DownloadsStats } from "./DownloadsStats";
+export { QueueBar } from "./QueueBar";
@@ -0,0 +1,128 @@
+import { Button, Input } from "@heroui/react";
+import { RotateCcw } from "lucide-react";
+import { HistoryFilterState, HistoryRecord } from "../../../types/history";
+
+const TYPE_OPTIONS: { key: HistoryRecord["type"]; label: string }[] = [
+  { key: "video", label: "Video" },
+  { key: "audio", label: "Audio" },
+  { key: "file", label: "Files" },
+];
+
+const STATUS_OPTIONS: { key: HistoryRecord["status"]; label: string }[] = [
+  { key: "completed", label: "Completed" },
+  { key: "failed", label: "Failed" },
+  { key: "cancelled", label: "Cancelled" },
+];
+
+interface HistoryFiltersProps {
+  filters: HistoryFilterState;
+  onChange: (filters: HistoryFilterState) => void;
+  onReset: () => void;
+  isFiltered: boolean;
+  total: number;
+}
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+export const HistoryFilters = ({
+  filters,
+  onChange,
+  onReset,
+  isFiltered,
+  total,
+}: HistoryFiltersProps) => {
+  const update = (changes: Partial<HistoryFilterState>) =>
+    onChange({ ...filters, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {TYPE_OPTIONS.map(({ key, label }) => (
+          <Button
+            key={key}
+            size="sm"
+            radius="full"
+            variant={filters.types.includes(key) ? "flat" : "light"}
+            color={filters.types.includes(key) ? "primary" : "default"}
+            onPress={() => update({ types: toggle(filters.types, key) })}
+          >
+            {label}
+          </Button>
+        ))}
+        <span className="w-px h-5 bg-divider mx-1" />
+        {STATUS_OPTIONS.map(({ key, label }) => (
+          <Button
+            key={key}
+            size="sm"
+            radius="full"
+            variant={filters.statuses.includes(key) ? "flat" : "light"}
+            color={filters.statuses.includes(key) ? "primary" : "default"}
+            onPress={() => update({ statuses: toggle(filters.statuses, key) })}
+          >
+            {label}
+          </Button>
+        ))}
+        <span className="ml-auto text-small text-default-500">
+          {total} {total === 1 ? "download" : "downloads"}
+        </span>
+        {isFiltered && (
+          <Button
+            size="sm"
+            variant="light"
+            startContent={<RotateCcw size={14} />}
+            onPress={onReset}
+          >
+            Reset
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        <Input
+          size="sm"
+          type="date"
+          label="From"
+          labelPlacement="outside-left"
+          value={filters.from}
+          onValueChange={(from) => update({ from })}
+        />
+        <Input
+          size="sm"
+          type="date"
+          label="To"
+          labelPlacement="outside-left"
+          value={filters.to}
+          onValueChange={(to) => update({ to })}
+        />
+        <Input
+          size="sm"
+          type="number"
+          min={0}
+          placeholder="Min MB"
+          aria-label="Minimum size in MB"
+          value={filters.minSizeMb}
+          onValueChange={(minSizeMb) => update({ minSizeMb })}
+        />
+        <Input
+          size="sm"
+          type="number"
+          min={0}
+          placeholder="Max MB"
+          aria-label="Maximum size in MB"
+          value={filters.maxSizeMb}
+          onValueChange={(maxSizeMb) => update({ maxSizeMb })}
+        />
+        <Input
+          size="sm"
+          placeholder="Site, e.g. youtube.com"
+          aria-label="Source site"
+          value={filters.site}
+          onValueChange={(site) => update({ site })}
+          isClearable
+          onClear={() => update({ site: "" })}
+        />
+      </div>
+    </div>
+  );
+};
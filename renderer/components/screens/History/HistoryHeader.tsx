@@ -1,10 +1,12 @@
 import { Input, Button } from "@heroui/react";
 import { Search, Trash2 } from "lucide-react";
+import { TransferMenu } from "../../shared/TransferMenu";
 
 interface HistoryHeaderProps {
   searchQuery: string;
   onSearchChange: (value: string) => void;
   onClearHistory: () => void;
+  onImported: () => void;
   hasItems: boolean;
 }
 
@@ -12,6 +14,7 @@ export const HistoryHeader = ({
   searchQuery,
   onSearchChange,
   onClearHistory,
+  onImported,
   hasItems,
 }: HistoryHeaderProps) => {
   return (
@@ -24,7 +27,7 @@ export const HistoryHeader = ({
       </div>
       <div className="flex gap-2 w-full md:w-auto">
         <Input
-          placeholder="Search filenames..."
+          placeholder="Search titles, URLs, uploaders..."
           startContent={<Search size={16} className="text-default-400" />}
           value={searchQuery}
           onValueChange={onSearchChange}
@@ -32,6 +35,7 @@ export const HistoryHeader = ({
           variant="faded"
           radius="lg"
         />
+        <TransferMenu scope="history" onImported={onImported} />
         {hasItems && (
           <Button
             color="danger"
@@ -7,8 +7,17 @@ import {
   DropdownMenu,
   DropdownTrigger,
 } from "@heroui/react";
-import { FolderOpen, MoreVertical, Play, Trash2 } from "lucide-react";
+import {
+  FileCog,
+  FolderOpen,
+  MoreVertical,
+  Play,
+  ShieldAlert,
+  ShieldCheck,
+  Trash2,
+} from "lucide-react";
 import { HistoryRecord } from "../../../types/history";
+import { ConversionPreset } from "../../../types/conversion";
 import { formatBytes } from "../../../utils/formatters";
 import {
   getFileIconProps,
@@ -20,6 +29,8 @@ interface HistoryItemProps {
   onOpenFile: (path: string) => void;
   onOpenFolder: (path: string) => void;
   onDelete: (id: string, deleteFile: boolean) => void;
+  conversionPresets?: ConversionPreset[];
+  onConvert?: (id: string, presetId: string) => void;
 }
 
 export const HistoryItem = ({
@@ -27,6 +38,8 @@ export const HistoryItem = ({
   onOpenFile,
   onOpenFolder,
   onDelete,
+  conversionPresets = [],
+  onConvert,
 }: HistoryItemProps) => {
   const handleAction = (key: string | number) => {
     switch (key) {
@@ -45,6 +58,9 @@ export const HistoryItem = ({
     }
   };
 
+  // Failed and cancelled downloads never had a file to lose
+  const isDeleted = item.exists === false && item.status === "completed";
+
   const getIcon = (filename: string) => {
     const type = getFileTypeFromExtension(filename);
     const { Icon, className } = getFileIconProps(type);
@@ -91,8 +107,8 @@ export const HistoryItem = ({
               </span>
               <span>{formatBytes(item.size)}</span>
               <span>•</span>
-              <span className={item.exists === false ? "text-danger" : ""}>
-                {item.exists === false ? "Deleted" : item.status}
+              <span className={isDeleted ? "text-danger" : ""}>
+                {isDeleted ? "Deleted" : item.status}
               </span>
               {item.duration && (
                 <>
@@ -100,11 +116,68 @@ export const HistoryItem = ({
                   <span>{item.duration}</span>
                 </>
               )}
+              {(item.uploader || item.site) && (
+                <>
+                  <span>•</span>
+                  <span className="truncate" title={item.url}>
+                    {item.uploader || item.site}
+                  </span>
+                </>
+              )}
+              {item.verification?.status === "verified" && (
+                <span
+                  className="flex items-center gap-1 text-success"
+                  title={`${item.verification.algorithm}: ${item.verification.expected}`}
+                >
+                  <ShieldCheck size={12} />
+                  Verified
+                </span>
+              )}
+              {item.verification?.status === "mismatch" && (
+                <span
+                  className="flex items-center gap-1 text-danger"
+                  title={`Expected ${item.verification.algorithm}: ${item.verification.expected}`}
+                >
+                  <ShieldAlert size={12} />
+                  Checksum mismatch
+                </span>
+              )}
             </div>
           </div>
 
           {/* Actions */}
           <div className="flex items-center gap-1">
+            {onConvert &&
+              conversionPresets.length > 0 &&
+              item.exists !== false && (
+                <Dropdown>
+                  <DropdownTrigger onClick={(e) => e.stopPropagation()}>
+                    <Button
+                      isIconOnly
+                      variant="light"
+                      size="sm"
+                      className="text-default-400 hover:text-primary"
+                      title="Convert"
+                    >
+                      <FileCog size={18} />
+                    </Button>
+                  </DropdownTrigger>
+                  <DropdownMenu
+                    aria-label="Conversion presets"
+                    onAction={(key) => onConvert(item.id, key.toString())}
+                  >
+                    {conversionPresets.map((preset) => (
+                      <DropdownItem
+                        key={preset.id}
+                        description={`.${preset.extension}`}
+                      >
+                        {preset.name}
+                      </DropdownItem>
+                    ))}
+                  </DropdownMenu>
+                </Dropdown>
+              )}
+
             <Button
               isIconOnly
               variant="light"
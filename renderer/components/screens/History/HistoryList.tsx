@@ -1,6 +1,7 @@
 import { useMemo } from "react";
 import { Clock } from "lucide-react";
 import { HistoryRecord } from "../../../types/history";
+import { ConversionPreset } from "../../../types/conversion";
 import { HistoryItem } from "./HistoryItem";
 
 interface HistoryListProps {
@@ -8,6 +9,8 @@ interface HistoryListProps {
   onOpenFile: (path: string) => void;
   onOpenFolder: (path: string) => void;
   onDelete: (id: string, deleteFile: boolean) => void;
+  conversionPresets?: ConversionPreset[];
+  onConvert?: (id: string, presetId: string) => void;
 }
 
 export const HistoryList = ({
@@ -15,6 +18,8 @@ export const HistoryList = ({
   onOpenFile,
   onOpenFolder,
   onDelete,
+  conversionPresets,
+  onConvert,
 }: HistoryListProps) => {
   // Grouping Logic
   const groupedHistory = useMemo(() => {
@@ -69,6 +74,8 @@ export const HistoryList = ({
                 onOpenFile={onOpenFile}
                 onOpenFolder={onOpenFolder}
                 onDelete={onDelete}
+                conversionPresets={conversionPresets}
+                onConvert={onConvert}
               />
             ))}
           </div>
@@ -0,0 +1,75 @@
+import { Button, Card, CardBody } from "@heroui/react";
+import { HistoryStats } from "../../../types/history";
+import { formatBytes } from "../../../utils/formatters";
+
+interface HistoryStatsSummaryProps {
+  stats: HistoryStats;
+  onSelectSite: (site: string) => void;
+}
+
+const TOP_SITES_SHOWN = 5;
+
+export const HistoryStatsSummary = ({
+  stats,
+  onSelectSite,
+}: HistoryStatsSummaryProps) => {
+  const busiestDay = Math.max(1, ...stats.daily.map((day) => day.count));
+  const tiles = [
+    { label: "Downloads", value: stats.total.toLocaleString() },
+    { label: "Completed", value: stats.completed.toLocaleString() },
+    { label: "Failed", value: stats.failed.toLocaleString() },
+    { label: "Downloaded", value: formatBytes(stats.totalBytes) },
+  ];
+
+  return (
+    <Card className="border border-default-100 shadow-none bg-content1">
+      <CardBody className="p-4 space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {tiles.map(({ label, value }) => (
+            <div key={label}>
+              <p className="text-tiny uppercase text-default-400">{label}</p>
+              <p className="text-xl font-bold text-foreground">{value}</p>
+            </div>
+          ))}
+        </div>
+
+        {stats.daily.length > 0 && (
+          <div>
+            <p className="text-tiny uppercase text-default-400 mb-1">
+              Last 30 days
+            </p>
+            <div className="flex items-end gap-0.5 h-10">
+              {stats.daily.map((day) => (
+                <div
+                  key={day.date}
+                  className="flex-1 bg-primary/60 rounded-sm min-h-0.5"
+                  style={{ height: `${(day.count / busiestDay) * 100}%` }}
+                  title={`${day.date}: ${day.count} (${formatBytes(day.bytes)})`}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {stats.topSites.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-tiny uppercase text-default-400">
+              Top sites
+            </span>
+            {stats.topSites.slice(0, TOP_SITES_SHOWN).map(({ site, count }) => (
+              <Button
+                key={site}
+                size="sm"
+                radius="full"
+                variant="flat"
+                onPress={() => onSelectSite(site)}
+              >
+                {site} · {count}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
@@ -2,3 +2,5 @@ export * from "./HistoryHeader";
 export * from "./HistoryEmptyState";
 export * from "./HistoryList";
 export * from "./HistoryItem";
+export * from "./HistoryFilters";
+export * from "./HistoryStatsSummary";
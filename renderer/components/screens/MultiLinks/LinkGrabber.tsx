@@ -0,0 +1,255 @@
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Checkbox,
+  Chip,
+  Input,
+  ScrollShadow,
+  Switch,
+} from "@heroui/react";
+import { Globe, Plus, Ruler, Search } from "lucide-react";
+import { useLinkGrabber } from "../../../hooks/useLinkGrabber";
+import { formatBytes } from "../../../utils/formatters";
+
+interface LinkGrabberProps {
+  onAdd: (links: { url: string; title?: string; size?: number }[]) => void;
+}
+
+const toMegabytes = (value: string) =>
+  value.trim() === "" || isNaN(Number(value)) ? null : Number(value);
+
+/**
+ * Lists the links of a web page and queues the picked ones
+ */
+export const LinkGrabber = ({ onAdd }: LinkGrabberProps) => {
+  const {
+    pageUrl,
+    setPageUrl,
+    links,
+    visibleLinks,
+    selectedLinks,
+    probes,
+    selected,
+    filter,
+    extensions,
+    patternError,
+    grabbing,
+    probing,
+    error,
+    grab,
+    checkSizes,
+    updateFilter,
+    toggleLink,
+    selectVisible,
+    reset,
+  } = useLinkGrabber();
+
+  const toggleExtension = (extension: string) =>
+    updateFilter({
+      extensions: filter.extensions.includes(extension)
+        ? filter.extensions.filter((e) => e !== extension)
+        : [...filter.extensions, extension],
+    });
+
+  const handleAdd = () => {
+    onAdd(
+      selectedLinks.map((link) => ({
+        url: link.url,
+        title: link.filename || undefined,
+        size: probes[link.url]?.size ?? undefined,
+      })),
+    );
+    reset();
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center gap-2 font-bold text-lg px-4 pt-4">
+        <Globe size={20} className="text-primary" />
+        Grab Links from Page
+      </CardHeader>
+      <CardBody className="p-4 pt-2 flex flex-col gap-4">
+        <div className="flex gap-2">
+          <Input
+            value={pageUrl}
+            onValueChange={setPageUrl}
+            onKeyDown={(e) => e.key === "Enter" && grab()}
+            placeholder="Paste a web page URL..."
+            isInvalid={!!error}
+            errorMessage={error}
+            aria-label="Web page URL"
+          />
+          <Button
+            color="primary"
+            variant="flat"
+            isLoading={grabbing}
+            isDisabled={!pageUrl.trim()}
+            onPress={grab}
+          >
+            {grabbing ? "Reading..." : "Grab"}
+          </Button>
+        </div>
+
+        {links.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-4">
+              <Switch
+                size="sm"
+                isSelected={filter.filesOnly}
+                onValueChange={(filesOnly) => updateFilter({ filesOnly })}
+              >
+                <span className="text-sm">Files only</span>
+              </Switch>
+              <Input
+                size="sm"
+                className="flex-1 min-w-48"
+                value={filter.pattern}
+                onValueChange={(pattern) => updateFilter({ pattern })}
+                placeholder="Regex, e.g. x64|amd64"
+                startContent={<Search size={14} className="text-default-400" />}
+                isInvalid={!!patternError}
+                errorMessage={patternError}
+                aria-label="Filter pattern"
+              />
+              <Input
+                size="sm"
+                type="number"
+                className="w-28"
+                placeholder="Min MB"
+                value={filter.minSize?.toString() ?? ""}
+                onValueChange={(value) =>
+                  updateFilter({ minSize: toMegabytes(value) })
+                }
+                aria-label="Minimum size in MB"
+              />
+              <Input
+                size="sm"
+                type="number"
+                className="w-28"
+                placeholder="Max MB"
+                value={filter.maxSize?.toString() ?? ""}
+                onValueChange={(value) =>
+                  updateFilter({ maxSize: toMegabytes(value) })
+                }
+                aria-label="Maximum size in MB"
+              />
+              <Button
+                size="sm"
+                variant="flat"
+                isLoading={probing}
+                startContent={!probing && <Ruler size={14} />}
+                onPress={checkSizes}
+              >
+                Check Sizes
+              </Button>
+            </div>
+
+            {extensions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {extensions.map(({ extension, count }) => (
+                  <Chip
+                    key={extension}
+                    size="sm"
+                    variant={
+                      filter.extensions.includes(extension) ? "solid" : "flat"
+                    }
+                    color={
+                      filter.extensions.includes(extension)
+                        ? "primary"
+                        : "default"
+                    }
+                    className="cursor-pointer"
+                    onClick={() => toggleExtension(extension)}
+                  >
+                    {extension} ({count})
+                  </Chip>
+                ))}
+              </div>
+            )}
+
+            {(filter.minSize !== null || filter.maxSize !== null) && (
+              <span className="text-xs text-default-400">
+                Size filters only show links whose size was checked
+              </span>
+            )}
+
+            <ScrollShadow className="max-h-80 flex flex-col gap-1">
+              {visibleLinks.length === 0 ? (
+                <p className="text-sm text-default-400 py-4 text-center">
+                  No links match the filters
+                </p>
+              ) : (
+                visibleLinks.map((link) => {
+                  const probe = probes[link.url];
+                  return (
+                    <Checkbox
+                      key={link.url}
+                      isSelected={selected.has(link.url)}
+                      onValueChange={() => toggleLink(link.url)}
+                      classNames={{
+                        base: "max-w-full w-full m-0 py-1",
+                        label: "w-full min-w-0",
+                      }}
+                    >
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="flex flex-col min-w-0">
+                          <span className="text-sm truncate">
+                            {link.text || link.filename || link.url}
+                          </span>
+                          <span className="text-xs text-default-400 truncate">
+                            {link.url}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {probe?.size != null && (
+                            <span className="text-xs text-default-500">
+                              {formatBytes(probe.size)}
+                            </span>
+                          )}
+                          {link.extension && (
+                            <Chip size="sm" variant="flat">
+                              {link.extension}
+                            </Chip>
+                          )}
+                        </div>
+                      </div>
+                    </Checkbox>
+                  );
+                })
+              )}
+            </ScrollShadow>
+
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="light"
+                  onPress={() => selectVisible(true)}
+                >
+                  Select All
+                </Button>
+                <Button
+                  size="sm"
+                  variant="light"
+                  onPress={() => selectVisible(false)}
+                >
+                  Select None
+                </Button>
+              </div>
+              <Button
+                color="primary"
+                startContent={<Plus size={18} />}
+                isDisabled={selectedLinks.length === 0}
+                onPress={handleAdd}
+              >
+                Add {selectedLinks.length} to Queue
+              </Button>
+            </div>
+          </>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
@@ -1,16 +1,22 @@
 import { Button, Card, CardBody, Textarea } from "@heroui/react";
-import { Plus } from "lucide-react";
+import { FileUp, Plus } from "lucide-react";
 
 interface MultiLinksInputProps {
   urls: string;
   setUrls: (urls: string) => void;
   onParse: () => void;
+  onImport: () => void;
+  importing: boolean;
+  error: string | null;
 }
 
 export const MultiLinksInput = ({
   urls,
   setUrls,
   onParse,
+  onImport,
+  importing,
+  error,
 }: MultiLinksInputProps) => {
   return (
     <div className="flex flex-col gap-4">
@@ -19,25 +25,39 @@ export const MultiLinksInput = ({
           <Textarea
             label="Download Links"
             placeholder="Paste links, one per line (Videos, Software, Zip...)"
+            description="Patterns like img[001-250].jpg or {a,b,c} expand to many links; add out=, dir= or referer= after a link to name, file or refer it"
             minRows={10}
             maxRows={20}
             value={urls}
             onChange={(e) => setUrls(e.target.value)}
+            isInvalid={!!error}
+            errorMessage={error}
             classNames={{
               inputWrapper: "h-full bg-default-50",
               input: "h-full",
             }}
             className="flex-1"
           />
-          <Button
-            color="primary"
-            className="mt-4 w-full font-semibold"
-            size="lg"
-            startContent={<Plus size={20} />}
-            onPress={onParse}
-          >
-            Add to Queue
-          </Button>
+          <div className="mt-4 flex gap-2">
+            <Button
+              variant="flat"
+              size="lg"
+              isLoading={importing}
+              startContent={!importing && <FileUp size={20} />}
+              onPress={onImport}
+            >
+              Import File
+            </Button>
+            <Button
+              color="primary"
+              className="flex-1 font-semibold"
+              size="lg"
+              startContent={<Plus size={20} />}
+              onPress={onParse}
+            >
+              Add to Queue
+            </Button>
+          </div>
         </CardBody>
       </Card>
     </div>
@@ -1,4 +1,5 @@
 export * from "./MultiLinksHeader";
 export * from "./MultiLinksInput";
+export * from "./LinkGrabber";
 export * from "./MultiLinksQueue";
 export * from "./QueueItem";
@@ -0,0 +1,143 @@
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Button,
+  Switch,
+  Chip,
+  Divider,
+  Skeleton,
+} from "@heroui/react";
+import { Check, Copy, Puzzle, RefreshCw } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useBrowserBridge } from "../../../hooks/useBrowserBridge";
+
+export const BrowserBridgeSettings = () => {
+  const { status, loading, updateBridge, regenerateToken } = useBrowserBridge();
+  const [localPort, setLocalPort] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (status) {
+      setLocalPort(status.port.toString());
+    }
+  }, [status]);
+
+  if (loading || !status) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const handlePortBlur = () => {
+    const port = parseInt(localPort, 10);
+    if (!isNaN(port) && port !== status.port) {
+      updateBridge({ port });
+    }
+  };
+
+  const handleCopyToken = async () => {
+    await navigator.clipboard.writeText(status.token);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center justify-between px-6 pt-6">
+        <div className="flex items-center gap-2 font-bold text-lg">
+          <Puzzle size={20} className="text-primary" />
+          Browser Extension
+        </div>
+        {status.enabled && (
+          <Chip
+            size="sm"
+            variant="flat"
+            color={status.listening ? "success" : "danger"}
+          >
+            {status.listening ? "Listening" : status.error || "Stopped"}
+          </Chip>
+        )}
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">
+              Accept Browser Downloads
+            </span>
+            <span className="text-xs text-default-400">
+              Let the extension send links with their cookies and referer
+            </span>
+          </div>
+          <Switch
+            size="sm"
+            isSelected={status.enabled}
+            onValueChange={(enabled) => updateBridge({ enabled })}
+          />
+        </div>
+
+        <Divider />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-col">
+              <span className="font-medium text-sm">Port</span>
+              <span className="text-xs text-default-400">
+                Localhost only (1024-65535)
+              </span>
+            </div>
+            <Input
+              type="number"
+              value={localPort}
+              onValueChange={setLocalPort}
+              onBlur={handlePortBlur}
+              min={1024}
+              max={65535}
+              aria-label="Bridge port"
+            />
+          </div>
+
+          <div className="flex flex-col gap-2 md:col-span-2">
+            <div className="flex flex-col">
+              <span className="font-medium text-sm">Access Token</span>
+              <span className="text-xs text-default-400">
+                Paste this into the extension to pair it
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                type="password"
+                value={status.token}
+                className="flex-1"
+                aria-label="Access token"
+              />
+              <Button
+                isIconOnly
+                variant="flat"
+                onPress={handleCopyToken}
+                title="Copy token"
+              >
+                {copied ? <Check size={18} /> : <Copy size={18} />}
+              </Button>
+              <Button
+                isIconOnly
+                variant="flat"
+                color="danger"
+                onPress={regenerateToken}
+                title="Generate a new token (unpairs extensions)"
+              >
+                <RefreshCw size={18} />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
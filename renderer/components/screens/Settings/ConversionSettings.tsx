@@ -0,0 +1,118 @@
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Button,
+  Skeleton,
+} from "@heroui/react";
+import { FileCog, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { useConversion } from "../../../hooks/useConversion";
+
+export const ConversionSettings = () => {
+  const { presets, loading, error, savePreset, deletePreset } = useConversion();
+  const [name, setName] = useState("");
+  const [extension, setExtension] = useState("");
+  const [args, setArgs] = useState("");
+
+  if (loading) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const handleAdd = async () => {
+    if (await savePreset({ name, extension, args })) {
+      setName("");
+      setExtension("");
+      setArgs("");
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center gap-2 font-bold text-lg px-6 pt-6">
+        <FileCog size={20} className="text-primary" />
+        Conversion Presets
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-3">
+        <span className="text-xs text-default-400">
+          Run ffmpeg on a file once it finishes downloading, or on any file in
+          History. The original file is kept.
+        </span>
+
+        {presets.map((preset) => (
+          <div
+            key={preset.id}
+            className="flex items-center justify-between pl-2"
+          >
+            <div className="flex flex-col min-w-0">
+              <span className="text-sm">
+                {preset.name}{" "}
+                <span className="text-default-400">.{preset.extension}</span>
+              </span>
+              <span className="text-xs text-default-500 font-mono truncate">
+                {preset.args || "ffmpeg defaults"}
+              </span>
+            </div>
+            <Button
+              isIconOnly
+              size="sm"
+              variant="light"
+              color="danger"
+              onPress={() => deletePreset(preset.id)}
+            >
+              <Trash2 size={16} />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Input
+            size="sm"
+            value={name}
+            onValueChange={setName}
+            placeholder="Preset name"
+            className="flex-1"
+            aria-label="Preset name"
+          />
+          <Input
+            size="sm"
+            value={extension}
+            onValueChange={setExtension}
+            placeholder="Extension, e.g. mp4"
+            className="w-40"
+            aria-label="Output extension"
+          />
+        </div>
+        <Input
+          size="sm"
+          value={args}
+          onValueChange={setArgs}
+          placeholder="ffmpeg options, e.g. -c:v libx264 -crf 23 -c:a aac"
+          classNames={{ input: "font-mono" }}
+          aria-label="ffmpeg options"
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            color="primary"
+            variant="flat"
+            onPress={handleAdd}
+            isDisabled={!name.trim() || !extension.trim()}
+            startContent={<Plus size={16} />}
+          >
+            Add
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-danger">{error}</p>}
+      </CardBody>
+    </Card>
+  );
+};
@@ -0,0 +1,132 @@
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Textarea,
+  Button,
+  Skeleton,
+} from "@heroui/react";
+import { Cookie, FileUp, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { useCookies } from "../../../hooks/useCookies";
+
+export const CookieSettings = () => {
+  const { profiles, loading, error, saveProfile, importFile, deleteProfile } =
+    useCookies();
+  const [name, setName] = useState("");
+  const [host, setHost] = useState("");
+  const [content, setContent] = useState("");
+
+  if (loading) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const reset = () => {
+    setName("");
+    setHost("");
+    setContent("");
+  };
+
+  const handleAdd = async () => {
+    if (!content.trim()) return;
+    if (await saveProfile(name.trim(), host.trim(), content)) reset();
+  };
+
+  const handleImport = async () => {
+    if (await importFile(name.trim(), host.trim())) reset();
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center gap-2 font-bold text-lg px-6 pt-6">
+        <Cookie size={20} className="text-primary" />
+        Cookies
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-3">
+        <span className="text-xs text-default-400">
+          Sent with downloads from the profile&apos;s site and its subdomains,
+          for sign-in and age-restricted content. Import a cookies.txt file
+          exported from your browser or paste a Cookie header.
+        </span>
+
+        {profiles.map((profile) => (
+          <div
+            key={profile.id}
+            className="flex items-center justify-between pl-2"
+          >
+            <div className="flex flex-col">
+              <span className="text-sm">{profile.name}</span>
+              <span className="text-xs text-default-500">
+                {profile.host} · {profile.cookieCount} cookies
+              </span>
+            </div>
+            <Button
+              isIconOnly
+              size="sm"
+              variant="light"
+              color="danger"
+              onPress={() => deleteProfile(profile.id)}
+            >
+              <Trash2 size={16} />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Input
+            size="sm"
+            value={name}
+            onValueChange={setName}
+            placeholder="Profile name"
+            className="flex-1"
+            aria-label="Profile name"
+          />
+          <Input
+            size="sm"
+            value={host}
+            onValueChange={setHost}
+            placeholder="Site (optional for cookies.txt)"
+            className="flex-1"
+            aria-label="Site"
+          />
+        </div>
+        <Textarea
+          value={content}
+          onValueChange={setContent}
+          placeholder="name=value; name2=value2"
+          minRows={2}
+          aria-label="Cookies"
+        />
+        <div className="flex justify-end gap-2">
+          <Button
+            size="sm"
+            variant="flat"
+            onPress={handleImport}
+            startContent={<FileUp size={16} />}
+          >
+            Import File
+          </Button>
+          <Button
+            size="sm"
+            color="primary"
+            variant="flat"
+            onPress={handleAdd}
+            isDisabled={!content.trim()}
+            startContent={<Plus size={16} />}
+          >
+            Add
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-danger">{error}</p>}
+      </CardBody>
+    </Card>
+  );
+};
@@ -0,0 +1,132 @@
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Button,
+  Chip,
+  Skeleton,
+} from "@heroui/react";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { useCredentials } from "../../../hooks/useCredentials";
+
+export const CredentialsSettings = () => {
+  const {
+    credentials,
+    encryptionAvailable,
+    loading,
+    error,
+    saveCredential,
+    deleteCredential,
+  } = useCredentials();
+  const [host, setHost] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (loading) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const handleAdd = async () => {
+    if (!host.trim() || !username.trim()) return;
+    if (await saveCredential(host.trim(), username.trim(), password)) {
+      setHost("");
+      setUsername("");
+      setPassword("");
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center justify-between px-6 pt-6">
+        <div className="flex items-center gap-2 font-bold text-lg">
+          <KeyRound size={20} className="text-primary" />
+          Site Logins
+        </div>
+        {!encryptionAvailable && (
+          <Chip size="sm" variant="flat" color="danger">
+            Secure storage unavailable
+          </Chip>
+        )}
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-3">
+        <span className="text-xs text-default-400">
+          Used automatically for FTP, SFTP and password-protected HTTP
+          downloads. HTTP logins are sent with Basic authentication; sites that
+          only accept Digest authentication aren't supported. Use *.example.com
+          to cover every subdomain.
+        </span>
+
+        {credentials.map((credential) => (
+          <div
+            key={credential.id}
+            className="flex items-center justify-between pl-2"
+          >
+            <div className="flex flex-col">
+              <span className="text-sm">{credential.host}</span>
+              <span className="text-xs text-default-500">
+                {credential.username}
+              </span>
+            </div>
+            <Button
+              isIconOnly
+              size="sm"
+              variant="light"
+              color="danger"
+              onPress={() => deleteCredential(credential.id)}
+            >
+              <Trash2 size={16} />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Input
+            size="sm"
+            value={host}
+            onValueChange={setHost}
+            placeholder="Host"
+            className="flex-1"
+            aria-label="Host"
+          />
+          <Input
+            size="sm"
+            value={username}
+            onValueChange={setUsername}
+            placeholder="Username"
+            className="flex-1"
+            aria-label="Username"
+          />
+          <Input
+            size="sm"
+            type="password"
+            value={password}
+            onValueChange={setPassword}
+            placeholder="Password"
+            className="flex-1"
+            aria-label="Password"
+          />
+          <Button
+            size="sm"
+            color="primary"
+            variant="flat"
+            onPress={handleAdd}
+            isDisabled={!encryptionAvailable}
+            startContent={<Plus size={16} />}
+          >
+            Add
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-danger">{error}</p>}
+      </CardBody>
+    </Card>
+  );
+};
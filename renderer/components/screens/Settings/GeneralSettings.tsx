@@ -7,6 +7,7 @@ import {
   Select,
   SelectItem,
   Skeleton,
+  Switch,
 } from "@heroui/react";
 import { FolderOpen, RotateCcw } from "lucide-react";
 import { useSettings } from "../../../hooks/useSettings";
@@ -104,7 +105,7 @@ export const GeneralSettings = () => {
                 Max Concurrent Downloads
               </span>
               <span className="text-xs text-default-400">
-                Limit simultaneous downloads
+                Limit simultaneous downloads in the Main queue
               </span>
             </div>
             <Input
@@ -143,6 +144,39 @@ export const GeneralSettings = () => {
           </div>
         </div>
 
+        <div className="flex items-center justify-between">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Verify Checksums</span>
+            <span className="text-xs text-default-400">
+              Look for published .sha256 / SHA256SUMS files and check direct
+              downloads against them
+            </span>
+          </div>
+          <Switch
+            size="sm"
+            isSelected={settings.discoverChecksums}
+            onValueChange={(discoverChecksums) =>
+              updateSettings({ discoverChecksums })
+            }
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Watch Clipboard</span>
+            <span className="text-xs text-default-400">
+              Offer to download video and file links as you copy them
+            </span>
+          </div>
+          <Switch
+            size="sm"
+            isSelected={settings.clipboardMonitor}
+            onValueChange={(clipboardMonitor) =>
+              updateSettings({ clipboardMonitor })
+            }
+          />
+        </div>
+
         {/* <div className="grid grid-cols-2 gap-4">
           <Select label="Default Quality" defaultSelectedKeys={["1080p"]}>
             <SelectItem key="4k">4K (Ultra HD)</SelectItem>
@@ -0,0 +1,149 @@
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  ScrollShadow,
+  Skeleton,
+  Switch,
+  Textarea,
+} from "@heroui/react";
+import { ShieldCheck, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+  useSettings,
+  NetworkPolicySettings as NetworkPolicy,
+} from "../../../hooks/useSettings";
+import { useNetworkPolicy } from "../../../hooks/useNetworkPolicy";
+
+export const NetworkPolicySettings = () => {
+  const { settings, loading, updateSettings } = useSettings();
+  const { blocked, clearBlocked } = useNetworkPolicy();
+  const [localAllowList, setLocalAllowList] = useState("");
+
+  useEffect(() => {
+    if (settings) {
+      setLocalAllowList(settings.networkPolicy.allowList.join("\n"));
+    }
+  }, [settings]);
+
+  if (loading || !settings) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const policy = settings.networkPolicy;
+  const savePolicy = (changes: Partial<NetworkPolicy>) =>
+    updateSettings({ networkPolicy: { ...policy, ...changes } });
+
+  const handleAllowListBlur = async () => {
+    const allowList = localAllowList
+      .split(/[\s,;]+/)
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    if (allowList.join("\n") !== policy.allowList.join("\n")) {
+      await savePolicy({ allowList });
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center gap-2 font-bold text-lg px-6 pt-6">
+        <ShieldCheck size={20} className="text-primary" />
+        Network Policy
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Block Private Networks</span>
+            <span className="text-xs text-default-400">
+              Refuse links, redirects and downloads that lead to localhost, LAN
+              or link-local addresses
+            </span>
+          </div>
+          <Switch
+            size="sm"
+            isSelected={policy.blockPrivate}
+            onValueChange={(blockPrivate) => savePolicy({ blockPrivate })}
+            aria-label="Block private networks"
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Trusted Hosts</span>
+            <span className="text-xs text-default-400">
+              Private targets that are always allowed, one per line: a host
+              (nas.local, *.corp.example), an IP or a CIDR such as
+              192.168.1.0/24. Add :port to trust a single port.
+            </span>
+          </div>
+          <Textarea
+            value={localAllowList}
+            onValueChange={setLocalAllowList}
+            onBlur={handleAllowListBlur}
+            minRows={2}
+            isDisabled={!policy.blockPrivate}
+            placeholder={"nas.local\n10.20.0.0/16:8443"}
+            aria-label="Trusted hosts"
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <div className="flex flex-col">
+              <span className="font-medium text-sm">Recently Blocked</span>
+              <span className="text-xs text-default-400">
+                Requests refused since the app started
+              </span>
+            </div>
+            {blocked.length > 0 && (
+              <Button
+                size="sm"
+                variant="light"
+                color="danger"
+                onPress={clearBlocked}
+                startContent={<Trash2 size={14} />}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+
+          {blocked.length === 0 ? (
+            <span className="text-xs text-default-500 pl-2">
+              Nothing has been blocked
+            </span>
+          ) : (
+            <ScrollShadow className="max-h-48 flex flex-col gap-2">
+              {blocked.map((entry) => (
+                <div
+                  key={`${entry.blockedAt}-${entry.url}`}
+                  className="flex flex-col pl-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <Chip size="sm" variant="flat">
+                      {entry.source}
+                    </Chip>
+                    <span className="text-sm truncate">{entry.url}</span>
+                  </div>
+                  <span className="text-xs text-default-500">
+                    {new Date(entry.blockedAt).toLocaleTimeString()} ·{" "}
+                    {entry.reason}
+                  </span>
+                </div>
+              ))}
+            </ScrollShadow>
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
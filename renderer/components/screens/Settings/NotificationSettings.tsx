@@ -1,20 +1,98 @@
-import { Card, CardBody, CardHeader, Switch, Divider } from "@heroui/react";
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Divider,
+  Skeleton,
+  Switch,
+} from "@heroui/react";
+import { Bell } from "lucide-react";
+import {
+  useSettings,
+  NotificationSettings as NotificationToggles,
+} from "../../../hooks/useSettings";
+
+const TOGGLES: {
+  key: keyof NotificationToggles;
+  label: string;
+  description: string;
+}[] = [
+  {
+    key: "complete",
+    label: "Download Complete",
+    description: "Click to open the file",
+  },
+  {
+    key: "failed",
+    label: "Download Failed",
+    description: "Click to retry the download",
+  },
+  {
+    key: "queueFinished",
+    label: "All Downloads Finished",
+    description: "When nothing is left downloading or waiting",
+  },
+];
 
 export const NotificationSettings = () => {
+  const { settings, loading, updateSettings } = useSettings();
+
+  if (loading || !settings) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const { notifications } = settings;
+
+  const handleToggle = (key: keyof NotificationToggles, value: boolean) =>
+    updateSettings({ notifications: { ...notifications, [key]: value } });
+
   return (
     <Card className="shadow-sm">
-      <CardHeader className="font-bold text-lg px-6 pt-6">
+      <CardHeader className="flex items-center gap-2 font-bold text-lg px-6 pt-6">
+        <Bell size={20} className="text-primary" />
         Notifications
       </CardHeader>
       <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-4">
-        <div className="flex items-center justify-between">
-          <span>Show completion notification</span>
-          <Switch defaultSelected size="sm" />
-        </div>
+        {TOGGLES.map(({ key, label, description }) => (
+          <div key={key} className="flex items-center justify-between">
+            <div className="flex flex-col">
+              <span className="font-medium text-sm">{label}</span>
+              <span className="text-xs text-default-400">{description}</span>
+            </div>
+            <Switch
+              size="sm"
+              isSelected={notifications[key]}
+              onValueChange={(value) => handleToggle(key, value)}
+              aria-label={label}
+            />
+          </div>
+        ))}
         <Divider />
         <div className="flex items-center justify-between">
-          <span>Play sound on completion</span>
-          <Switch size="sm" />
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">
+              Do Not Disturb in Fullscreen
+            </span>
+            <span className="text-xs text-default-400">
+              Hold notifications while RemixDM is fullscreen; your system&apos;s
+              focus mode covers other apps
+            </span>
+          </div>
+          <Switch
+            size="sm"
+            isSelected={notifications.quietWhenFullscreen}
+            onValueChange={(value) =>
+              handleToggle("quietWhenFullscreen", value)
+            }
+            aria-label="Do not disturb in fullscreen"
+          />
         </div>
       </CardBody>
     </Card>
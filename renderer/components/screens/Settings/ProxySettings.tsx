@@ -0,0 +1,254 @@
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Textarea,
+  Button,
+  Chip,
+  Select,
+  SelectItem,
+  Skeleton,
+} from "@heroui/react";
+import { Network, Plus, Trash2, Zap } from "lucide-react";
+import {
+  useSettings,
+  ProxySettings as ProxyConfig,
+} from "../../../hooks/useSettings";
+import { useProxy } from "../../../hooks/useProxy";
+import { useEffect, useState } from "react";
+
+export const ProxySettings = () => {
+  const { settings, loading, updateSettings } = useSettings();
+  const { testing, testResult, testProxy } = useProxy();
+  const [localUrl, setLocalUrl] = useState("");
+  const [localBypass, setLocalBypass] = useState("");
+  const [ruleHost, setRuleHost] = useState("");
+  const [ruleProxy, setRuleProxy] = useState("");
+
+  useEffect(() => {
+    if (settings) {
+      setLocalUrl(settings.proxy.url);
+      setLocalBypass(settings.proxy.bypass.join("\n"));
+    }
+  }, [settings]);
+
+  if (loading || !settings) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const proxy = settings.proxy;
+  const saveProxy = (changes: Partial<ProxyConfig>) =>
+    updateSettings({ proxy: { ...proxy, ...changes } });
+
+  const handleModeChange = async (keys: any) => {
+    const mode = Array.from(keys)[0] as ProxyConfig["mode"];
+    if (mode && mode !== proxy.mode) {
+      await saveProxy({ mode });
+    }
+  };
+
+  const handleUrlBlur = async () => {
+    const url = localUrl.trim();
+    if (url !== proxy.url) {
+      await saveProxy({ url });
+    }
+  };
+
+  const handleBypassBlur = async () => {
+    const bypass = localBypass
+      .split(/[\s,;]+/)
+      .map((host) => host.trim())
+      .filter(Boolean);
+    if (bypass.join("\n") !== proxy.bypass.join("\n")) {
+      await saveProxy({ bypass });
+    }
+  };
+
+  const handleAddRule = async () => {
+    if (!ruleHost.trim()) return;
+    await saveProxy({
+      rules: [
+        ...proxy.rules,
+        {
+          id: `${Date.now()}`,
+          host: ruleHost.trim(),
+          proxy: ruleProxy.trim() || "direct",
+        },
+      ],
+    });
+    setRuleHost("");
+    setRuleProxy("");
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    await saveProxy({ rules: proxy.rules.filter((rule) => rule.id !== id) });
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center justify-between px-6 pt-6">
+        <div className="flex items-center gap-2 font-bold text-lg">
+          <Network size={20} className="text-primary" />
+          Proxy
+        </div>
+        {testResult && (
+          <Chip
+            size="sm"
+            variant="flat"
+            color={testResult.success ? "success" : "danger"}
+          >
+            {testResult.success
+              ? `Working · ${testResult.latency} ms`
+              : testResult.error}
+          </Chip>
+        )}
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-6">
+        <div className="flex items-center justify-between gap-6">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Connection</span>
+            <span className="text-xs text-default-400">
+              Used by direct downloads, video downloads and link detection
+            </span>
+          </div>
+          <Select
+            selectedKeys={[proxy.mode]}
+            disallowEmptySelection
+            onSelectionChange={handleModeChange}
+            className="w-48"
+            aria-label="Proxy mode"
+          >
+            <SelectItem key="none" textValue="No proxy">
+              No proxy
+            </SelectItem>
+            <SelectItem key="system" textValue="System proxy">
+              System proxy
+            </SelectItem>
+            <SelectItem key="manual" textValue="Manual">
+              Manual
+            </SelectItem>
+          </Select>
+        </div>
+
+        {proxy.mode === "manual" && (
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-col">
+              <span className="font-medium text-sm">Proxy URL</span>
+              <span className="text-xs text-default-400">
+                HTTP, HTTPS or SOCKS5. A login saved under Site Logins for the
+                proxy host is used when the URL has none. Direct downloads reach
+                SOCKS5 and HTTPS proxies through a local relay the app runs.
+              </span>
+            </div>
+            <Input
+              value={localUrl}
+              onValueChange={setLocalUrl}
+              onBlur={handleUrlBlur}
+              placeholder="http://proxy.example.com:8080"
+              aria-label="Proxy URL"
+            />
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Bypass</span>
+            <span className="text-xs text-default-400">
+              Hosts that always connect directly, one per line. Use
+              *.example.com to cover every subdomain.
+            </span>
+          </div>
+          <Textarea
+            value={localBypass}
+            onValueChange={setLocalBypass}
+            onBlur={handleBypassBlur}
+            minRows={2}
+            aria-label="Proxy bypass list"
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Per-Site Rules</span>
+            <span className="text-xs text-default-400">
+              Send a site through its own proxy, or leave the proxy empty to
+              connect directly. Rules win over the bypass list.
+            </span>
+          </div>
+
+          {proxy.rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex items-center justify-between pl-2"
+            >
+              <div className="flex flex-col">
+                <span className="text-sm">{rule.host}</span>
+                <span className="text-xs text-default-500">
+                  {rule.proxy === "direct" ? "Direct connection" : rule.proxy}
+                </span>
+              </div>
+              <Button
+                isIconOnly
+                size="sm"
+                variant="light"
+                color="danger"
+                onPress={() => handleDeleteRule(rule.id)}
+              >
+                <Trash2 size={16} />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Input
+              size="sm"
+              value={ruleHost}
+              onValueChange={setRuleHost}
+              placeholder="Host"
+              className="flex-1"
+              aria-label="Rule host"
+            />
+            <Input
+              size="sm"
+              value={ruleProxy}
+              onValueChange={setRuleProxy}
+              placeholder="Proxy URL (empty = direct)"
+              className="flex-[2]"
+              aria-label="Rule proxy"
+            />
+            <Button
+              size="sm"
+              color="primary"
+              variant="flat"
+              onPress={handleAddRule}
+              startContent={<Plus size={16} />}
+            >
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            variant="flat"
+            isLoading={testing}
+            isDisabled={proxy.mode === "none"}
+            onPress={() => testProxy()}
+            startContent={!testing && <Zap size={16} />}
+          >
+            Test Proxy
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
@@ -0,0 +1,131 @@
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Button,
+  Divider,
+  Skeleton,
+} from "@heroui/react";
+import { ListOrdered, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { useQueues } from "../../../hooks/useQueues";
+import { DEFAULT_QUEUE_ID } from "../../../types/queue";
+
+export const QueueSettings = () => {
+  const { queues, loading, createQueue, updateQueue, deleteQueue } =
+    useQueues();
+  const [newName, setNewName] = useState("");
+  const [newConcurrent, setNewConcurrent] = useState("2");
+
+  if (loading) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const handleCreate = async () => {
+    const maxConcurrent = parseInt(newConcurrent, 10);
+    if (!newName.trim() || isNaN(maxConcurrent)) return;
+    await createQueue(newName, maxConcurrent);
+    setNewName("");
+    setNewConcurrent("2");
+  };
+
+  const handleConcurrentChange = (id: string, val: string) => {
+    const num = parseInt(val, 10);
+    if (!isNaN(num) && num >= 1 && num <= 10) {
+      updateQueue(id, { maxConcurrent: num });
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center gap-2 font-bold text-lg px-6 pt-6">
+        <ListOrdered size={20} className="text-primary" />
+        Queues
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-4">
+        <span className="text-xs text-default-400">
+          Each queue runs its own downloads in order, up to its own limit. Drag
+          downloads onto a queue on the Downloads page to move them.
+        </span>
+
+        {queues.map((queue) => (
+          <div key={queue.id} className="flex items-center gap-2">
+            <Input
+              size="sm"
+              defaultValue={queue.name}
+              onBlur={(e) => updateQueue(queue.id, { name: e.target.value })}
+              className="flex-1"
+              aria-label="Queue name"
+            />
+            <Input
+              size="sm"
+              type="number"
+              defaultValue={queue.maxConcurrent.toString()}
+              onValueChange={(val) => handleConcurrentChange(queue.id, val)}
+              endContent={
+                <span className="text-xs text-default-400">at once</span>
+              }
+              className="w-32"
+              min={1}
+              max={10}
+              aria-label="Concurrent downloads"
+            />
+            <Button
+              isIconOnly
+              size="sm"
+              variant="light"
+              color="danger"
+              isDisabled={queue.id === DEFAULT_QUEUE_ID}
+              onPress={() => deleteQueue(queue.id)}
+              title="Delete queue (downloads move to Main)"
+            >
+              <Trash2 size={16} />
+            </Button>
+          </div>
+        ))}
+
+        <Divider />
+
+        <div className="flex items-center gap-2">
+          <Input
+            size="sm"
+            value={newName}
+            onValueChange={setNewName}
+            placeholder="New queue, e.g. Overnight"
+            className="flex-1"
+            aria-label="New queue name"
+          />
+          <Input
+            size="sm"
+            type="number"
+            value={newConcurrent}
+            onValueChange={setNewConcurrent}
+            endContent={
+              <span className="text-xs text-default-400">at once</span>
+            }
+            className="w-32"
+            min={1}
+            max={10}
+            aria-label="New queue concurrent downloads"
+          />
+          <Button
+            size="sm"
+            color="primary"
+            variant="flat"
+            onPress={handleCreate}
+            startContent={<Plus size={16} />}
+          >
+            Add
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
@@ -0,0 +1,211 @@
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Button,
+  Select,
+  SelectItem,
+  Switch,
+  Chip,
+  Divider,
+  Skeleton,
+} from "@heroui/react";
+import { CalendarClock } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useScheduler } from "../../../hooks/useScheduler";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const ScheduleSettings = () => {
+  const { schedule, windowOpen, loading, updateSchedule } = useScheduler();
+  const [localCommand, setLocalCommand] = useState("");
+
+  useEffect(() => {
+    if (schedule) {
+      setLocalCommand(schedule.command);
+    }
+  }, [schedule]);
+
+  if (loading || !schedule) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const toggleDay = (day: number) => {
+    const days = schedule.days.includes(day)
+      ? schedule.days.filter((d) => d !== day)
+      : [...schedule.days, day].sort();
+    updateSchedule({ days });
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center justify-between px-6 pt-6">
+        <div className="flex items-center gap-2 font-bold text-lg">
+          <CalendarClock size={20} className="text-primary" />
+          Scheduler
+        </div>
+        {schedule.enabled && (
+          <Chip
+            size="sm"
+            variant="flat"
+            color={windowOpen ? "success" : "default"}
+          >
+            {windowOpen ? "Window open" : "Waiting"}
+          </Chip>
+        )}
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Enable Schedule</span>
+            <span className="text-xs text-default-400">
+              Only run scheduled downloads inside the time window
+            </span>
+          </div>
+          <Switch
+            size="sm"
+            isSelected={schedule.enabled}
+            onValueChange={(enabled) => updateSchedule({ enabled })}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-col">
+              <span className="font-medium text-sm">Start Time</span>
+              <span className="text-xs text-default-400">
+                When scheduled downloads begin
+              </span>
+            </div>
+            <Input
+              type="time"
+              value={schedule.startTime}
+              onValueChange={(startTime) =>
+                startTime && updateSchedule({ startTime })
+              }
+              aria-label="Start time"
+            />
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-col">
+              <span className="font-medium text-sm">Stop Time</span>
+              <span className="text-xs text-default-400">
+                Leave empty to run until the batch finishes
+              </span>
+            </div>
+            <Input
+              type="time"
+              value={schedule.stopTime || ""}
+              onValueChange={(stopTime) =>
+                updateSchedule({ stopTime: stopTime || null })
+              }
+              aria-label="Stop time"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Repeat On</span>
+            <span className="text-xs text-default-400">
+              {schedule.days.length === 0
+                ? "Runs once, then switches itself off"
+                : "Runs on the selected days"}
+            </span>
+          </div>
+          <div className="flex bg-default-100 p-1 rounded-lg gap-1">
+            {WEEKDAYS.map((label, day) => {
+              const selected = schedule.days.includes(day);
+              return (
+                <Button
+                  key={label}
+                  size="sm"
+                  variant={selected ? "solid" : "light"}
+                  color={selected ? "primary" : "default"}
+                  onPress={() => toggleDay(day)}
+                  className="min-w-0 px-2"
+                >
+                  {label}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+
+        <Divider />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-col">
+              <span className="font-medium text-sm">Applies To</span>
+              <span className="text-xs text-default-400">
+                Which downloads wait for the schedule
+              </span>
+            </div>
+            <Select
+              selectedKeys={[schedule.scope]}
+              disallowEmptySelection
+              onSelectionChange={(keys) =>
+                updateSchedule({ scope: Array.from(keys)[0] as any })
+              }
+              aria-label="Schedule scope"
+            >
+              <SelectItem key="selected" textValue="Selected downloads">
+                Selected downloads ({schedule.downloadIds.length})
+              </SelectItem>
+              <SelectItem key="all" textValue="All downloads">
+                All downloads
+              </SelectItem>
+            </Select>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-col">
+              <span className="font-medium text-sm">When Finished</span>
+              <span className="text-xs text-default-400">
+                Action to take after the scheduled batch completes
+              </span>
+            </div>
+            <Select
+              selectedKeys={[schedule.postAction]}
+              disallowEmptySelection
+              onSelectionChange={(keys) =>
+                updateSchedule({ postAction: Array.from(keys)[0] as any })
+              }
+              aria-label="Post-queue action"
+            >
+              <SelectItem key="none" textValue="Do nothing">
+                Do nothing
+              </SelectItem>
+              <SelectItem key="quit" textValue="Quit app">
+                Quit app
+              </SelectItem>
+              <SelectItem key="command" textValue="Run command">
+                Run command
+              </SelectItem>
+            </Select>
+          </div>
+        </div>
+
+        {schedule.postAction === "command" && (
+          <Input
+            value={localCommand}
+            onValueChange={setLocalCommand}
+            onBlur={() => updateSchedule({ command: localCommand })}
+            placeholder="e.g. shutdown /s /t 60"
+            aria-label="Post-queue command"
+          />
+        )}
+      </CardBody>
+    </Card>
+  );
+};
@@ -0,0 +1,174 @@
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Button,
+  Chip,
+  Divider,
+  Skeleton,
+} from "@heroui/react";
+import { Gauge, Plus, Trash2 } from "lucide-react";
+import { useSettings } from "../../../hooks/useSettings";
+import { formatSpeedLimit } from "../../../utils/formatters";
+import { useEffect, useState } from "react";
+
+const KB = 1024;
+
+export const SpeedLimitSettings = () => {
+  const { settings, loading, updateSettings } = useSettings();
+  const [localLimit, setLocalLimit] = useState("0");
+  const [profileName, setProfileName] = useState("");
+  const [profileLimit, setProfileLimit] = useState("");
+
+  useEffect(() => {
+    if (settings) {
+      setLocalLimit(Math.round(settings.speedLimit / KB).toString());
+    }
+  }, [settings]);
+
+  if (loading || !settings) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const handleLimitBlur = async () => {
+    const kb = parseInt(localLimit, 10);
+    const speedLimit = !isNaN(kb) && kb > 0 ? kb * KB : 0;
+    if (speedLimit !== settings.speedLimit) {
+      // A hand-typed cap no longer matches any profile
+      await updateSettings({ speedLimit, activeSpeedProfileId: null });
+    }
+  };
+
+  const handleAddProfile = async () => {
+    const kb = parseInt(profileLimit, 10);
+    if (!profileName.trim() || isNaN(kb) || kb < 0) return;
+    await updateSettings({
+      speedProfiles: [
+        ...settings.speedProfiles,
+        { id: `${Date.now()}`, name: profileName.trim(), limit: kb * KB },
+      ],
+    });
+    setProfileName("");
+    setProfileLimit("");
+  };
+
+  const handleRemoveProfile = async (id: string) => {
+    await updateSettings({
+      speedProfiles: settings.speedProfiles.filter((p) => p.id !== id),
+      ...(settings.activeSpeedProfileId === id && {
+        activeSpeedProfileId: null,
+      }),
+    });
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center gap-2 font-bold text-lg px-6 pt-6">
+        <Gauge size={20} className="text-primary" />
+        Bandwidth
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-6">
+        <div className="flex items-center justify-between gap-6">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Global Speed Limit</span>
+            <span className="text-xs text-default-400">
+              Cap for all downloads combined, 0 = unlimited
+            </span>
+          </div>
+          <Input
+            type="number"
+            value={localLimit}
+            onValueChange={setLocalLimit}
+            onBlur={handleLimitBlur}
+            endContent={<span className="text-xs text-default-400">KB/s</span>}
+            className="w-40"
+            min={0}
+            aria-label="Global speed limit"
+          />
+        </div>
+
+        <Divider />
+
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Speed Profiles</span>
+            <span className="text-xs text-default-400">
+              Named limits you can switch between from the Downloads page
+            </span>
+          </div>
+
+          {settings.speedProfiles.map((profile) => (
+            <div
+              key={profile.id}
+              className="flex items-center justify-between pl-2"
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-sm">{profile.name}</span>
+                {settings.activeSpeedProfileId === profile.id && (
+                  <Chip size="sm" variant="flat" color="success">
+                    Active
+                  </Chip>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-default-500">
+                  {formatSpeedLimit(profile.limit)}
+                </span>
+                <Button
+                  isIconOnly
+                  size="sm"
+                  variant="light"
+                  color="danger"
+                  onPress={() => handleRemoveProfile(profile.id)}
+                >
+                  <Trash2 size={16} />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Input
+              size="sm"
+              value={profileName}
+              onValueChange={setProfileName}
+              placeholder="Profile name"
+              className="flex-1"
+              aria-label="Profile name"
+            />
+            <Input
+              size="sm"
+              type="number"
+              value={profileLimit}
+              onValueChange={setProfileLimit}
+              placeholder="Limit"
+              endContent={
+                <span className="text-xs text-default-400">KB/s</span>
+              }
+              className="w-40"
+              min={0}
+              aria-label="Profile speed limit"
+            />
+            <Button
+              size="sm"
+              color="primary"
+              variant="flat"
+              onPress={handleAddProfile}
+              startContent={<Plus size={16} />}
+            >
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
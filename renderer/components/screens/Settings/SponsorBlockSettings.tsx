@@ -0,0 +1,101 @@
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Select,
+  SelectItem,
+  Skeleton,
+} from "@heroui/react";
+import { SkipForward } from "lucide-react";
+import { useSettings } from "../../../hooks/useSettings";
+import { SponsorBlockCategory } from "../../../types/download";
+
+type SegmentAction = "keep" | "mark" | "remove";
+
+const CATEGORIES: { key: SponsorBlockCategory; label: string }[] = [
+  { key: "sponsor", label: "Sponsor" },
+  { key: "intro", label: "Intro / Intermission" },
+  { key: "outro", label: "Outro / Credits" },
+  { key: "selfpromo", label: "Self Promotion" },
+  { key: "preview", label: "Preview / Recap" },
+  { key: "filler", label: "Filler Tangent" },
+  { key: "interaction", label: "Interaction Reminder" },
+  { key: "music_offtopic", label: "Non-Music Section" },
+];
+
+const ACTIONS: { key: SegmentAction; label: string }[] = [
+  { key: "keep", label: "Keep" },
+  { key: "mark", label: "Mark as chapter" },
+  { key: "remove", label: "Remove" },
+];
+
+export const SponsorBlockSettings = () => {
+  const { settings, loading, updateSettings } = useSettings();
+
+  if (loading || !settings) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const { sponsorBlock } = settings;
+
+  const getAction = (category: SponsorBlockCategory): SegmentAction =>
+    sponsorBlock.remove.includes(category)
+      ? "remove"
+      : sponsorBlock.mark.includes(category)
+        ? "mark"
+        : "keep";
+
+  const handleChange = (
+    category: SponsorBlockCategory,
+    action: SegmentAction,
+  ) => {
+    const remove = sponsorBlock.remove.filter((c) => c !== category);
+    const mark = sponsorBlock.mark.filter((c) => c !== category);
+    if (action === "remove") remove.push(category);
+    if (action === "mark") mark.push(category);
+    updateSettings({ sponsorBlock: { remove, mark } });
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center gap-2 font-bold text-lg px-6 pt-6">
+        <SkipForward size={20} className="text-primary" />
+        SponsorBlock
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-3">
+        <span className="text-xs text-default-400">
+          Community-submitted segments of YouTube videos. Removed segments are
+          cut out with ffmpeg and listed on the finished download.
+        </span>
+        {CATEGORIES.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between gap-6">
+            <span className="font-medium text-sm">{label}</span>
+            <Select
+              size="sm"
+              selectedKeys={[getAction(key)]}
+              disallowEmptySelection
+              onSelectionChange={(keys) =>
+                handleChange(key, Array.from(keys)[0] as SegmentAction)
+              }
+              className="w-48"
+              aria-label={`${label} segments`}
+            >
+              {ACTIONS.map((action) => (
+                <SelectItem key={action.key} textValue={action.label}>
+                  {action.label}
+                </SelectItem>
+              ))}
+            </Select>
+          </div>
+        ))}
+      </CardBody>
+    </Card>
+  );
+};
@@ -0,0 +1,141 @@
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Select,
+  SelectItem,
+  Skeleton,
+  Switch,
+} from "@heroui/react";
+import { Captions } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+  useSettings,
+  SubtitleSettings as SubtitlePreferences,
+} from "../../../hooks/useSettings";
+import { SubtitleFormat } from "../../../types/download";
+import { SUBTITLE_FORMAT_OPTIONS } from "../../../utils/formatters";
+
+export const SubtitleSettings = () => {
+  const { settings, loading, updateSettings } = useSettings();
+  const [localLanguages, setLocalLanguages] = useState("");
+
+  useEffect(() => {
+    if (settings) {
+      setLocalLanguages(settings.subtitles.languages.join(", "));
+    }
+  }, [settings]);
+
+  if (loading || !settings) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const { subtitles } = settings;
+  const saveSubtitles = (changes: Partial<SubtitlePreferences>) =>
+    updateSettings({ subtitles: { ...subtitles, ...changes } });
+
+  const handleLanguagesBlur = async () => {
+    const languages = localLanguages
+      .split(/[\s,;]+/)
+      .map((code) => code.trim())
+      .filter(Boolean);
+    if (languages.join(",") !== subtitles.languages.join(",")) {
+      await saveSubtitles({ languages });
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center gap-2 font-bold text-lg px-6 pt-6">
+        <Captions size={20} className="text-primary" />
+        Subtitles
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-4">
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Preferred Languages</span>
+            <span className="text-xs text-default-400">
+              Language codes such as en, ar or pt-BR. They are pre-selected on
+              every video and fetched for every playlist video. Leave empty to
+              skip subtitles.
+            </span>
+          </div>
+          <Input
+            value={localLanguages}
+            onValueChange={setLocalLanguages}
+            onBlur={handleLanguagesBlur}
+            placeholder="en, ar"
+            aria-label="Preferred subtitle languages"
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-6">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Format</span>
+            <span className="text-xs text-default-400">
+              Convert subtitles after downloading
+            </span>
+          </div>
+          <Select
+            selectedKeys={[subtitles.format || "original"]}
+            disallowEmptySelection
+            onSelectionChange={(keys) => {
+              const value = Array.from(keys)[0] as string;
+              saveSubtitles({
+                format: value === "original" ? null : (value as SubtitleFormat),
+              });
+            }}
+            className="w-48"
+            aria-label="Subtitle format"
+            items={SUBTITLE_FORMAT_OPTIONS}
+          >
+            {(format) => (
+              <SelectItem key={format.key} textValue={format.label}>
+                {format.label}
+              </SelectItem>
+            )}
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Auto-Generated Captions</span>
+            <span className="text-xs text-default-400">
+              Use them for languages without real subtitles. Machine
+              translations are never downloaded.
+            </span>
+          </div>
+          <Switch
+            size="sm"
+            isSelected={subtitles.autoGenerated}
+            onValueChange={(autoGenerated) => saveSubtitles({ autoGenerated })}
+            aria-label="Use auto-generated captions"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Embed in Video</span>
+            <span className="text-xs text-default-400">
+              Store subtitles inside the video instead of next to it
+            </span>
+          </div>
+          <Switch
+            size="sm"
+            isSelected={subtitles.embed}
+            onValueChange={(embed) => saveSubtitles({ embed })}
+            aria-label="Embed subtitles in video"
+          />
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
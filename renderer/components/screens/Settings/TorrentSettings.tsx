@@ -0,0 +1,96 @@
+import { Card, CardBody, CardHeader, Input, Skeleton } from "@heroui/react";
+import { Magnet } from "lucide-react";
+import { useSettings } from "../../../hooks/useSettings";
+import { useEffect, useState } from "react";
+
+export const TorrentSettings = () => {
+  const { settings, loading, updateSettings } = useSettings();
+  const [localRatio, setLocalRatio] = useState("1");
+  const [localTime, setLocalTime] = useState("60");
+
+  useEffect(() => {
+    if (settings) {
+      setLocalRatio(settings.seedRatio.toString());
+      setLocalTime(settings.seedTime.toString());
+    }
+  }, [settings]);
+
+  if (loading || !settings) {
+    return (
+      <Card className="shadow-sm">
+        <CardBody className="gap-4">
+          <Skeleton className="h-12 w-full rounded-lg" />
+          <Skeleton className="h-12 w-full rounded-lg" />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  const handleRatioBlur = async () => {
+    const ratio = parseFloat(localRatio);
+    const seedRatio = !isNaN(ratio) && ratio > 0 ? ratio : 0;
+    setLocalRatio(seedRatio.toString());
+    if (seedRatio !== settings.seedRatio) {
+      await updateSettings({ seedRatio });
+    }
+  };
+
+  const handleTimeBlur = async () => {
+    const minutes = parseInt(localTime, 10);
+    const seedTime = !isNaN(minutes) && minutes > 0 ? minutes : 0;
+    setLocalTime(seedTime.toString());
+    if (seedTime !== settings.seedTime) {
+      await updateSettings({ seedTime });
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center gap-2 font-bold text-lg px-6 pt-6">
+        <Magnet size={20} className="text-primary" />
+        BitTorrent
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-6">
+        <div className="flex items-center justify-between gap-6">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Seed Ratio</span>
+            <span className="text-xs text-default-400">
+              Stop seeding after uploading this many times the size, 0 = no
+              ratio limit
+            </span>
+          </div>
+          <Input
+            type="number"
+            value={localRatio}
+            onValueChange={setLocalRatio}
+            onBlur={handleRatioBlur}
+            className="w-40"
+            min={0}
+            step={0.1}
+            aria-label="Seed ratio"
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-6">
+          <div className="flex flex-col">
+            <span className="font-medium text-sm">Seed Time</span>
+            <span className="text-xs text-default-400">
+              Keep seeding finished torrents for at most this long, 0 = don't
+              seed
+            </span>
+          </div>
+          <Input
+            type="number"
+            value={localTime}
+            onValueChange={setLocalTime}
+            onBlur={handleTimeBlur}
+            endContent={<span className="text-xs text-default-400">min</span>}
+            className="w-40"
+            min={0}
+            aria-label="Seed time"
+          />
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
@@ -1,5 +1,17 @@
 export * from "./GeneralSettings";
 export * from "./AppearanceSettings";
 export * from "./NotificationSettings";
+export * from "./QueueSettings";
+export * from "./ScheduleSettings";
+export * from "./SpeedLimitSettings";
+export * from "./TorrentSettings";
+export * from "./ConversionSettings";
+export * from "./SubtitleSettings";
+export * from "./SponsorBlockSettings";
 export * from "./EngineSettings";
+export * from "./BrowserBridgeSettings";
+export * from "./CredentialsSettings";
+export * from "./CookieSettings";
+export * from "./ProxySettings";
+export * from "./NetworkPolicySettings";
 export * from "./AboutSettings";
@@ -0,0 +1,67 @@
+import { ScrollShadow, Switch } from "@heroui/react";
+import { ListOrdered } from "lucide-react";
+import { VideoChapter } from "../../../types/download";
+import { formatDuration } from "../../../utils/formatters";
+
+interface ChapterOptionsProps {
+  chapters: VideoChapter[];
+  embedChapters: boolean;
+  onEmbedChaptersChange: (embed: boolean) => void;
+  splitChapters: boolean;
+  onSplitChaptersChange: (split: boolean) => void;
+}
+
+/**
+ * Chapter list of the video plus how chapters end up in the download
+ */
+export const ChapterOptions = ({
+  chapters,
+  embedChapters,
+  onEmbedChaptersChange,
+  splitChapters,
+  onSplitChaptersChange,
+}: ChapterOptionsProps) => {
+  return (
+    <div className="flex flex-col gap-3 mb-4">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <ListOrdered size={16} className="text-default-400" />
+        Chapters
+      </div>
+
+      <ScrollShadow className="max-h-40">
+        <ol className="flex flex-col gap-1 text-sm">
+          {chapters.map((chapter, index) => (
+            <li
+              key={`${chapter.startTime}-${index}`}
+              className="flex items-center gap-3"
+            >
+              <span className="w-16 shrink-0 text-default-400 font-mono text-xs">
+                {chapter.startTime > 0
+                  ? formatDuration(chapter.startTime)
+                  : "0:00"}
+              </span>
+              <span className="truncate">{chapter.title}</span>
+            </li>
+          ))}
+        </ol>
+      </ScrollShadow>
+
+      <div className="flex flex-wrap gap-6">
+        <Switch
+          size="sm"
+          isSelected={embedChapters}
+          onValueChange={onEmbedChaptersChange}
+        >
+          <span className="text-sm">Embed chapter markers</span>
+        </Switch>
+        <Switch
+          size="sm"
+          isSelected={splitChapters}
+          onValueChange={onSplitChaptersChange}
+        >
+          <span className="text-sm">Also save one file per chapter</span>
+        </Switch>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { Button, Chip, Input, Slider } from "@heroui/react";
+import { Plus, Scissors } from "lucide-react";
+import { DownloadSection, VideoChapter } from "../../../types/download";
+import { formatDuration, parseDuration } from "../../../utils/formatters";
+
+interface ClipSelectorProps {
+  duration: number; // Seconds
+  chapters?: VideoChapter[];
+  sections: DownloadSection[];
+  onChange: (sections: DownloadSection[]) => void;
+}
+
+const formatTime = (seconds: number) =>
+  seconds > 0 ? formatDuration(seconds) : "0:00";
+
+const isSameRange = (section: DownloadSection, chapter: VideoChapter) =>
+  section.start === chapter.startTime && section.end === chapter.endTime;
+
+/**
+ * Pick one or more time ranges to download instead of the whole video
+ */
+export const ClipSelector = ({
+  duration,
+  chapters = [],
+  sections,
+  onChange,
+}: ClipSelectorProps) => {
+  const [range, setRange] = useState<[number, number]>([0, duration]);
+  const [startText, setStartText] = useState(formatTime(0));
+  const [endText, setEndText] = useState(formatTime(duration));
+
+  const updateRange = (next: [number, number]) => {
+    setRange(next);
+    setStartText(formatTime(next[0]));
+    setEndText(formatTime(next[1]));
+  };
+
+  useEffect(() => {
+    updateRange([0, duration]);
+  }, [duration]);
+
+  // Typed times win if they make a valid range, otherwise snap back
+  const commitText = () => {
+    const start = parseDuration(startText);
+    const end = parseDuration(endText);
+    if (start !== null && end !== null && start < end && end <= duration) {
+      updateRange([start, end]);
+    } else {
+      updateRange(range);
+    }
+  };
+
+  const addSection = (section: DownloadSection) => {
+    const exists = sections.some(
+      (s) => s.start === section.start && s.end === section.end,
+    );
+    if (exists) return;
+    onChange([...sections, section].sort((a, b) => a.start - b.start));
+  };
+
+  const toggleChapter = (chapter: VideoChapter) => {
+    if (sections.some((s) => isSameRange(s, chapter))) {
+      onChange(sections.filter((s) => !isSameRange(s, chapter)));
+    } else {
+      addSection({
+        start: chapter.startTime,
+        end: chapter.endTime,
+        title: chapter.title,
+      });
+    }
+  };
+
+  const isWholeVideo = range[0] === 0 && range[1] >= duration;
+
+  return (
+    <div className="flex flex-col gap-3 mb-4">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Scissors size={16} className="text-default-400" />
+        Download only part of the video
+      </div>
+
+      <Slider
+        size="sm"
+        aria-label="Time range"
+        minValue={0}
+        maxValue={duration}
+        step={1}
+        value={range}
+        onChange={(value) => {
+          if (Array.isArray(value)) updateRange([value[0], value[1]]);
+        }}
+        getValue={(value) =>
+          Array.isArray(value)
+            ? `${formatTime(value[0])} – ${formatTime(value[1])}`
+            : formatTime(value)
+        }
+        showOutline
+      />
+
+      <div className="flex items-center gap-2">
+        <Input
+          size="sm"
+          variant="bordered"
+          className="w-28"
+          label="Start"
+          value={startText}
+          onValueChange={setStartText}
+          onBlur={commitText}
+        />
+        <Input
+          size="sm"
+          variant="bordered"
+          className="w-28"
+          label="End"
+          value={endText}
+          onValueChange={setEndText}
+          onBlur={commitText}
+        />
+        <Button
+          size="sm"
+          color="primary"
+          variant="flat"
+          startContent={<Plus size={16} />}
+          isDisabled={isWholeVideo}
+          onPress={() => addSection({ start: range[0], end: range[1] })}
+        >
+          Add Range
+        </Button>
+      </div>
+
+      {chapters.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {chapters.map((chapter) => (
+            <Button
+              key={`${chapter.startTime}-${chapter.endTime}`}
+              size="sm"
+              radius="full"
+              variant={
+                sections.some((s) => isSameRange(s, chapter)) ? "solid" : "flat"
+              }
+              color="secondary"
+              onPress={() => toggleChapter(chapter)}
+            >
+              {chapter.title || formatTime(chapter.startTime)}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {sections.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {sections.map((section, index) => (
+            <Chip
+              key={`${section.start}-${section.end}`}
+              size="sm"
+              variant="bordered"
+              onClose={() => onChange(sections.filter((_, i) => i !== index))}
+            >
+              {section.title ? `${section.title}: ` : ""}
+              {formatTime(section.start)} – {formatTime(section.end)}
+            </Chip>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import {
+  Checkbox,
+  CheckboxGroup,
+  Chip,
+  ScrollShadow,
+  Select,
+  SelectItem,
+  Switch,
+} from "@heroui/react";
+import { Captions } from "lucide-react";
+import {
+  SubtitleFormat,
+  SubtitleSelection,
+  SubtitleTrack,
+} from "../../../types/download";
+import { SUBTITLE_FORMAT_OPTIONS } from "../../../utils/formatters";
+
+interface SubtitlePickerProps {
+  subtitles: Record<string, SubtitleTrack[]>;
+  selection: SubtitleSelection;
+  onChange: (selection: SubtitleSelection) => void;
+}
+
+const hasManualTrack = (tracks: SubtitleTrack[]) =>
+  tracks.some((track) => !track.isAutoGenerated);
+
+/**
+ * Subtitle languages of the video, real subtitles listed before
+ * auto-generated captions
+ */
+export const SubtitlePicker = ({
+  subtitles,
+  selection,
+  onChange,
+}: SubtitlePickerProps) => {
+  const languages = Object.keys(subtitles).sort((a, b) => {
+    const manualFirst =
+      Number(hasManualTrack(subtitles[b])) -
+      Number(hasManualTrack(subtitles[a]));
+    return manualFirst || a.localeCompare(b);
+  });
+
+  return (
+    <div className="flex flex-col gap-3 mb-4">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Captions size={16} className="text-default-400" />
+        Subtitles
+      </div>
+
+      <ScrollShadow className="max-h-32">
+        <CheckboxGroup
+          size="sm"
+          orientation="horizontal"
+          aria-label="Subtitle languages"
+          value={selection.languages}
+          onValueChange={(languages) => onChange({ ...selection, languages })}
+        >
+          {languages.map((lang) => (
+            <Checkbox key={lang} value={lang} className="mr-2">
+              <span className="flex items-center gap-1">
+                {lang}
+                {!hasManualTrack(subtitles[lang]) && (
+                  <Chip size="sm" variant="flat" color="warning">
+                    Auto
+                  </Chip>
+                )}
+              </span>
+            </Checkbox>
+          ))}
+        </CheckboxGroup>
+      </ScrollShadow>
+
+      <div className="flex items-center gap-6">
+        <Select
+          size="sm"
+          variant="bordered"
+          className="w-48"
+          label="Format"
+          selectedKeys={[selection.format || "original"]}
+          disallowEmptySelection
+          onSelectionChange={(keys) => {
+            const value = Array.from(keys)[0] as string;
+            onChange({
+              ...selection,
+              format: value === "original" ? null : (value as SubtitleFormat),
+            });
+          }}
+          items={SUBTITLE_FORMAT_OPTIONS}
+        >
+          {(format) => (
+            <SelectItem key={format.key} className="text-foreground">
+              {format.label}
+            </SelectItem>
+          )}
+        </Select>
+        <Switch
+          size="sm"
+          isSelected={selection.embed}
+          onValueChange={(embed) => onChange({ ...selection, embed })}
+        >
+          <span className="text-sm">Embed in video</span>
+        </Switch>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,22 @@
-import { Card, CardBody } from "@heroui/react";
+import {
+  Card,
+  CardBody,
+  Input,
+  Select,
+  SelectItem,
+  Textarea,
+} from "@heroui/react";
+import { FileCog, ShieldCheck, Server } from "lucide-react";
 import { motion } from "framer-motion";
 import { VideoThumbnail } from "./VideoThumbnail";
 import { VideoMetadata } from "./VideoMetadata";
 import { QualityFormatSelectors } from "./QualityFormatSelectors";
 import { DownloadActions } from "./DownloadActions";
+import { ClipSelector } from "./ClipSelector";
+import { ChapterOptions } from "./ChapterOptions";
+import { SubtitlePicker } from "./SubtitlePicker";
+import { ConversionPreset } from "../../../types/conversion";
+import { DownloadSection, SubtitleSelection } from "../../../types/download";
 
 interface VideoInfoCardProps {
   // State
@@ -24,6 +37,27 @@ interface VideoInfoCardProps {
   onClear: () => void;
   onQualityChange: (quality: any) => void;
   onFormatChange: (format: string) => void;
+
+  // Direct downloads only
+  checksum?: string;
+  onChecksumChange?: (checksum: string) => void;
+  mirrors?: string;
+  onMirrorsChange?: (mirrors: string) => void;
+
+  // ffmpeg preset run once the file is downloaded
+  conversionPresets?: ConversionPreset[];
+  conversionPresetId?: string;
+  onConversionPresetChange?: (presetId: string) => void;
+
+  // Video downloads only: time ranges to keep
+  sections?: DownloadSection[];
+  onSectionsChange?: (sections: DownloadSection[]) => void;
+  embedChapters?: boolean;
+  onEmbedChaptersChange?: (embed: boolean) => void;
+  splitChapters?: boolean;
+  onSplitChaptersChange?: (split: boolean) => void;
+  subtitleSelection?: SubtitleSelection;
+  onSubtitleSelectionChange?: (selection: SubtitleSelection) => void;
 }
 
 export const VideoInfoCard = ({
@@ -38,6 +72,21 @@ export const VideoInfoCard = ({
   onClear,
   onQualityChange,
   onFormatChange,
+  checksum = "",
+  onChecksumChange,
+  mirrors = "",
+  onMirrorsChange,
+  conversionPresets = [],
+  conversionPresetId = "",
+  onConversionPresetChange,
+  sections = [],
+  onSectionsChange,
+  embedChapters = false,
+  onEmbedChaptersChange,
+  splitChapters = false,
+  onSplitChaptersChange,
+  subtitleSelection,
+  onSubtitleSelectionChange,
 }: VideoInfoCardProps) => {
   return (
     <motion.div
@@ -67,6 +116,111 @@ export const VideoInfoCard = ({
                 />
               )}
 
+              {/* Expected hash - checked by aria2 once the file completes */}
+              {isDirectDownload && onChecksumChange && (
+                <Input
+                  size="sm"
+                  variant="bordered"
+                  className="mb-4"
+                  label="Expected checksum (optional)"
+                  placeholder="sha-256=... or paste an MD5/SHA-1/SHA-256/SHA-512 hash"
+                  value={checksum}
+                  onValueChange={onChecksumChange}
+                  startContent={
+                    <ShieldCheck size={16} className="text-default-400" />
+                  }
+                />
+              )}
+
+              {/* Extra URLs for the same file, fetched from in parallel */}
+              {isDirectDownload && onMirrorsChange && (
+                <Textarea
+                  size="sm"
+                  variant="bordered"
+                  className="mb-4"
+                  label="Mirror URLs (optional)"
+                  placeholder="One URL per line, all serving the same file"
+                  minRows={1}
+                  maxRows={4}
+                  value={mirrors}
+                  onValueChange={onMirrorsChange}
+                  startContent={
+                    <Server size={16} className="text-default-400" />
+                  }
+                />
+              )}
+
+              {!isDirectDownload &&
+                subtitleSelection &&
+                onSubtitleSelectionChange &&
+                Object.keys(videoInfo.subtitles || {}).length > 0 && (
+                  <SubtitlePicker
+                    subtitles={videoInfo.subtitles}
+                    selection={subtitleSelection}
+                    onChange={onSubtitleSelectionChange}
+                  />
+                )}
+
+              {!isDirectDownload &&
+                onEmbedChaptersChange &&
+                onSplitChaptersChange &&
+                videoInfo.chapters?.length > 0 && (
+                  <ChapterOptions
+                    chapters={videoInfo.chapters}
+                    embedChapters={embedChapters}
+                    onEmbedChaptersChange={onEmbedChaptersChange}
+                    splitChapters={splitChapters}
+                    onSplitChaptersChange={onSplitChaptersChange}
+                  />
+                )}
+
+              {/* Clip trimming needs a known length, so not for live streams */}
+              {!isDirectDownload &&
+                onSectionsChange &&
+                videoInfo.duration > 0 &&
+                !videoInfo.isLive && (
+                  <ClipSelector
+                    duration={videoInfo.duration}
+                    chapters={videoInfo.chapters}
+                    sections={sections}
+                    onChange={onSectionsChange}
+                  />
+                )}
+
+              {onConversionPresetChange && conversionPresets.length > 0 && (
+                <Select
+                  size="sm"
+                  variant="bordered"
+                  className="mb-4"
+                  label="Convert after download"
+                  selectedKeys={[conversionPresetId || "none"]}
+                  disallowEmptySelection
+                  onSelectionChange={(keys) => {
+                    const value = Array.from(keys)[0] as string;
+                    onConversionPresetChange(value === "none" ? "" : value);
+                  }}
+                  startContent={
+                    <FileCog size={16} className="text-default-400" />
+                  }
+                  items={[
+                    { id: "none", name: "Don't convert", extension: "" },
+                    ...conversionPresets,
+                  ]}
+                >
+                  {(preset) => (
+                    <SelectItem
+                      key={preset.id}
+                      className="text-foreground"
+                      description={
+                        preset.extension ? `.${preset.extension}` : undefined
+                      }
+                    >
+                      {preset.name}
+                    </SelectItem>
+                  )}
+                </Select>
+              )}
+
               {/* Action Buttons */}
               <DownloadActions
                 isDownloading={isDownloading}
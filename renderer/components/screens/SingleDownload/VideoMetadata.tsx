@@ -1,4 +1,4 @@
-import { Clock, Globe, Eye } from "lucide-react";
+import { Clock, Globe, Eye, ListOrdered } from "lucide-react";
 import { formatDuration, formatViewCount } from "../../../utils/formatters";
 import { VideoInfo } from "../../../types/download";
 
@@ -7,6 +7,7 @@ export const VideoMetadata = ({
   duration,
   viewCount,
   extractor,
+  chapters,
 }: VideoInfo) => {
   return (
     <div>
@@ -25,6 +26,13 @@ export const VideoMetadata = ({
           </div>
         )}
 
+        {chapters?.length > 0 && (
+          <div className="flex items-center gap-1">
+            <ListOrdered size={16} />
+            <span>{chapters.length} chapters</span>
+          </div>
+        )}
+
         <div className="flex items-center gap-1 text-primary font-medium">
           <Globe size={16} />
           <span>{extractor || "Direct Link"}</span>
@@ -6,3 +6,6 @@ export { VideoThumbnail } from "./VideoThumbnail";
 export { VideoMetadata } from "./VideoMetadata";
 export { QualityFormatSelectors } from "./QualityFormatSelectors";
 export { DownloadActions } from "./DownloadActions";
+export { ClipSelector } from "./ClipSelector";
+export { ChapterOptions } from "./ChapterOptions";
+export { SubtitlePicker } from "./SubtitlePicker";
@@ -0,0 +1,153 @@
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Select,
+  SelectItem,
+  Switch,
+} from "@heroui/react";
+import { FolderOpen, Link2, Plus, Rss } from "lucide-react";
+import { useState } from "react";
+import { useSettings } from "../../../hooks/useSettings";
+import { DownloadQuality } from "../../../types/download";
+import { NewSubscription } from "../../../types/subscriptions";
+import {
+  QUALITY_OPTIONS,
+  SUBSCRIPTION_INTERVAL_OPTIONS,
+} from "../../../utils/formatters";
+
+interface AddSubscriptionCardProps {
+  isAdding: boolean;
+  error: string | null;
+  onAdd: (subscription: NewSubscription) => Promise<boolean>;
+}
+
+export const AddSubscriptionCard = ({
+  isAdding,
+  error,
+  onAdd,
+}: AddSubscriptionCardProps) => {
+  const { selectDirectory } = useSettings();
+  const [url, setUrl] = useState("");
+  const [quality, setQuality] = useState<string>(DownloadQuality.BEST);
+  const [intervalMinutes, setIntervalMinutes] = useState("60");
+  const [outputPath, setOutputPath] = useState("");
+  const [downloadExisting, setDownloadExisting] = useState(false);
+
+  const handleSelectFolder = async () => {
+    const path = await selectDirectory();
+    if (path) setOutputPath(path);
+  };
+
+  const handleAdd = async () => {
+    const audioOnly = quality === DownloadQuality.AUDIO_ONLY;
+    const added = await onAdd({
+      url,
+      quality,
+      format: audioOnly ? "mp3" : "mp4",
+      audioOnly,
+      outputPath,
+      intervalMinutes: Number(intervalMinutes),
+      downloadExisting,
+    });
+    if (added) {
+      setUrl("");
+      setDownloadExisting(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex items-center gap-2 font-bold text-lg px-6 pt-6">
+        <Rss size={20} className="text-primary" />
+        New Subscription
+      </CardHeader>
+      <CardBody className="px-6 pb-6 pt-2 flex flex-col gap-4">
+        <Input
+          value={url}
+          onValueChange={setUrl}
+          placeholder="Paste channel or playlist URL..."
+          startContent={<Link2 size={18} className="text-default-400" />}
+          isInvalid={!!error}
+          errorMessage={error}
+          isDisabled={isAdding}
+          aria-label="Channel or playlist URL"
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Select
+            label="Quality"
+            variant="bordered"
+            selectedKeys={[quality]}
+            disallowEmptySelection
+            onSelectionChange={(keys) =>
+              setQuality(Array.from(keys)[0] as string)
+            }
+            items={QUALITY_OPTIONS}
+          >
+            {(option) => (
+              <SelectItem key={option.key} className="text-foreground">
+                {option.label}
+              </SelectItem>
+            )}
+          </Select>
+          <Select
+            label="Check for new videos"
+            variant="bordered"
+            selectedKeys={[intervalMinutes]}
+            disallowEmptySelection
+            onSelectionChange={(keys) =>
+              setIntervalMinutes(Array.from(keys)[0] as string)
+            }
+            items={SUBSCRIPTION_INTERVAL_OPTIONS}
+          >
+            {(option) => (
+              <SelectItem key={option.key} className="text-foreground">
+                {option.label}
+              </SelectItem>
+            )}
+          </Select>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            value={outputPath}
+            placeholder="Playlists/<channel name> in the download folder"
+            className="flex-1"
+            aria-label="Output folder"
+          />
+          <Button
+            isIconOnly
+            variant="flat"
+            onPress={handleSelectFolder}
+            title="Choose folder"
+          >
+            <FolderOpen size={20} />
+          </Button>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <Switch
+            size="sm"
+            isSelected={downloadExisting}
+            onValueChange={setDownloadExisting}
+          >
+            <span className="text-sm">Also download existing videos</span>
+          </Switch>
+          <Button
+            color="primary"
+            startContent={!isAdding && <Plus size={18} />}
+            isLoading={isAdding}
+            isDisabled={!url.trim()}
+            onPress={handleAdd}
+          >
+            {isAdding ? "Reading channel..." : "Subscribe"}
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
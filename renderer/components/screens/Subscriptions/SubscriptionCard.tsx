@@ -0,0 +1,131 @@
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Select,
+  SelectItem,
+  Switch,
+} from "@heroui/react";
+import { AlertCircle, Folder, RefreshCw, Trash2 } from "lucide-react";
+import { Subscription } from "../../../types/subscriptions";
+import {
+  QUALITY_OPTIONS,
+  SUBSCRIPTION_INTERVAL_OPTIONS,
+} from "../../../utils/formatters";
+
+interface SubscriptionCardProps {
+  subscription: Subscription;
+  isChecking: boolean;
+  onToggle: (enabled: boolean) => void;
+  onIntervalChange: (intervalMinutes: number) => void;
+  onCheckNow: () => void;
+  onRemove: () => void;
+}
+
+export const SubscriptionCard = ({
+  subscription,
+  isChecking,
+  onToggle,
+  onIntervalChange,
+  onCheckNow,
+  onRemove,
+}: SubscriptionCardProps) => {
+  const qualityLabel =
+    QUALITY_OPTIONS.find((option) => option.key === subscription.quality)
+      ?.label || subscription.quality;
+
+  return (
+    <Card className="shadow-sm">
+      <CardBody className="p-4 flex flex-col gap-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="font-semibold truncate">{subscription.title}</h3>
+            <p className="text-xs text-default-400 truncate">
+              {subscription.url}
+            </p>
+          </div>
+          <Switch
+            size="sm"
+            isSelected={subscription.enabled}
+            onValueChange={onToggle}
+            aria-label="Check this subscription automatically"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-default-500">
+          <Chip size="sm" variant="flat">
+            {qualityLabel}
+          </Chip>
+          {subscription.outputPath && (
+            <Chip
+              size="sm"
+              variant="flat"
+              startContent={<Folder size={12} className="ml-1" />}
+            >
+              {subscription.outputPath}
+            </Chip>
+          )}
+          <span>
+            {subscription.lastCheckedAt
+              ? `Last checked ${new Date(subscription.lastCheckedAt).toLocaleString()}`
+              : "Not checked yet"}
+          </span>
+          {subscription.lastNewItems > 0 && (
+            <Chip size="sm" variant="flat" color="success">
+              {subscription.lastNewItems} new
+            </Chip>
+          )}
+        </div>
+
+        {subscription.lastError && (
+          <div className="flex items-center gap-2 text-xs text-danger">
+            <AlertCircle size={14} />
+            {subscription.lastError}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <Select
+            size="sm"
+            className="w-48"
+            selectedKeys={[String(subscription.intervalMinutes)]}
+            disallowEmptySelection
+            onSelectionChange={(keys) =>
+              onIntervalChange(Number(Array.from(keys)[0]))
+            }
+            aria-label="Check interval"
+            items={SUBSCRIPTION_INTERVAL_OPTIONS}
+          >
+            {(option) => (
+              <SelectItem key={option.key} textValue={option.label}>
+                {option.label}
+              </SelectItem>
+            )}
+          </Select>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="flat"
+              startContent={!isChecking && <RefreshCw size={14} />}
+              isLoading={isChecking}
+              onPress={onCheckNow}
+            >
+              {isChecking ? "Checking..." : "Check Now"}
+            </Button>
+            <Button
+              size="sm"
+              variant="flat"
+              color="danger"
+              isIconOnly
+              onPress={onRemove}
+              title="Unsubscribe"
+            >
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
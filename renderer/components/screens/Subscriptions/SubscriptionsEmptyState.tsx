@@ -0,0 +1,21 @@
+import { Card, CardBody } from "@heroui/react";
+import { Rss } from "lucide-react";
+
+export const SubscriptionsEmptyState = () => {
+  return (
+    <Card className="bg-default-50/50 border-2 border-dashed border-default-200">
+      <CardBody className="py-20 flex flex-col items-center justify-center text-center">
+        <div className="w-20 h-20 bg-default-100 rounded-full flex items-center justify-center mb-4">
+          <Rss size={40} className="text-default-300" />
+        </div>
+        <h3 className="text-xl font-bold text-default-700">
+          No Subscriptions Yet
+        </h3>
+        <p className="text-default-500 mt-2 max-w-xs">
+          Subscribe to a channel or playlist and its new videos will be queued
+          as soon as they are published.
+        </p>
+      </CardBody>
+    </Card>
+  );
+};
@@ -0,0 +1,12 @@
+export const SubscriptionsHeader = () => {
+  return (
+    <div>
+      <h1 className="text-4xl font-black bg-linear-to-r from-brand-cyan to-brand-purple bg-clip-text text-transparent">
+        Subscriptions
+      </h1>
+      <p className="text-default-500 text-sm">
+        New videos from channels and playlists are downloaded automatically
+      </p>
+    </div>
+  );
+};
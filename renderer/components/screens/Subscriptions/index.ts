@@ -0,0 +1,4 @@
+export * from "./SubscriptionsHeader";
+export * from "./AddSubscriptionCard";
+export * from "./SubscriptionsEmptyState";
+export * from "./SubscriptionCard";
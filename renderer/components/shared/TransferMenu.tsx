@@ -0,0 +1,144 @@
+import {
+  Button,
+  Dropdown,
+  DropdownItem,
+  DropdownMenu,
+  DropdownTrigger,
+  addToast,
+} from "@heroui/react";
+import {
+  Download,
+  FileJson,
+  FileSpreadsheet,
+  FileText,
+  History,
+  ListPlus,
+  Upload,
+} from "lucide-react";
+import { useTransfer } from "../../hooks/useTransfer";
+import { ExportFormat, ExportScope, ImportMode } from "../../types/transfer";
+
+interface TransferMenuProps {
+  scope: ExportScope;
+  onImported?: () => void;
+}
+
+const describeImport = (restored: number, queued: number, skipped: number) =>
+  [
+    restored > 0 && `${restored} restored to history`,
+    queued > 0 && `${queued} queued`,
+    skipped > 0 && `${skipped} already there`,
+  ]
+    .filter(Boolean)
+    .join(", ") || "Nothing new to import";
+
+/**
+ * Export buttons for a list plus import that restores history or
+ * downloads the links again
+ */
+export const TransferMenu = ({ scope, onImported }: TransferMenuProps) => {
+  const { busy, exportDownloads, importDownloads } = useTransfer();
+
+  const handleExport = async (format: ExportFormat) => {
+    const result = await exportDownloads(format, scope);
+    if (!result.success) {
+      addToast({
+        title: "Export failed",
+        description: result.error,
+        color: "danger",
+      });
+    } else if (result.data) {
+      addToast({
+        title: "Exported",
+        description: result.data,
+        color: "success",
+      });
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    const result = await importDownloads(mode);
+    if (!result.success) {
+      addToast({
+        title: "Import failed",
+        description: result.error,
+        color: "danger",
+      });
+      return;
+    }
+    if (!result.data) return;
+
+    const { restored, queued, skipped, errors } = result.data;
+    addToast({
+      title: errors.length > 0 ? `${errors.length} links failed` : "Imported",
+      description:
+        describeImport(restored, queued, skipped) +
+        (errors.length > 0 ? `. ${errors[0]}` : ""),
+      color: errors.length > 0 ? "warning" : "success",
+    });
+    onImported?.();
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Dropdown placement="bottom-end">
+        <DropdownTrigger>
+          <Button
+            variant="flat"
+            isDisabled={busy}
+            startContent={<Upload size={16} />}
+          >
+            Export
+          </Button>
+        </DropdownTrigger>
+        <DropdownMenu
+          aria-label="Export format"
+          variant="flat"
+          onAction={(key) => handleExport(key as ExportFormat)}
+        >
+          <DropdownItem key="json" startContent={<FileJson size={16} />}>
+            JSON (full details)
+          </DropdownItem>
+          <DropdownItem key="csv" startContent={<FileSpreadsheet size={16} />}>
+            CSV spreadsheet
+          </DropdownItem>
+          <DropdownItem key="urls" startContent={<FileText size={16} />}>
+            Plain URL list
+          </DropdownItem>
+        </DropdownMenu>
+      </Dropdown>
+      <Dropdown placement="bottom-end">
+        <DropdownTrigger>
+          <Button
+            variant="flat"
+            isLoading={busy}
+            startContent={!busy && <Download size={16} />}
+          >
+            Import
+          </Button>
+        </DropdownTrigger>
+        <DropdownMenu
+          aria-label="Import mode"
+          variant="flat"
+          disabledKeys={scope === "queue" ? ["restore"] : []}
+          onAction={(key) => handleImport(key as ImportMode)}
+        >
+          <DropdownItem
+            key="restore"
+            description="Add the records of a JSON or CSV export"
+            startContent={<History size={16} />}
+          >
+            Restore history
+          </DropdownItem>
+          <DropdownItem
+            key="enqueue"
+            description="Queue the links with their original options"
+            startContent={<ListPlus size={16} />}
+          >
+            Download again
+          </DropdownItem>
+        </DropdownMenu>
+      </Dropdown>
+    </div>
+  );
+};
@@ -9,7 +9,14 @@ import {
   PopoverTrigger,
   PopoverContent,
 } from "@heroui/react";
-import { Copy, Scissors, Clipboard, Download, Link2 } from "lucide-react";
+import {
+  Copy,
+  Scissors,
+  Clipboard,
+  Download,
+  Link2,
+  FileUp,
+} from "lucide-react";
 
 export interface UrlInputCardProps {
   url: string;
@@ -26,6 +33,8 @@ export interface UrlInputCardProps {
   buttonText?: string;
   /** Custom loading text */
   loadingText?: string;
+  /** Also accept FTP/SFTP, magnet links and local files, with a button to pick one */
+  onOpenFile?: () => void;
 }
 
 export const UrlInputCard: React.FC<UrlInputCardProps> = ({
@@ -39,6 +48,7 @@ export const UrlInputCard: React.FC<UrlInputCardProps> = ({
   startIcon = <Link2 className="text-primary" />,
   buttonText = "Fetch Info",
   loadingText = "Fetching...",
+  onOpenFile,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [offsets, setOffsets] = useState({ x: 0, y: 0 });
@@ -167,12 +177,32 @@ export const UrlInputCard: React.FC<UrlInputCardProps> = ({
           </Popover>
         </div>
 
+        {onOpenFile && (
+          <Button
+            isIconOnly
+            size="lg"
+            variant="flat"
+            className="h-14 w-14"
+            onPress={onOpenFile}
+            isDisabled={isLoading}
+            title="Open .torrent / .meta4 file"
+          >
+            <FileUp size={20} />
+          </Button>
+        )}
+
         <Button
           color="primary"
           size="lg"
           onPress={onFetch}
           isLoading={isLoading}
-          isDisabled={!url.trim() || !url.startsWith("http") || isLoading}
+          isDisabled={
+            !url.trim() ||
+            !(onOpenFile
+              ? /^(https?|s?ftp|magnet|file):/i.test(url.trim())
+              : url.startsWith("http")) ||
+            isLoading
+          }
           className="h-14 px-4 font-bold bg-linear-to-r from-brand-cyan to-brand-purple text-white shadow-lg shadow-brand-cyan/30 hover:scale-[1.02] active:scale-[0.98] transition-all"
           endContent={!isLoading && <Download size={20} />}
         >
@@ -1,2 +1,3 @@
 export * from "./UrlInputCard";
 export * from "./EmptyState";
+export * from "./TransferMenu";
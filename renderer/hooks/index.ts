@@ -1,9 +1,20 @@
 export * from "./use-window-controls";
+export * from "./useBrowserBridge";
+export * from "./useConversion";
+export * from "./useCookies";
+export * from "./useCredentials";
 export * from "./useDownload";
 export * from "./useHistory";
 export * from "./useIpc";
+export * from "./useLinkGrabber";
 export * from "./useMultiDownload";
+export * from "./useNetworkPolicy";
+export * from "./useProxy";
 export * from "./usePlaylistDownload";
+export * from "./useQueues";
+export * from "./useScheduler";
 export * from "./useSettings";
 export * from "./useSingleDownload";
+export * from "./useSubscriptions";
+export * from "./useTransfer";
 export * from "./useUpdate";
@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from "react";
+import { BridgeStatus } from "../types/bridge";
+
+export const useBrowserBridge = () => {
+  const [status, setStatus] = useState<BridgeStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const data = await window.ipc.invoke("bridge:get", null);
+      setStatus(data);
+    } catch (error) {
+      console.error("Failed to fetch browser bridge status:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+    const unsubscribe = window.ipc.on("bridge:changed", (data) => {
+      setStatus(data as BridgeStatus);
+    });
+    return () => unsubscribe();
+  }, [fetchStatus]);
+
+  const updateBridge = useCallback(
+    async (config: Partial<Pick<BridgeStatus, "enabled" | "port">>) => {
+      try {
+        const updated = await window.ipc.invoke("bridge:update", config);
+        setStatus(updated);
+      } catch (error) {
+        console.error("Failed to update browser bridge:", error);
+      }
+    },
+    [],
+  );
+
+  const regenerateToken = useCallback(async () => {
+    try {
+      const updated = await window.ipc.invoke("bridge:regenerate-token", null);
+      setStatus(updated);
+    } catch (error) {
+      console.error("Failed to regenerate bridge token:", error);
+    }
+  }, []);
+
+  return {
+    status,
+    loading,
+    updateBridge,
+    regenerateToken,
+    refreshStatus: fetchStatus,
+  };
+};
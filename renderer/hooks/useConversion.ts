@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from "react";
+import { ConversionPreset } from "../types/conversion";
+
+// ipcRenderer wraps main-process errors: "Error invoking remote method ..."
+const toMessage = (err: unknown) =>
+  (err instanceof Error ? err.message : String(err)).replace(/^.*Error: /, "");
+
+export const useConversion = () => {
+  const [presets, setPresets] = useState<ConversionPreset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPresets = useCallback(async () => {
+    try {
+      const data = await window.ipc.invoke("conversion:get-presets", null);
+      setPresets(data);
+    } catch (err) {
+      console.error("Failed to fetch conversion presets:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  const savePreset = useCallback(async (preset: Partial<ConversionPreset>) => {
+    try {
+      const updated = await window.ipc.invoke("conversion:save-preset", preset);
+      setPresets(updated);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(toMessage(err));
+      return false;
+    }
+  }, []);
+
+  const deletePreset = useCallback(async (id: string) => {
+    try {
+      const updated = await window.ipc.invoke("conversion:delete-preset", id);
+      setPresets(updated);
+    } catch (err) {
+      console.error("Failed to delete conversion preset:", err);
+    }
+  }, []);
+
+  // Run a preset on a finished download; the job shows on the Downloads page
+  const convertHistoryItem = useCallback(
+    async (
+      historyId: string,
+      presetId: string,
+    ): Promise<{ success: boolean; error?: string }> => {
+      try {
+        await window.ipc.invoke("conversion:convert", { historyId, presetId });
+        return { success: true };
+      } catch (err) {
+        return { success: false, error: toMessage(err) };
+      }
+    },
+    [],
+  );
+
+  return {
+    presets,
+    loading,
+    error,
+    savePreset,
+    deletePreset,
+    convertHistoryItem,
+  };
+};
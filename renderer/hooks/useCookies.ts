@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from "react";
+import { CookieProfile } from "../types/cookies";
+
+// ipcRenderer wraps main-process errors: "Error invoking remote method ..."
+const toMessage = (err: unknown) =>
+  (err instanceof Error ? err.message : String(err)).replace(/^.*Error: /, "");
+
+export const useCookies = () => {
+  const [profiles, setProfiles] = useState<CookieProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const data = await window.ipc.invoke("cookies:get", null);
+      setProfiles(data);
+    } catch (err) {
+      console.error("Failed to fetch cookie profiles:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  // Paste a cookies.txt file's content or a Cookie header
+  const saveProfile = useCallback(
+    async (name: string, host: string, content: string) => {
+      try {
+        const updated = await window.ipc.invoke("cookies:save", {
+          name,
+          host,
+          content,
+        });
+        setProfiles(updated);
+        setError(null);
+        return true;
+      } catch (err) {
+        setError(toMessage(err));
+        return false;
+      }
+    },
+    [],
+  );
+
+  const importFile = useCallback(async (name: string, host: string) => {
+    try {
+      const updated = await window.ipc.invoke("cookies:import-file", {
+        name,
+        host,
+      });
+      setProfiles(updated);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(toMessage(err));
+      return false;
+    }
+  }, []);
+
+  const deleteProfile = useCallback(async (id: string) => {
+    try {
+      const updated = await window.ipc.invoke("cookies:delete", id);
+      setProfiles(updated);
+    } catch (err) {
+      console.error("Failed to delete cookie profile:", err);
+    }
+  }, []);
+
+  return { profiles, loading, error, saveProfile, importFile, deleteProfile };
+};
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from "react";
+import { CredentialsState } from "../types/credentials";
+
+export const useCredentials = () => {
+  const [state, setState] = useState<CredentialsState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCredentials = useCallback(async () => {
+    try {
+      const data = await window.ipc.invoke("credentials:get", null);
+      setState(data);
+    } catch (err) {
+      console.error("Failed to fetch credentials:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCredentials();
+  }, [fetchCredentials]);
+
+  const saveCredential = useCallback(
+    async (host: string, username: string, password: string) => {
+      try {
+        const updated = await window.ipc.invoke("credentials:save", {
+          host,
+          username,
+          password,
+        });
+        setState(updated);
+        setError(null);
+        return true;
+      } catch (err) {
+        // ipcRenderer wraps main-process errors: "Error invoking remote method ..."
+        const message = err instanceof Error ? err.message : String(err);
+        setError(message.replace(/^.*Error: /, ""));
+        return false;
+      }
+    },
+    [],
+  );
+
+  const deleteCredential = useCallback(async (id: string) => {
+    try {
+      const updated = await window.ipc.invoke("credentials:delete", id);
+      setState(updated);
+    } catch (err) {
+      console.error("Failed to delete credential:", err);
+    }
+  }, []);
+
+  return {
+    credentials: state?.credentials || [],
+    encryptionAvailable: state?.encryptionAvailable ?? true,
+    loading,
+    error,
+    saveCredential,
+    deleteCredential,
+  };
+};
@@ -15,6 +15,9 @@ import {
   DownloadIpcChannels,
   LinkTypeResult,
   DetectionMode,
+  GrabbedLink,
+  LinkProbe,
+  ImportedLink,
 } from "../types/download";
 
 /**
@@ -123,6 +126,109 @@ export async function cancelDownload(
   }
 }
 
+/**
+ * Change the speed limit of a download (null = unlimited)
+ */
+export async function setDownloadSpeedLimit(
+  downloadId: string,
+  limit: string | null,
+): Promise<ApiResponse<boolean>> {
+  try {
+    const result = await window.ipc.invoke(
+      DownloadIpcChannels.SET_SPEED_LIMIT,
+      { downloadId, limit },
+    );
+    return result as ApiResponse<boolean>;
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to set speed limit",
+    };
+  }
+}
+
+/**
+ * Choose which files of a torrent to download (1-based indexes)
+ */
+export async function selectDownloadFiles(
+  downloadId: string,
+  indexes: number[],
+): Promise<ApiResponse<boolean>> {
+  try {
+    const result = await window.ipc.invoke(DownloadIpcChannels.SELECT_FILES, {
+      downloadId,
+      indexes,
+    });
+    return result as ApiResponse<boolean>;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to select files",
+    };
+  }
+}
+
+/**
+ * Stop seeding a completed torrent
+ */
+export async function stopSeeding(
+  downloadId: string,
+): Promise<ApiResponse<boolean>> {
+  try {
+    const result = await window.ipc.invoke(
+      DownloadIpcChannels.STOP_SEEDING,
+      downloadId,
+    );
+    return result as ApiResponse<boolean>;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to stop seeding",
+    };
+  }
+}
+
+/**
+ * Retry a failed video download with a cookie profile
+ */
+export async function retryWithCookies(
+  downloadId: string,
+  profileId: string,
+): Promise<ApiResponse<boolean>> {
+  try {
+    const result = await window.ipc.invoke(
+      DownloadIpcChannels.RETRY_WITH_COOKIES,
+      { downloadId, profileId },
+    );
+    return result as ApiResponse<boolean>;
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to retry download",
+    };
+  }
+}
+
+/**
+ * Pick a local .torrent / .meta4 file (returns a file:// URL)
+ */
+export async function openTorrentFile(): Promise<ApiResponse<string | null>> {
+  try {
+    const result = await window.ipc.invoke(
+      DownloadIpcChannels.OPEN_TORRENT_FILE,
+      null,
+    );
+    return result as ApiResponse<string | null>;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to open file",
+    };
+  }
+}
+
 /**
  * Get all downloads
  */
@@ -258,6 +364,83 @@ export async function detectLinkType(
   }
 }
 
+/**
+ * List the links of a web page
+ */
+export async function grabLinks(
+  url: string,
+): Promise<ApiResponse<GrabbedLink[]>> {
+  try {
+    const result = await window.ipc.invoke(DownloadIpcChannels.GRAB_LINKS, url);
+    return result as ApiResponse<GrabbedLink[]>;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to grab links",
+    };
+  }
+}
+
+/**
+ * Size and type of links from HEAD requests
+ */
+export async function probeLinks(
+  urls: string[],
+): Promise<ApiResponse<LinkProbe[]>> {
+  try {
+    const result = await window.ipc.invoke(
+      DownloadIpcChannels.PROBE_LINKS,
+      urls,
+    );
+    return result as ApiResponse<LinkProbe[]>;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to check links",
+    };
+  }
+}
+
+/**
+ * Read pasted links with their options, expanding URL patterns
+ */
+export async function parseLinks(
+  text: string,
+): Promise<ApiResponse<ImportedLink[]>> {
+  try {
+    const result = await window.ipc.invoke(
+      DownloadIpcChannels.PARSE_LINKS,
+      text,
+    );
+    return result as ApiResponse<ImportedLink[]>;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to read links",
+    };
+  }
+}
+
+/**
+ * Pick a link list file and read its links (null when cancelled)
+ */
+export async function importLinkFile(): Promise<
+  ApiResponse<ImportedLink[] | null>
+> {
+  try {
+    const result = await window.ipc.invoke(
+      DownloadIpcChannels.IMPORT_LINK_FILE,
+      null,
+    );
+    return result as ApiResponse<ImportedLink[] | null>;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to import links",
+    };
+  }
+}
+
 /**
  * Start a direct download (using aria2)
  */
@@ -417,6 +600,34 @@ export function useDownloads() {
     return cancelDownload(downloadId);
   }, []);
 
+  const setSpeedLimit = useCallback(
+    async (downloadId: string, limit: number) => {
+      return setDownloadSpeedLimit(
+        downloadId,
+        limit > 0 ? limit.toString() : null,
+      );
+    },
+    [],
+  );
+
+  const selectFiles = useCallback(
+    async (downloadId: string, indexes: number[]) => {
+      return selectDownloadFiles(downloadId, indexes);
+    },
+    [],
+  );
+
+  const stopSeed = useCallback(async (downloadId: string) => {
+    return stopSeeding(downloadId);
+  }, []);
+
+  const retryCookies = useCallback(
+    async (downloadId: string, profileId: string) => {
+      return retryWithCookies(downloadId, profileId);
+    },
+    [],
+  );
+
   const clearCompleted = useCallback(async () => {
     const result = await clearCompletedDownloads();
     if (result.success) {
@@ -464,6 +675,10 @@ export function useDownloads() {
     pause,
     resume,
     cancel,
+    setSpeedLimit,
+    selectFiles,
+    stopSeeding: stopSeed,
+    retryWithCookies: retryCookies,
     clearCompleted,
     openLocation,
     executeFile,
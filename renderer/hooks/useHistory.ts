@@ -1,39 +1,144 @@
-import { useState, useEffect, useCallback } from "react";
-import { HistoryRecord } from "../types/history";
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  HistoryFilterState,
+  HistoryPage,
+  HistoryQuery,
+  HistoryRecord,
+  HistoryStats,
+} from "../types/history";
+
+const PAGE_SIZE = 50;
+const SEARCH_DELAY = 300;
+const MB = 1024 * 1024;
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilterState = {
+  types: [],
+  statuses: [],
+  from: "",
+  to: "",
+  minSizeMb: "",
+  maxSizeMb: "",
+  site: "",
+};
+
+const toBytes = (mb: string) =>
+  mb.trim() && !isNaN(Number(mb)) ? Math.round(Number(mb) * MB) : undefined;
+
+// Date inputs give local days; "to" covers the whole of its day
+const toIsoDate = (day: string, endOfDay: boolean) =>
+  day
+    ? new Date(`${day}T${endOfDay ? "23:59:59.999" : "00:00:00"}`).toISOString()
+    : undefined;
+
+const buildQuery = (
+  search: string,
+  filters: HistoryFilterState,
+): HistoryQuery => ({
+  search: search.trim() || undefined,
+  types: filters.types.length > 0 ? filters.types : undefined,
+  statuses: filters.statuses.length > 0 ? filters.statuses : undefined,
+  from: toIsoDate(filters.from, false),
+  to: toIsoDate(filters.to, true),
+  minSize: toBytes(filters.minSizeMb),
+  maxSize: toBytes(filters.maxSizeMb),
+  site: filters.site.trim() || undefined,
+});
 
 export const useHistory = () => {
   const [history, setHistory] = useState<HistoryRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [stats, setStats] = useState<HistoryStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [filters, setFilters] = useState(EMPTY_HISTORY_FILTERS);
+
+  // Answers to an older query are dropped
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setDebouncedSearch(searchQuery),
+      SEARCH_DELAY,
+    );
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      setStats(await window.ipc.invoke("history:stats", null));
+    } catch (error) {
+      console.error("Failed to fetch history stats:", error);
+    }
+  }, []);
 
   const fetchHistory = useCallback(async () => {
-    setIsLoading(true);
+    const request = ++requestRef.current;
     try {
-      const records = await window.ipc.invoke("history:get", null);
-      setHistory(records);
+      const page: HistoryPage = await window.ipc.invoke("history:get", {
+        ...buildQuery(debouncedSearch, filters),
+        offset: 0,
+        limit: PAGE_SIZE,
+      });
+      if (request !== requestRef.current) return;
+      setHistory(page.records);
+      setTotal(page.total);
     } catch (error) {
       console.error("Failed to fetch history:", error);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+    fetchStats();
+  }, [debouncedSearch, filters, fetchStats]);
 
-  const deleteRecord = useCallback(async (id: string, deleteFile: boolean) => {
+  const loadMore = useCallback(async () => {
+    const request = requestRef.current;
+    setIsLoadingMore(true);
     try {
-      await window.ipc.invoke("history:delete", { id, deleteFile });
-      setHistory((prev) => prev.filter((item) => item.id !== id));
+      const page: HistoryPage = await window.ipc.invoke("history:get", {
+        ...buildQuery(debouncedSearch, filters),
+        offset: history.length,
+        limit: PAGE_SIZE,
+      });
+      if (request !== requestRef.current) return;
+      setHistory((prev) => [...prev, ...page.records]);
+      setTotal(page.total);
     } catch (error) {
-      console.error("Failed to delete record:", error);
+      console.error("Failed to fetch history:", error);
+    } finally {
+      setIsLoadingMore(false);
     }
-  }, []);
+  }, [debouncedSearch, filters, history.length]);
+
+  const deleteRecord = useCallback(
+    async (id: string, deleteFile: boolean) => {
+      try {
+        await window.ipc.invoke("history:delete", { id, deleteFile });
+        setHistory((prev) => prev.filter((item) => item.id !== id));
+        setTotal((prev) => Math.max(0, prev - 1));
+        fetchStats();
+      } catch (error) {
+        console.error("Failed to delete record:", error);
+      }
+    },
+    [fetchStats],
+  );
 
   const clearHistory = useCallback(async () => {
     try {
       await window.ipc.invoke("history:clear", null);
       setHistory([]);
+      setTotal(0);
+      fetchStats();
     } catch (error) {
       console.error("Failed to clear history:", error);
     }
+  }, [fetchStats]);
+
+  const resetFilters = useCallback(() => {
+    setSearchQuery("");
+    setFilters(EMPTY_HISTORY_FILTERS);
   }, []);
 
   const openFile = useCallback(async (path: string) => {
@@ -48,16 +153,25 @@ export const useHistory = () => {
     fetchHistory();
   }, [fetchHistory]);
 
-  const filteredHistory = history.filter((item) =>
-    item.filename.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const isFiltered =
+    searchQuery.trim() !== "" ||
+    JSON.stringify(filters) !== JSON.stringify(EMPTY_HISTORY_FILTERS);
 
   return {
-    history: filteredHistory,
+    history,
+    total,
+    hasMore: history.length < total,
+    stats,
     isLoading,
+    isLoadingMore,
     searchQuery,
     setSearchQuery,
+    filters,
+    setFilters,
+    resetFilters,
+    isFiltered,
     fetchHistory,
+    loadMore,
     deleteRecord,
     clearHistory,
     openFile,
@@ -0,0 +1,203 @@
+import { useState, useMemo, useCallback } from "react";
+import { GrabbedLink, LinkProbe } from "../types/download";
+import { grabLinks, probeLinks } from "./useDownload";
+
+export interface LinkGrabberFilter {
+  filesOnly: boolean; // Hide links to other pages
+  extensions: string[]; // Empty = every extension
+  pattern: string; // Regex matched against the URL and link text
+  minSize: number | null; // MB, needs checked sizes
+  maxSize: number | null; // MB, needs checked sizes
+}
+
+const DEFAULT_FILTER: LinkGrabberFilter = {
+  filesOnly: true,
+  extensions: [],
+  pattern: "",
+  minSize: null,
+  maxSize: null,
+};
+
+const MB = 1024 * 1024;
+
+/**
+ * Links that pass the filter; a HEAD result that says "file" or "page"
+ * wins over the extension
+ */
+export function filterGrabbedLinks(
+  links: GrabbedLink[],
+  probes: Record<string, LinkProbe>,
+  filter: LinkGrabberFilter,
+): GrabbedLink[] {
+  let pattern: RegExp | null = null;
+  try {
+    pattern = filter.pattern ? new RegExp(filter.pattern, "i") : null;
+  } catch {
+    // Invalid while typing; show everything until it parses
+  }
+
+  return links.filter((link) => {
+    const probe = probes[link.url];
+    const isDirect = probe?.isDirect ?? link.isDirect;
+    if (filter.filesOnly && !isDirect) return false;
+    if (
+      filter.extensions.length > 0 &&
+      !filter.extensions.includes(link.extension || "")
+    ) {
+      return false;
+    }
+    if (pattern && !pattern.test(`${link.url} ${link.text || ""}`)) {
+      return false;
+    }
+    if (filter.minSize !== null || filter.maxSize !== null) {
+      const size = probe?.size;
+      if (size == null) return false;
+      if (filter.minSize !== null && size < filter.minSize * MB) return false;
+      if (filter.maxSize !== null && size > filter.maxSize * MB) return false;
+    }
+    return true;
+  });
+}
+
+export const useLinkGrabber = () => {
+  const [pageUrl, setPageUrl] = useState("");
+  const [links, setLinks] = useState<GrabbedLink[]>([]);
+  const [probes, setProbes] = useState<Record<string, LinkProbe>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState<LinkGrabberFilter>(DEFAULT_FILTER);
+  const [grabbing, setGrabbing] = useState(false);
+  const [probing, setProbing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const grab = useCallback(async () => {
+    const url = pageUrl.trim();
+    if (!url) return;
+    setGrabbing(true);
+    setError(null);
+    const result = await grabLinks(url);
+    if (result.success && result.data) {
+      setLinks(result.data);
+      setProbes({});
+      setFilter(DEFAULT_FILTER);
+      // Files are what people usually come for
+      setSelected(
+        new Set(result.data.filter((l) => l.isDirect).map((l) => l.url)),
+      );
+      if (result.data.length === 0) setError("No links found on this page");
+    } else {
+      setLinks([]);
+      setError(result.error || "Failed to read the page");
+    }
+    setGrabbing(false);
+  }, [pageUrl]);
+
+  const visibleLinks = useMemo(
+    () => filterGrabbedLinks(links, probes, filter),
+    [links, probes, filter],
+  );
+
+  // Extensions on the page with how many links have each
+  const extensions = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const link of links) {
+      if (link.extension) {
+        counts.set(link.extension, (counts.get(link.extension) || 0) + 1);
+      }
+    }
+    return Array.from(counts, ([extension, count]) => ({
+      extension,
+      count,
+    })).sort((a, b) => b.count - a.count);
+  }, [links]);
+
+  const patternError = useMemo(() => {
+    try {
+      new RegExp(filter.pattern, "i");
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : "Invalid pattern";
+    }
+  }, [filter.pattern]);
+
+  // HEAD the visible links that weren't checked yet
+  const checkSizes = useCallback(async () => {
+    const urls = visibleLinks
+      .map((link) => link.url)
+      .filter((url) => !probes[url] && !url.startsWith("magnet:"));
+    if (urls.length === 0) return;
+    setProbing(true);
+    const result = await probeLinks(urls);
+    if (result.success && result.data) {
+      const checked = result.data;
+      setProbes((prev) => {
+        const next = { ...prev };
+        for (const probe of checked) next[probe.url] = probe;
+        return next;
+      });
+    }
+    setProbing(false);
+  }, [visibleLinks, probes]);
+
+  const updateFilter = useCallback((changes: Partial<LinkGrabberFilter>) => {
+    setFilter((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  const toggleLink = useCallback((url: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(url)) next.delete(url);
+      else next.add(url);
+      return next;
+    });
+  }, []);
+
+  const selectVisible = useCallback(
+    (isSelected: boolean) => {
+      setSelected((prev) => {
+        const next = new Set(prev);
+        for (const link of visibleLinks) {
+          if (isSelected) next.add(link.url);
+          else next.delete(link.url);
+        }
+        return next;
+      });
+    },
+    [visibleLinks],
+  );
+
+  const reset = useCallback(() => {
+    setLinks([]);
+    setProbes({});
+    setSelected(new Set());
+    setFilter(DEFAULT_FILTER);
+    setError(null);
+  }, []);
+
+  // Only what is both selected and visible goes to the queue
+  const selectedLinks = useMemo(
+    () => visibleLinks.filter((link) => selected.has(link.url)),
+    [visibleLinks, selected],
+  );
+
+  return {
+    pageUrl,
+    setPageUrl,
+    links,
+    visibleLinks,
+    selectedLinks,
+    probes,
+    selected,
+    filter,
+    extensions,
+    patternError,
+    grabbing,
+    probing,
+    error,
+    grab,
+    checkSizes,
+    updateFilter,
+    toggleLink,
+    selectVisible,
+    reset,
+  };
+};
@@ -4,9 +4,12 @@ import {
   startDownload,
   startDirectDownload,
   detectLinkType,
+  parseLinks,
+  importLinkFile,
   DownloadQuality,
 } from "./useDownload";
 import { getFilenameFromUrl } from "../utils/formatters";
+import { ImportedLink } from "../types/download";
 
 export interface QueueItemData {
   id: string;
@@ -16,34 +19,80 @@ export interface QueueItemData {
   size?: number; // حجم الملف بالبايت
   error?: string;
   type?: "video" | "direct"; // نوع التحميل
+  filename?: string; // Custom name from the list
+  subfolder?: string; // Relative to the category folder, or absolute
+  referer?: string;
+  mirrors?: string[];
 }
 
+type QueueLink = Pick<
+  QueueItemData,
+  "url" | "title" | "size" | "filename" | "subfolder" | "referer" | "mirrors"
+>;
+
+const toQueueLink = (link: ImportedLink): QueueLink => ({
+  url: link.url,
+  title: link.title || link.filename || undefined,
+  filename: link.filename || undefined,
+  subfolder: link.subfolder || undefined,
+  referer: link.referer || undefined,
+  mirrors: link.mirrors.length > 0 ? link.mirrors : undefined,
+});
+
 export const useMultiDownload = () => {
   const [urls, setUrls] = useState("");
   const [parsedItems, setParsedItems] = useState<QueueItemData[]>([]);
-
-  const handleParse = async () => {
-    const lines = urls.split("\n").filter((line) => line.trim() !== "");
-    const newItems: QueueItemData[] = lines.map((line) => {
-      const url = line.trim();
-      return {
-        id: Math.random().toString(36).substr(2, 9),
-        url,
-        title: getFilenameFromUrl(url) || undefined,
-        status: "pending",
-      };
-    });
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Queue links and look each one up in the background
+  const addLinks = (links: QueueLink[]) => {
+    const newItems: QueueItemData[] = links.map((link) => ({
+      ...link,
+      id: Math.random().toString(36).substr(2, 9),
+      title: link.title || getFilenameFromUrl(link.url) || undefined,
+      status: "pending",
+    }));
 
     setParsedItems((prev) => [...prev, ...newItems]);
-    setUrls(""); // مسح المدخلات
 
-    // بدء فحص الروابط المضافة في الخلفية
     for (const item of newItems) {
-      processItemInfo(item.id, item.url);
+      processItemInfo(item.id, item.url, item.filename);
+    }
+  };
+
+  // Lines may carry options and URL patterns, so main reads them
+  const handleParse = async () => {
+    if (!urls.trim()) return;
+    setImportError(null);
+    const result = await parseLinks(urls);
+    if (!result.success || !result.data) {
+      setImportError(result.error || "Failed to read the links");
+      return;
+    }
+    addLinks(result.data.map(toQueueLink));
+    setUrls(""); // مسح المدخلات
+  };
+
+  const importFile = async () => {
+    setImporting(true);
+    setImportError(null);
+    const result = await importLinkFile();
+    if (!result.success) {
+      setImportError(result.error || "Failed to import the file");
+    } else if (result.data && result.data.length === 0) {
+      setImportError("No links found in the file");
+    } else if (result.data) {
+      addLinks(result.data.map(toQueueLink));
     }
+    setImporting(false);
   };
 
-  const processItemInfo = async (id: string, url: string) => {
+  const processItemInfo = async (
+    id: string,
+    url: string,
+    filename?: string,
+  ) => {
     updateItemStatus(id, { status: "processing" });
     try {
       const result = await detectLinkType(url, "auto");
@@ -51,7 +100,7 @@ export const useMultiDownload = () => {
         const data = result.data;
         updateItemStatus(id, {
           status: "pending", // عودة للحالة الجاهزة ولكن مع بيانات
-          title: data.filename || undefined,
+          title: filename || data.filename || undefined,
           size: data.contentLength,
           type: data.isDirect ? "direct" : "video",
         });
@@ -66,6 +115,7 @@ export const useMultiDownload = () => {
   const clearAll = () => {
     setUrls("");
     setParsedItems([]);
+    setImportError(null);
   };
 
   const handleRemoveItem = (index: number) => {
@@ -100,15 +150,20 @@ export const useMultiDownload = () => {
         if (isDirect) {
           // 3a. Use Direct download (aria2) for files
           updateItemStatus(item.id, {
-            title: linkTypeResult.data?.filename || "Direct Download",
+            title:
+              item.filename ||
+              linkTypeResult.data?.filename ||
+              "Direct Download",
             type: "direct",
           });
 
           const downloadResult = await startDirectDownload({
             url: item.url,
-            outputPath: "", // Default path (will use "direct" folder)
+            outputPath: item.subfolder || "", // Default path unless the list named a folder
             quality: DownloadQuality.BEST,
-            filename: linkTypeResult.data?.filename,
+            filename: item.filename || linkTypeResult.data?.filename,
+            referer: item.referer,
+            mirrors: item.mirrors,
           });
 
           if (downloadResult.success) {
@@ -135,15 +190,20 @@ export const useMultiDownload = () => {
 
             // Update queue item with real title
             updateItemStatus(item.id, {
-              title: videoInfo.title,
+              title: item.filename || videoInfo.title,
             });
 
             // 4b. Start download with extracted info
             const downloadResult = await startDownload(videoInfo, {
               url: item.url,
-              outputPath: "",
+              outputPath: item.subfolder || "",
               quality: DownloadQuality.BEST_VIDEO,
               audioOnly: false,
+              // yt-dlp picks the extension once it knows the format
+              filename: item.filename
+                ? `${item.filename.replace(/\.[^.]+$/, "")}.%(ext)s`
+                : undefined,
+              referer: item.referer,
             });
 
             if (downloadResult.success) {
@@ -181,6 +241,10 @@ export const useMultiDownload = () => {
     setUrls,
     parsedItems,
     handleParse,
+    importFile,
+    importing,
+    importError,
+    addLinks,
     clearAll,
     handleRemoveItem,
     startAllDownloads,
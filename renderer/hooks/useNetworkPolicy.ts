@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from "react";
+import { BlockedRequest } from "../types/network-policy";
+
+const MAX_BLOCKED_LOG = 100;
+
+export const useNetworkPolicy = () => {
+  const [blocked, setBlocked] = useState<BlockedRequest[]>([]);
+
+  const fetchBlocked = useCallback(async () => {
+    try {
+      const data = await window.ipc.invoke("network-policy:get-blocked", null);
+      setBlocked(data);
+    } catch (err) {
+      console.error("Failed to fetch blocked requests:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBlocked();
+    const unsubscribe = window.ipc.on("network-policy:blocked", (entry) => {
+      setBlocked((prev) =>
+        [entry as BlockedRequest, ...prev].slice(0, MAX_BLOCKED_LOG),
+      );
+    });
+    return () => unsubscribe();
+  }, [fetchBlocked]);
+
+  const clearBlocked = useCallback(async () => {
+    try {
+      const data = await window.ipc.invoke(
+        "network-policy:clear-blocked",
+        null,
+      );
+      setBlocked(data);
+    } catch (err) {
+      console.error("Failed to clear blocked requests:", err);
+    }
+  }, []);
+
+  return { blocked, clearBlocked };
+};
@@ -0,0 +1,33 @@
+import { useState, useCallback } from "react";
+import { ProxyTestResult } from "../types/proxy";
+
+export const useProxy = () => {
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ProxyTestResult | null>(null);
+
+  // Test a proxy URL, or the configured proxy when none is given
+  const testProxy = useCallback(async (proxyUrl?: string) => {
+    setTesting(true);
+    setTestResult(null);
+    try {
+      const result: ProxyTestResult = await window.ipc.invoke(
+        "proxy:test",
+        proxyUrl || null,
+      );
+      setTestResult(result);
+      return result;
+    } catch (err) {
+      const result: ProxyTestResult = {
+        success: false,
+        latency: null,
+        error: err instanceof Error ? err.message : String(err),
+      };
+      setTestResult(result);
+      return result;
+    } finally {
+      setTesting(false);
+    }
+  }, []);
+
+  return { testing, testResult, testProxy };
+};
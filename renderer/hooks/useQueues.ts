@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback } from "react";
+import { DownloadItem } from "../types/download";
+import { DEFAULT_QUEUE_ID, DownloadQueue, QueueState } from "../types/queue";
+
+export const useQueues = () => {
+  const [state, setState] = useState<QueueState | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchState = useCallback(async () => {
+    try {
+      const data = await window.ipc.invoke("queues:get", null);
+      setState(data);
+    } catch (error) {
+      console.error("Failed to fetch queues:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchState();
+    const unsubscribe = window.ipc.on("queues:changed", (data) => {
+      setState(data as QueueState);
+    });
+    return () => unsubscribe();
+  }, [fetchState]);
+
+  const invoke = useCallback(async (channel: string, payload: unknown) => {
+    try {
+      const updated = await window.ipc.invoke(channel, payload);
+      setState(updated);
+    } catch (error) {
+      console.error(`Failed to run ${channel}:`, error);
+    }
+  }, []);
+
+  const createQueue = useCallback(
+    (name: string, maxConcurrent: number) =>
+      invoke("queues:create", { name, maxConcurrent }),
+    [invoke],
+  );
+
+  const updateQueue = useCallback(
+    (
+      id: string,
+      changes: Partial<Pick<DownloadQueue, "name" | "maxConcurrent">>,
+    ) => invoke("queues:update", { id, changes }),
+    [invoke],
+  );
+
+  const deleteQueue = useCallback(
+    (id: string) => invoke("queues:delete", id),
+    [invoke],
+  );
+
+  const moveDownloads = useCallback(
+    (ids: string[], queueId: string, beforeId?: string) =>
+      invoke("queues:move", { ids, queueId, beforeId }),
+    [invoke],
+  );
+
+  const pauseQueue = useCallback(
+    (id: string) => invoke("queues:pause", id),
+    [invoke],
+  );
+
+  const resumeQueue = useCallback(
+    (id: string) => invoke("queues:resume", id),
+    [invoke],
+  );
+
+  const getQueueId = useCallback(
+    (item: DownloadItem) => {
+      const queueId = state?.assignments[item.id] || item.options?.queueId;
+      return queueId && state?.queues.some((q) => q.id === queueId)
+        ? queueId
+        : DEFAULT_QUEUE_ID;
+    },
+    [state],
+  );
+
+  /**
+   * Sort items by their position in the queue order (creation time as fallback)
+   */
+  const sortByQueueOrder = useCallback(
+    (items: DownloadItem[]) => {
+      const order = state?.order || [];
+      const rank = (item: DownloadItem) => {
+        const index = order.indexOf(item.id);
+        return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+      };
+      return [...items].sort(
+        (a, b) =>
+          rank(a) - rank(b) ||
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+      );
+    },
+    [state],
+  );
+
+  return {
+    queues: state?.queues ?? [],
+    loading,
+    createQueue,
+    updateQueue,
+    deleteQueue,
+    moveDownloads,
+    pauseQueue,
+    resumeQueue,
+    getQueueId,
+    sortByQueueOrder,
+    refreshQueues: fetchState,
+  };
+};
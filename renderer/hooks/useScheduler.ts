@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from "react";
+import { DownloadSchedule, SchedulerState } from "../types/scheduler";
+
+export const useScheduler = () => {
+  const [state, setState] = useState<SchedulerState | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchState = useCallback(async () => {
+    try {
+      const data = await window.ipc.invoke("scheduler:get", null);
+      setState(data);
+    } catch (error) {
+      console.error("Failed to fetch schedule:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchState();
+    const unsubscribe = window.ipc.on("scheduler:changed", (data) => {
+      setState(data as SchedulerState);
+    });
+    return () => unsubscribe();
+  }, [fetchState]);
+
+  const updateSchedule = useCallback(
+    async (schedule: Partial<DownloadSchedule>) => {
+      try {
+        const updated = await window.ipc.invoke("scheduler:update", schedule);
+        setState(updated);
+        return updated as SchedulerState;
+      } catch (error) {
+        console.error("Failed to update schedule:", error);
+        throw error;
+      }
+    },
+    [],
+  );
+
+  const toggleScheduled = useCallback(
+    async (downloadId: string) => {
+      const isScheduled = state?.schedule.downloadIds.includes(downloadId);
+      try {
+        const updated = await window.ipc.invoke(
+          isScheduled ? "scheduler:remove-items" : "scheduler:add-items",
+          [downloadId],
+        );
+        setState(updated);
+      } catch (error) {
+        console.error("Failed to toggle scheduled download:", error);
+      }
+    },
+    [state],
+  );
+
+  const isScheduled = useCallback(
+    (downloadId: string) => !!state?.schedule.downloadIds.includes(downloadId),
+    [state],
+  );
+
+  return {
+    schedule: state?.schedule ?? null,
+    windowOpen: state?.windowOpen ?? false,
+    loading,
+    updateSchedule,
+    toggleScheduled,
+    isScheduled,
+    refreshSchedule: fetchState,
+  };
+};
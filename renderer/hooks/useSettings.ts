@@ -1,4 +1,48 @@
 import { useState, useEffect } from "react";
+import { SponsorBlockCategory, SubtitleFormat } from "../types/download";
+
+export interface SpeedProfile {
+  id: string;
+  name: string;
+  limit: number; // Bytes per second, 0 = unlimited
+}
+
+export interface ProxyRule {
+  id: string;
+  host: string;
+  proxy: string; // "direct" = no proxy
+}
+
+export interface ProxySettings {
+  mode: "none" | "system" | "manual";
+  url: string;
+  bypass: string[];
+  rules: ProxyRule[];
+}
+
+export interface NetworkPolicySettings {
+  blockPrivate: boolean;
+  allowList: string[]; // Hosts, IPs or CIDRs, optionally with :port
+}
+
+export interface NotificationSettings {
+  complete: boolean;
+  failed: boolean;
+  queueFinished: boolean;
+  quietWhenFullscreen: boolean;
+}
+
+export interface SubtitleSettings {
+  languages: string[];
+  autoGenerated: boolean;
+  format: SubtitleFormat | null;
+  embed: boolean;
+}
+
+export interface SponsorBlockSettings {
+  remove: SponsorBlockCategory[];
+  mark: SponsorBlockCategory[];
+}
 
 export interface AppSettings {
   downloadPath: string;
@@ -6,6 +50,18 @@ export interface AppSettings {
   onFileExists: "overwrite" | "skip" | "rename";
   defaultQuality: string;
   defaultFormat: string;
+  speedLimit: number; // Bytes per second, 0 = unlimited
+  speedProfiles: SpeedProfile[];
+  activeSpeedProfileId: string | null;
+  discoverChecksums: boolean;
+  seedRatio: number; // 0 = no ratio limit
+  seedTime: number; // Minutes, 0 = don't seed
+  proxy: ProxySettings;
+  networkPolicy: NetworkPolicySettings;
+  clipboardMonitor: boolean;
+  notifications: NotificationSettings;
+  subtitles: SubtitleSettings;
+  sponsorBlock: SponsorBlockSettings;
 }
 
 export const useSettings = () => {
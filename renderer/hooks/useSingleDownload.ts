@@ -5,6 +5,7 @@ import {
   DownloadQuality,
   useVideoActions,
   DownloadItem,
+  openTorrentFile,
 } from "./useDownload";
 import {
   detectPlatform,
@@ -12,8 +13,14 @@ import {
   AUDIO_FORMAT_OPTIONS,
   FORMAT_OPTIONS,
   getAvailableQualityOptions,
+  pickSubtitleLanguages,
 } from "../utils/formatters";
-import { ApiResponse } from "../types/download";
+import {
+  ApiResponse,
+  DownloadSection,
+  SubtitleSelection,
+} from "../types/download";
+import { useSettings } from "./useSettings";
 import { useRouter } from "next/router";
 import { getFileTypeFromExtension } from "../utils/file-icons";
 
@@ -25,6 +32,13 @@ export interface UseSingleDownloadReturn {
   isDownloading: boolean;
   downloadStatus: string | null;
   isDirectDownload: boolean;
+  checksum: string; // Optional expected hash for direct downloads
+  mirrors: string; // Optional extra URLs for direct downloads, one per line
+  conversionPresetId: string; // ffmpeg preset to run afterwards, "" = none
+  sections: DownloadSection[]; // Time ranges to download, empty = whole video
+  embedChapters: boolean; // Write chapter markers into the file
+  splitChapters: boolean; // Also save one file per chapter
+  subtitleSelection: SubtitleSelection;
 
   // Video info state
   videoInfo: ReturnType<typeof useVideoInfo>["videoInfo"];
@@ -45,8 +59,22 @@ export interface UseSingleDownloadReturn {
   handleClear: () => void;
   setSelectedQuality: (quality: string) => void;
   setSelectedFormat: (format: string) => void;
+  setChecksum: (checksum: string) => void;
+  setMirrors: (mirrors: string) => void;
+  setConversionPresetId: (presetId: string) => void;
+  setSections: (sections: DownloadSection[]) => void;
+  setEmbedChapters: (embed: boolean) => void;
+  setSplitChapters: (split: boolean) => void;
+  setSubtitleSelection: (selection: SubtitleSelection) => void;
+  handleOpenTorrentFile: () => Promise<void>;
 }
 
+const NO_SUBTITLES: SubtitleSelection = {
+  languages: [],
+  format: null,
+  embed: false,
+};
+
 /**
  * Custom hook for managing single download logic
  */
@@ -58,6 +86,15 @@ export function useSingleDownload(): UseSingleDownloadReturn {
   const [selectedFormat, setSelectedFormat] = useState<string>("");
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadStatus, setDownloadStatus] = useState<string | null>(null);
+  const [checksum, setChecksum] = useState("");
+  const [mirrors, setMirrors] = useState("");
+  const [conversionPresetId, setConversionPresetId] = useState("");
+  const [sections, setSections] = useState<DownloadSection[]>([]);
+  const [embedChapters, setEmbedChapters] = useState(false);
+  const [splitChapters, setSplitChapters] = useState(false);
+  const [subtitleSelection, setSubtitleSelection] =
+    useState<SubtitleSelection>(NO_SUBTITLES);
+  const { settings } = useSettings();
 
   // Video info hook
   const useVideoInfoResult = useVideoInfo();
@@ -129,19 +166,36 @@ export function useSingleDownload(): UseSingleDownloadReturn {
     }
   }, [currentFormats, selectedFormat, isAudioOnly, selectedQuality]);
 
+  // Pre-select the preferred subtitle languages on every fetched video
+  useEffect(() => {
+    const preferences = settings?.subtitles;
+    if (!videoInfo || !preferences) return;
+    setSubtitleSelection({
+      languages: pickSubtitleLanguages(
+        videoInfo.subtitles,
+        preferences.languages,
+        preferences.autoGenerated,
+      ),
+      format: preferences.format,
+      embed: preferences.embed,
+    });
+  }, [videoInfo, settings]);
+
   // Handle URL input change
   const handleUrlChange = useCallback(
     (value: string) => {
       setUrl(value);
       reset();
       setDownloadStatus(null);
+      // Ranges only make sense for the video they were picked on
+      setSections([]);
     },
     [reset],
   );
 
-  // Handle URL fetch
-  const handleFetch = useCallback(async () => {
-    const trimmedUrl = url.trim();
+  // Fetch info for a link
+  const fetchLink = useCallback(async (rawUrl: string) => {
+    const trimmedUrl = rawUrl.trim();
     if (!trimmedUrl) return;
 
     // 1. Basic URL validation
@@ -176,11 +230,16 @@ export function useSingleDownload(): UseSingleDownloadReturn {
         // Mock video info for the UI to display file information
         const filename = data.filename || trimmedUrl.split("/").pop() || "Direct Download";
         const fileType = getFileTypeFromExtension(filename);
+        const isTorrentSource = /^(magnet|file):/i.test(trimmedUrl);
+        // Mirrors the server advertised; the user can still edit the list
+        setMirrors((data.mirrors || []).join("\n"));
 
         const mockedInfo: any = {
           id: "direct-" + Date.now(),
           title: filename,
-          uploader: new URL(trimmedUrl).hostname,
+          uploader: isTorrentSource
+            ? "BitTorrent / Metalink"
+            : new URL(trimmedUrl).hostname,
           thumbnail: null,
           formats: [],
           type: fileType,
@@ -217,7 +276,10 @@ export function useSingleDownload(): UseSingleDownloadReturn {
         `This link was detected as a ${platformName} playlist. Please use the 'Playlist/Channel' page for bulk downloads.`,
       );
     }
-  }, [url, extract, reset, setError, detectLinkType]);
+  }, [extract, reset, setError, detectLinkType]);
+
+  // Handle URL fetch
+  const handleFetch = useCallback(() => fetchLink(url), [url, fetchLink]);
 
   // Handle key press (Enter to fetch)
   const handleKeyPress = useCallback(
@@ -245,10 +307,17 @@ export function useSingleDownload(): UseSingleDownloadReturn {
       let result: ApiResponse<DownloadItem | DownloadItem[]>;
       if (isDirectDownload) {
         // Use direct downloader for files
+        const isTorrentSource = /^(magnet|file):/i.test(url.trim());
         result = await startDirectDownload({
           url: url.trim(),
           outputPath: "", // Will use default
-          filename: videoInfo?.title || undefined, // Use title we extracted or mocked
+          // Torrents name their own files
+          filename: isTorrentSource ? undefined : videoInfo?.title || undefined, // Use title we extracted or mocked
+          checksum: checksum.trim() || undefined,
+          mirrors: isTorrentSource
+            ? undefined
+            : mirrors.split(/\s+/).filter(Boolean),
+          conversionPresetId: conversionPresetId || undefined,
         });
       } else {
         // Use video downloader for media platforms
@@ -258,6 +327,28 @@ export function useSingleDownload(): UseSingleDownloadReturn {
           quality: selectedQuality,
           format: isAudioOnly ? selectedFormat : selectedFormat,
           audioOnly: isAudioOnly,
+          conversionPresetId: conversionPresetId || undefined,
+          sections: sections.length > 0 ? sections : undefined,
+          // Playlist videos get the preferred languages in the main process
+          subtitles: videoInfo?.isPlaylist
+            ? undefined
+            : {
+                download: subtitleSelection.languages.length > 0,
+                languages: subtitleSelection.languages,
+                // Only needed for languages that have no manual track
+                autoGenerated: subtitleSelection.languages.some(
+                  (lang) =>
+                    !videoInfo?.subtitles[lang]?.some(
+                      (track) => !track.isAutoGenerated,
+                    ),
+                ),
+                format: subtitleSelection.format || undefined,
+                embedInVideo: subtitleSelection.embed,
+              },
+          chapters:
+            embedChapters || splitChapters
+              ? { embedInVideo: embedChapters, split: splitChapters }
+              : undefined,
         });
       }
 
@@ -273,7 +364,29 @@ export function useSingleDownload(): UseSingleDownloadReturn {
     } finally {
       setIsDownloading(false);
     }
-  }, [url, videoInfo, selectedQuality, selectedFormat, isDirectDownload]);
+  }, [
+    url,
+    videoInfo,
+    selectedQuality,
+    selectedFormat,
+    isDirectDownload,
+    checksum,
+    mirrors,
+    conversionPresetId,
+    sections,
+    embedChapters,
+    splitChapters,
+    subtitleSelection,
+  ]);
+
+  // Pick a local .torrent / .meta4 file and fetch it right away
+  const handleOpenTorrentFile = useCallback(async () => {
+    const result = await openTorrentFile();
+    if (result.success && result.data) {
+      handleUrlChange(result.data);
+      await fetchLink(result.data);
+    }
+  }, [handleUrlChange, fetchLink]);
 
   // Handle clear
   const handleClear = useCallback(() => {
@@ -281,6 +394,13 @@ export function useSingleDownload(): UseSingleDownloadReturn {
     setUrl("");
     setSelectedQuality("");
     setDownloadStatus(null);
+    setChecksum("");
+    setMirrors("");
+    setConversionPresetId("");
+    setSections([]);
+    setEmbedChapters(false);
+    setSplitChapters(false);
+    setSubtitleSelection(NO_SUBTITLES);
   }, [reset]);
 
   // Handle quality change with format reset
@@ -300,6 +420,13 @@ export function useSingleDownload(): UseSingleDownloadReturn {
     isDownloading,
     downloadStatus,
     isDirectDownload,
+    checksum,
+    mirrors,
+    conversionPresetId,
+    sections,
+    embedChapters,
+    splitChapters,
+    subtitleSelection,
 
     // Video info state
     videoInfo,
@@ -320,5 +447,13 @@ export function useSingleDownload(): UseSingleDownloadReturn {
     handleClear,
     setSelectedQuality: handleQualityChange,
     setSelectedFormat,
+    setChecksum,
+    setMirrors,
+    setConversionPresetId,
+    setSections,
+    setEmbedChapters,
+    setSplitChapters,
+    setSubtitleSelection,
+    handleOpenTorrentFile,
   };
 }
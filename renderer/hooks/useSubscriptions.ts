@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  NewSubscription,
+  SubscriptionChanges,
+  SubscriptionState,
+} from "../types/subscriptions";
+
+// ipcRenderer wraps main-process errors: "Error invoking remote method ..."
+const toMessage = (err: unknown) =>
+  (err instanceof Error ? err.message : String(err)).replace(/^.*Error: /, "");
+
+export const useSubscriptions = () => {
+  const [state, setState] = useState<SubscriptionState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchState = useCallback(async () => {
+    try {
+      const data = await window.ipc.invoke("subscriptions:get", null);
+      setState(data);
+    } catch (err) {
+      console.error("Failed to fetch subscriptions:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchState();
+    const unsubscribe = window.ipc.on("subscriptions:changed", (data) => {
+      setState(data as SubscriptionState);
+    });
+    return () => unsubscribe();
+  }, [fetchState]);
+
+  // The first scan runs before the subscription is saved, so this can be slow
+  const addSubscription = useCallback(async (subscription: NewSubscription) => {
+    setAdding(true);
+    try {
+      const updated = await window.ipc.invoke(
+        "subscriptions:add",
+        subscription,
+      );
+      setState(updated);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(toMessage(err));
+      return false;
+    } finally {
+      setAdding(false);
+    }
+  }, []);
+
+  const updateSubscription = useCallback(
+    async (id: string, changes: SubscriptionChanges) => {
+      try {
+        const updated = await window.ipc.invoke("subscriptions:update", {
+          id,
+          changes,
+        });
+        setState(updated);
+      } catch (err) {
+        console.error("Failed to update subscription:", err);
+      }
+    },
+    [],
+  );
+
+  const removeSubscription = useCallback(async (id: string) => {
+    try {
+      const updated = await window.ipc.invoke("subscriptions:remove", id);
+      setState(updated);
+    } catch (err) {
+      console.error("Failed to remove subscription:", err);
+    }
+  }, []);
+
+  const checkNow = useCallback(async (id: string) => {
+    try {
+      const updated = await window.ipc.invoke("subscriptions:check", id);
+      setState(updated);
+    } catch (err) {
+      console.error("Failed to check subscription:", err);
+    }
+  }, []);
+
+  return {
+    subscriptions: state?.subscriptions ?? [],
+    checking: state?.checking ?? [],
+    loading,
+    adding,
+    error,
+    addSubscription,
+    updateSubscription,
+    removeSubscription,
+    checkNow,
+  };
+};
@@ -0,0 +1,59 @@
+import { useState, useCallback } from "react";
+import {
+  ExportFormat,
+  ExportScope,
+  ImportMode,
+  ImportSummary,
+} from "../types/transfer";
+
+const toMessage = (err: unknown) =>
+  (err instanceof Error ? err.message : String(err)).replace(/^.*Error: /, "");
+
+export const useTransfer = () => {
+  const [busy, setBusy] = useState(false);
+
+  // data is null when the dialog was cancelled
+  const exportDownloads = useCallback(
+    async (
+      format: ExportFormat,
+      scope: ExportScope,
+    ): Promise<{ success: boolean; data?: string | null; error?: string }> => {
+      setBusy(true);
+      try {
+        const data = await window.ipc.invoke("transfer:export", {
+          format,
+          scope,
+        });
+        return { success: true, data };
+      } catch (err) {
+        return { success: false, error: toMessage(err) };
+      } finally {
+        setBusy(false);
+      }
+    },
+    [],
+  );
+
+  const importDownloads = useCallback(
+    async (
+      mode: ImportMode,
+    ): Promise<{
+      success: boolean;
+      data?: ImportSummary | null;
+      error?: string;
+    }> => {
+      setBusy(true);
+      try {
+        const data = await window.ipc.invoke("transfer:import", mode);
+        return { success: true, data };
+      } catch (err) {
+        return { success: false, error: toMessage(err) };
+      } finally {
+        setBusy(false);
+      }
+    },
+    [],
+  );
+
+  return { busy, exportDownloads, importDownloads };
+};
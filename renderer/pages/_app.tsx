@@ -1,6 +1,6 @@
 import type { AppProps } from "next/app";
 import Head from "next/head";
-import { HeroUIProvider } from "@heroui/react";
+import { HeroUIProvider, ToastProvider } from "@heroui/react";
 import { ThemeProvider as NextThemesProvider } from "next-themes";
 import { useRouter } from "next/router";
 import { useEffect } from "react";
@@ -54,6 +54,7 @@ function MyApp({ Component, pageProps }: AppProps) {
         <title>{`${APP_CONFIG.name} - ${APP_CONFIG.titleSuffix}`}</title>
       </Head>
       <HeroUIProvider navigate={router.push}>
+        <ToastProvider placement="bottom-right" />
         <NextThemesProvider attribute="class" defaultTheme="dark">
           <MainLayout>
             <Component {...pageProps} />
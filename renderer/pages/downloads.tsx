@@ -6,11 +6,18 @@ import {
   DownloadsHeader,
   DownloadsStats,
   EmptyState,
+  QueueBar,
 } from "../components/screens/Downloads";
 import { DownloadStatus, useDownloads } from "../hooks/useDownload";
+import { useQueues } from "../hooks/useQueues";
+import { useScheduler } from "../hooks/useScheduler";
+import { useCookies } from "../hooks/useCookies";
+import { useSettings } from "../hooks/useSettings";
 
 const DownloadsPage = () => {
   const [selectedTab, setSelectedTab] = useState("all");
+  const [selectedQueueId, setSelectedQueueId] = useState("all");
+  const [draggedId, setDraggedId] = useState<string | null>(null);
   const {
     downloads,
     activeDownloads,
@@ -21,12 +28,49 @@ const DownloadsPage = () => {
     pause,
     resume,
     cancel,
+    setSpeedLimit,
+    selectFiles,
+    stopSeeding,
+    retryWithCookies,
     clearCompleted,
     openLocation,
     executeFile,
   } = useDownloads();
+  const { isScheduled, toggleScheduled } = useScheduler();
+  const { settings, updateSettings } = useSettings();
+  const { profiles: cookieProfiles } = useCookies();
+  const {
+    queues,
+    moveDownloads,
+    pauseQueue,
+    resumeQueue,
+    getQueueId,
+    sortByQueueOrder,
+  } = useQueues();
 
-  const getDisplayedDownloads = () => {
+  const handleSpeedProfileChange = (id: string | null) => {
+    const profile = settings?.speedProfiles.find((p) => p.id === id);
+    updateSettings({
+      activeSpeedProfileId: profile ? profile.id : null,
+      speedLimit: profile ? profile.limit : 0,
+    });
+  };
+
+  const queueCounts = Object.fromEntries(
+    queues.map((queue) => {
+      const items = downloads.filter((d) => getQueueId(d) === queue.id);
+      const running = items.filter(
+        (d) =>
+          d.status === DownloadStatus.DOWNLOADING ||
+          d.status === DownloadStatus.EXTRACTING ||
+          d.status === DownloadStatus.MERGING ||
+          d.status === DownloadStatus.CONVERTING,
+      ).length;
+      return [queue.id, { running, total: items.length }];
+    }),
+  );
+
+  const filterByTab = () => {
     switch (selectedTab) {
       case "all":
         return downloads;
@@ -49,8 +93,24 @@ const DownloadsPage = () => {
     }
   };
 
+  const getDisplayedDownloads = () => {
+    if (selectedQueueId !== "all") {
+      return sortByQueueOrder(
+        filterByTab().filter((d) => getQueueId(d) === selectedQueueId),
+      );
+    }
+    return filterByTab();
+  };
+
   const displayedDownloads = getDisplayedDownloads();
 
+  // Dropping on a card puts the dragged item right before it (same queue)
+  const handleDropOnCard = (targetId: string) => {
+    const target = downloads.find((d) => d.id === targetId);
+    if (!draggedId || !target || draggedId === targetId) return;
+    moveDownloads([draggedId], getQueueId(target), targetId);
+  };
+
   const handlePauseAll = async () => {
     for (const download of activeDownloads) {
       if (download.status === DownloadStatus.DOWNLOADING) {
@@ -101,6 +161,9 @@ const DownloadsPage = () => {
               d.status === DownloadStatus.CANCELLED,
           )
         }
+        speedProfiles={settings?.speedProfiles}
+        activeSpeedProfileId={settings?.activeSpeedProfileId}
+        onSpeedProfileChange={handleSpeedProfileChange}
       />
 
       {error && (
@@ -177,6 +240,18 @@ const DownloadsPage = () => {
         />
       </Tabs>
 
+      <QueueBar
+        queues={queues}
+        selectedQueueId={selectedQueueId}
+        counts={queueCounts}
+        onSelect={setSelectedQueueId}
+        onPause={pauseQueue}
+        onResume={resumeQueue}
+        onDropDownload={(downloadId, queueId) =>
+          moveDownloads([downloadId], queueId)
+        }
+      />
+
       <div className="flex flex-col gap-3">
         {displayedDownloads.length === 0 ? (
           <EmptyState
@@ -184,15 +259,41 @@ const DownloadsPage = () => {
           />
         ) : (
           displayedDownloads.map((item) => (
-            <DownloadCard
+            <div
               key={item.id}
-              item={item}
-              onPause={pause}
-              onResume={resume}
-              onCancel={cancel}
-              onOpenLocation={openLocation}
-              onOpenFile={executeFile}
-            />
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData("text/plain", item.id);
+                e.dataTransfer.effectAllowed = "move";
+                setDraggedId(item.id);
+              }}
+              onDragEnd={() => setDraggedId(null)}
+              onDragOver={(e) => {
+                // Reordering only makes sense while looking at one queue
+                if (selectedQueueId !== "all") e.preventDefault();
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDropOnCard(item.id);
+              }}
+              className={draggedId === item.id ? "opacity-50" : undefined}
+            >
+              <DownloadCard
+                item={item}
+                onPause={pause}
+                onResume={resume}
+                onCancel={cancel}
+                onOpenLocation={openLocation}
+                onOpenFile={executeFile}
+                isScheduled={isScheduled(item.id)}
+                onToggleSchedule={toggleScheduled}
+                onSetSpeedLimit={setSpeedLimit}
+                onSelectFiles={selectFiles}
+                onStopSeeding={stopSeeding}
+                cookieProfiles={cookieProfiles}
+                onRetryWithCookies={retryWithCookies}
+              />
+            </div>
           ))
         )}
       </div>
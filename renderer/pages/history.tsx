@@ -1,22 +1,53 @@
-import { Spinner } from "@heroui/react";
+import { Button, Spinner, addToast } from "@heroui/react";
 import { useHistory } from "../hooks/useHistory";
+import { useConversion } from "../hooks/useConversion";
 import {
   HistoryHeader,
   HistoryEmptyState,
   HistoryList,
+  HistoryFilters,
+  HistoryStatsSummary,
 } from "../components/screens/History";
 
 const HistoryPage = () => {
   const {
     history,
+    total,
+    hasMore,
+    stats,
     isLoading,
+    isLoadingMore,
     searchQuery,
     setSearchQuery,
+    filters,
+    setFilters,
+    resetFilters,
+    isFiltered,
+    fetchHistory,
+    loadMore,
     deleteRecord,
     clearHistory,
     openFile,
     openFolder,
   } = useHistory();
+  const { presets, convertHistoryItem } = useConversion();
+
+  const handleConvert = async (id: string, presetId: string) => {
+    const result = await convertHistoryItem(id, presetId);
+    addToast(
+      result.success
+        ? {
+            title: "Conversion started",
+            description: "Follow its progress on the Downloads page",
+            color: "success",
+          }
+        : {
+            title: "Could not start the conversion",
+            description: result.error,
+            color: "danger",
+          },
+    );
+  };
 
   if (isLoading) {
     return (
@@ -32,18 +63,49 @@ const HistoryPage = () => {
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
         onClearHistory={clearHistory}
-        hasItems={history.length > 0}
+        onImported={fetchHistory}
+        hasItems={(stats?.total ?? history.length) > 0}
+      />
+
+      {stats && stats.total > 0 && (
+        <HistoryStatsSummary
+          stats={stats}
+          onSelectSite={(site) => setFilters({ ...filters, site })}
+        />
+      )}
+
+      <HistoryFilters
+        filters={filters}
+        onChange={setFilters}
+        onReset={resetFilters}
+        isFiltered={isFiltered}
+        total={total}
       />
 
       {history.length === 0 ? (
-        <HistoryEmptyState />
+        <HistoryEmptyState isFiltered={isFiltered} />
       ) : (
-        <HistoryList
-          history={history}
-          onOpenFile={openFile}
-          onOpenFolder={openFolder}
-          onDelete={deleteRecord}
-        />
+        <>
+          <HistoryList
+            history={history}
+            onOpenFile={openFile}
+            onOpenFolder={openFolder}
+            onDelete={deleteRecord}
+            conversionPresets={presets}
+            onConvert={handleConvert}
+          />
+          {hasMore && (
+            <div className="flex justify-center">
+              <Button
+                variant="flat"
+                isLoading={isLoadingMore}
+                onPress={loadMore}
+              >
+                Load more ({total - history.length} left)
+              </Button>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -1,5 +1,6 @@
 import { AnimatePresence } from "framer-motion";
 import { useSingleDownload } from "../hooks/useSingleDownload";
+import { useConversion } from "../hooks/useConversion";
 import {
   StatusMessage,
   VideoInfoCard,
@@ -16,6 +17,13 @@ const HomePage = () => {
     isDownloading,
     downloadStatus,
     isDirectDownload,
+    checksum,
+    mirrors,
+    conversionPresetId,
+    sections,
+    embedChapters,
+    splitChapters,
+    subtitleSelection,
 
     // Video info state
     videoInfo,
@@ -35,7 +43,16 @@ const HomePage = () => {
     handleClear,
     setSelectedQuality,
     setSelectedFormat,
+    setChecksum,
+    setMirrors,
+    setConversionPresetId,
+    setSections,
+    setEmbedChapters,
+    setSplitChapters,
+    setSubtitleSelection,
+    handleOpenTorrentFile,
   } = useSingleDownload();
+  const { presets: conversionPresets } = useConversion();
 
   return (
     <div className="w-full max-w-7xl mx-auto">
@@ -58,6 +75,7 @@ const HomePage = () => {
         onUrlChange={handleUrlChange}
         onFetch={handleFetch}
         onKeyPress={handleKeyPress}
+        onOpenFile={handleOpenTorrentFile}
       />
 
       {/* Error Message */}
@@ -90,6 +108,21 @@ const HomePage = () => {
             onClear={handleClear}
             onQualityChange={setSelectedQuality}
             onFormatChange={setSelectedFormat}
+            checksum={checksum}
+            onChecksumChange={setChecksum}
+            mirrors={mirrors}
+            onMirrorsChange={setMirrors}
+            conversionPresets={conversionPresets}
+            conversionPresetId={conversionPresetId}
+            onConversionPresetChange={setConversionPresetId}
+            sections={sections}
+            onSectionsChange={setSections}
+            embedChapters={embedChapters}
+            onEmbedChaptersChange={setEmbedChapters}
+            splitChapters={splitChapters}
+            onSplitChaptersChange={setSplitChapters}
+            subtitleSelection={subtitleSelection}
+            onSubtitleSelectionChange={setSubtitleSelection}
           />
         )}
       </AnimatePresence>
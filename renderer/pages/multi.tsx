@@ -1,8 +1,11 @@
+import { useEffect } from "react";
+import { useRouter } from "next/router";
 import { useMultiDownload } from "../hooks/useMultiDownload";
 import {
   MultiLinksHeader,
   MultiLinksInput,
   MultiLinksQueue,
+  LinkGrabber,
 } from "../components/screens/MultiLinks";
 
 const MultiPage = () => {
@@ -11,17 +14,38 @@ const MultiPage = () => {
     setUrls,
     parsedItems,
     handleParse,
+    importFile,
+    importing,
+    importError,
+    addLinks,
     clearAll,
     handleRemoveItem,
     startAllDownloads,
   } = useMultiDownload();
+  const router = useRouter();
+
+  // Links handed over from elsewhere (e.g. the clipboard prompt)
+  useEffect(() => {
+    const { links } = router.query;
+    if (typeof links !== "string" || !links) return;
+    setUrls((prev) => (prev.trim() ? `${prev.trimEnd()}\n${links}` : links));
+    router.replace("/multi", undefined, { shallow: true });
+  }, [router, setUrls]);
 
   return (
     <div className="w-full max-w-7xl mx-auto">
       <MultiLinksHeader onClear={clearAll} />
 
       <div className="grid grid-cols-1 gap-6">
-        <MultiLinksInput urls={urls} setUrls={setUrls} onParse={handleParse} />
+        <MultiLinksInput
+          urls={urls}
+          setUrls={setUrls}
+          onParse={handleParse}
+          onImport={importFile}
+          importing={importing}
+          error={importError}
+        />
+        <LinkGrabber onAdd={addLinks} />
         <MultiLinksQueue
           items={parsedItems}
           onRemoveItem={handleRemoveItem}
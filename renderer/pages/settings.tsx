@@ -4,7 +4,19 @@ import {
   GeneralSettings,
   AppearanceSettings,
   NotificationSettings,
+  QueueSettings,
+  ScheduleSettings,
+  SpeedLimitSettings,
+  TorrentSettings,
+  ConversionSettings,
+  SubtitleSettings,
+  SponsorBlockSettings,
   EngineSettings,
+  BrowserBridgeSettings,
+  CredentialsSettings,
+  CookieSettings,
+  ProxySettings,
+  NetworkPolicySettings,
   AboutSettings,
 } from "../components/screens/Settings";
 
@@ -127,7 +139,31 @@ const SettingsPage = () => {
           mounted={mounted}
         />
 
-        {/* <NotificationSettings /> */}
+        <NotificationSettings />
+
+        <QueueSettings />
+
+        <SpeedLimitSettings />
+
+        <TorrentSettings />
+
+        <ConversionSettings />
+
+        <SubtitleSettings />
+
+        <SponsorBlockSettings />
+
+        <ScheduleSettings />
+
+        <BrowserBridgeSettings />
+
+        <CredentialsSettings />
+
+        <CookieSettings />
+
+        <ProxySettings />
+
+        <NetworkPolicySettings />
 
         <EngineSettings
           binaryInfo={binaryInfo}
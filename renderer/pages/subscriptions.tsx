@@ -0,0 +1,66 @@
+import { Spinner } from "@heroui/react";
+import { useSubscriptions } from "../hooks/useSubscriptions";
+import {
+  SubscriptionsHeader,
+  AddSubscriptionCard,
+  SubscriptionsEmptyState,
+  SubscriptionCard,
+} from "../components/screens/Subscriptions";
+
+const SubscriptionsPage = () => {
+  const {
+    subscriptions,
+    checking,
+    loading,
+    adding,
+    error,
+    addSubscription,
+    updateSubscription,
+    removeSubscription,
+    checkNow,
+  } = useSubscriptions();
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-[50vh]">
+        <Spinner size="lg" color="primary" label="Loading subscriptions..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-4 space-y-6">
+      <SubscriptionsHeader />
+
+      <AddSubscriptionCard
+        isAdding={adding}
+        error={error}
+        onAdd={addSubscription}
+      />
+
+      {subscriptions.length === 0 ? (
+        <SubscriptionsEmptyState />
+      ) : (
+        <div className="flex flex-col gap-3">
+          {subscriptions.map((subscription) => (
+            <SubscriptionCard
+              key={subscription.id}
+              subscription={subscription}
+              isChecking={checking.includes(subscription.id)}
+              onToggle={(enabled) =>
+                updateSubscription(subscription.id, { enabled })
+              }
+              onIntervalChange={(intervalMinutes) =>
+                updateSubscription(subscription.id, { intervalMinutes })
+              }
+              onCheckNow={() => checkNow(subscription.id)}
+              onRemove={() => removeSubscription(subscription.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubscriptionsPage;
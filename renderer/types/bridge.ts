@@ -0,0 +1,7 @@
+export interface BridgeStatus {
+  enabled: boolean;
+  port: number;
+  token: string;
+  listening: boolean;
+  error: string | null;
+}
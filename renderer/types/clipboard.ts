@@ -0,0 +1,5 @@
+export interface ClipboardLink {
+  url: string;
+  kind: "direct" | "video";
+  filename: string | null;
+}
@@ -0,0 +1,6 @@
+export interface ConversionPreset {
+  id: string;
+  name: string;
+  extension: string; // Output container, e.g. "mkv" or "mp3"
+  args: string; // ffmpeg output options
+}
@@ -0,0 +1,7 @@
+export interface CookieProfile {
+  id: string;
+  name: string;
+  host: string; // Also covers subdomains
+  cookieCount: number;
+  updatedAt: number;
+}
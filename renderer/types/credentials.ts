@@ -0,0 +1,10 @@
+export interface SiteCredential {
+  id: string;
+  host: string; // "example.com", "example.com:2121" or "*.example.com"
+  username: string;
+}
+
+export interface CredentialsState {
+  credentials: SiteCredential[];
+  encryptionAvailable: boolean;
+}
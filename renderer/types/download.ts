@@ -48,6 +48,43 @@ export interface Thumbnail {
   resolution?: string;
 }
 
+/**
+ * SponsorBlock segment categories yt-dlp can cut or mark
+ */
+export type SponsorBlockCategory =
+  | "sponsor"
+  | "intro"
+  | "outro"
+  | "selfpromo"
+  | "preview"
+  | "filler"
+  | "interaction"
+  | "music_offtopic";
+
+/**
+ * A SponsorBlock segment cut out of a finished download
+ */
+export interface SponsorBlockSegment {
+  category: SponsorBlockCategory;
+  title: string;
+  startTime: number; // Seconds, in the original video
+  endTime: number;
+}
+
+/**
+ * Subtitle formats yt-dlp can convert to
+ */
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
+/**
+ * Subtitle choices made on the Quick Download screen
+ */
+export interface SubtitleSelection {
+  languages: string[]; // Empty = no subtitles
+  format: SubtitleFormat | null; // null keeps the site's format
+  embed: boolean;
+}
+
 /**
  * Subtitle/Caption track information
  */
@@ -59,6 +96,15 @@ export interface SubtitleTrack {
   isAutoGenerated: boolean;
 }
 
+/**
+ * A chapter marked by the uploader
+ */
+export interface VideoChapter {
+  title: string;
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+}
+
 /**
  * Complete video information extracted from URL
  */
@@ -84,6 +130,7 @@ export interface VideoInfo {
   isPlaylist: boolean;
   qualityOptions?: QualityOption[];
   playlist?: PlaylistInfo;
+  chapters?: VideoChapter[];
   type?: "video" | "audio" | "file" | "compressed" | "document" | "program";
 }
 
@@ -111,6 +158,7 @@ export interface PlaylistVideoEntry {
   thumbnail: string | null;
   url: string;
   index: number;
+  extractorKey?: string;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -152,6 +200,15 @@ export enum DownloadQuality {
   AUDIO_ONLY = "bestaudio",
 }
 
+/**
+ * A time range of a video to download instead of all of it
+ */
+export interface DownloadSection {
+  start: number; // Seconds
+  end: number; // Seconds
+  title?: string;
+}
+
 /**
  * Options for downloading a video
  */
@@ -166,6 +223,8 @@ export interface DownloadOptions {
     download: boolean;
     languages?: string[];
     embedInVideo?: boolean;
+    autoGenerated?: boolean;
+    format?: SubtitleFormat;
   };
   thumbnail?: {
     download: boolean;
@@ -174,10 +233,42 @@ export interface DownloadOptions {
   metadata?: {
     embedInVideo?: boolean;
   };
+  chapters?: {
+    embedInVideo?: boolean;
+    split?: boolean; // One file per chapter, in a folder named after the video
+  };
+  sponsorBlock?: {
+    remove?: SponsorBlockCategory[];
+    mark?: SponsorBlockCategory[];
+  };
   rateLimit?: string;
+  checksum?: string; // "sha-256=<hex>" or a bare hex digest
   proxy?: string;
   cookies?: string;
+  cookieProfileId?: string;
+  referer?: string;
+  userAgent?: string;
+  headers?: Record<string, string>;
   isPlaylist?: boolean;
+  queueId?: string;
+  selectFiles?: number[];
+  mirrors?: string[];
+  conversionPresetId?: string;
+  sections?: DownloadSection[];
+  downloadArchive?: string; // Set for subscription downloads
+}
+
+/**
+ * Checksum verification of a finished download
+ */
+export type ChecksumAlgorithm = "md5" | "sha-1" | "sha-256" | "sha-512";
+
+export interface ChecksumVerification {
+  status: "pending" | "verifying" | "verified" | "mismatch";
+  algorithm: ChecksumAlgorithm;
+  expected: string;
+  actual?: string;
+  source: "user" | "sidecar";
 }
 
 /**
@@ -196,6 +287,39 @@ export interface DownloadProgress {
   filename: string | null;
   currentFragment?: number;
   totalFragments?: number;
+  peers?: number;
+  seeders?: number;
+  uploadSpeed?: number;
+  uploadedBytes?: number;
+}
+
+/**
+ * BitTorrent state of a direct download
+ */
+export interface TorrentFile {
+  index: number; // 1-based
+  path: string;
+  length: number;
+  completedLength: number;
+  selected: boolean;
+}
+
+export interface TorrentInfo {
+  infoHash: string | null;
+  name: string | null;
+  files: TorrentFile[];
+  seeding: boolean;
+}
+
+/**
+ * One URL of a multi-source (mirrored) direct download
+ */
+export interface MirrorSource {
+  uri: string;
+  status: "active" | "idle" | "waiting" | "failed"; // idle: tried, not connected now
+  speed: number; // Bytes per second
+  error: string | null;
+  lastActiveAt: number | null; // Last time data came from this source (ms)
 }
 
 /**
@@ -215,6 +339,11 @@ export interface DownloadItem {
   completedAt: Date | null;
   error: string | null;
   retryCount: number;
+  verification?: ChecksumVerification | null;
+  torrent?: TorrentInfo | null;
+  sources?: MirrorSource[] | null;
+  needsCookies?: boolean; // Failed on a sign-in or age check that cookies can fix
+  removedSegments?: SponsorBlockSegment[] | null;
 }
 
 /**
@@ -318,6 +447,42 @@ export interface LinkTypeResult {
   contentLength?: number;
   filename?: string;
   reason: string;
+  mirrors?: string[];
+}
+
+/**
+ * A link found on a web page by the link grabber
+ */
+export interface GrabbedLink {
+  url: string;
+  filename: string | null;
+  extension: string | null; // ".zip", null when the path has none
+  category:
+    "videos" | "audios" | "programs" | "compressed" | "documents" | "others";
+  isDirect: boolean;
+  text: string | null;
+}
+
+/**
+ * What a HEAD request tells about a link, null where it couldn't tell
+ */
+export interface LinkProbe {
+  url: string;
+  size: number | null;
+  contentType: string | null;
+  isDirect: boolean | null;
+}
+
+/**
+ * A link read from a pasted or imported list, with its per-line options
+ */
+export interface ImportedLink {
+  url: string;
+  title: string | null;
+  filename: string | null;
+  subfolder: string | null; // Relative to the category folder, or absolute
+  referer: string | null;
+  mirrors: string[];
 }
 
 /**
@@ -328,12 +493,21 @@ export const DownloadIpcChannels = {
   START_DOWNLOAD: "download:start",
   START_DIRECT_DOWNLOAD: "download:start-direct",
   DETECT_LINK_TYPE: "download:detect-link-type",
+  GRAB_LINKS: "download:grab-links",
+  PROBE_LINKS: "download:probe-links",
+  PARSE_LINKS: "download:parse-links",
+  IMPORT_LINK_FILE: "download:import-link-file",
   PAUSE_DOWNLOAD: "download:pause",
   RESUME_DOWNLOAD: "download:resume",
   CANCEL_DOWNLOAD: "download:cancel",
   GET_DOWNLOAD_STATUS: "download:get-status",
   GET_ALL_DOWNLOADS: "download:get-all",
   CLEAR_COMPLETED: "download:clear-completed",
+  SET_SPEED_LIMIT: "download:set-speed-limit",
+  SELECT_FILES: "download:select-files",
+  STOP_SEEDING: "download:stop-seeding",
+  RETRY_WITH_COOKIES: "download:retry-with-cookies",
+  OPEN_TORRENT_FILE: "download:open-torrent-file",
   DOWNLOAD_PROGRESS: "download:progress",
   DOWNLOAD_COMPLETE: "download:complete",
   DOWNLOAD_ERROR: "download:error",
@@ -1,8 +1,13 @@
+import { ChecksumVerification, DownloadOptions } from "./download";
+
 export interface HistoryRecord {
   id: string;
   url: string;
   originalUrl?: string;
   filename: string;
+  title?: string;
+  uploader?: string;
+  site?: string; // Host without "www."
   path: string;
   size: number;
   status: "completed" | "failed" | "cancelled";
@@ -11,5 +16,51 @@ export interface HistoryRecord {
   thumbnail?: string;
   mimeType?: string;
   duration?: string;
+  verification?: ChecksumVerification;
+  options?: Partial<DownloadOptions>; // Without secrets, to download it again
   exists?: boolean;
 }
+
+export interface HistoryQuery {
+  search?: string; // Full text over title, filename, URL and uploader
+  types?: HistoryRecord["type"][];
+  statuses?: HistoryRecord["status"][];
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+  minSize?: number; // Bytes
+  maxSize?: number; // Bytes
+  site?: string; // "youtube.com" also matches its subdomains
+  offset?: number;
+  limit?: number;
+}
+
+export interface HistoryPage {
+  records: HistoryRecord[];
+  total: number; // Records matching the query
+  offset: number;
+  limit: number;
+}
+
+export interface HistoryStats {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  totalBytes: number; // Size of the completed downloads
+  byType: { type: HistoryRecord["type"]; count: number; bytes: number }[];
+  topSites: { site: string; count: number; bytes: number }[];
+  daily: { date: string; count: number; bytes: number }[]; // Last 30 days
+}
+
+/**
+ * Filters as typed in the history page, before they become a query
+ */
+export interface HistoryFilterState {
+  types: HistoryRecord["type"][];
+  statuses: HistoryRecord["status"][];
+  from: string; // yyyy-mm-dd, local day
+  to: string;
+  minSizeMb: string;
+  maxSizeMb: string;
+  site: string;
+}
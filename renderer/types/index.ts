@@ -1,2 +1,13 @@
+export * from "./bridge";
+export * from "./clipboard";
+export * from "./conversion";
+export * from "./cookies";
+export * from "./credentials";
 export * from "./download";
 export * from "./history";
+export * from "./network-policy";
+export * from "./proxy";
+export * from "./queue";
+export * from "./scheduler";
+export * from "./subscriptions";
+export * from "./transfer";
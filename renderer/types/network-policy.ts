@@ -0,0 +1,16 @@
+export type NetworkSource =
+  | "link detection"
+  | "link grabber"
+  | "redirect"
+  | "checksum"
+  | "aria2"
+  | "yt-dlp";
+
+export interface BlockedRequest {
+  url: string;
+  host: string;
+  address: string | null;
+  reason: string;
+  source: NetworkSource;
+  blockedAt: string;
+}
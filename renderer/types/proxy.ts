@@ -0,0 +1,5 @@
+export interface ProxyTestResult {
+  success: boolean;
+  latency: number | null; // ms
+  error: string | null;
+}
@@ -0,0 +1,14 @@
+export interface DownloadQueue {
+  id: string;
+  name: string;
+  maxConcurrent: number;
+  paused: boolean;
+}
+
+export interface QueueState {
+  queues: DownloadQueue[];
+  assignments: Record<string, string>; // downloadId -> queueId
+  order: string[]; // downloadIds, relative order within each queue
+}
+
+export const DEFAULT_QUEUE_ID = "main";
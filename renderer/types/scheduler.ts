@@ -0,0 +1,17 @@
+export type PostQueueAction = "none" | "quit" | "command";
+
+export interface DownloadSchedule {
+  enabled: boolean;
+  startTime: string; // "HH:MM" (24h)
+  stopTime: string | null;
+  days: number[]; // 0 (Sunday) - 6 (Saturday), empty = run once
+  scope: "all" | "selected";
+  downloadIds: string[];
+  postAction: PostQueueAction;
+  command: string;
+}
+
+export interface SchedulerState {
+  schedule: DownloadSchedule;
+  windowOpen: boolean;
+}
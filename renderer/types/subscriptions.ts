@@ -0,0 +1,39 @@
+export interface Subscription {
+  id: string;
+  url: string;
+  title: string;
+  quality: string;
+  format: string;
+  audioOnly: boolean;
+  outputPath: string; // "" = Playlists/<title> in the download folder
+  intervalMinutes: number;
+  enabled: boolean;
+  createdAt: string;
+  lastCheckedAt: string | null;
+  lastNewItems: number;
+  lastError: string | null;
+}
+
+export type NewSubscription = Pick<
+  Subscription,
+  "url" | "quality" | "format" | "audioOnly" | "outputPath" | "intervalMinutes"
+> & {
+  downloadExisting?: boolean;
+};
+
+export type SubscriptionChanges = Partial<
+  Pick<
+    Subscription,
+    | "quality"
+    | "format"
+    | "audioOnly"
+    | "outputPath"
+    | "intervalMinutes"
+    | "enabled"
+  >
+>;
+
+export interface SubscriptionState {
+  subscriptions: Subscription[];
+  checking: string[];
+}
@@ -0,0 +1,12 @@
+export type ExportFormat = "json" | "csv" | "urls";
+export type ExportScope = "history" | "queue" | "all";
+
+// "restore" adds history records back, "enqueue" downloads the URLs again
+export type ImportMode = "restore" | "enqueue";
+
+export interface ImportSummary {
+  restored: number;
+  queued: number;
+  skipped: number;
+  errors: string[];
+}
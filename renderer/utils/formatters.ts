@@ -13,6 +13,29 @@ export function formatBytes(bytes: number | null): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
 }
 
+/**
+ * Format a speed limit in bytes per second (0 = unlimited)
+ */
+export function formatSpeedLimit(bytesPerSecond: number): string {
+  if (!bytesPerSecond) return "Unlimited";
+  return `${formatBytes(bytesPerSecond)}/s`;
+}
+
+/**
+ * Parse a rate limit such as "1048576", "500K" or "2M" into bytes per second
+ */
+export function parseRateLimit(limit: string | undefined | null): number {
+  const match = limit?.trim().match(/^(\d+(?:\.\d+)?)\s*([KMG])?$/i);
+  if (!match) return 0;
+  const units: Record<string, number> = {
+    K: 1024,
+    M: 1024 * 1024,
+    G: 1024 * 1024 * 1024,
+  };
+  const unit = match[2] ? units[match[2].toUpperCase()] : 1;
+  return Math.round(parseFloat(match[1]) * unit);
+}
+
 /**
  * Format duration in seconds to readable string
  */
@@ -29,6 +52,17 @@ export function formatDuration(seconds: number | null): string {
   return `${mins}:${secs.toString().padStart(2, "0")}`;
 }
 
+/**
+ * Parse "1:02:03", "12:30" or "90" into seconds
+ */
+export function parseDuration(value: string): number | null {
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
 /**
  * Format view count
  */
@@ -276,3 +310,52 @@ export const AUDIO_FORMAT_OPTIONS = [
   { key: "opus", label: "Opus" },
   { key: "flac", label: "FLAC (Lossless)" },
 ];
+
+/**
+ * Subtitle format options, "original" keeps what the site serves
+ */
+export const SUBTITLE_FORMAT_OPTIONS = [
+  { key: "original", label: "Keep original" },
+  { key: "srt", label: "SRT" },
+  { key: "vtt", label: "WebVTT" },
+  { key: "ass", label: "ASS" },
+];
+
+/**
+ * How often a subscription looks for new videos, in minutes
+ */
+export const SUBSCRIPTION_INTERVAL_OPTIONS = [
+  { key: "15", label: "Every 15 minutes" },
+  { key: "30", label: "Every 30 minutes" },
+  { key: "60", label: "Every hour" },
+  { key: "180", label: "Every 3 hours" },
+  { key: "360", label: "Every 6 hours" },
+  { key: "720", label: "Every 12 hours" },
+  { key: "1440", label: "Once a day" },
+];
+
+/**
+ * Languages to pre-select from a video's subtitle tracks, in the order of
+ * the preferred list; "en" also matches regional tracks such as "en-US"
+ */
+export function pickSubtitleLanguages(
+  subtitles: VideoInfo["subtitles"],
+  preferred: string[],
+  allowAutoGenerated: boolean
+): string[] {
+  const usable = Object.keys(subtitles || {}).filter(
+    (lang) =>
+      allowAutoGenerated ||
+      subtitles[lang].some((track) => !track.isAutoGenerated)
+  );
+  const picked: string[] = [];
+  for (const code of preferred) {
+    const match =
+      usable.find((lang) => lang.toLowerCase() === code.toLowerCase()) ||
+      usable.find((lang) =>
+        lang.toLowerCase().startsWith(`${code.toLowerCase()}-`)
+      );
+    if (match && !picked.includes(match)) picked.push(match);
+  }
+  return picked;
+}